@@ -1,10 +1,13 @@
 import * as assert from 'assert';
 import * as utils from '../utils.js';
+import * as nativeArchiver from '../nativearchiver.js';
 import * as ttm from 'azure-pipelines-task-lib/mock-test';
+import crypto = require('crypto');
 import fs = require('fs');
 import os = require('os');
 import path = require('path');
 import tl = require('azure-pipelines-task-lib/task');
+import zlib = require('zlib');
 
 describe('ArchiveFiles L0 Suite', function () {
     function runValidations(validator: () => void, tr, done) {
@@ -76,6 +79,34 @@ describe('ArchiveFiles L0 Suite', function () {
                 assert(tr.stdout.indexOf('adding: test_folder/b/abc.txt (') > -1, 'Should have found 6 items to compress');
             }
             assert(fs.existsSync(expectedArchivePath), `Should have successfully created the archive at ${expectedArchivePath}, instead directory contents are ${fs.readdirSync(path.dirname(expectedArchivePath))}`);
+            assert(tr.stdout.indexOf('##vso[task.setvariable variable=archiveEntryCount;issecret=false;]6') > -1, 'Should have set the entry count variable');
+        }, tr, done);
+    });
+
+    it('Successfully creates a zip of the files matching the contents patterns', function(done: MochaDone) {
+        this.timeout(5000);
+        process.env['archiveType'] = 'zip';
+        process.env['archiveFile'] = 'myFilteredExternalZip.zip';
+        process.env['includeRootFolder'] = 'true';
+        process.env['contents'] = '**\n!**/b/**';
+        const expectedArchivePath = path.join(__dirname, 'test_output', 'myFilteredExternalZip.zip');
+
+        let tp: string = path.join(__dirname, 'L0CreateArchive.js');
+        let tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        try {
+            tr.run();
+        }
+        finally {
+            delete process.env['contents'];
+        }
+
+        runValidations(() => {
+            assert(tr.succeeded, 'Should have succeeded');
+            let archive: Buffer = fs.readFileSync(expectedArchivePath);
+            assert(archive.indexOf('test_folder/a/abc.txt') > -1, 'Should have added a/abc.txt');
+            assert(archive.indexOf('test_folder/a/def.txt') > -1, 'Should have added a/def.txt');
+            assert(archive.indexOf('test_folder/b/') == -1, 'Should have excluded folder b');
+            assert(tr.stdout.indexOf('##vso[task.setvariable variable=archiveEntryCount;issecret=false;]2') > -1, 'Should have set the entry count variable');
         }, tr, done);
     });
 
@@ -100,6 +131,118 @@ describe('ArchiveFiles L0 Suite', function () {
         }, tr, done);
     });
 
+    function createNativeArchive(archiveType: string, archiveFile: string): ttm.MockTestRunner {
+        process.env['archiveType'] = archiveType;
+        process.env['archiveFile'] = archiveFile;
+        process.env['includeRootFolder'] = 'true';
+        process.env['useNativeArchiver'] = 'true';
+        try {
+            let tp: string = path.join(__dirname, 'L0CreateArchive.js');
+            let tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            tr.run();
+            return tr;
+        }
+        finally {
+            delete process.env['useNativeArchiver'];
+        }
+    }
+
+    function getHash(file: string): string {
+        return crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+    }
+
+    it('Successfully creates a reproducible zip with the native archiver', function(done: MochaDone) {
+        this.timeout(10000);
+        const expectedArchivePath = path.join(__dirname, 'test_output', 'myNativeZip.zip');
+
+        let tr: ttm.MockTestRunner = createNativeArchive('zip', 'myNativeZip.zip');
+        let firstHash: string = fs.existsSync(expectedArchivePath) ? getHash(expectedArchivePath) : null;
+        let secondTr: ttm.MockTestRunner = createNativeArchive('zip', 'myNativeZip.zip');
+
+        runValidations(() => {
+            assert(tr.succeeded && secondTr.succeeded, 'Should have succeeded');
+            assert(tr.stdout.indexOf('Creating archive with the native archiver') > -1, 'Should have used the native archiver');
+            assert(fs.existsSync(expectedArchivePath), `Should have successfully created the archive at ${expectedArchivePath}`);
+            let archive: Buffer = fs.readFileSync(expectedArchivePath);
+            assert(archive.readUInt32LE(0) == 0x04034b50, 'Should have created a zip archive');
+            ['test_folder/', 'test_folder/a/', 'test_folder/a/abc.txt', 'test_folder/a/def.txt', 'test_folder/b/', 'test_folder/b/abc.txt'].forEach((name) => {
+                assert(archive.indexOf(name) > -1, `Should have added ${name}`);
+            });
+            assert(getHash(expectedArchivePath) == firstHash, 'Should have created an identical archive from identical files');
+        }, tr, done);
+    });
+
+    it('Successfully creates a reproducible tar.gz with the native archiver', function(done: MochaDone) {
+        this.timeout(10000);
+        const expectedArchivePath = path.join(__dirname, 'test_output', 'myNativeTar.tar.gz');
+
+        let tr: ttm.MockTestRunner = createNativeArchive('tar', 'myNativeTar.tar.gz');
+        let firstHash: string = fs.existsSync(expectedArchivePath) ? getHash(expectedArchivePath) : null;
+        let secondTr: ttm.MockTestRunner = createNativeArchive('tar', 'myNativeTar.tar.gz');
+
+        runValidations(() => {
+            assert(tr.succeeded && secondTr.succeeded, 'Should have succeeded');
+            assert(fs.existsSync(expectedArchivePath), `Should have successfully created the archive at ${expectedArchivePath}`);
+            let tar: Buffer = zlib.gunzipSync(fs.readFileSync(expectedArchivePath));
+            assert(tar.toString('ascii', 257, 262) == 'ustar', 'Should have created a tar archive');
+            assert(tar.toString('utf8', 0, 12) == 'test_folder/', 'Should have sorted the entries');
+            assert(tar.indexOf('test_folder/b/abc.txt') > tar.indexOf('test_folder/a/def.txt'), 'Should have sorted the entries');
+            assert(getHash(expectedArchivePath) == firstHash, 'Should have created an identical archive from identical files');
+        }, tr, done);
+    });
+
+    it('Native archiver adds files to an existing archive', function(done: MochaDone) {
+        this.timeout(5000);
+        const archivePath = path.join(__dirname, 'test_output', 'myNativeAppend.tar');
+        const rootDirectory = path.join(__dirname, 'test_folder');
+
+        nativeArchiver.createZipArchive(archivePath + '.zip', nativeArchiver.getArchiveEntries(rootDirectory, ['a']), false)
+            .then(() => nativeArchiver.createZipArchive(archivePath + '.zip', nativeArchiver.getArchiveEntries(rootDirectory, ['b']), true))
+            .then(() => {
+                let zip: Buffer = fs.readFileSync(archivePath + '.zip');
+                assert(zip.readUInt16LE(zip.length - 12) == 5, 'Should have retained the entries of the existing zip');
+                assert(!fs.existsSync(archivePath + '.zip.partial'), 'Should have replaced the existing zip');
+
+                return nativeArchiver.createTarArchive(archivePath, nativeArchiver.getArchiveEntries(rootDirectory, ['a']), false, false);
+            })
+            .then(() => nativeArchiver.createTarArchive(archivePath, nativeArchiver.getArchiveEntries(rootDirectory, ['b', 'a']), false, true))
+            .then(() => {
+                let tar: Buffer = fs.readFileSync(archivePath);
+                assert(tar.indexOf('a/abc.txt') > -1 && tar.indexOf('b/abc.txt') > -1, 'Should have added the files to the existing tar');
+                assert(tar.indexOf('a/abc.txt') == tar.lastIndexOf('a/abc.txt'), 'Should have replaced entries with the same name');
+                done();
+            })
+            .catch(done);
+    });
+
+    it('Archives only the files matching the contents patterns and creates a checksum file', function(done: MochaDone) {
+        this.timeout(5000);
+        process.env['contents'] = '**\n!**/b/**';
+        process.env['createChecksumFile'] = 'true';
+        const expectedArchivePath = path.join(__dirname, 'test_output', 'myFilteredZip.zip');
+
+        let tr: ttm.MockTestRunner;
+        try {
+            tr = createNativeArchive('zip', 'myFilteredZip.zip');
+        }
+        finally {
+            delete process.env['contents'];
+            delete process.env['createChecksumFile'];
+        }
+
+        runValidations(() => {
+            assert(tr.succeeded, 'Should have succeeded');
+            let archive: Buffer = fs.readFileSync(expectedArchivePath);
+            assert(archive.indexOf('test_folder/a/abc.txt') > -1, 'Should have added a/abc.txt');
+            assert(archive.indexOf('test_folder/a/def.txt') > -1, 'Should have added a/def.txt');
+            assert(archive.indexOf('test_folder/b/') == -1, 'Should have excluded folder b');
+            let hash: string = getHash(expectedArchivePath);
+            assert.equal(fs.readFileSync(expectedArchivePath + '.sha256', 'utf8'), `${hash}  myFilteredZip.zip\n`, 'Should have created the checksum file');
+            assert(tr.stdout.indexOf(`##vso[task.setvariable variable=archiveHash;issecret=false;]${hash}`) > -1, 'Should have set the archive hash variable');
+            assert(tr.stdout.indexOf('##vso[task.setvariable variable=archiveEntryCount;issecret=false;]2') > -1, 'Should have set the entry count variable');
+        }, tr, done);
+    });
+
 // These tests rely on 7z which isnt present on macOS
 if (process.platform.indexOf('darwin') < 0) {
     it('Successfully creates a 7z', function(done: MochaDone) {
@@ -12,5 +12,8 @@ tmr.setInput('archiveType', process.env['archiveType']);
 tmr.setInput('archiveFile', path.join('test_output', process.env['archiveFile']));
 tmr.setInput('replaceExistingArchive', 'true');
 tmr.setInput('tarCompression', 'gz');
+tmr.setInput('useNativeArchiver', process.env['useNativeArchiver'] || 'false');
+tmr.setInput('contents', process.env['contents'] || '**');
+tmr.setInput('createChecksumFile', process.env['createChecksumFile'] || 'false');
 
 tmr.run(true);
\ No newline at end of file
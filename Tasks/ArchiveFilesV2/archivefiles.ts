@@ -4,6 +4,7 @@ import tr = require('azure-pipelines-task-lib/toolrunner');
 import fs = require('fs');
 import stream = require("stream");
 import utils = require('./utils.js');
+import nativeArchiver = require('./nativearchiver.js');
 
 var repoRoot: string = tl.getVariable('System.DefaultWorkingDirectory');
 
@@ -14,6 +15,10 @@ var archiveFile: string = path.normalize(tl.getPathInput('archiveFile', true, fa
 var replaceExistingArchive: boolean = tl.getBoolInput('replaceExistingArchive', true);
 var verbose: boolean = tl.getBoolInput('verbose', false);
 var quiet: boolean = tl.getBoolInput('quiet', false);
+var useNativeArchiver: boolean = tl.getBoolInput('useNativeArchiver', false);
+// contents is a multiline input containing glob patterns
+var contents: string[] = tl.getDelimitedInput('contents', '\n', false);
+var createChecksumFile: boolean = tl.getBoolInput('createChecksumFile', false);
 
 tl.debug('repoRoot: ' + repoRoot);
 
@@ -39,6 +44,10 @@ function getSevenZipLocation(): string {
 }
 
 function findFiles(): string[] {
+    if (isFilterSpecified()) {
+        return findMatchingFiles();
+    }
+
     if (includeRootFolder) {
         return [path.basename(rootFolderOrFile)];
     } else {
@@ -51,6 +60,39 @@ function findFiles(): string[] {
     }
 }
 
+function isFilterSpecified(): boolean {
+    return contents.length > 0 && !(contents.length == 1 && contents[0].trim() == '**');
+}
+
+// lists the files under rootFolderOrFile matching the contents patterns, relative to the archive root directory
+function findMatchingFiles(): string[] {
+    var patternRoot: string = tl.stats(rootFolderOrFile).isDirectory() ? rootFolderOrFile : path.dirname(rootFolderOrFile);
+    var allPaths: string[] = tl.find(rootFolderOrFile);
+    // directories can have [] in them, and they have special meanings as a pattern, so escape them
+    var matchedPaths: string[] = tl.match(allPaths, contents, patternRoot.replace(/\[/g, '[[]'));
+    var archiveRootDirectory: string = getArchiveRootDirectory();
+    return matchedPaths
+        .filter(function(itemPath) {
+            return !tl.stats(itemPath).isDirectory();
+        })
+        .map(function(itemPath) {
+            return path.relative(archiveRootDirectory, itemPath);
+        });
+}
+
+// counts the files and directories the external archivers add for the files returned by findFiles
+function countArchiveEntries(files: string[]): number {
+    if (isFilterSpecified()) {
+        // the matching files are listed one by one, and their parent directories are not added
+        return files.length;
+    }
+
+    var archiveRootDirectory: string = getArchiveRootDirectory();
+    return files.reduce(function(count, file) {
+        return count + tl.find(path.join(archiveRootDirectory, file)).length;
+    }, 0);
+}
+
 function makeAbsolute(normalizedPath: string): string {
     tl.debug('makeAbsolute:' + normalizedPath);
 
@@ -84,12 +126,12 @@ function createFileList(files: string[]): string {
     return file;
 }
 
-function getOptions(): tr.IExecSyncOptions {
+// the directory the files returned by findFiles are relative to
+function getArchiveRootDirectory(): string {
     var dirName: string;
     if (includeRootFolder) {
         dirName = path.dirname(rootFolderOrFile);
         tl.debug("cwd (include root folder)= " + dirName);
-        return { cwd: dirName, outStream: process.stdout as stream.Writable, errStream: process.stderr as stream.Writable };
     } else {
         var stats: tl.FsStats = tl.stats(rootFolderOrFile);
         if (stats.isFile()) {
@@ -98,8 +140,12 @@ function getOptions(): tr.IExecSyncOptions {
             dirName = rootFolderOrFile;
         }
         tl.debug("cwd (exclude root folder)= " + dirName);
-        return { cwd: dirName, outStream: process.stdout as stream.Writable, errStream: process.stderr as stream.Writable };
     }
+    return dirName;
+}
+
+function getOptions(): tr.IExecSyncOptions {
+    return { cwd: getArchiveRootDirectory(), outStream: process.stdout as stream.Writable, errStream: process.stderr as stream.Writable };
 }
 
 function sevenZipArchive(archive: string, compression: string, files: string[]) {
@@ -146,7 +192,7 @@ function mapSevenZipCompressionLevel(sevenZipCompression: string) {
 }
 
 // linux & mac only
-function zipArchive(archive: string, files: string[]) {
+async function zipArchive(archive: string, files: string[]): Promise<void> {
     tl.debug('Creating archive with zip: ' + archive);
     if (typeof xpZipLocation == "undefined") {
         xpZipLocation = tl.which('zip', true);
@@ -161,11 +207,19 @@ function zipArchive(archive: string, files: string[]) {
         zip.arg('-q');
     }
     zip.arg(archive);
+    // the files are read from a file list piped to stdin, since there can be more than fit on the command line
+    zip.arg('-@');
     for (var i = 0; i < files.length; i++) {
-        zip.arg(files[i]);
         console.log(tl.loc('Filename', files[i]));
     }
-    return handleExecResult(zip.execSync(getOptions()), archive);
+
+    var cat = tl.tool(tl.which('cat', true));
+    cat.arg(createFileList(files));
+    cat.pipeExecOutputToTool(zip);
+    var options = <tr.IExecOptions>getOptions();
+    options.ignoreReturnCode = true;
+    var code: number = await cat.exec(options);
+    return handleExecResult({ code: code }, archive);
 }
 
 // linux & mac only
@@ -188,12 +242,101 @@ function tarArchive(archive: string, compression: string, files: string[]) {
     }
     tar.arg('-f');
     tar.arg(archive);
-    for (var i = 0; i < files.length; i++) {
-        tar.arg(files[i]);
+    if (isFilterSpecified()) {
+        // the matching files are passed in a file list, since there can be more than fit on the command line
+        tar.arg('-T');
+        tar.arg(createFileList(files));
+    } else {
+        for (var i = 0; i < files.length; i++) {
+            tar.arg(files[i]);
+        }
     }
     return handleExecResult(tar.execSync(getOptions()), archive);
 }
 
+/**
+ * The native archiver creates zip, tar and tar.gz archives without external tools. The archives are
+ * reproducible: entries are sorted and get a fixed timestamp, so identical files yield identical archives.
+ */
+function isNativeArchiverSupported(): boolean {
+    if (archiveType == "default" || archiveType == "zip") {
+        return true;
+    }
+    if (archiveType == "tar") {
+        var tarCompression: string = tl.getInput('tarCompression', true);
+        return tarCompression == "none" || tarCompression == "gz";
+    }
+    return false;
+}
+
+function shouldUseNativeArchiver(): boolean {
+    if (useNativeArchiver) {
+        if (!isNativeArchiverSupported()) {
+            failTask(tl.loc('NativeArchiverUnsupported', archiveType, tl.getInput('tarCompression', false)));
+        }
+        return true;
+    }
+
+    // fall back to the native archiver when zip or tar is not installed, e.g. in minimal container images
+    if (!win && isNativeArchiverSupported()) {
+        var tool: string = archiveType == "tar" ? "tar" : "zip";
+        if (!tl.which(tool, false)) {
+            console.log(tl.loc('ArchiverNotFoundUsingNative', tool));
+            return true;
+        }
+    }
+    return false;
+}
+
+async function nativeArchive(archive: string, entries: nativeArchiver.ArchiveEntry[]): Promise<void> {
+    tl.debug('Creating archive with the native archiver: ' + archive);
+    if (!quiet || verbose) {
+        entries.forEach(function(entry) {
+            console.log(tl.loc('Filename', entry.name));
+        });
+    }
+
+    var append: boolean = !replaceExistingArchive && tl.exist(archive);
+    if (archiveType == "tar") {
+        await nativeArchiver.createTarArchive(archive, entries, tl.getInput('tarCompression', true) == "gz", append);
+    } else {
+        await nativeArchiver.createZipArchive(archive, entries, append);
+    }
+}
+
+// the external archivers append the extension of the archive type when the archive file has none
+function getCreatedArchiveFile(): string {
+    var candidates: string[] = [archiveFile].concat(['.zip', '.7z', '.wim', '.tar', '.gz', '.bz2', '.xz'].map(function(extension) {
+        return archiveFile + extension;
+    }));
+    for (var i = 0; i < candidates.length; i++) {
+        if (tl.exist(candidates[i]) && tl.stats(candidates[i]).isFile()) {
+            return candidates[i];
+        }
+    }
+    return null;
+}
+
+function publishArchiveHash(entryCount: number) {
+    var createdArchiveFile: string = getCreatedArchiveFile();
+    if (!createdArchiveFile) {
+        tl.warning(tl.loc('ArchiveFileNotFound', archiveFile));
+        return;
+    }
+
+    var hash: string = utils.computeSha256(createdArchiveFile);
+    console.log(tl.loc('ArchiveHash', createdArchiveFile, hash, entryCount));
+    tl.setVariable('archiveHash', hash);
+    tl.setVariable('archiveEntryCount', entryCount.toString());
+
+    if (createChecksumFile) {
+        // same format as the output of sha256sum, so that the archive can be verified with 'sha256sum -c'
+        var checksumFile: string = createdArchiveFile + '.sha256';
+        tl.writeFile(checksumFile, hash + '  ' + path.basename(createdArchiveFile) + '\n');
+        console.log(tl.loc('ChecksumFileCreated', checksumFile));
+    }
+}
+
 function handleExecResult(execResult, archive) {
     if (execResult.code != tl.TaskResult.Succeeded) {
         tl.debug('execResult: ' + JSON.stringify(execResult));
@@ -257,7 +400,7 @@ function computeTarName(archiveName: string): string {
     return lowerArchiveName + '.tar';
 }
 
-function createArchive(files: string[]) {
+async function createArchive(files: string[]): Promise<void> {
 
     if (win) { // windows only
         if (archiveType == "default" || archiveType == "zip") { //default is zip format
@@ -297,7 +440,7 @@ function createArchive(files: string[]) {
         }
     } else { // not windows
         if (archiveType == "default" || archiveType == "zip") { //default is zip format
-            zipArchive(archiveFile, files);
+            await zipArchive(archiveFile, files);
         } else if (archiveType == "tar") {
             var tarCompression: string = tl.getInput('tarCompression', true);
             var tarCompressionFlag;
@@ -317,7 +460,7 @@ function createArchive(files: string[]) {
     }
 }
 
-function doWork() {
+async function doWork() {
     try {
         tl.setResourcePath(path.join( __dirname, 'task.json'));
         // Find matching archive files
@@ -357,7 +500,18 @@ function doWork() {
             tl.mkdirP(destinationFolder);
         }
 
-        createArchive(files);
+        // the entries are listed and counted before the archive is created, in case the archive is created inside the root folder
+        var entryCount: number;
+        if (shouldUseNativeArchiver()) {
+            var entries: nativeArchiver.ArchiveEntry[] = nativeArchiver.getArchiveEntries(getArchiveRootDirectory(), files);
+            entryCount = entries.length;
+            await nativeArchive(archiveFile, entries);
+        } else {
+            entryCount = countArchiveEntries(files);
+            await createArchive(files);
+        }
+
+        publishArchiveHash(entryCount);
 
         tl.setResult(tl.TaskResult.Succeeded, 'Successfully created archive: ' + archiveFile);
     } catch (e) {
@@ -0,0 +1,799 @@
+import fs = require('fs');
+import path = require('path');
+import stream = require('stream');
+import zlib = require('zlib');
+import tl = require('azure-pipelines-task-lib/task');
+
+export interface ArchiveEntry {
+    // path of the entry inside the archive, always separated by '/'
+    name: string;
+    sourcePath: string;
+    isDirectory: boolean;
+    mode: number;
+    size: number;
+}
+
+// an entry read from an existing archive, which is copied to the new archive as is
+interface ExistingEntry {
+    name: string;
+    // the header and data of a tar entry
+    data?: Buffer;
+    // the location of the local header and data of a zip entry in the existing archive
+    offset?: number;
+    length?: number;
+    centralDirectoryRecord?: Buffer;
+}
+
+// the sizes and local header offset of a zip entry, which are stored in the zip64 extra field when they do not fit in 32 bits
+interface ZipEntryLocation {
+    size: number;
+    compressedSize: number;
+    offset: number;
+}
+
+const zipLocalFileHeaderSignature = 0x04034b50;
+const zipCentralDirectorySignature = 0x02014b50;
+const zipEndOfCentralDirectorySignature = 0x06054b50;
+const zip64EndOfCentralDirectorySignature = 0x06064b50;
+const zip64EndOfCentralDirectoryLocatorSignature = 0x07064b50;
+const zip64ExtraFieldId = 0x0001;
+const zipUtf8Flag = 0x0800;
+const zipVersion = 20;
+const zip64Version = 45;
+const zipMaxSize = 0xFFFFFFFF;
+const zipMaxEntries = 0xFFFF;
+const copyChunkSize = 64 * 1024;
+const tarBlockSize = 512;
+const tarMaxSize = 0o77777777777;
+
+let crcTable: number[];
+
+/**
+ * Lists the entries to archive for the given files, relative to the root directory.
+ * Directories are added recursively and the entries are sorted by name, so that the
+ * same input always produces the same archive.
+ *
+ * @param    rootDirectory  directory the files are relative to
+ * @param    files          files and directories to archive
+ */
+export function getArchiveEntries(rootDirectory: string, files: string[]): ArchiveEntry[] {
+    let entries: { [name: string]: ArchiveEntry } = {};
+    files.forEach((file: string) => {
+        tl.find(path.join(rootDirectory, file)).forEach((itemPath: string) => {
+            let stats: tl.FsStats = tl.stats(itemPath);
+            let name = path.relative(rootDirectory, itemPath).split(path.sep).join('/');
+            if (!name) {
+                return;
+            }
+
+            entries[name] = {
+                name: name,
+                sourcePath: itemPath,
+                isDirectory: stats.isDirectory(),
+                // only the executable bit is retained, since the other permissions depend on the umask of the agent
+                mode: stats.isDirectory() || (stats.mode & 0o111) ? 0o755 : 0o644,
+                size: stats.isDirectory() ? 0 : stats.size
+            };
+        });
+    });
+
+    return Object.keys(entries).sort(compareNames).map((name: string) => entries[name]);
+}
+
+/**
+ * Creates a zip archive with deflate compression. The files are streamed into the archive, and zip64
+ * records are written for entries and archives exceeding 4 GB or 65535 entries.
+ *
+ * @param    archive  archive file to create
+ * @param    entries  entries to add, see getArchiveEntries
+ * @param    append   when true, the entries of an existing archive are retained unless replaced by an entry with the same name
+ */
+export async function createZipArchive(archive: string, entries: ArchiveEntry[], append: boolean): Promise<void> {
+    let existingEntries: ExistingEntry[] = append && fs.existsSync(archive) ? readZipEntries(archive) : [];
+    let items = mergeEntries(entries.map((entry: ArchiveEntry) => entry.isDirectory ? entry.name + '/' : entry.name), entries, existingEntries);
+
+    // the existing entries are copied from the existing archive, so the new archive is written next to it
+    let outputFile = existingEntries.length > 0 ? archive + '.partial' : archive;
+    let existingArchiveFd = existingEntries.length > 0 ? fs.openSync(archive, 'r') : null;
+    let dosDateTime = toDosDateTime(getEntryTime());
+    let centralDirectory: Buffer[] = [];
+    let offset = 0;
+    let fd = fs.openSync(outputFile, 'w');
+    try {
+        for (let item of items) {
+            if (item.existingEntry) {
+                centralDirectory.push(relocateCentralDirectoryRecord(item.existingEntry.centralDirectoryRecord, offset));
+                if (copyRange(existingArchiveFd, item.existingEntry.offset, item.existingEntry.length, fd, offset) != item.existingEntry.length) {
+                    throw new Error(tl.loc('NativeArchiveInvalidExistingArchive', archive));
+                }
+                offset += item.existingEntry.length;
+                continue;
+            }
+
+            let written = await writeZipEntry(fd, offset, item.name, item.entry, dosDateTime);
+            centralDirectory.push(createCentralDirectoryRecord(item.name, item.entry, dosDateTime, written.method, written.crc, written.location));
+            offset += written.length;
+        }
+
+        let centralDirectoryOffset = offset;
+        centralDirectory.forEach((record: Buffer) => offset += writeBuffer(fd, record, offset));
+        writeEndOfCentralDirectory(fd, offset, items.length, centralDirectoryOffset, offset - centralDirectoryOffset);
+    }
+    finally {
+        fs.closeSync(fd);
+        if (existingArchiveFd != null) {
+            fs.closeSync(existingArchiveFd);
+        }
+    }
+
+    if (outputFile != archive) {
+        fs.renameSync(outputFile, archive);
+    }
+}
+
+/**
+ * Creates a ustar archive, optionally compressed with gzip.
+ *
+ * @param    archive   archive file to create
+ * @param    entries   entries to add, see getArchiveEntries
+ * @param    compress  whether to compress the archive with gzip
+ * @param    append    when true, the entries of an existing archive are retained unless replaced by an entry with the same name
+ */
+export async function createTarArchive(archive: string, entries: ArchiveEntry[], compress: boolean, append: boolean): Promise<void> {
+    let existingEntries: ExistingEntry[] = append && fs.existsSync(archive) ? readTarEntries(archive, compress) : [];
+    let items = mergeEntries(entries.map((entry: ArchiveEntry) => entry.isDirectory ? entry.name + '/' : entry.name), entries, existingEntries);
+    let mtime = Math.floor(getEntryTime().getTime() / 1000);
+
+    let output = fs.createWriteStream(archive);
+    let target: NodeJS.WritableStream = output;
+    let gzip: zlib.Gzip;
+    if (compress) {
+        gzip = zlib.createGzip();
+        gzip.pipe(new GzipHeaderNormalizer()).pipe(output);
+        target = gzip;
+    }
+
+    // rejected when writing the archive fails, so that pending writes do not wait for a drain forever
+    let failed = new Promise<void>((resolve, reject) => {
+        output.on('error', reject);
+        if (gzip) {
+            gzip.on('error', reject);
+        }
+    });
+    let closed = Promise.race([failed, new Promise<void>((resolve) => output.on('close', () => resolve()))]);
+
+    try {
+        for (let item of items) {
+            if (item.existingEntry) {
+                await writeToStream(target, item.existingEntry.data, failed);
+                continue;
+            }
+
+            let entry = item.entry;
+            await writeToStream(target, createTarHeader(item.name, entry.mode, entry.size, mtime, entry.isDirectory ? '5' : '0'), failed);
+            if (!entry.isDirectory) {
+                await writeFileToStream(target, entry.sourcePath, entry.size, failed);
+            }
+        }
+
+        // an archive ends with two zero filled blocks
+        await writeToStream(target, Buffer.alloc(2 * tarBlockSize), failed);
+    }
+    finally {
+        target.end();
+        await closed;
+    }
+}
+
+function mergeEntries(names: string[], entries: ArchiveEntry[], existingEntries: ExistingEntry[]): { name: string, entry?: ArchiveEntry, existingEntry?: ExistingEntry }[] {
+    let items: { [name: string]: { name: string, entry?: ArchiveEntry, existingEntry?: ExistingEntry } } = {};
+    existingEntries.forEach((existingEntry: ExistingEntry) => items[existingEntry.name] = { name: existingEntry.name, existingEntry: existingEntry });
+    entries.forEach((entry: ArchiveEntry, index: number) => items[names[index]] = { name: names[index], entry: entry });
+    return Object.keys(items).sort(compareNames).map((name: string) => items[name]);
+}
+
+function compareNames(name1: string, name2: string): number {
+    return name1 < name2 ? -1 : (name1 > name2 ? 1 : 0);
+}
+
+/**
+ * Returns the timestamp applied to all entries. SOURCE_DATE_EPOCH is honored, which is the common
+ * convention for reproducible builds. Otherwise the earliest timestamp supported by zip is used.
+ */
+function getEntryTime(): Date {
+    let minimumTime = Date.UTC(1980, 0, 1);
+    let sourceDateEpoch = parseInt(process.env['SOURCE_DATE_EPOCH']);
+    return new Date(isNaN(sourceDateEpoch) ? minimumTime : Math.max(sourceDateEpoch * 1000, minimumTime));
+}
+
+function toDosDateTime(time: Date): { date: number, time: number } {
+    return {
+        date: ((time.getUTCFullYear() - 1980) << 9) | ((time.getUTCMonth() + 1) << 5) | time.getUTCDate(),
+        time: (time.getUTCHours() << 11) | (time.getUTCMinutes() << 5) | Math.floor(time.getUTCSeconds() / 2)
+    };
+}
+
+function crc32(data: Buffer, previousCrc: number = 0): number {
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = (previousCrc ^ 0xFFFFFFFF) >>> 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function writeBuffer(fd: number, buffer: Buffer, position: number): number {
+    let written = 0;
+    while (written < buffer.length) {
+        written += fs.writeSync(fd, buffer, written, buffer.length - written, position + written);
+    }
+
+    return buffer.length;
+}
+
+function readBuffer(fd: number, position: number, length: number): Buffer {
+    let buffer = Buffer.alloc(length);
+    let bytesRead = 0;
+    while (bytesRead < length) {
+        let chunkLength = fs.readSync(fd, buffer, bytesRead, length - bytesRead, position + bytesRead);
+        if (chunkLength == 0) {
+            return buffer.slice(0, bytesRead);
+        }
+        bytesRead += chunkLength;
+    }
+
+    return buffer;
+}
+
+/**
+ * Copies a range of one file to another in chunks and returns the number of bytes copied,
+ * which is less than the given length when the source ends before.
+ */
+function copyRange(sourceFd: number, sourcePosition: number, length: number, targetFd: number, targetPosition: number): number {
+    let copied = 0;
+    while (copied < length) {
+        let chunk = readBuffer(sourceFd, sourcePosition + copied, Math.min(length - copied, copyChunkSize));
+        if (chunk.length == 0) {
+            break;
+        }
+        copied += writeBuffer(targetFd, chunk, targetPosition + copied);
+    }
+
+    return copied;
+}
+
+function writeUInt64LE(buffer: Buffer, value: number, offset: number): void {
+    buffer.writeUInt32LE(value % 0x100000000, offset);
+    buffer.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+function readUInt64LE(buffer: Buffer, offset: number): number {
+    return buffer.readUInt32LE(offset + 4) * 0x100000000 + buffer.readUInt32LE(offset);
+}
+
+/**
+ * Writes the local header and data of the entry at the given offset, and returns the number of bytes written.
+ * Files are deflated while they are read, and stored instead when they do not compress.
+ */
+async function writeZipEntry(fd: number, offset: number, name: string, entry: ArchiveEntry, dosDateTime: { date: number, time: number }): Promise<{ method: number, crc: number, length: number, location: ZipEntryLocation }> {
+    let nameBuffer = Buffer.from(name, 'utf8');
+    // the sizes in the local header are only known after the data is written, so the zip64 extra field is
+    // reserved based on the size of the file, which the size of the stored data never exceeds
+    let isZip64 = entry.size >= zipMaxSize;
+    let dataOffset = offset + 30 + nameBuffer.length + (isZip64 ? 20 : 0);
+    let method = 0;
+    let crc = 0;
+    let compressedSize = 0;
+    if (!entry.isDirectory) {
+        let deflated = await deflateFile(entry.sourcePath, fd, dataOffset);
+        if (deflated.size != entry.size) {
+            throw new Error(tl.loc('NativeArchiveFileChanged', entry.sourcePath));
+        }
+
+        method = 8;
+        crc = deflated.crc;
+        compressedSize = deflated.compressedSize;
+        if (compressedSize >= entry.size) {
+            method = 0;
+            compressedSize = entry.size;
+            let sourceFd = fs.openSync(entry.sourcePath, 'r');
+            try {
+                if (copyRange(sourceFd, 0, entry.size, fd, dataOffset) != entry.size) {
+                    throw new Error(tl.loc('NativeArchiveFileChanged', entry.sourcePath));
+                }
+            }
+            finally {
+                fs.closeSync(sourceFd);
+            }
+            fs.ftruncateSync(fd, dataOffset + entry.size);
+        }
+    }
+
+    let localHeader = Buffer.alloc(dataOffset - offset);
+    localHeader.writeUInt32LE(zipLocalFileHeaderSignature, 0);
+    localHeader.writeUInt16LE(isZip64 ? zip64Version : zipVersion, 4);
+    localHeader.writeUInt16LE(zipUtf8Flag, 6);
+    localHeader.writeUInt16LE(method, 8);
+    localHeader.writeUInt16LE(dosDateTime.time, 10);
+    localHeader.writeUInt16LE(dosDateTime.date, 12);
+    localHeader.writeUInt32LE(crc, 14);
+    localHeader.writeUInt32LE(isZip64 ? zipMaxSize : compressedSize, 18);
+    localHeader.writeUInt32LE(isZip64 ? zipMaxSize : entry.size, 22);
+    localHeader.writeUInt16LE(nameBuffer.length, 26);
+    localHeader.writeUInt16LE(isZip64 ? 20 : 0, 28);
+    nameBuffer.copy(localHeader, 30);
+    if (isZip64) {
+        localHeader.writeUInt16LE(zip64ExtraFieldId, 30 + nameBuffer.length);
+        localHeader.writeUInt16LE(16, 32 + nameBuffer.length);
+        writeUInt64LE(localHeader, entry.size, 34 + nameBuffer.length);
+        writeUInt64LE(localHeader, compressedSize, 42 + nameBuffer.length);
+    }
+    writeBuffer(fd, localHeader, offset);
+
+    return {
+        method: method,
+        crc: crc,
+        length: localHeader.length + compressedSize,
+        location: { size: entry.size, compressedSize: compressedSize, offset: offset }
+    };
+}
+
+function deflateFile(file: string, fd: number, position: number): Promise<{ crc: number, size: number, compressedSize: number }> {
+    return new Promise((resolve, reject) => {
+        let crc = 0;
+        let size = 0;
+        let compressedSize = 0;
+        let input = fs.createReadStream(file);
+        let deflate = zlib.createDeflateRaw();
+        let fail = (error: Error) => {
+            input.destroy();
+            reject(error);
+        };
+
+        input.on('error', fail);
+        deflate.on('error', fail);
+        input.on('data', (chunk: Buffer) => {
+            crc = crc32(chunk, crc);
+            size += chunk.length;
+        });
+        deflate.on('data', (chunk: Buffer) => {
+            try {
+                compressedSize += writeBuffer(fd, chunk, position + compressedSize);
+            }
+            catch (error) {
+                deflate.removeAllListeners('data');
+                fail(error);
+            }
+        });
+        deflate.on('end', () => resolve({ crc: crc, size: size, compressedSize: compressedSize }));
+        input.pipe(deflate);
+    });
+}
+
+function createCentralDirectoryRecord(name: string, entry: ArchiveEntry, dosDateTime: { date: number, time: number }, method: number, crc: number, location: ZipEntryLocation): Buffer {
+    let nameBuffer = Buffer.from(name, 'utf8');
+    let header = Buffer.alloc(46);
+    header.writeUInt32LE(zipCentralDirectorySignature, 0);
+    // made by unix, so that the external attributes hold the file mode
+    header.writeUInt16LE((3 << 8) | zipVersion, 4);
+    header.writeUInt16LE(zipVersion, 6);
+    header.writeUInt16LE(zipUtf8Flag, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(dosDateTime.time, 12);
+    header.writeUInt16LE(dosDateTime.date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt16LE(nameBuffer.length, 28);
+    header.writeUInt32LE((((entry.isDirectory ? 0o040000 : 0o100000) | entry.mode) << 16 | (entry.isDirectory ? 0x10 : 0)) >>> 0, 38);
+    return buildCentralDirectoryRecord(header, nameBuffer, Buffer.alloc(0), Buffer.alloc(0), location);
+}
+
+/**
+ * Assembles a central directory record, moving the sizes and offset that do not fit in 32 bits to the zip64 extra field.
+ *
+ * @param    header       the fixed part of the record, of which the sizes, offset and extra field length are set here
+ * @param    extraFields  the extra fields of the entry other than the zip64 extra field
+ */
+function buildCentralDirectoryRecord(header: Buffer, name: Buffer, extraFields: Buffer, comment: Buffer, location: ZipEntryLocation): Buffer {
+    let zip64Values = [location.size, location.compressedSize, location.offset].filter((value: number) => value >= zipMaxSize);
+    let zip64ExtraField = Buffer.alloc(zip64Values.length > 0 ? 4 + 8 * zip64Values.length : 0);
+    if (zip64Values.length > 0) {
+        zip64ExtraField.writeUInt16LE(zip64ExtraFieldId, 0);
+        zip64ExtraField.writeUInt16LE(8 * zip64Values.length, 2);
+        zip64Values.forEach((value: number, index: number) => writeUInt64LE(zip64ExtraField, value, 4 + 8 * index));
+    }
+
+    let record = Buffer.concat([header, name, zip64ExtraField, extraFields, comment]);
+    record.writeUInt32LE(Math.min(location.compressedSize, zipMaxSize), 20);
+    record.writeUInt32LE(Math.min(location.size, zipMaxSize), 24);
+    record.writeUInt16LE(zip64ExtraField.length + extraFields.length, 30);
+    record.writeUInt32LE(Math.min(location.offset, zipMaxSize), 42);
+    if (zip64Values.length > 0) {
+        record.writeUInt16LE(Math.max(record.readUInt16LE(6), zip64Version), 6);
+    }
+
+    return record;
+}
+
+/**
+ * Returns the central directory record of an existing entry, with the offset of its local header moved to the given offset.
+ */
+function relocateCentralDirectoryRecord(record: Buffer, offset: number): Buffer {
+    let parsedRecord = parseCentralDirectoryRecord(record, 0);
+    parsedRecord.location.offset = offset;
+    return buildCentralDirectoryRecord(Buffer.from(record.slice(0, 46)), parsedRecord.name, parsedRecord.extraFields, parsedRecord.comment, parsedRecord.location);
+}
+
+function parseCentralDirectoryRecord(buffer: Buffer, position: number): { length: number, name: Buffer, extraFields: Buffer, comment: Buffer, location: ZipEntryLocation } {
+    let nameLength = buffer.readUInt16LE(position + 28);
+    let extraFieldsLength = buffer.readUInt16LE(position + 30);
+    let commentLength = buffer.readUInt16LE(position + 32);
+    let extraFieldsStart = position + 46 + nameLength;
+    let location: ZipEntryLocation = {
+        size: buffer.readUInt32LE(position + 24),
+        compressedSize: buffer.readUInt32LE(position + 20),
+        offset: buffer.readUInt32LE(position + 42)
+    };
+
+    // the zip64 extra field is dropped, since it is written again from the location
+    let extraFields: Buffer[] = [];
+    let extraFieldPosition = extraFieldsStart;
+    while (extraFieldPosition + 4 <= extraFieldsStart + extraFieldsLength) {
+        let id = buffer.readUInt16LE(extraFieldPosition);
+        let dataLength = buffer.readUInt16LE(extraFieldPosition + 2);
+        if (id == zip64ExtraFieldId) {
+            // the field holds the values which are set to the maximum in the record, in this order
+            let valuePosition = extraFieldPosition + 4;
+            ['size', 'compressedSize', 'offset'].forEach((key: string) => {
+                if (location[key] == zipMaxSize && valuePosition + 8 <= extraFieldPosition + 4 + dataLength) {
+                    location[key] = readUInt64LE(buffer, valuePosition);
+                    valuePosition += 8;
+                }
+            });
+        }
+        else {
+            extraFields.push(buffer.slice(extraFieldPosition, extraFieldPosition + 4 + dataLength));
+        }
+        extraFieldPosition += 4 + dataLength;
+    }
+
+    return {
+        length: 46 + nameLength + extraFieldsLength + commentLength,
+        name: buffer.slice(position + 46, extraFieldsStart),
+        extraFields: Buffer.concat(extraFields),
+        comment: buffer.slice(extraFieldsStart + extraFieldsLength, extraFieldsStart + extraFieldsLength + commentLength),
+        location: location
+    };
+}
+
+function writeEndOfCentralDirectory(fd: number, position: number, entryCount: number, centralDirectoryOffset: number, centralDirectorySize: number): void {
+    if (entryCount >= zipMaxEntries || centralDirectoryOffset >= zipMaxSize || centralDirectorySize >= zipMaxSize) {
+        let zip64EndOfCentralDirectory = Buffer.alloc(56);
+        zip64EndOfCentralDirectory.writeUInt32LE(zip64EndOfCentralDirectorySignature, 0);
+        // the size of the record without the signature and size fields
+        writeUInt64LE(zip64EndOfCentralDirectory, 44, 4);
+        zip64EndOfCentralDirectory.writeUInt16LE((3 << 8) | zip64Version, 12);
+        zip64EndOfCentralDirectory.writeUInt16LE(zip64Version, 14);
+        writeUInt64LE(zip64EndOfCentralDirectory, entryCount, 24);
+        writeUInt64LE(zip64EndOfCentralDirectory, entryCount, 32);
+        writeUInt64LE(zip64EndOfCentralDirectory, centralDirectorySize, 40);
+        writeUInt64LE(zip64EndOfCentralDirectory, centralDirectoryOffset, 48);
+
+        let zip64EndOfCentralDirectoryLocator = Buffer.alloc(20);
+        zip64EndOfCentralDirectoryLocator.writeUInt32LE(zip64EndOfCentralDirectoryLocatorSignature, 0);
+        writeUInt64LE(zip64EndOfCentralDirectoryLocator, position, 8);
+        zip64EndOfCentralDirectoryLocator.writeUInt32LE(1, 16);
+
+        position += writeBuffer(fd, zip64EndOfCentralDirectory, position);
+        position += writeBuffer(fd, zip64EndOfCentralDirectoryLocator, position);
+    }
+
+    let endOfCentralDirectory = Buffer.alloc(22);
+    endOfCentralDirectory.writeUInt32LE(zipEndOfCentralDirectorySignature, 0);
+    endOfCentralDirectory.writeUInt16LE(Math.min(entryCount, zipMaxEntries), 8);
+    endOfCentralDirectory.writeUInt16LE(Math.min(entryCount, zipMaxEntries), 10);
+    endOfCentralDirectory.writeUInt32LE(Math.min(centralDirectorySize, zipMaxSize), 12);
+    endOfCentralDirectory.writeUInt32LE(Math.min(centralDirectoryOffset, zipMaxSize), 16);
+    writeBuffer(fd, endOfCentralDirectory, position);
+}
+
+/**
+ * Reads the central directory of an existing zip archive. The data of the entries is not read, but
+ * located so that it can be copied: it spans up to the next entry or the central directory.
+ */
+function readZipEntries(archive: string): ExistingEntry[] {
+    let fd = fs.openSync(archive, 'r');
+    try {
+        let archiveSize = fs.fstatSync(fd).size;
+        let tailLength = Math.min(archiveSize, 20 + 22 + 0xFFFF);
+        let tail = readBuffer(fd, archiveSize - tailLength, tailLength);
+        let endOfCentralDirectory = -1;
+        for (let position = tail.length - 22; position >= 0; position--) {
+            if (tail.readUInt32LE(position) == zipEndOfCentralDirectorySignature) {
+                endOfCentralDirectory = position;
+                break;
+            }
+        }
+
+        if (endOfCentralDirectory == -1) {
+            throw new Error(tl.loc('NativeArchiveInvalidExistingArchive', archive));
+        }
+
+        let entryCount = tail.readUInt16LE(endOfCentralDirectory + 10);
+        let centralDirectorySize = tail.readUInt32LE(endOfCentralDirectory + 12);
+        let centralDirectoryOffset = tail.readUInt32LE(endOfCentralDirectory + 16);
+        if (entryCount == zipMaxEntries || centralDirectorySize == zipMaxSize || centralDirectoryOffset == zipMaxSize) {
+            // the actual values are in the zip64 end of central directory record, which the locator before this record points to
+            let locator = endOfCentralDirectory - 20;
+            if (locator < 0 || tail.readUInt32LE(locator) != zip64EndOfCentralDirectoryLocatorSignature) {
+                throw new Error(tl.loc('NativeArchiveInvalidExistingArchive', archive));
+            }
+
+            let zip64EndOfCentralDirectory = readBuffer(fd, readUInt64LE(tail, locator + 8), 56);
+            if (zip64EndOfCentralDirectory.length < 56 || zip64EndOfCentralDirectory.readUInt32LE(0) != zip64EndOfCentralDirectorySignature) {
+                throw new Error(tl.loc('NativeArchiveInvalidExistingArchive', archive));
+            }
+
+            entryCount = readUInt64LE(zip64EndOfCentralDirectory, 32);
+            centralDirectorySize = readUInt64LE(zip64EndOfCentralDirectory, 40);
+            centralDirectoryOffset = readUInt64LE(zip64EndOfCentralDirectory, 48);
+        }
+
+        let centralDirectory = readBuffer(fd, centralDirectoryOffset, centralDirectorySize);
+        let entries: ExistingEntry[] = [];
+        let position = 0;
+        for (let i = 0; i < entryCount; i++) {
+            if (position + 46 > centralDirectory.length || centralDirectory.readUInt32LE(position) != zipCentralDirectorySignature) {
+                throw new Error(tl.loc('NativeArchiveInvalidExistingArchive', archive));
+            }
+
+            let flags = centralDirectory.readUInt16LE(position + 8);
+            let record = parseCentralDirectoryRecord(centralDirectory, position);
+            entries.push({
+                name: record.name.toString(flags & zipUtf8Flag ? 'utf8' : 'binary'),
+                offset: record.location.offset,
+                centralDirectoryRecord: centralDirectory.slice(position, position + record.length)
+            });
+            position += record.length;
+        }
+
+        let offsets = entries.map((entry: ExistingEntry) => entry.offset).sort((offset1: number, offset2: number) => offset1 - offset2).concat([centralDirectoryOffset]);
+        entries.forEach((entry: ExistingEntry) => {
+            let index = offsets.indexOf(entry.offset);
+            while (offsets[index] == entry.offset) {
+                index++;
+            }
+            entry.length = offsets[index] - entry.offset;
+        });
+
+        return entries;
+    }
+    finally {
+        fs.closeSync(fd);
+    }
+}
+
+function readTarEntries(archive: string, compressed: boolean): ExistingEntry[] {
+    let buffer: Buffer = fs.readFileSync(archive);
+    if (compressed) {
+        buffer = zlib.gunzipSync(buffer);
+    }
+
+    let entries: ExistingEntry[] = [];
+    let position = 0;
+    let entryStart = -1;
+    let extendedName: string = null;
+    let extendedSize: number = null;
+    while (position + tarBlockSize <= buffer.length) {
+        let header = buffer.slice(position, position + tarBlockSize);
+        if (isZeroBlock(header)) {
+            break;
+        }
+
+        if (entryStart == -1) {
+            entryStart = position;
+        }
+
+        let typeFlag = String.fromCharCode(header[156]);
+        let size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+        if (isNaN(size)) {
+            throw new Error(tl.loc('NativeArchiveInvalidExistingArchive', archive));
+        }
+
+        let dataStart = position + tarBlockSize;
+        if (typeFlag == 'x' || typeFlag == 'L') {
+            // pax extended header or GNU long name, which apply to the next entry
+            let data = buffer.toString('utf8', dataStart, dataStart + size);
+            if (typeFlag == 'L') {
+                extendedName = data.replace(/\0+$/, '');
+            }
+            else {
+                let pathMatch = data.match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+                let sizeMatch = data.match(/(?:^|\n)\d+ size=(\d+)\n/);
+                extendedName = pathMatch ? pathMatch[1] : extendedName;
+                extendedSize = sizeMatch ? parseInt(sizeMatch[1]) : extendedSize;
+            }
+            position = dataStart + Math.ceil(size / tarBlockSize) * tarBlockSize;
+            continue;
+        }
+
+        if (extendedSize != null) {
+            size = extendedSize;
+        }
+
+        let name = extendedName;
+        if (name == null) {
+            let prefix = readTarString(header, 345, 155);
+            name = (prefix ? prefix + '/' : '') + readTarString(header, 0, 100);
+        }
+
+        position = dataStart + Math.ceil(size / tarBlockSize) * tarBlockSize;
+        entries.push({ name: name, data: buffer.slice(entryStart, position) });
+        entryStart = -1;
+        extendedName = null;
+        extendedSize = null;
+    }
+
+    return entries;
+}
+
+function isZeroBlock(block: Buffer): boolean {
+    for (let i = 0; i < block.length; i++) {
+        if (block[i] != 0) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function readTarString(header: Buffer, offset: number, length: number): string {
+    let end = offset;
+    while (end < offset + length && header[end] != 0) {
+        end++;
+    }
+
+    return header.toString('utf8', offset, end);
+}
+
+function createTarHeader(name: string, mode: number, size: number, mtime: number, typeFlag: string): Buffer {
+    let paxRecords: string[] = [];
+    let headerName = name;
+    let prefix = '';
+    if (Buffer.byteLength(name, 'utf8') > 100) {
+        // long names are split into the prefix and name fields at a separator, or stored in a pax extended header
+        let separator = name.indexOf('/');
+        while (separator != -1 && Buffer.byteLength(name.substr(separator + 1), 'utf8') > 100) {
+            separator = name.indexOf('/', separator + 1);
+        }
+
+        if (separator > 0 && separator < name.length - 1 && Buffer.byteLength(name.substr(0, separator), 'utf8') <= 155) {
+            prefix = name.substr(0, separator);
+            headerName = name.substr(separator + 1);
+        }
+        else {
+            paxRecords.push(createPaxRecord('path', name));
+        }
+    }
+
+    if (size > tarMaxSize) {
+        paxRecords.push(createPaxRecord('size', size.toString()));
+    }
+
+    let header = createUstarHeader(headerName, prefix, mode, size > tarMaxSize ? 0 : size, mtime, typeFlag);
+    if (paxRecords.length == 0) {
+        return header;
+    }
+
+    let paxData = Buffer.from(paxRecords.join(''), 'utf8');
+    let paxPadding = Buffer.alloc(Math.ceil(paxData.length / tarBlockSize) * tarBlockSize - paxData.length);
+    return Buffer.concat([createUstarHeader('././@PaxHeader', '', 0o644, paxData.length, mtime, 'x'), paxData, paxPadding, header]);
+}
+
+function createUstarHeader(name: string, prefix: string, mode: number, size: number, mtime: number, typeFlag: string): Buffer {
+    let header = Buffer.alloc(tarBlockSize);
+    header.write(name, 0, 100, 'utf8');
+    writeTarOctal(header, mode, 100, 8);
+    writeTarOctal(header, 0, 108, 8);
+    writeTarOctal(header, 0, 116, 8);
+    writeTarOctal(header, size, 124, 12);
+    writeTarOctal(header, mtime, 136, 12);
+    header.write(typeFlag, 156, 1, 'ascii');
+    header.write('ustar\0', 257, 6, 'ascii');
+    header.write('00', 263, 2, 'ascii');
+    header.write(prefix, 345, 155, 'utf8');
+
+    // the checksum is computed with the checksum field filled with spaces
+    header.fill(' ', 148, 156);
+    let checksum = 0;
+    for (let i = 0; i < tarBlockSize; i++) {
+        checksum += header[i];
+    }
+    header.write(padOctal(checksum, 6) + '\0 ', 148, 8, 'ascii');
+    return header;
+}
+
+function writeTarOctal(header: Buffer, value: number, offset: number, length: number): void {
+    header.write(padOctal(value, length - 1) + '\0', offset, length, 'ascii');
+}
+
+function padOctal(value: number, length: number): string {
+    let octal = value.toString(8);
+    while (octal.length < length) {
+        octal = '0' + octal;
+    }
+
+    return octal;
+}
+
+function createPaxRecord(key: string, value: string): string {
+    // the record length includes the length field itself
+    let recordLength = Buffer.byteLength(' ' + key + '=' + value + '\n', 'utf8');
+    let length = recordLength + recordLength.toString().length;
+    if (length.toString().length > recordLength.toString().length) {
+        length++;
+    }
+
+    return length + ' ' + key + '=' + value + '\n';
+}
+
+function writeToStream(target: NodeJS.WritableStream, data: Buffer, failed: Promise<void>): Promise<void> {
+    if (target.write(data)) {
+        return Promise.resolve();
+    }
+
+    return Promise.race([failed, new Promise<void>((resolve) => target.once('drain', () => resolve()))]);
+}
+
+async function writeFileToStream(target: NodeJS.WritableStream, file: string, size: number, failed: Promise<void>): Promise<void> {
+    let fd = fs.openSync(file, 'r');
+    try {
+        let remaining = size;
+        while (remaining > 0) {
+            let chunk = Buffer.alloc(Math.min(remaining, 64 * 1024));
+            let bytesRead = fs.readSync(fd, chunk, 0, chunk.length, null);
+            if (bytesRead == 0) {
+                // the file was truncated while it was archived
+                throw new Error(tl.loc('NativeArchiveFileChanged', file));
+            }
+
+            await writeToStream(target, bytesRead < chunk.length ? chunk.slice(0, bytesRead) : chunk, failed);
+            remaining -= bytesRead;
+        }
+    }
+    finally {
+        fs.closeSync(fd);
+    }
+
+    let padding = (tarBlockSize - size % tarBlockSize) % tarBlockSize;
+    if (padding > 0) {
+        await writeToStream(target, Buffer.alloc(padding), failed);
+    }
+}
+
+/**
+ * Sets the operating system field of the gzip header to 'unknown', since zlib sets it
+ * to the platform of the agent, which would make the archive differ between platforms.
+ */
+class GzipHeaderNormalizer extends stream.Transform {
+    private isHeaderNormalized: boolean = false;
+
+    _transform(chunk: Buffer, encoding: string, callback: (err?: Error, data?: Buffer) => void): void {
+        if (!this.isHeaderNormalized && chunk.length > 9) {
+            chunk[9] = 255;
+            this.isHeaderNormalized = true;
+        }
+
+        callback(null, chunk);
+    }
+}
@@ -1,3 +1,5 @@
+import crypto = require("crypto");
+import fs = require("fs");
 import tl = require("azure-pipelines-task-lib/task");
 
 export function reportArchivePlan(files: string[], max: number=10) : string[] {
@@ -13,4 +15,19 @@ export function reportArchivePlan(files: string[], max: number=10) : string[] {
         }
     }
     return plan;
-}
\ No newline at end of file
+}
+
+export function computeSha256(file: string): string {
+    var hash = crypto.createHash('sha256');
+    var buffer = Buffer.alloc(64 * 1024);
+    var fd = fs.openSync(file, 'r');
+    try {
+        var bytesRead: number;
+        while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+            hash.update(buffer.slice(0, bytesRead));
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+    return hash.digest('hex');
+}
@@ -39,20 +39,20 @@ describe('AzureRmWebAppDeployment Suite', function() {
     KuduServiceTests.KuduServiceTests();
     ResourcesTests.ResourcesTests(); 
     
-    if (tl.osType().match(/^Win/)) {
-        it('Runs successfully with XML Transformation (L1)', (done:MochaDone) => {
-            this.timeout(parseInt(process.env.TASK_TEST_TIMEOUT) || 20000);
+    it('Runs successfully with XML Transformation (L1)', (done:MochaDone) => {
+        this.timeout(parseInt(process.env.TASK_TEST_TIMEOUT) || 20000);
 
-            let tp = path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests","L1XdtTransform.js");
-            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
-            tr.run();
+        let tp = path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests","L1XdtTransform.js");
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
 
-            var resultFile = ltx.parse(fs.readFileSync(path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests", 'L1XdtTransform', 'Web_test.config')));
-            var expectFile = ltx.parse(fs.readFileSync(path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests", 'L1XdtTransform','Web_Expected.config')));
-            assert(ltx.equal(resultFile, expectFile) , 'Should Transform attributes on Web.config');
-            done();
-        });
+        var resultFile = ltx.parse(fs.readFileSync(path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests", 'L1XdtTransform', 'Web_test.config')));
+        var expectFile = ltx.parse(fs.readFileSync(path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests", 'L1XdtTransform','Web_Expected.config')));
+        assert(ltx.equal(resultFile, expectFile) , 'Should Transform attributes on Web.config');
+        done();
+    });
 
+    if (tl.osType().match(/^Win/)) {
         it('Validate MSDeploy parameters', (done:MochaDone) => {
             let tp = path.join(__dirname, "..", "node_modules","webdeployment-common-v2","Tests","L0MSDeployUtility.js");
             let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
@@ -210,6 +210,10 @@ tr.registerMock('path', {
             return path.win32.basename(filePath, extension);
         }
     },
+    basename: function(filePath, extension) {
+        return path.win32.basename(filePath, extension);
+    },
+    normalize: path.win32.normalize,
     join: function() {
         if(arguments[arguments.length -1] === 'ctt.exe') {
             return 'DefaultWorkingDirectory/ctt/ctt.exe';
@@ -49,6 +49,89 @@ export function build(connection: ContainerConnection, dockerFile: string, comma
     });
 }
 
+export function buildx(connection: ContainerConnection, builderName: string, dockerFile: string, commandArguments: string, labelArguments: string[], tagArguments: string[], platforms: string[], cacheFrom: string, cacheTo: string, push: boolean, onCommandOut: (output) => any): any {
+    var command = connection.createCommand();
+
+    command.arg(["buildx", "build"]);
+    command.arg(["--builder", builderName]);
+    command.arg(["-f", dockerFile]);
+    command.arg(["--platform", platforms.join(",")]);
+
+    if (labelArguments) {
+        labelArguments.forEach(label => {
+            command.arg(["--label", label]);
+        });
+    }
+
+    command.line(commandArguments);
+
+    if (tagArguments) {
+        tagArguments.forEach(tagArgument => {
+            command.arg(["-t", tagArgument]);
+        });
+    }
+
+    if (cacheFrom) {
+        command.arg(["--cache-from", cacheFrom]);
+    }
+
+    if (cacheTo) {
+        command.arg(["--cache-to", cacheTo]);
+    }
+
+    // A manifest list can only be pushed, the local image store holds a single platform image.
+    if (push) {
+        command.arg("--push");
+    }
+    else if (platforms.length === 1) {
+        command.arg("--load");
+    }
+
+    command.arg(getBuildContext(dockerFile));
+
+    // setup variable to store the command output
+    let output = "";
+    // buildx always sends the logs to stderr.
+    command.on("stderr", data => {
+        output += data;
+    });
+
+    return connection.execCommand(command).then(() => {
+        // Return the std output of the command by calling the delegate
+        onCommandOut(output);
+    });
+}
+
+export function createBuildxBuilder(connection: ContainerConnection, builderName: string): any {
+    // The default builder uses the docker driver, which can not build for multiple platforms.
+    let inspectCommand = connection.createCommand();
+    inspectCommand.arg(["buildx", "inspect", builderName]);
+    if (inspectCommand.execSync(<any>{ silent: true }).code === 0) {
+        tl.debug("Using the existing buildx builder " + builderName);
+        return Q.resolve(null);
+    }
+
+    let createCommand = connection.createCommand();
+    createCommand.arg(["buildx", "create", "--name", builderName, "--driver", "docker-container"]);
+    return connection.execCommand(createCommand);
+}
+
+export function getImageManifest(connection: ContainerConnection, image: string, onCommandOut: (output) => any): any {
+    let command = connection.createCommand();
+    command.arg(["buildx", "imagetools", "inspect", image]);
+
+    // setup variable to store the command output
+    let output = "";
+    command.on("stdout", data => {
+        output += data;
+    });
+
+    return connection.execCommand(command).then(() => {
+        // Return the std output of the command by calling the delegate
+        onCommandOut(output);
+    });
+}
+
 export function command(connection: ContainerConnection, dockerCommand: string, commandArguments: string, onCommandOut: (output) => any): any {
     let command = connection.createCommand();
     command.arg(dockerCommand);
@@ -0,0 +1,258 @@
+"use strict";
+
+import * as fs from "fs";
+import * as tl from "azure-pipelines-task-lib/task";
+
+export const LintSeverity = {
+    error: "error",
+    warning: "warning",
+    off: "off"
+};
+
+export const LintRules = {
+    unpinnedBaseImage: "unpinned-base-image",
+    latestTag: "latest-tag",
+    missingUser: "missing-user",
+    aptGetInstallRecommends: "apt-get-install-recommends",
+    aptGetListsNotRemoved: "apt-get-lists-not-removed",
+    addUrl: "add-url",
+    multipleCmd: "multiple-cmd"
+};
+
+export interface LintFinding {
+    rule: string;
+    severity: string;
+    lineNumber: number;
+    message: string;
+}
+
+interface Instruction {
+    keyword: string;
+    args: string;
+    lineNumber: number;
+}
+
+interface Stage {
+    from: Instruction;
+    instructions: Instruction[];
+}
+
+const defaultRuleSeverities: { [key: string]: string } = {
+    "unpinned-base-image": LintSeverity.warning,
+    "latest-tag": LintSeverity.warning,
+    "missing-user": LintSeverity.warning,
+    "apt-get-install-recommends": LintSeverity.warning,
+    "apt-get-lists-not-removed": LintSeverity.warning,
+    "add-url": LintSeverity.warning,
+    "multiple-cmd": LintSeverity.error
+};
+
+const aptGetInstallPattern = new RegExp(/\bapt-get\s+(?:-\S+\s+)*install\b/);
+
+/**
+ * Returns the severity of every rule, with the overrides given as rule=severity lines or comma separated pairs.
+ */
+export function getRuleSeverities(overrides: string): { [key: string]: string } {
+    let ruleSeverities: { [key: string]: string } = {};
+    Object.keys(defaultRuleSeverities).forEach(rule => ruleSeverities[rule] = defaultRuleSeverities[rule]);
+
+    let pairs = overrides ? overrides.split(/[\n,]+/) : [];
+    pairs.map(pair => pair.trim()).filter(pair => !!pair).forEach(pair => {
+        let separatorIndex = pair.indexOf("=");
+        let rule = separatorIndex > 0 ? pair.substring(0, separatorIndex).trim().toLowerCase() : pair.toLowerCase();
+        let severity = separatorIndex > 0 ? pair.substring(separatorIndex + 1).trim().toLowerCase() : "";
+        if (!defaultRuleSeverities[rule]) {
+            throw new Error(tl.loc('LintRuleNotSupported', rule, Object.keys(defaultRuleSeverities).join(", ")));
+        }
+
+        if (severity !== LintSeverity.error && severity !== LintSeverity.warning && severity !== LintSeverity.off) {
+            throw new Error(tl.loc('LintSeverityNotSupported', severity, rule));
+        }
+
+        ruleSeverities[rule] = severity;
+    });
+
+    return ruleSeverities;
+}
+
+/**
+ * Lints the Dockerfile and logs the findings as pipeline warnings and errors with their location.
+ */
+export function lintDockerFile(dockerFilePath: string, ruleSeverities: { [key: string]: string }): LintFinding[] {
+    console.log(tl.loc('LintingDockerFile', dockerFilePath));
+    const dockerFileContent = fs.readFileSync(dockerFilePath, 'utf-8').toString();
+    const findings = lint(dockerFileContent, ruleSeverities);
+
+    let errorCount = 0;
+    findings.forEach(finding => {
+        if (finding.severity === LintSeverity.error) {
+            errorCount++;
+        }
+
+        tl.command("task.issue", {
+            "type": finding.severity,
+            "sourcepath": dockerFilePath,
+            "linenumber": finding.lineNumber.toString(),
+            "code": finding.rule
+        }, tl.loc('LintFinding', dockerFilePath, finding.lineNumber, finding.rule, finding.message));
+    });
+
+    console.log(tl.loc('LintSummary', errorCount, findings.length - errorCount));
+    return findings;
+}
+
+export function lint(dockerFileContent: string, ruleSeverities: { [key: string]: string }): LintFinding[] {
+    let findings: LintFinding[] = [];
+    const addFinding = (rule: string, lineNumber: number, message: string) => {
+        const severity = ruleSeverities[rule] || defaultRuleSeverities[rule];
+        if (severity !== LintSeverity.off) {
+            findings.push({ rule: rule, severity: severity, lineNumber: lineNumber, message: message });
+        }
+    };
+
+    const stages = getStages(parseInstructions(dockerFileContent));
+    let stageNames: string[] = [];
+    stages.forEach((stage, index) => {
+        const fromArgs = stage.from.args.split(/\s+/).filter(arg => arg.indexOf("--") !== 0);
+        const image = fromArgs[0] || "";
+        checkBaseImage(image, stage.from.lineNumber, stageNames, addFinding);
+        if (fromArgs.length >= 3 && fromArgs[1].toUpperCase() === "AS") {
+            stageNames.push(fromArgs[2].toLowerCase());
+        }
+
+        let cmdCount = 0;
+        stage.instructions.forEach(instruction => {
+            switch (instruction.keyword) {
+                case "RUN":
+                    checkAptGet(instruction, addFinding);
+                    break;
+                case "ADD":
+                    instruction.args.split(/\s+/).filter(arg => /^https?:\/\//i.test(arg)).forEach(url => {
+                        addFinding(LintRules.addUrl, instruction.lineNumber, tl.loc('LintAddUrl', url));
+                    });
+                    break;
+                case "CMD":
+                    if (++cmdCount > 1) {
+                        addFinding(LintRules.multipleCmd, instruction.lineNumber, tl.loc('LintMultipleCmd'));
+                    }
+                    break;
+            }
+        });
+
+        // only the final stage ends up in the image
+        if (index === stages.length - 1) {
+            const users = stage.instructions.filter(instruction => instruction.keyword === "USER");
+            const lastUser = users.length > 0 ? users[users.length - 1] : null;
+            if (!lastUser) {
+                addFinding(LintRules.missingUser, stage.from.lineNumber, tl.loc('LintMissingUser'));
+            }
+            else if (/^(root|0)(:.*)?$/.test(lastUser.args.trim())) {
+                addFinding(LintRules.missingUser, lastUser.lineNumber, tl.loc('LintRootUser'));
+            }
+        }
+    });
+
+    return findings.sort((first, second) => first.lineNumber - second.lineNumber);
+}
+
+function checkBaseImage(image: string, lineNumber: number, stageNames: string[], addFinding: (rule: string, lineNumber: number, message: string) => void): void {
+    // images given through build arguments are resolved only at build time
+    if (!image || image.indexOf("$") !== -1 || image.toLowerCase() === "scratch" || stageNames.indexOf(image.toLowerCase()) !== -1) {
+        return;
+    }
+
+    if (image.indexOf("@") !== -1) {
+        return;
+    }
+
+    const lastSlashIndex = image.lastIndexOf("/");
+    const lastColonIndex = image.lastIndexOf(":");
+    const tag = lastColonIndex > lastSlashIndex ? image.substring(lastColonIndex + 1) : "";
+    if (!tag) {
+        addFinding(LintRules.unpinnedBaseImage, lineNumber, tl.loc('LintUnpinnedBaseImage', image));
+    }
+    else if (tag.toLowerCase() === "latest") {
+        addFinding(LintRules.latestTag, lineNumber, tl.loc('LintLatestTag', image));
+    }
+}
+
+function checkAptGet(instruction: Instruction, addFinding: (rule: string, lineNumber: number, message: string) => void): void {
+    const commands = instruction.args.split(/&&|\|\||;/);
+    const installCommands = commands.filter(command => aptGetInstallPattern.test(command));
+    if (installCommands.length === 0) {
+        return;
+    }
+
+    if (installCommands.some(command => command.indexOf("--no-install-recommends") === -1)) {
+        addFinding(LintRules.aptGetInstallRecommends, instruction.lineNumber, tl.loc('LintAptGetInstallRecommends'));
+    }
+
+    if (!/rm\s+(-\w+\s+)*\/var\/lib\/apt\/lists/.test(instruction.args)) {
+        addFinding(LintRules.aptGetListsNotRemoved, instruction.lineNumber, tl.loc('LintAptGetListsNotRemoved'));
+    }
+}
+
+function getStages(instructions: Instruction[]): Stage[] {
+    let stages: Stage[] = [];
+    instructions.forEach(instruction => {
+        if (instruction.keyword === "FROM") {
+            stages.push({ from: instruction, instructions: [] });
+        }
+        else if (stages.length > 0) {
+            stages[stages.length - 1].instructions.push(instruction);
+        }
+    });
+
+    return stages;
+}
+
+function parseInstructions(dockerFileContent: string): Instruction[] {
+    const lines = dockerFileContent.split(/\r?\n/);
+    let escapeCharacter = "\\";
+    let instructions: Instruction[] = [];
+    let current: Instruction = null;
+    let parsingDirectives = true;
+
+    lines.forEach((line, index) => {
+        const trimmedLine = line.trim();
+        if (parsingDirectives) {
+            const directiveMatch = trimmedLine.match(/^#\s*escape\s*=\s*(\S)\s*$/i);
+            if (directiveMatch) {
+                escapeCharacter = directiveMatch[1];
+                return;
+            }
+
+            parsingDirectives = trimmedLine.indexOf("#") === 0 && /^#\s*\w+\s*=/.test(trimmedLine);
+        }
+
+        // comments and empty lines are allowed between continuation lines
+        if (!trimmedLine || trimmedLine.indexOf("#") === 0) {
+            return;
+        }
+
+        const continues = trimmedLine.charAt(trimmedLine.length - 1) === escapeCharacter;
+        const content = continues ? trimmedLine.substring(0, trimmedLine.length - 1) : trimmedLine;
+        if (current) {
+            current.args += " " + content.trim();
+        }
+        else {
+            const separatorIndex = content.search(/\s/);
+            current = {
+                keyword: (separatorIndex === -1 ? content : content.substring(0, separatorIndex)).toUpperCase(),
+                args: separatorIndex === -1 ? "" : content.substring(separatorIndex + 1).trim(),
+                lineNumber: index + 1
+            };
+        }
+
+        if (!continues) {
+            instructions.push(current);
+            current = null;
+        }
+    });
+
+    if (current) {
+        instructions.push(current);
+    }
+
+    return instructions;
+}
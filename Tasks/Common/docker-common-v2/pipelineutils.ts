@@ -46,6 +46,45 @@ function addReleaseLabels(hostName: string, labels: string[], addPipelineData?:
     }
 }
 
+// Computed once, so that all the images of the run get the same creation time
+let imageCreatedTime: string;
+
+function getImageCreatedTime(): string {
+    if (!imageCreatedTime) {
+        imageCreatedTime = new Date().toISOString();
+    }
+
+    return imageCreatedTime;
+}
+
+function addOciLabel(labelName: string, labelValue: string, labels: string[]): void {
+    if (labelValue) {
+        labels.push(util.format("org.opencontainers.image.%s=%s", labelName, labelValue));
+    }
+}
+
+function addOciLabels(labels: string[]): void {
+    // Annotation keys from https://github.com/opencontainers/image-spec/blob/master/annotations.md
+    const hostType = tl.getVariable("SYSTEM_HOSTTYPE") || "";
+    const isBuild = hostType.toLowerCase() === "build";
+    addOciLabel("created", getImageCreatedTime(), labels);
+    addOciLabel("source", tl.getVariable("BUILD_REPOSITORY_URI"), labels);
+    addOciLabel("revision", tl.getVariable("BUILD_SOURCEVERSION"), labels);
+    addOciLabel("version", isBuild ? tl.getVariable("BUILD_BUILDNUMBER") : tl.getVariable("RELEASE_RELEASENAME"), labels);
+    addOciLabel("url", getPipelineRunUrl(isBuild), labels);
+}
+
+function getPipelineRunUrl(isBuild: boolean): string {
+    const collectionUri = tl.getVariable("SYSTEM_TEAMFOUNDATIONCOLLECTIONURI");
+    const teamProject = tl.getVariable("SYSTEM_TEAMPROJECT");
+    const runId = isBuild ? tl.getVariable("BUILD_BUILDID") : tl.getVariable("RELEASE_RELEASEID");
+    if (!collectionUri || !teamProject || !runId) {
+        return null;
+    }
+
+    return collectionUri + teamProject + (isBuild ? "/_build/results?buildId=" : "/_releaseProgress?releaseId=") + runId;
+}
+
 function getReverseDNSName(): string {
     // Hostname part of URL used as prefix for labels.
     // it is safe to use url.parse on SYSTEM_TEAMFOUNDATIONCOLLECTIONURI here.
@@ -67,7 +106,7 @@ export function addDefaultLabelArgs(command: ToolRunner): void {
     addLabelArgs(command, labels);
 }
 
-export function getDefaultLabels(addPipelineData?: boolean): string[] {
+export function getDefaultLabels(addPipelineData?: boolean, addOciImageLabels?: boolean): string[] {
     let labels: string[] = [];
     let hostName = getReverseDNSName();
     if (hostName) {
@@ -81,5 +120,9 @@ export function getDefaultLabels(addPipelineData?: boolean): string[] {
         }
     }
 
+    if (addOciImageLabels) {
+        addOciLabels(labels);
+    }
+
     return labels;
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+"use strict";
+
+import * as fs from "fs";
+import * as path from "path";
+import * as tl from "azure-pipelines-task-lib/task";
+
+const sbomToolName = "syft";
+const sbomArtifactFolder = "sbom";
+
+const sbomOutputFormats: { [key: string]: string } = {
+    "spdx": "spdx-json",
+    "cyclonedx": "cyclonedx-json"
+};
+
+const sbomFileExtensions: { [key: string]: string } = {
+    "spdx": ".spdx.json",
+    "cyclonedx": ".cdx.json"
+};
+
+// Generates the SBOM with syft, which catalogs the packages from the package databases found in the image layers.
+// A platform is only passed for multi-platform images, which are read from the registry as they are not loaded locally.
+export function generateSbom(image: string, format: string, outputDirectory: string, platform?: string): any {
+    const outputFormat = sbomOutputFormats[format];
+    if (!outputFormat) {
+        throw new Error(tl.loc('SbomFormatNotSupported', format, Object.keys(sbomOutputFormats).join(", ")));
+    }
+
+    const sbomToolPath = tl.which(sbomToolName, false);
+    if (!sbomToolPath) {
+        throw new Error(tl.loc('SbomToolNotFound', sbomToolName));
+    }
+
+    let command = tl.tool(sbomToolPath);
+    if (platform) {
+        command.arg("registry:" + image);
+        command.arg(["--platform", platform]);
+    }
+    else {
+        command.arg(image);
+    }
+
+    command.arg(["-o", outputFormat]);
+    command.arg("-q");
+
+    // setup variable to store the command output
+    let output = "";
+    command.on("stdout", data => {
+        output += data;
+    });
+
+    // the SBOM is written to stdout, keep it out of the logs
+    return command.exec(<any>{ silent: true }).then(() => {
+        const sbomPath = path.join(outputDirectory, getSbomFileName(image, format, platform));
+        fs.writeFileSync(sbomPath, output);
+        return sbomPath;
+    });
+}
+
+export function uploadSbom(sbomPath: string, artifactName: string): void {
+    tl.command("artifact.upload", { "containerfolder": sbomArtifactFolder, "artifactname": artifactName }, sbomPath);
+}
+
+export function getSbomFileName(image: string, format: string, platform?: string): string {
+    let fileName = image.replace(/[\/:@]/g, "_");
+    if (platform) {
+        fileName += "_" + platform.replace(/\//g, "_");
+    }
+
+    return fileName + sbomFileExtensions[format];
+}
@@ -0,0 +1,8 @@
+/**
+ * Quotes the value as a single argument of a command run by the shell on the remote machine
+ * @param value
+ * @returns {string} value in single quotes
+ */
+export function quoteShellArgument(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
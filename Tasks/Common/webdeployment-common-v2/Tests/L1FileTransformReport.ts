@@ -0,0 +1,84 @@
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+
+var jsonSubUtil = require('webdeployment-common-v2/jsonvariablesubstitutionutility.js');
+var fileTransformReport = require('webdeployment-common-v2/filetransformreport.js');
+
+var reportFolder = path.join(__dirname, 'L1FileTransformReport');
+tl.mkdirP(reportFolder);
+tl.writeFile(path.join(reportFolder, 'appsettings.json'), JSON.stringify({
+    'data': {
+        'ConnectionString': 'connect_string',
+        'password': 'pass'
+    },
+    'logging': {
+        'level': 'Warning'
+    }
+}, null, 4));
+tl.writeFile(path.join(reportFolder, 'unchanged.json'), JSON.stringify({ 'other': 'value' }, null, 4));
+
+tl.setVariable('data.ConnectionString', 'database_connection');
+tl.setVariable('data.password', 'db_pass', true);
+
+try {
+    var report = fileTransformReport.startReport(reportFolder);
+    jsonSubUtil.jsonVariableSubstitution(reportFolder, ['appsettings.json', 'unchanged.json'], true);
+    fileTransformReport.stopReport();
+
+    var fileReports = report.getFileReports();
+    var changes = fileReports[0].changes;
+    if(fileReports[0].file == 'appsettings.json' && changes.length == 2 && changes[0].key == 'data.ConnectionString'
+        && changes[0].oldValue == 'connect_string' && changes[0].newValue == 'database_connection') {
+        console.log('Report - JSON changes validated');
+    }
+    if(changes[1].key == 'data.password' && changes[1].oldValue == '***' && changes[1].newValue == '***') {
+        console.log('Report - secret values masked validated');
+    }
+
+    var diff = report.getUnifiedDiff();
+    if(diff.indexOf('--- a/appsettings.json\n+++ b/appsettings.json\n@@ -1,7 +1,7 @@') == 0
+        && diff.indexOf('-        "ConnectionString": "connect_string",') != -1
+        && diff.indexOf('+        "ConnectionString": "database_connection",') != -1
+        && diff.indexOf('+        "password": "***"') != -1 && diff.indexOf('db_pass') == -1) {
+        console.log('Report - unified diff validated');
+    }
+
+    var filesWithoutSubstitution = report.getFilesWithoutSubstitution();
+    if(filesWithoutSubstitution.length == 1 && filesWithoutSubstitution[0] == 'unchanged.json') {
+        console.log('Report - files without substitution validated');
+    }
+
+    var inlineDiff = fileTransformReport.createUnifiedDiff('file.txt', 'a\nb\nc\nd\ne\nf\ng\nh\ni\n', 'a\nb\nc\nd\nE\nf\ng\nh\ni\nj\n');
+    if(inlineDiff == '--- a/file.txt\n+++ b/file.txt\n@@ -2,8 +2,9 @@\n b\n c\n d\n-e\n+E\n f\n g\n h\n i\n+j\n') {
+        console.log('Report - diff hunks validated');
+    }
+
+    var lines: string[] = [];
+    var changedLines: string[] = [];
+    for(var i = 0; i < 5000; i++) {
+        lines.push('line ' + i);
+        changedLines.push(i % 2 == 0 ? 'changed line ' + i : 'line ' + i);
+    }
+    var largeFileDiff = fileTransformReport.createUnifiedDiff('large.txt', lines.join('\n'), lines.slice(0, 2500).concat(['inserted line'], lines.slice(2500)).join('\n'));
+    var summaryDiff = fileTransformReport.createUnifiedDiff('large.txt', lines.join('\n'), changedLines.join('\n'));
+    if(largeFileDiff == '--- a/large.txt\n+++ b/large.txt\n@@ -2498,6 +2498,7 @@\n line 2497\n line 2498\n line 2499\n+inserted line\n line 2500\n line 2501\n line 2502\n'
+        && summaryDiff == 'Files a/large.txt and b/large.txt differ in more than 1000 lines\n') {
+        console.log('Report - large diff validated');
+    }
+
+    tl.setVariable('DbPassword', 'Pa55word', true);
+    var secretReport = fileTransformReport.startReport(reportFolder);
+    fileTransformReport.stopReport();
+    var secretFile = path.join(reportFolder, 'appsettings.json');
+    secretReport.addChange(secretFile, 'json', 'data.ConnectionString', 'Server=db;Password=old', 'Server=db;Password=Pa55word;Pooling=true');
+    secretReport.addFileUpdate(secretFile, '{ "url": "https://user:old@db" }\n', '{ "url": "https://user:Pa55word@db" }\n');
+    var secretChange = secretReport.getFileReports()[0].changes[0];
+    var secretDiff = secretReport.getUnifiedDiff();
+    if(secretChange.oldValue == 'Server=db;Password=old' && secretChange.newValue == 'Server=db;Password=***;Pooling=true'
+        && secretDiff.indexOf('+{ "url": "https://user:***@db" }') != -1 && secretDiff.indexOf('Pa55word') == -1) {
+        console.log('Report - embedded secret values masked validated');
+    }
+}
+finally {
+    tl.rmRF(reportFolder);
+}
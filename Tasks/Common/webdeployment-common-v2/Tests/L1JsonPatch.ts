@@ -0,0 +1,76 @@
+var jsonPatchUtil = require('webdeployment-common-v2/jsonpatchutility.js');
+var jsonSubUtil = require('webdeployment-common-v2/jsonvariablesubstitutionutility.js');
+
+var jsonObject = JSON.parse(jsonSubUtil.stripJsonComments(`{
+    // JSONC content is supported
+    "servers": [
+        { "name": "api", "port": 80 },
+        { "name": "web", "port": 81 }
+    ],
+    "logging": {
+        "level": "Warning",
+        "console": true
+    },
+    "features": [ "a", "b", "c", "d" ]
+}`));
+
+// Method to be checked for JSON Patch transformation
+jsonObject = jsonPatchUtil.applyJsonPatch(jsonObject, [
+    { "op": "test", "path": "/logging/level", "value": "Warning" },
+    { "op": "replace", "path": "/logging/level", "value": "Information" },
+    { "op": "remove", "path": "/logging/console" },
+    { "op": "add", "path": "/servers/-", "value": { "name": "worker", "port": 82 } },
+    { "op": "add", "path": "/logging/file", "value": { "path": "/var/log/app.log" } },
+    { "op": "copy", "from": "/logging/level", "path": "/logging/defaultLevel" },
+    { "op": "move", "from": "/logging/defaultLevel", "path": "/defaultLevel" }
+]);
+
+if(jsonObject['logging']['level'] === 'Information' && jsonObject['logging']['console'] === undefined) {
+    console.log('JSON Patch - replace and remove validated');
+}
+if(jsonObject['servers'].length == 3 && jsonObject['servers'][2]['name'] === 'worker' && jsonObject['logging']['file']['path'] === '/var/log/app.log') {
+    console.log('JSON Patch - add validated');
+}
+if(jsonObject['defaultLevel'] === 'Information' && jsonObject['logging']['defaultLevel'] === undefined) {
+    console.log('JSON Patch - copy and move validated');
+}
+
+try {
+    jsonPatchUtil.applyJsonPatch(jsonObject, [{ "op": "test", "path": "/logging/level", "value": "Warning" }]);
+}
+catch(error) {
+    console.log('JSON Patch - test operation validated');
+}
+
+// Method to be checked for JSONPath selectors
+jsonObject = jsonPatchUtil.applyJsonPatch(jsonObject, [
+    { "op": "replace", "path": "$.servers[?(@.name == 'api')].port", "value": 8080 },
+    { "op": "replace", "path": "$.servers[?(@.port > 80 && @.name != 'worker')].name", "value": "frontend" },
+    { "op": "remove", "path": "$.features[1:3]" },
+    { "op": "add", "path": "$..file.level", "value": "Error" }
+]);
+
+if(jsonObject['servers'][0]['port'] === 8080 && jsonObject['servers'][1]['name'] === 'frontend' && jsonObject['servers'][2]['name'] === 'worker') {
+    console.log('JSONPath - filter validated');
+}
+if(JSON.stringify(jsonObject['features']) == JSON.stringify(['a', 'd'])) {
+    console.log('JSONPath - slice validated');
+}
+if(jsonObject['logging']['file']['level'] === 'Error') {
+    console.log('JSONPath - recursive descent validated');
+}
+
+// Members that would change the prototype are rejected in JSON Pointers and JSONPath selectors
+var rejectedPaths = 0;
+var unsafeJsonObject = JSON.parse('{ "settings": { "__proto__": { "polluted": false } } }');
+for(var unsafePath of ['/__proto__/polluted', '/logging/constructor/prototype/polluted', '$.logging.__proto__', '$.settings.*.polluted']) {
+    try {
+        jsonPatchUtil.applyJsonPatch(unsafePath.startsWith('$.settings') ? unsafeJsonObject : jsonObject, [{ "op": "add", "path": unsafePath, "value": true }]);
+    }
+    catch(error) {
+        rejectedPaths++;
+    }
+}
+if(rejectedPaths == 4 && ({} as any).polluted === undefined) {
+    console.log('JSON Patch - prototype members rejected validated');
+}
@@ -0,0 +1,60 @@
+var jsonSubUtil = require('webdeployment-common-v2/jsonvariablesubstitutionutility.js');
+var propertiesSubUtil = require('webdeployment-common-v2/propertiesvariablesubstitutionutility.js');
+
+var envVarObject = jsonSubUtil.createEnvTree([
+    { name: 'system.debug', value: 'true', secret: false},
+    { name: 'server.port', value: '9090', secret: false},
+    { name: 'spring.datasource.url', value: 'jdbc:mysql://localhost/db', secret: false},
+    { name: 'app.description', value: ' leading space\tand tab', secret: false},
+    { name: 'DB_HOST', value: 'prod-db', secret: false},
+    { name: 'DB_PASSWORD', value: 'p@ss word', secret: true},
+    { name: 'API_KEY', value: 'new-key', secret: false}
+]);
+
+var propertiesContent = [
+    '# server settings',
+    'server.port=8080',
+    'spring.datasource.url : jdbc:h2:mem:db \\',
+    '    ;MODE=MySQL',
+    'app.description=old',
+    'system.debug',
+    'unchanged.key=value',
+    ''
+].join('\r\n');
+
+// Method to be checked for .properties variable substitution
+var propertiesResult = propertiesSubUtil.substitutePropertiesVariables(propertiesContent, envVarObject);
+var propertiesLines = propertiesResult.content.split('\r\n');
+
+if(propertiesResult.isSubstitutionApplied && propertiesLines[1] === 'server.port=9090' && propertiesLines[5] === 'unchanged.key=value') {
+    console.log('Properties - simple string change validated');
+}
+if(propertiesLines[4] === 'system.debug') {
+    console.log('Properties - system variable elimination validated');
+}
+if(propertiesLines[2] === 'spring.datasource.url : jdbc:mysql://localhost/db' && propertiesLines[3] === 'app.description=\\ leading space\\tand tab') {
+    console.log('Properties - continuation and escaping validated');
+}
+if(propertiesLines[0] === '# server settings' && propertiesLines.length === 7) {
+    console.log('Properties - comments and line endings retained validated');
+}
+
+var envContent = [
+    '# environment',
+    'DB_HOST=localhost # local database',
+    "export DB_PASSWORD='secret'",
+    'API_KEY="old-key"',
+    'OTHER=value',
+    ''
+].join('\n');
+
+// Method to be checked for .env variable substitution
+var envResult = propertiesSubUtil.substituteEnvVariables(envContent, envVarObject);
+var envLines = envResult.content.split('\n');
+
+if(envResult.isSubstitutionApplied && envLines[1] === 'DB_HOST=prod-db # local database' && envLines[4] === 'OTHER=value') {
+    console.log('Env - simple string change validated');
+}
+if(envLines[2] === "export DB_PASSWORD='p@ss word'" && envLines[3] === 'API_KEY="new-key"') {
+    console.log('Env - quoting and export prefix validated');
+}
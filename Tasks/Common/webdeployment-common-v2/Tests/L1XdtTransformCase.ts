@@ -0,0 +1,44 @@
+import tl = require('azure-pipelines-task-lib/task');
+import fs = require('fs');
+import path = require('path');
+
+var xdtTransformationUtility = require('webdeployment-common-v2/xdttransformationutility.js');
+
+var transformFolder = path.join(__dirname, 'L1XdtTransformCase');
+var sourceConfig = '<?xml version="1.0"?>\n<configuration>\n  <appSettings>\n    <add key="environment" value="Debug" />\n  </appSettings>\n</configuration>\n';
+var transformConfig = '<?xml version="1.0"?>\n<configuration xmlns:xdt="http://schemas.microsoft.com/XML-Document-Transform">\n  <appSettings>\n    <add key="environment" value="Release" xdt:Transform="SetAttributes" xdt:Locator="Match(key)" />\n  </appSettings>\n</configuration>\n';
+
+function writeConfigs() {
+    tl.rmRF(transformFolder);
+    tl.mkdirP(transformFolder);
+    tl.writeFile(path.join(transformFolder, 'Web.config'), sourceConfig);
+    tl.writeFile(path.join(transformFolder, 'web.Release.config'), transformConfig);
+}
+
+function isTransformed(): boolean {
+    return fs.readFileSync(path.join(transformFolder, 'Web.config'), 'utf8').indexOf('value="Release"') != -1;
+}
+
+var osType = tl.osType;
+try {
+    (tl as any).osType = () => 'Windows_NT';
+    writeConfigs();
+    if(xdtTransformationUtility.basicXdtTransformation(transformFolder, ['Release.config']) && isTransformed()) {
+        console.log('XDT - mixed-case file names matched on Windows validated');
+    }
+
+    writeConfigs();
+    if(xdtTransformationUtility.specialXdtTransformation(transformFolder, '*.Release.config', '*.config') && isTransformed()) {
+        console.log('XDT - mixed-case wildcard file names matched on Windows validated');
+    }
+
+    (tl as any).osType = () => 'Linux';
+    writeConfigs();
+    if(!xdtTransformationUtility.basicXdtTransformation(transformFolder, ['Release.config']) && !isTransformed()) {
+        console.log('XDT - mixed-case file names not matched on Linux validated');
+    }
+}
+finally {
+    (tl as any).osType = osType;
+    tl.rmRF(transformFolder);
+}
@@ -0,0 +1,63 @@
+var jsonSubUtil = require('webdeployment-common-v2/jsonvariablesubstitutionutility.js');
+var yamlSubUtil = require('webdeployment-common-v2/yamlvariablesubstitutionutility.js');
+
+var envVarObject = jsonSubUtil.createEnvTree([
+    { name: 'system.debug', value: 'true', secret: false},
+    { name: 'data.ConnectionString', value: 'database_connection', secret: false},
+    { name: 'data.password', value: 'db: pass', secret: true},
+    { name: 'data.userName', value: "db_admin's", secret: false},
+    { name: 'logging.level', value: 'Information', secret: false},
+    { name: 'servers.0.host', value: 'prod-host', secret: false},
+    { name: 'servers.1', value: 'backup-host', secret: false},
+    { name: 'profile.users', value: '["suaggar","rok"]', secret: false},
+    { name: 'script', value: 'echo first\necho second', secret: false}
+]);
+
+var yamlContent = [
+    '# application settings',
+    'system:',
+    '  debug: no_change',
+    'data:',
+    '  ConnectionString: connect_string # inline comment',
+    '  password: pass',
+    "  userName: 'name'",
+    'logging.level: Warning',
+    'servers:',
+    '  - host: dev-host',
+    '    port: 80',
+    '  - secondary-host',
+    'profile:',
+    '  users: [arjgupta, raagra]',
+    'script: |',
+    '  echo old',
+    ''
+].join('\n');
+
+// Method to be checked for YAML variable substitution
+var result = yamlSubUtil.substituteYamlVariables(yamlContent, envVarObject);
+var lines = result.content.split('\n');
+
+if(result.isSubstitutionApplied && lines[4] === '  ConnectionString: database_connection # inline comment') {
+    console.log('YAML - simple string change validated');
+}
+if(lines[2] === '  debug: no_change') {
+    console.log('YAML - system variable elimination validated');
+}
+if(lines[5] === '  password: "db: pass"' && lines[6] === "  userName: 'db_admin''s'") {
+    console.log('YAML - quoting validated');
+}
+if(lines[7] === 'logging.level: Information') {
+    console.log('YAML - dotted key validated');
+}
+if(lines[9] === '  - host: prod-host' && lines[10] === '    port: 80' && lines[11] === '  - backup-host') {
+    console.log('YAML - sequence validated');
+}
+if(lines[13] === '  users: ["suaggar","rok"]') {
+    console.log('YAML - flow collection validated');
+}
+if(lines[15] === '  echo first' && lines[16] === '  echo second') {
+    console.log('YAML - block scalar validated');
+}
+if(lines[0] === '# application settings') {
+    console.log('YAML - comments retained validated');
+}
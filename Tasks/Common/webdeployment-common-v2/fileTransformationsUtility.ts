@@ -4,6 +4,10 @@ import * as ParameterParser from './ParameterParserUtility';
 var jsonSubstitutionUtility = require('webdeployment-common-v2/jsonvariablesubstitutionutility.js');
 var xmlSubstitutionUtility = require('webdeployment-common-v2/xmlvariablesubstitutionutility.js');
 var xdtTransformationUtility = require('webdeployment-common-v2/xdttransformationutility.js');
+var yamlSubstitutionUtility = require('webdeployment-common-v2/yamlvariablesubstitutionutility.js');
+var propertiesSubstitutionUtility = require('webdeployment-common-v2/propertiesvariablesubstitutionutility.js');
+var fileTransformReport = require('webdeployment-common-v2/filetransformreport.js');
+var jsonPatchUtility = require('webdeployment-common-v2/jsonpatchutility.js');
 
 export function fileTransformations(isFolderBasedDeployment: boolean, JSONFiles: any, xmlTransformation: boolean, xmlVariableSubstitution: boolean, folderPath: string, isMSBuildPackage: boolean) {
 
@@ -18,21 +22,15 @@ export function fileTransformations(isFolderBasedDeployment: boolean, JSONFiles:
             }
         }
         var environmentName = tl.getVariable('Release.EnvironmentName');
-        if(tl.osType().match(/^Win/)) {
-            var transformConfigs = ["Release.config"];
-            if(environmentName && environmentName.toLowerCase() != 'release') {
-                transformConfigs.push(environmentName + ".config");
-            }
-            var isTransformationApplied: boolean = xdtTransformationUtility.basicXdtTransformation(folderPath, transformConfigs);
-            
-            if(isTransformationApplied)
-            {
-                console.log(tl.loc("XDTTransformationsappliedsuccessfully"));
-            }
-            
+        var transformConfigs = ["Release.config"];
+        if(environmentName && environmentName.toLowerCase() != 'release') {
+            transformConfigs.push(environmentName + ".config");
         }
-        else {
-            throw new Error(tl.loc("CannotPerformXdtTransformationOnNonWindowsPlatform"));
+        var isTransformationApplied: boolean = xdtTransformationUtility.basicXdtTransformation(folderPath, transformConfigs);
+        
+        if(isTransformationApplied)
+        {
+            console.log(tl.loc("XDTTransformationsappliedsuccessfully"));
         }
     }
 
@@ -50,40 +48,35 @@ export function fileTransformations(isFolderBasedDeployment: boolean, JSONFiles:
 export function advancedFileTransformations(isFolderBasedDeployment: boolean, targetFiles: any, xmlTransformation: boolean, variableSubstitutionFileFormat: string, folderPath: string, transformationRules: any) {
 
     if(xmlTransformation) {
-        if(!tl.osType().match(/^Win/)) {
-            throw Error(tl.loc("CannotPerformXdtTransformationOnNonWindowsPlatform"));
-        }
-        else {
-            let isTransformationApplied: boolean = true;
-            if(transformationRules.length > 0) {                
-                transformationRules.forEach(function(rule) {
-                    var args = ParameterParser.parse(rule);
-                    if(Object.keys(args).length < 2 || !args["transform"] || !args["xml"]) {
-                        tl.error(tl.loc("MissingArgumentsforXMLTransformation"));
-                    }
-                    else if(Object.keys(args).length > 2) {
-                        isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value, args["result"].value) && isTransformationApplied;
-                    }
-                    else {
-                        isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value) && isTransformationApplied;
-                    }
-                });
-            }
-            else{   
-                var environmentName = tl.getVariable('Release.EnvironmentName');
-                let transformConfigs = ["Release.config"];
-                if(environmentName && environmentName.toLowerCase() != 'release') {
-                    transformConfigs.push(environmentName + ".config");
+        let isTransformationApplied: boolean = true;
+        if(transformationRules.length > 0) {                
+            transformationRules.forEach(function(rule) {
+                var args = ParameterParser.parse(rule);
+                if(Object.keys(args).length < 2 || !args["transform"] || !args["xml"]) {
+                    tl.error(tl.loc("MissingArgumentsforXMLTransformation"));
+                }
+                else if(Object.keys(args).length > 2) {
+                    isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value, args["result"].value) && isTransformationApplied;
                 }
-                isTransformationApplied = xdtTransformationUtility.basicXdtTransformation(folderPath, transformConfigs);
+                else {
+                    isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value) && isTransformationApplied;
+                }
+            });
+        }
+        else{   
+            var environmentName = tl.getVariable('Release.EnvironmentName');
+            let transformConfigs = ["Release.config"];
+            if(environmentName && environmentName.toLowerCase() != 'release') {
+                transformConfigs.push(environmentName + ".config");
             }
+            isTransformationApplied = xdtTransformationUtility.basicXdtTransformation(folderPath, transformConfigs);
+        }
 
-            if(isTransformationApplied) {
-                console.log(tl.loc("XDTTransformationsappliedsuccessfully"));
-            }
-            else {
-                tl.warning(tl.loc('FailedToApplySpecialTransformation'));
-            }
+        if(isTransformationApplied) {
+            console.log(tl.loc("XDTTransformationsappliedsuccessfully"));
+        }
+        else {
+            tl.warning(tl.loc('FailedToApplySpecialTransformation'));
         }
     }
 
@@ -111,34 +104,39 @@ export function advancedFileTransformations(isFolderBasedDeployment: boolean, ta
     }
 }
 
-export function enhancedFileTransformations(isFolderBasedDeployment: boolean, xmlTransformation: boolean, folderPath: string, transformationRules: any, xmlTargetFiles: any, jsonTargetFiles: any) {
+export function enhancedFileTransformations(isFolderBasedDeployment: boolean, xmlTransformation: boolean, folderPath: string, transformationRules: any, xmlTargetFiles: any, jsonTargetFiles: any, yamlTargetFiles?: any, propertiesTargetFiles?: any, envTargetFiles?: any, jsonPatchRules?: any) {
 
     if(xmlTransformation) {
-        if(!tl.osType().match(/^Win/)) {
-            throw Error(tl.loc("CannotPerformXdtTransformationOnNonWindowsPlatform"));
+        let isTransformationApplied: boolean = true;
+        if(transformationRules.length > 0) {
+            transformationRules.forEach(function(rule) {
+                var args = ParameterParser.parse(rule);
+                if(Object.keys(args).length < 2 || !args["transform"] || !args["xml"]) {
+                    tl.error(tl.loc("MissingArgumentsforXMLTransformation"));
+                }
+                else if(Object.keys(args).length > 2) {
+                    isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value, args["result"].value) && isTransformationApplied;
+                }
+                else {
+                    isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value) && isTransformationApplied;
+                }
+            });
+        }
+        if(isTransformationApplied) {
+            console.log(tl.loc("XDTTransformationsappliedsuccessfully"));
         }
         else {
-            let isTransformationApplied: boolean = true;
-            if(transformationRules.length > 0) {
-                transformationRules.forEach(function(rule) {
-                    var args = ParameterParser.parse(rule);
-                    if(Object.keys(args).length < 2 || !args["transform"] || !args["xml"]) {
-                        tl.error(tl.loc("MissingArgumentsforXMLTransformation"));
-                    }
-                    else if(Object.keys(args).length > 2) {
-                        isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value, args["result"].value) && isTransformationApplied;
-                    }
-                    else {
-                        isTransformationApplied = xdtTransformationUtility.specialXdtTransformation(folderPath, args["transform"].value, args["xml"].value) && isTransformationApplied;
-                    }
-                });
-            }
-            if(isTransformationApplied) {
-                console.log(tl.loc("XDTTransformationsappliedsuccessfully"));
-            }
-            else {
-                tl.error(tl.loc('FailedToApplySpecialTransformationReason1'));
-            }          
+            tl.error(tl.loc('FailedToApplySpecialTransformationReason1'));
+        }          
+    }
+
+    if(jsonPatchRules && jsonPatchRules.length > 0) {
+        let isJsonPatchApplied: boolean = jsonPatchUtility.jsonPatchTransformation(folderPath, jsonPatchRules);
+        if(isJsonPatchApplied) {
+            console.log(tl.loc('JSONPatchappliedsuccessfully'));
+        }
+        else {
+            tl.error(tl.loc('FailedToApplyJSONPatchReason1'));
         }
     }
 
@@ -168,4 +166,66 @@ export function enhancedFileTransformations(isFolderBasedDeployment: boolean, xm
             tl.error(tl.loc('FailedToApplyJSONvariablesubstitutionReason1'));
         }
     }
-}
\ No newline at end of file
+
+    if(yamlTargetFiles && yamlTargetFiles.length > 0)
+    {
+        isSubstitutionApplied = yamlSubstitutionUtility.yamlVariableSubstitution(folderPath, yamlTargetFiles);
+        if(isSubstitutionApplied) {
+            console.log(tl.loc('YAMLvariablesubstitutionappliedsuccessfully'));
+        }
+        else {
+            tl.error(tl.loc('FailedToApplyYAMLvariablesubstitutionReason1'));
+        }
+    }
+
+    if(propertiesTargetFiles && propertiesTargetFiles.length > 0)
+    {
+        isSubstitutionApplied = propertiesSubstitutionUtility.propertiesVariableSubstitution(folderPath, propertiesTargetFiles);
+        if(isSubstitutionApplied) {
+            console.log(tl.loc('Propertiesvariablesubstitutionappliedsuccessfully'));
+        }
+        else {
+            tl.error(tl.loc('FailedToApplyPropertiesvariablesubstitutionReason1'));
+        }
+    }
+
+    if(envTargetFiles && envTargetFiles.length > 0)
+    {
+        isSubstitutionApplied = propertiesSubstitutionUtility.envVariableSubstitution(folderPath, envTargetFiles);
+        if(isSubstitutionApplied) {
+            console.log(tl.loc('Envvariablesubstitutionappliedsuccessfully'));
+        }
+        else {
+            tl.error(tl.loc('FailedToApplyEnvvariablesubstitutionReason1'));
+        }
+    }
+}
+
+/**
+* Runs the file transformations while collecting the values changed in each target file
+*
+* @param    folderPath  Folder on which the transformations are applied, the report lists files relative to it
+* @param    publishReport  Publishes the changes as a JSON report and a unified diff attached to the build/release
+* @param    isPreview  Marks the report as a preview, the changes are also printed as a unified diff
+* @param    failOnNoSubstitution  Fails when no value was substituted in one of the variable substitution target files
+* @param    applyTransformations  Applies the transformations on the folder
+*
+*/
+export function fileTransformationsWithReport(folderPath: string, publishReport: boolean, isPreview: boolean, failOnNoSubstitution: boolean, applyTransformations: () => void) {
+    var report = fileTransformReport.startReport(folderPath);
+    try {
+        applyTransformations();
+    }
+    finally {
+        fileTransformReport.stopReport();
+    }
+
+    if(publishReport) {
+        report.publish(isPreview);
+    }
+
+    var filesWithoutSubstitution: string[] = report.getFilesWithoutSubstitution();
+    if(failOnNoSubstitution && filesWithoutSubstitution.length > 0) {
+        throw new Error(tl.loc('NoSubstitutionAppliedOnTargetFiles', filesWithoutSubstitution.join(', ')));
+    }
+}
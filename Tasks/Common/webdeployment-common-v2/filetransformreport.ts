@@ -0,0 +1,425 @@
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+import fs = require('fs');
+
+var varUtility = require('./variableutility.js');
+
+const MaskedValue = "***";
+const DiffContextLines = 3;
+const MaxDiffEdits = 1000;
+const ReportAttachmentType = "FileTransformReport";
+const TransformationFileTypes = ["xdt", "jsonpatch"];
+
+export interface FileTransformChange {
+    key: string;
+    oldValue: string;
+    newValue: string;
+}
+
+export interface FileTransformFileReport {
+    file: string;
+    type: string;
+    changes: FileTransformChange[];
+    diff: string;
+}
+
+interface DiffOperation {
+    operation: string;
+    line: string;
+}
+
+var activeReport: FileTransformReport = null;
+
+/**
+ * Collects the changes made by the file transformation utilities, per target file.
+ * Values substituted from secret variables are masked in both the report and the diff.
+ * Like in the logs of the agent, every occurrence of a secret value is masked, also inside a longer value such as a connection string.
+ */
+export class FileTransformReport {
+
+    private rootFolder: string;
+    private files: { [file: string]: FileTransformFileReport } = {};
+    private fileOrder: string[] = [];
+    private originalContents: { [file: string]: string } = {};
+    private updatedContents: { [file: string]: string } = {};
+    private secretVariables: { [name: string]: boolean } = {};
+    private secretValues: string[] = [];
+
+    public constructor(rootFolder: string) {
+        this.rootFolder = rootFolder;
+        for(var variable of tl.getVariables()) {
+            if(variable.secret && !varUtility.isPredefinedVariable(variable.name)) {
+                this.secretVariables[variable.name] = true;
+                this.addSecretValue(variable.value);
+            }
+        }
+    }
+
+    /**
+     * Registers a target file, so that it is part of the report even if no value is changed in it.
+     */
+    public addFile(file: string, type: string): FileTransformFileReport {
+        var relativePath = this.getRelativePath(file);
+        if(!this.files[relativePath]) {
+            this.files[relativePath] = { file: relativePath, type: type, changes: [], diff: "" };
+            this.fileOrder.push(relativePath);
+        }
+        return this.files[relativePath];
+    }
+
+    public addChange(file: string, type: string, key: string, oldValue: any, newValue: any, variableName?: string) {
+        var isSecret = !!variableName && !!this.secretVariables[variableName];
+        this.addFile(file, type).changes.push({
+            key: key,
+            oldValue: isSecret ? MaskedValue : this.mask(toReportValue(oldValue)),
+            newValue: isSecret ? MaskedValue : this.mask(toReportValue(newValue))
+        });
+    }
+
+    /**
+     * Keeps the content of the file before its first update and after its last update, to compute the diff.
+     */
+    public addFileUpdate(file: string, originalContent: string, updatedContent: string) {
+        var relativePath = this.getRelativePath(file);
+        if(this.originalContents[relativePath] === undefined) {
+            this.originalContents[relativePath] = originalContent;
+        }
+        this.updatedContents[relativePath] = updatedContent;
+    }
+
+    /**
+     * Returns the variable substitution target files in which no value was substituted.
+     */
+    public getFilesWithoutSubstitution(): string[] {
+        return this.fileOrder.filter((file) => TransformationFileTypes.indexOf(this.files[file].type) == -1 && this.files[file].changes.length == 0);
+    }
+
+    public getFileReports(): FileTransformFileReport[] {
+        return this.fileOrder.map((file) => {
+            var fileReport = this.files[file];
+            fileReport.diff = this.getFileDiff(file);
+            return fileReport;
+        });
+    }
+
+    public getUnifiedDiff(): string {
+        var fileNames = this.fileOrder.concat(Object.keys(this.updatedContents).filter((file) => !this.files[file]));
+        return fileNames.map((file) => this.getFileDiff(file)).filter((diff) => !!diff).join("");
+    }
+
+    /**
+     * Writes the JSON report and the unified diff to the agent temp directory and adds them as attachments of the build/release.
+     */
+    public publish(isPreview: boolean) {
+        var fileReports = this.getFileReports();
+        var report = {
+            preview: isPreview,
+            files: fileReports.map((fileReport) => {
+                return { file: fileReport.file, type: fileReport.type, changes: fileReport.changes };
+            }),
+            filesWithoutSubstitution: this.getFilesWithoutSubstitution()
+        };
+        var unifiedDiff = this.getUnifiedDiff();
+        var reportFolder = tl.getVariable('Agent.TempDirectory') ? tl.getVariable('Agent.TempDirectory') : tl.getVariable('System.DefaultWorkingDirectory');
+        var reportName = "FileTransformReport_" + Date.now();
+        var reportFile = path.join(reportFolder, reportName + ".json");
+        var diffFile = path.join(reportFolder, reportName + ".diff");
+
+        for(var fileReport of fileReports) {
+            console.log(tl.loc('FileTransformReportFileChanges', fileReport.file, fileReport.changes.length));
+            for(var change of fileReport.changes) {
+                console.log("    " + change.key + ": " + change.oldValue + " -> " + change.newValue);
+            }
+        }
+        if(isPreview && unifiedDiff) {
+            console.log(unifiedDiff);
+        }
+
+        tl.writeFile(reportFile, JSON.stringify(report, null, 4));
+        tl.writeFile(diffFile, unifiedDiff);
+        tl.addAttachment(ReportAttachmentType, reportName + ".json", reportFile);
+        tl.addAttachment(ReportAttachmentType, reportName + ".diff", diffFile);
+        console.log(tl.loc('FileTransformReportPublished', reportFile, diffFile));
+    }
+
+    private getFileDiff(file: string): string {
+        if(this.updatedContents[file] === undefined) {
+            return "";
+        }
+        return createUnifiedDiff(file, this.mask(this.originalContents[file]), this.mask(this.updatedContents[file]));
+    }
+
+    private getRelativePath(file: string): string {
+        return path.relative(this.rootFolder, file).replace(/\\/g, '/');
+    }
+
+    private addSecretValue(value: any) {
+        if(value != null && value.toString() != "" && this.secretValues.indexOf(value.toString()) == -1) {
+            this.secretValues.push(value.toString());
+            // longer values first, so that a secret containing another secret is masked as a whole
+            this.secretValues.sort((a, b) => b.length - a.length);
+        }
+    }
+
+    private mask(value: string): string {
+        if(value == null) {
+            return value;
+        }
+        for(var secretValue of this.secretValues) {
+            value = value.split(secretValue).join(MaskedValue);
+        }
+        return value;
+    }
+}
+
+/**
+ * Starts collecting the changes made by the file transformation utilities under the given folder.
+ */
+export function startReport(rootFolder: string): FileTransformReport {
+    activeReport = new FileTransformReport(rootFolder);
+    return activeReport;
+}
+
+export function stopReport() {
+    activeReport = null;
+}
+
+export function addFile(file: string, type: string) {
+    if(activeReport) {
+        activeReport.addFile(file, type);
+    }
+}
+
+export function addChange(file: string, type: string, key: string, oldValue: any, newValue: any, variableName?: string) {
+    if(activeReport) {
+        activeReport.addChange(file, type, key, oldValue, newValue, variableName);
+    }
+}
+
+/**
+ * Records the values that differ between the original and the substituted JSON object, keyed by their dotted path.
+ */
+export function addJsonChanges(file: string, originalJsonObject, jsonObject) {
+    if(activeReport) {
+        for(var change of getJsonChanges(originalJsonObject, jsonObject, [])) {
+            activeReport.addChange(file, 'json', change.key, change.oldValue, change.newValue, change.key);
+        }
+    }
+}
+
+/**
+ * Writes the transformed content to the file, and records the update if a report is being collected.
+ */
+export function writeTransformedFile(file: string, content: string, encoding: string) {
+    if(activeReport) {
+        var originalContent: string = "";
+        if(fs.existsSync(file)) {
+            var fileBuffer: Buffer = fs.readFileSync(file);
+            originalContent = fileBuffer.toString(encoding);
+        }
+        activeReport.addFileUpdate(file, stripBOM(originalContent), stripBOM(content));
+    }
+    tl.writeFile(file, content, encoding);
+}
+
+/**
+ * Creates a unified diff of the two contents, with three lines of context around every change.
+ *
+ * @returns  empty string if the contents are identical, or a one line summary if they differ in more than MaxDiffEdits lines
+ */
+export function createUnifiedDiff(fileName: string, oldContent: string, newContent: string): string {
+    if(oldContent == newContent) {
+        return "";
+    }
+
+    var operations = diffLines(splitLines(oldContent), splitLines(newContent));
+    if(!operations) {
+        return "Files a/" + fileName + " and b/" + fileName + " differ in more than " + MaxDiffEdits + " lines\n";
+    }
+
+    var changeIndices: number[] = [];
+    operations.forEach((operation, index) => {
+        if(operation.operation != " ") {
+            changeIndices.push(index);
+        }
+    });
+
+    var hunkRanges: number[][] = [];
+    for(var changeIndex of changeIndices) {
+        var start = Math.max(0, changeIndex - DiffContextLines);
+        var end = Math.min(operations.length - 1, changeIndex + DiffContextLines);
+        var lastRange = hunkRanges[hunkRanges.length - 1];
+        if(lastRange && start <= lastRange[1] + 1) {
+            lastRange[1] = end;
+        }
+        else {
+            hunkRanges.push([start, end]);
+        }
+    }
+
+    var diff = "--- a/" + fileName + "\n+++ b/" + fileName + "\n";
+    var oldLineNumber = 0;
+    var newLineNumber = 0;
+    var operationIndex = 0;
+    for(var hunkRange of hunkRanges) {
+        for(; operationIndex < hunkRange[0]; operationIndex++) {
+            oldLineNumber += operations[operationIndex].operation != "+" ? 1 : 0;
+            newLineNumber += operations[operationIndex].operation != "-" ? 1 : 0;
+        }
+
+        var hunkLines: string[] = [];
+        var oldLineCount = 0;
+        var newLineCount = 0;
+        for(; operationIndex <= hunkRange[1]; operationIndex++) {
+            var operation = operations[operationIndex];
+            oldLineCount += operation.operation != "+" ? 1 : 0;
+            newLineCount += operation.operation != "-" ? 1 : 0;
+            hunkLines.push(operation.operation + operation.line);
+        }
+
+        diff += "@@ -" + getHunkStart(oldLineNumber, oldLineCount) + "," + oldLineCount + " +" + getHunkStart(newLineNumber, newLineCount) + "," + newLineCount + " @@\n";
+        diff += hunkLines.join("\n") + "\n";
+        oldLineNumber += oldLineCount;
+        newLineNumber += newLineCount;
+    }
+
+    return diff;
+}
+
+/**
+ * Computes the shortest edit script between the two line arrays. The lines common to the start and to the end
+ * of both arrays are matched first, so that the edit script search only covers the changed region.
+ *
+ * @returns  null if the arrays differ in more than MaxDiffEdits lines
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+    var prefixLength = 0;
+    while(prefixLength < oldLines.length && prefixLength < newLines.length && oldLines[prefixLength] == newLines[prefixLength]) {
+        prefixLength++;
+    }
+
+    var suffixLength = 0;
+    while(suffixLength < oldLines.length - prefixLength && suffixLength < newLines.length - prefixLength
+        && oldLines[oldLines.length - 1 - suffixLength] == newLines[newLines.length - 1 - suffixLength]) {
+        suffixLength++;
+    }
+
+    var editOperations = getShortestEditScript(oldLines.slice(prefixLength, oldLines.length - suffixLength), newLines.slice(prefixLength, newLines.length - suffixLength));
+    if(!editOperations) {
+        return null;
+    }
+
+    var toContextOperations = (lines: string[]) => lines.map((line) => <DiffOperation>{ operation: " ", line: line });
+    return toContextOperations(oldLines.slice(0, prefixLength)).concat(editOperations, toContextOperations(oldLines.slice(oldLines.length - suffixLength)));
+}
+
+/**
+ * Computes the shortest edit script between the two line arrays using the Myers difference algorithm.
+ * Only the diagonals reachable with each number of edits are kept for the backtracking, and the search is
+ * abandoned after MaxDiffEdits edits, which bounds the memory to O(MaxDiffEdits^2).
+ *
+ * @returns  null if no edit script with at most MaxDiffEdits edits exists
+ */
+function getShortestEditScript(oldLines: string[], newLines: string[]): DiffOperation[] {
+    var maxEdits = Math.min(oldLines.length + newLines.length, MaxDiffEdits);
+    var offset = maxEdits + 1;
+    var furthestReaching: number[] = new Array(2 * offset + 1).fill(0);
+    var trace: number[][] = [];
+    var isEditScriptFound = false;
+
+    for(var edits = 0; edits <= maxEdits && !isEditScriptFound; edits++) {
+        // furthest reaching x of the diagonals -edits..edits after edits - 1 edits, indexed by diagonal + edits
+        trace.push(furthestReaching.slice(offset - edits, offset + edits + 1));
+        for(var diagonal = -edits; diagonal <= edits; diagonal += 2) {
+            var x = (diagonal == -edits || (diagonal != edits && furthestReaching[offset + diagonal - 1] < furthestReaching[offset + diagonal + 1]))
+                ? furthestReaching[offset + diagonal + 1]
+                : furthestReaching[offset + diagonal - 1] + 1;
+            var y = x - diagonal;
+            while(x < oldLines.length && y < newLines.length && oldLines[x] == newLines[y]) {
+                x++;
+                y++;
+            }
+            furthestReaching[offset + diagonal] = x;
+            if(x >= oldLines.length && y >= newLines.length) {
+                isEditScriptFound = true;
+                break;
+            }
+        }
+    }
+
+    if(!isEditScriptFound) {
+        return null;
+    }
+
+    var operations: DiffOperation[] = [];
+    var x = oldLines.length;
+    var y = newLines.length;
+    for(var edits = trace.length - 1; edits >= 0; edits--) {
+        var previous = trace[edits];
+        var diagonal = x - y;
+        var previousDiagonal = (diagonal == -edits || (diagonal != edits && previous[edits + diagonal - 1] < previous[edits + diagonal + 1])) ? diagonal + 1 : diagonal - 1;
+        var previousX = edits > 0 ? previous[edits + previousDiagonal] : 0;
+        var previousY = edits > 0 ? previousX - previousDiagonal : 0;
+        while(x > previousX && y > previousY) {
+            operations.push({ operation: " ", line: oldLines[--x] });
+            y--;
+        }
+        if(edits > 0) {
+            if(x == previousX) {
+                operations.push({ operation: "+", line: newLines[--y] });
+            }
+            else {
+                operations.push({ operation: "-", line: oldLines[--x] });
+            }
+        }
+    }
+
+    return operations.reverse();
+}
+
+function getJsonChanges(originalValue, value, keyPath: string[]): FileTransformChange[] {
+    if(isJsonObject(originalValue) && isJsonObject(value)) {
+        var changes: FileTransformChange[] = [];
+        var keys = Object.keys(originalValue).concat(Object.keys(value).filter((key) => !originalValue.hasOwnProperty(key)));
+        for(var key of keys) {
+            changes = changes.concat(getJsonChanges(originalValue[key], value[key], keyPath.concat([key])));
+        }
+        return changes;
+    }
+
+    if(JSON.stringify(originalValue) === JSON.stringify(value)) {
+        return [];
+    }
+
+    return [{ key: keyPath.join('.'), oldValue: originalValue, newValue: value }];
+}
+
+function isJsonObject(value): boolean {
+    return value != null && typeof value == 'object' && !Array.isArray(value);
+}
+
+function getHunkStart(lineNumber: number, lineCount: number): number {
+    return lineCount == 0 ? lineNumber : lineNumber + 1;
+}
+
+function splitLines(content: string): string[] {
+    if(!content) {
+        return [];
+    }
+    var lines = content.split(/\r?\n/);
+    if(lines[lines.length - 1] == "") {
+        lines.pop();
+    }
+    return lines;
+}
+
+function stripBOM(content: string): string {
+    return content && content.charCodeAt(0) == 0xFEFF ? content.slice(1) : content;
+}
+
+function toReportValue(value: any): string {
+    if(value == null) {
+        return null;
+    }
+    return typeof value == "object" ? JSON.stringify(value) : value.toString();
+}
@@ -0,0 +1,587 @@
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+import fs = require('fs');
+import * as ParameterParser from './ParameterParserUtility';
+
+var jsonSubstitutionUtility = require('./jsonvariablesubstitutionutility.js');
+var fileEncoding = require('./fileencoding.js');
+var utility = require('./utility.js');
+var fileTransformReport = require('./filetransformreport.js');
+
+export interface JsonPatchOperation {
+    op: string;
+    path: string;
+    from?: string;
+    value?: any;
+}
+
+export interface JsonNode {
+    value: any;
+    pointer: string[];
+}
+
+/**
+ * Applies the RFC 6902 JSON Patch operations (add, remove, replace, move, copy, test) on the JSON object.
+ * The 'path' of an operation is either a JSON Pointer (/servers/0/port) or a JSONPath selector ($.servers[?(@.name == 'api')].port),
+ * in which case the operation is applied on every location matched by the selector.
+ *
+ * @param    jsonObject  JSON object to be patched
+ * @param    operations  JSON Patch operations
+ *
+ * @returns  the patched JSON object. The object is patched in place, except when the root is replaced.
+ */
+export function applyJsonPatch(jsonObject, operations: JsonPatchOperation[]) {
+    if(!Array.isArray(operations)) {
+        throw new Error(tl.loc('JSONPatchInvalidDocument'));
+    }
+
+    var document = { root: jsonObject };
+    for(var operation of operations) {
+        if(!operation || typeof operation.path != 'string') {
+            throw new Error(tl.loc('JSONPatchInvalidOperation', JSON.stringify(operation)));
+        }
+
+        // The last member of a JSONPath selector need not exist for 'add', so that new members can be added
+        var pointers: string[][] = isJsonPath(operation.path) ? new JsonPathExpression(operation.path).select(document.root, operation.op == 'add').map((node) => checkPointer(node.pointer)) : [parseJsonPointer(operation.path)];
+        if(pointers.length == 0) {
+            tl.warning(tl.loc('JSONPathNoMatch', operation.path));
+            continue;
+        }
+
+        // Array items are removed from the last one, so that the indices of the remaining matches stay valid
+        if(operation.op == 'remove') {
+            pointers.reverse();
+        }
+
+        for(var pointer of pointers) {
+            applyOperation(document, operation, pointer);
+        }
+    }
+
+    return document.root;
+}
+
+/**
+ * Selects the values matching the JSONPath expression.
+ * Supported syntax: $, .name, ['name'], [index], [*], .*, ..name (recursive descent), [start:end], [index1,index2] and
+ * filters [?(@.name == 'value')] with ==, !=, <, <=, >, >=, &&, || and existence checks.
+ *
+ * @returns  matched values with the JSON Pointer tokens of their location
+ */
+export function selectJsonPath(jsonObject, expression: string): JsonNode[] {
+    return new JsonPathExpression(expression).select(jsonObject);
+}
+
+/**
+ * Applies JSON Patch files on JSON target files
+ *
+ * @param    absolutePath  Root folder of the package
+ * @param    transformationRules  Rules in the format -patch <patch file> -json <target file pattern>
+ *
+ * @returns  true if all the rules were applied on at least one file
+ */
+export function jsonPatchTransformation(absolutePath: string, transformationRules: string[]): boolean {
+    var isTransformationApplied: boolean = true;
+    for(var rule of transformationRules) {
+        var args = ParameterParser.parse(rule);
+        if(!args["patch"] || !args["json"]) {
+            throw new Error(tl.loc('MissingArgumentsforJSONPatch'));
+        }
+
+        var patchFile = path.isAbsolute(args["patch"].value) ? args["patch"].value : path.join(absolutePath, args["patch"].value);
+        if(!tl.exist(patchFile)) {
+            throw new Error(tl.loc('JSONPatchFileNotFound', patchFile));
+        }
+        var operations = readJsonFile(patchFile);
+
+        var matchFiles = utility.findfiles(path.join(absolutePath, args["json"].value));
+        if(matchFiles.length === 0) {
+            throw new Error(tl.loc('NOJSONfilematchedwithspecificpattern', args["json"].value));
+        }
+
+        for(var file of matchFiles) {
+            console.log(tl.loc('ApplyingJSONPatch', patchFile, file));
+            fileTransformReport.addFile(file, 'jsonpatch');
+            var fileBuffer: Buffer = fs.readFileSync(file);
+            var fileEncodeType = fileEncoding.detectFileEncoding(file, fileBuffer);
+            var jsonObject = readJsonFile(file);
+            var originalJsonObject = clone(jsonObject);
+            try {
+                jsonObject = applyJsonPatch(jsonObject, operations);
+            }
+            catch(error) {
+                throw new Error(tl.loc('JSONPatchFailed', patchFile, file, error.message));
+            }
+
+            fileTransformReport.addJsonChanges(file, originalJsonObject, jsonObject);
+            isTransformationApplied = JSON.stringify(originalJsonObject) != JSON.stringify(jsonObject) && isTransformationApplied;
+            fileTransformReport.writeTransformedFile(file, (fileEncodeType[1] ? '\uFEFF' : '') + JSON.stringify(jsonObject, null, 4), fileEncodeType[0]);
+        }
+    }
+
+    return isTransformationApplied;
+}
+
+function readJsonFile(file: string) {
+    var fileBuffer: Buffer = fs.readFileSync(file);
+    var fileEncodeType = fileEncoding.detectFileEncoding(file, fileBuffer);
+    var fileContent: string = fileBuffer.toString(fileEncodeType[0]);
+    if(fileEncodeType[1]) {
+        fileContent = fileContent.slice(1);
+    }
+    try {
+        return JSON.parse(jsonSubstitutionUtility.stripJsonComments(fileContent));
+    }
+    catch(exception) {
+        throw Error(tl.loc('JSONParseError', file, exception));
+    }
+}
+
+function applyOperation(document: { root: any }, operation: JsonPatchOperation, pointer: string[]) {
+    switch(operation.op) {
+        case 'add':
+            addValue(document, pointer, clone(operation.value));
+            break;
+        case 'remove':
+            removeValue(document, pointer);
+            break;
+        case 'replace':
+            replaceValue(document, pointer, clone(operation.value));
+            break;
+        case 'move':
+            var fromPointer = parseJsonPointer(operation.from);
+            if(pointer.length > fromPointer.length && fromPointer.every((token, index) => token == pointer[index])) {
+                throw new Error(tl.loc('JSONPatchInvalidOperation', JSON.stringify(operation)));
+            }
+            var value = getValue(document.root, fromPointer, operation.from);
+            removeValue(document, fromPointer);
+            addValue(document, pointer, value);
+            break;
+        case 'copy':
+            addValue(document, pointer, clone(getValue(document.root, parseJsonPointer(operation.from), operation.from)));
+            break;
+        case 'test':
+            if(!isEqual(getValue(document.root, pointer, formatJsonPointer(pointer)), operation.value)) {
+                throw new Error(tl.loc('JSONPatchTestFailed', formatJsonPointer(pointer), JSON.stringify(operation.value)));
+            }
+            break;
+        default:
+            throw new Error(tl.loc('JSONPatchInvalidOperation', JSON.stringify(operation)));
+    }
+}
+
+function addValue(document: { root: any }, pointer: string[], value) {
+    if(pointer.length == 0) {
+        document.root = value;
+        return;
+    }
+
+    var parent = getValue(document.root, pointer.slice(0, -1), formatJsonPointer(pointer.slice(0, -1)));
+    var token = pointer[pointer.length - 1];
+    if(Array.isArray(parent)) {
+        var index = token == '-' ? parent.length : parseArrayIndex(token, pointer);
+        if(index > parent.length) {
+            throw new Error(tl.loc('JSONPatchPathNotFound', formatJsonPointer(pointer)));
+        }
+        parent.splice(index, 0, value);
+    }
+    else if(parent !== null && typeof parent == 'object') {
+        parent[token] = value;
+    }
+    else {
+        throw new Error(tl.loc('JSONPatchPathNotFound', formatJsonPointer(pointer)));
+    }
+}
+
+function replaceValue(document: { root: any }, pointer: string[], value) {
+    if(pointer.length == 0) {
+        document.root = value;
+        return;
+    }
+
+    var parent = getValue(document.root, pointer.slice(0, -1), formatJsonPointer(pointer.slice(0, -1)));
+    var token = pointer[pointer.length - 1];
+    getValue(parent, [token], formatJsonPointer(pointer));
+    parent[Array.isArray(parent) ? parseArrayIndex(token, pointer) : token] = value;
+}
+
+function removeValue(document: { root: any }, pointer: string[]) {
+    if(pointer.length == 0) {
+        document.root = null;
+        return;
+    }
+
+    var parent = getValue(document.root, pointer.slice(0, -1), formatJsonPointer(pointer.slice(0, -1)));
+    var token = pointer[pointer.length - 1];
+    if(Array.isArray(parent)) {
+        var index = parseArrayIndex(token, pointer);
+        if(index >= parent.length) {
+            throw new Error(tl.loc('JSONPatchPathNotFound', formatJsonPointer(pointer)));
+        }
+        parent.splice(index, 1);
+    }
+    else if(parent !== null && typeof parent == 'object' && Object.prototype.hasOwnProperty.call(parent, token)) {
+        delete parent[token];
+    }
+    else {
+        throw new Error(tl.loc('JSONPatchPathNotFound', formatJsonPointer(pointer)));
+    }
+}
+
+function getValue(jsonObject, pointer: string[], pointerText: string) {
+    var value = jsonObject;
+    for(var token of pointer) {
+        if(Array.isArray(value)) {
+            var index = parseArrayIndex(token, pointer);
+            if(index >= value.length) {
+                throw new Error(tl.loc('JSONPatchPathNotFound', pointerText));
+            }
+            value = value[index];
+        }
+        else if(value !== null && typeof value == 'object' && Object.prototype.hasOwnProperty.call(value, token)) {
+            value = value[token];
+        }
+        else {
+            throw new Error(tl.loc('JSONPatchPathNotFound', pointerText));
+        }
+    }
+    return value;
+}
+
+function parseArrayIndex(token: string, pointer: string[]): number {
+    if(!/^(0|[1-9][0-9]*)$/.test(token)) {
+        throw new Error(tl.loc('JSONPatchPathNotFound', formatJsonPointer(pointer)));
+    }
+    return parseInt(token);
+}
+
+function parseJsonPointer(pointer: string): string[] {
+    if(pointer == null || (pointer != '' && pointer[0] != '/')) {
+        throw new Error(tl.loc('JSONPatchInvalidPointer', pointer));
+    }
+    return checkPointer(pointer == '' ? [] : pointer.substr(1).split('/').map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~')));
+}
+
+/**
+ * Rejects the members that would change the prototype of the patched objects instead of adding a value to them.
+ */
+function checkPointer(pointer: string[]): string[] {
+    for(var token of pointer) {
+        if(token == '__proto__' || token == 'constructor' || token == 'prototype') {
+            throw new Error(tl.loc('JSONPatchForbiddenMember', token, formatJsonPointer(pointer)));
+        }
+    }
+    return pointer;
+}
+
+function formatJsonPointer(pointer: string[]): string {
+    return pointer.map((token) => '/' + token.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+function isJsonPath(value: string): boolean {
+    return value.startsWith('$');
+}
+
+function isEqual(value1, value2): boolean {
+    if(Array.isArray(value1) || Array.isArray(value2)) {
+        return Array.isArray(value1) && Array.isArray(value2) && value1.length == value2.length && value1.every((item, index) => isEqual(item, value2[index]));
+    }
+    if(value1 !== null && value2 !== null && typeof value1 == 'object' && typeof value2 == 'object') {
+        var keys1 = Object.keys(value1);
+        var keys2 = Object.keys(value2);
+        return keys1.length == keys2.length && keys1.every((key) => Object.prototype.hasOwnProperty.call(value2, key) && isEqual(value1[key], value2[key]));
+    }
+    return value1 === value2;
+}
+
+function clone(value) {
+    return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Evaluates a JSONPath expression. The expression is tokenized once and evaluated step by step on the matched nodes.
+ */
+class JsonPathExpression {
+
+    private expression: string;
+    private tokens: string[];
+    private position: number;
+
+    public constructor(expression: string) {
+        this.expression = expression;
+        this.tokens = tokenizeJsonPath(expression);
+    }
+
+    public select(jsonObject, selectMissingLastMember?: boolean): JsonNode[] {
+        this.position = 0;
+        if(this.next() != '$') {
+            this.throwInvalidExpression();
+        }
+
+        var nodes: JsonNode[] = [{ value: jsonObject, pointer: [] }];
+        while(this.peek() != null) {
+            var token = this.next();
+            if(token == '.') {
+                var name = this.next();
+                nodes = selectMissingLastMember && this.peek() == null ? this.selectMissingMember(nodes, name) : this.selectMember(nodes, name);
+            }
+            else if(token == '..') {
+                var descendants: JsonNode[] = [];
+                nodes.forEach((node) => descendants = descendants.concat(getDescendantNodes(node)));
+                nodes = this.peek() == '[' ? descendants : this.selectMember(descendants, this.next());
+            }
+            else if(token == '[') {
+                nodes = this.selectBracket(nodes);
+            }
+            else {
+                this.throwInvalidExpression();
+            }
+        }
+
+        return nodes;
+    }
+
+    private selectMember(nodes: JsonNode[], name: string): JsonNode[] {
+        this.checkMemberName(name);
+        return name == '*' ? getChildNodes(nodes) : getNamedChildNodes(nodes, [name]);
+    }
+
+    private selectMissingMember(nodes: JsonNode[], name: string): JsonNode[] {
+        this.checkMemberName(name);
+        return nodes.filter((node) => node.value !== null && typeof node.value == 'object' && !Array.isArray(node.value)).map((node) => {
+            return { value: node.value[name], pointer: node.pointer.concat([name]) };
+        });
+    }
+
+    private selectBracket(nodes: JsonNode[]): JsonNode[] {
+        var token = this.next();
+        if(token == '?') {
+            this.expect('(');
+            var filterStart = this.position;
+            var matchedNodes: JsonNode[] = [];
+            for(var child of getChildNodes(nodes)) {
+                this.position = filterStart;
+                if(toBoolean(this.parseOr(child))) {
+                    matchedNodes.push(child);
+                }
+            }
+            // The filter is parsed once more to move past it, as there may be no node to evaluate it on
+            this.position = filterStart;
+            this.parseOr({ value: null, pointer: [] });
+            this.expect(')');
+            this.expect(']');
+            return matchedNodes;
+        }
+
+        if(token == '*') {
+            this.expect(']');
+            return getChildNodes(nodes);
+        }
+
+        var selectors: string[] = [token];
+        while(this.peek() != ']' && this.peek() != null) {
+            selectors.push(this.next());
+        }
+        this.expect(']');
+
+        if(selectors.indexOf(':') != -1) {
+            return this.selectSlice(nodes, selectors);
+        }
+
+        var names = selectors.filter((selector) => selector != ',').map((selector) => isQuoted(selector) ? selector.substr(1, selector.length - 2) : selector);
+        var matchedNodes: JsonNode[] = [];
+        for(var node of nodes) {
+            for(var name of names) {
+                if(Array.isArray(node.value) && /^-?\d+$/.test(name)) {
+                    var index = parseInt(name) < 0 ? node.value.length + parseInt(name) : parseInt(name);
+                    if(index >= 0 && index < node.value.length) {
+                        matchedNodes.push({ value: node.value[index], pointer: node.pointer.concat([index.toString()]) });
+                    }
+                }
+                else {
+                    matchedNodes = matchedNodes.concat(getNamedChildNodes([node], [name]));
+                }
+            }
+        }
+        return matchedNodes;
+    }
+
+    private selectSlice(nodes: JsonNode[], selectors: string[]): JsonNode[] {
+        var separatorIndex = selectors.indexOf(':');
+        var start = separatorIndex > 0 ? parseInt(selectors[separatorIndex - 1]) : 0;
+        var endToken = selectors[separatorIndex + 1];
+        var matchedNodes: JsonNode[] = [];
+        for(var node of nodes.filter((node) => Array.isArray(node.value))) {
+            var length = node.value.length;
+            var end = endToken ? parseInt(endToken) : length;
+            var sliceStart = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+            var sliceEnd = end < 0 ? Math.max(length + end, 0) : Math.min(end, length);
+            for(var index = sliceStart; index < sliceEnd; index++) {
+                matchedNodes.push({ value: node.value[index], pointer: node.pointer.concat([index.toString()]) });
+            }
+        }
+        return matchedNodes;
+    }
+
+    private checkMemberName(name: string) {
+        if(name == null || !/^[^\[\]().'"]+$/.test(name)) {
+            this.throwInvalidExpression();
+        }
+    }
+
+    private parseOr(node: JsonNode): any {
+        var value = this.parseAnd(node);
+        while(this.peek() == '||') {
+            this.next();
+            var right = this.parseAnd(node);
+            value = toBoolean(value) || toBoolean(right);
+        }
+        return value;
+    }
+
+    private parseAnd(node: JsonNode): any {
+        var value = this.parseComparison(node);
+        while(this.peek() == '&&') {
+            this.next();
+            var right = this.parseComparison(node);
+            value = toBoolean(value) && toBoolean(right);
+        }
+        return value;
+    }
+
+    private parseComparison(node: JsonNode): any {
+        var value = this.parseOperand(node);
+        if(['==', '!=', '<', '<=', '>', '>='].indexOf(this.peek()) != -1) {
+            var operator = this.next();
+            var right = this.parseOperand(node);
+            switch(operator) {
+                case '==': return isEqual(value, right);
+                case '!=': return !isEqual(value, right);
+                case '<': return value != null && right != null && value < right;
+                case '<=': return value != null && right != null && value <= right;
+                case '>': return value != null && right != null && value > right;
+                case '>=': return value != null && right != null && value >= right;
+            }
+        }
+        return value;
+    }
+
+    private parseOperand(node: JsonNode): any {
+        var token = this.next();
+        if(token == null) {
+            this.throwInvalidExpression();
+        }
+        if(token == '(') {
+            var value = this.parseOr(node);
+            this.expect(')');
+            return value;
+        }
+        if(token == '!') {
+            return !toBoolean(this.parseOperand(node));
+        }
+        if(token == '@') {
+            var value = node.value;
+            while(this.peek() == '.' || this.peek() == '[') {
+                if(this.next() == '.') {
+                    var name = this.next();
+                    value = value !== null && typeof value == 'object' && Object.prototype.hasOwnProperty.call(value, name) ? value[name] : undefined;
+                }
+                else {
+                    var key = this.next();
+                    this.expect(']');
+                    key = isQuoted(key) ? key.substr(1, key.length - 2) : key;
+                    value = value !== null && typeof value == 'object' && Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+                }
+            }
+            return value;
+        }
+        if(isQuoted(token)) {
+            return token.substr(1, token.length - 2);
+        }
+        if(/^-?\d+(\.\d+)?$/.test(token)) {
+            return parseFloat(token);
+        }
+        switch(token) {
+            case 'true': return true;
+            case 'false': return false;
+            case 'null': return null;
+        }
+
+        this.throwInvalidExpression();
+    }
+
+    private peek(): string {
+        return this.position < this.tokens.length ? this.tokens[this.position] : null;
+    }
+
+    private next(): string {
+        return this.position < this.tokens.length ? this.tokens[this.position++] : null;
+    }
+
+    private expect(token: string) {
+        if(this.next() != token) {
+            this.throwInvalidExpression();
+        }
+    }
+
+    private throwInvalidExpression() {
+        throw new Error(tl.loc('JSONPathInvalidExpression', this.expression));
+    }
+}
+
+function tokenizeJsonPath(expression: string): string[] {
+    var tokens = [];
+    var tokenPattern = /^\s*(\.\.|\.|\[|\]|\(|\)|\$|@|\?|\*|,|:|==|!=|<=|>=|<|>|&&|\|\||!|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?|[^\s.\[\]()$@?*,:=!<>&|'"]+)/;
+    var remaining = expression.trim();
+    while(remaining.length > 0) {
+        var match = remaining.match(tokenPattern);
+        if(!match) {
+            throw new Error(tl.loc('JSONPathInvalidExpression', expression));
+        }
+        tokens.push(match[1]);
+        remaining = remaining.substr(match[0].length);
+    }
+    return tokens;
+}
+
+function getChildNodes(nodes: JsonNode[]): JsonNode[] {
+    var children: JsonNode[] = [];
+    for(var node of nodes) {
+        if(node.value !== null && typeof node.value == 'object') {
+            for(var key of Object.keys(node.value)) {
+                children.push({ value: node.value[key], pointer: node.pointer.concat([key]) });
+            }
+        }
+    }
+    return children;
+}
+
+function getNamedChildNodes(nodes: JsonNode[], names: string[]): JsonNode[] {
+    var children: JsonNode[] = [];
+    for(var node of nodes) {
+        if(node.value !== null && typeof node.value == 'object' && !Array.isArray(node.value)) {
+            for(var name of names) {
+                if(Object.prototype.hasOwnProperty.call(node.value, name)) {
+                    children.push({ value: node.value[name], pointer: node.pointer.concat([name]) });
+                }
+            }
+        }
+    }
+    return children;
+}
+
+function getDescendantNodes(node: JsonNode): JsonNode[] {
+    var descendants: JsonNode[] = [node];
+    for(var child of getChildNodes([node])) {
+        descendants = descendants.concat(getDescendantNodes(child));
+    }
+    return descendants;
+}
+
+function isQuoted(token: string): boolean {
+    return token.length >= 2 && (token[0] == "'" || token[0] == '"') && token[token.length - 1] == token[0];
+}
+
+function toBoolean(value): boolean {
+    return value !== undefined && value !== null && value !== false;
+}
@@ -6,6 +6,7 @@ import { isNumber, isBoolean } from 'util';
 var varUtility = require ('./variableutility.js');
 var fileEncoding = require('./fileencoding.js');
 var utility = require('./utility.js');
+var fileTransformReport = require('./filetransformreport.js');
 export function createEnvTree(envVariables) {
     // __proto__ is marked as null, so that custom object can be assgined.
     // This replacement do not affect the JSON object, as no inbuilt JSON function is referenced.
@@ -39,7 +40,7 @@ export function createEnvTree(envVariables) {
     return envVarTree;
 }
 
-function checkEnvTreePath(jsonObjectKey, index, jsonObjectKeyLength, envVarTree) {
+export function checkEnvTreePath(jsonObjectKey, index, jsonObjectKeyLength, envVarTree) {
     if(index == jsonObjectKeyLength) {
         return envVarTree;
     }
@@ -194,11 +195,13 @@ export function jsonVariableSubstitution(absolutePath, jsonSubFiles, substituteA
             try {
                 fileContent = stripJsonComments(fileContent);
                 var jsonObject = JSON.parse(fileContent);
+                var originalJsonObject = JSON.parse(fileContent);
             }
             catch(exception) {
                 throw Error(tl.loc('JSONParseError', file, exception));
             }
             console.log(tl.loc('JSONvariableSubstitution' , file));
+            fileTransformReport.addFile(file, 'json');
             if(substituteAllTypes) {
                 isSubstitutionApplied = substituteJsonVariableV2(jsonObject, envVarObject) || isSubstitutionApplied;
             }
@@ -206,7 +209,8 @@ export function jsonVariableSubstitution(absolutePath, jsonSubFiles, substituteA
                 isSubstitutionApplied = substituteJsonVariable(jsonObject, envVarObject) || isSubstitutionApplied;
             }
             
-            tl.writeFile(file, (fileEncodeType[1] ? '\uFEFF' : '') + JSON.stringify(jsonObject, null, 4), fileEncodeType[0]);
+            fileTransformReport.addJsonChanges(file, originalJsonObject, jsonObject);
+            fileTransformReport.writeTransformedFile(file, (fileEncodeType[1] ? '\uFEFF' : '') + JSON.stringify(jsonObject, null, 4), fileEncodeType[0]);
         }
     }
     
@@ -0,0 +1,210 @@
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+import fs = require('fs');
+
+var jsonSubstitutionUtility = require('./jsonvariablesubstitutionutility.js');
+var fileEncoding = require('./fileencoding.js');
+var utility = require('./utility.js');
+var fileTransformReport = require('./filetransformreport.js');
+
+export interface PropertiesSubstitution {
+    key: string;
+    oldValue: string;
+    newValue: string;
+}
+
+/**
+ * Substitutes the values of Java .properties entries whose key matches a variable name.
+ * Comments, blank lines, separators and ordering of the entries are retained.
+ *
+ * @param    content  .properties file content
+ * @param    envVarTree  Variable tree created using createEnvTree
+ *
+ * @returns  updated content, whether any value was substituted and the substituted values
+ */
+export function substitutePropertiesVariables(content: string, envVarTree): { content: string, isSubstitutionApplied: boolean, substitutions: PropertiesSubstitution[] } {
+    var lineSeparator = content.indexOf('\r\n') != -1 ? '\r\n' : '\n';
+    var lines = content.split(/\r?\n/);
+    var isSubstitutionApplied: boolean = false;
+    var substitutions: PropertiesSubstitution[] = [];
+
+    for(var lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        var line = lines[lineIndex];
+        var trimmedLine = line.trim();
+        var logicalLineEnd = lineIndex;
+        while(logicalLineEnd < lines.length - 1 && isContinuationLine(lines[logicalLineEnd])) {
+            logicalLineEnd++;
+        }
+
+        if(trimmedLine == '' || trimmedLine.startsWith('#') || trimmedLine.startsWith('!')) {
+            continue;
+        }
+
+        var match = line.match(/^(\s*)((?:\\.|[^\s:=\\])+)(\s*[:=]\s*|\s+|$)/);
+        if(match) {
+            var key = match[2].replace(/\\(.)/g, '$1');
+            var variableNode = getVariableNode(key, envVarTree);
+            if(variableNode) {
+                console.log(tl.loc('SubstitutingValueonKey', key));
+                var separator = match[3] || '=';
+                var valueLines = [line.substr(match[0].length)].concat(lines.slice(lineIndex + 1, logicalLineEnd + 1).map((valueLine) => valueLine.replace(/^\s+/, '')));
+                var currentValue = valueLines.map((valueLine, index) => index < valueLines.length - 1 ? valueLine.replace(/\\$/, '') : valueLine).join('');
+                substitutions.push({ key: key, oldValue: currentValue, newValue: variableNode.value });
+                lines.splice(lineIndex, logicalLineEnd - lineIndex + 1, match[1] + match[2] + separator + escapePropertiesValue(variableNode.value));
+                logicalLineEnd = lineIndex;
+                isSubstitutionApplied = true;
+            }
+        }
+
+        lineIndex = logicalLineEnd;
+    }
+
+    return {
+        content: lines.join(lineSeparator),
+        isSubstitutionApplied: isSubstitutionApplied,
+        substitutions: substitutions
+    };
+}
+
+/**
+ * Substitutes the values of .env file entries whose name matches a variable name.
+ * Comments, 'export' prefixes and the quoting style of existing values are retained.
+ *
+ * @param    content  .env file content
+ * @param    envVarTree  Variable tree created using createEnvTree
+ *
+ * @returns  updated content, whether any value was substituted and the substituted values
+ */
+export function substituteEnvVariables(content: string, envVarTree): { content: string, isSubstitutionApplied: boolean, substitutions: PropertiesSubstitution[] } {
+    var lineSeparator = content.indexOf('\r\n') != -1 ? '\r\n' : '\n';
+    var lines = content.split(/\r?\n/);
+    var isSubstitutionApplied: boolean = false;
+    var substitutions: PropertiesSubstitution[] = [];
+
+    for(var lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        var match = lines[lineIndex].match(/^(\s*(?:export\s+)?)([\w.\-]+)(\s*=\s*)(.*)$/);
+        if(!match) {
+            continue;
+        }
+
+        var variableNode = getVariableNode(match[2], envVarTree);
+        if(!variableNode) {
+            continue;
+        }
+
+        console.log(tl.loc('SubstitutingValueonKey', match[2]));
+        var currentValue = match[4];
+        var newValue: string = variableNode.value == null ? '' : variableNode.value.toString();
+        var formattedValue: string;
+        var comment = '';
+        if(currentValue.startsWith("'") && newValue.indexOf("'") == -1 && !/[\r\n]/.test(newValue)) {
+            formattedValue = "'" + newValue + "'";
+            comment = getTrailingComment(currentValue, currentValue.indexOf("'", 1));
+        }
+        else if(currentValue.startsWith('"') || currentValue.startsWith("'") || /[\s#'"\\`$]/.test(newValue)) {
+            formattedValue = '"' + newValue.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n').replace(/\$/g, '\\$') + '"';
+            if(currentValue.startsWith('"') || currentValue.startsWith("'")) {
+                comment = getTrailingComment(currentValue, findClosingQuote(currentValue));
+            }
+            else {
+                var commentMatch = currentValue.match(/\s+#.*$/);
+                comment = commentMatch ? commentMatch[0] : '';
+            }
+        }
+        else {
+            formattedValue = newValue;
+            var commentMatch = currentValue.match(/\s+#.*$/);
+            comment = commentMatch ? commentMatch[0] : '';
+        }
+
+        substitutions.push({ key: match[2], oldValue: currentValue.substr(0, currentValue.length - comment.length), newValue: newValue });
+        lines[lineIndex] = match[1] + match[2] + match[3] + formattedValue + comment;
+        isSubstitutionApplied = true;
+    }
+
+    return {
+        content: lines.join(lineSeparator),
+        isSubstitutionApplied: isSubstitutionApplied,
+        substitutions: substitutions
+    };
+}
+
+export function propertiesVariableSubstitution(absolutePath, propertiesSubFiles): boolean {
+    return substituteVariablesInFiles(absolutePath, propertiesSubFiles, 'properties', 'PropertiesvariableSubstitution', 'NOPropertiesfilematchedwithspecificpattern', substitutePropertiesVariables);
+}
+
+export function envVariableSubstitution(absolutePath, envSubFiles): boolean {
+    return substituteVariablesInFiles(absolutePath, envSubFiles, 'env', 'EnvvariableSubstitution', 'NOEnvfilematchedwithspecificpattern', substituteEnvVariables);
+}
+
+function substituteVariablesInFiles(absolutePath, subFiles, fileType: string, substitutionMessage: string, noMatchMessage: string, substitute: (content: string, envVarTree) => { content: string, isSubstitutionApplied: boolean, substitutions: PropertiesSubstitution[] }): boolean {
+    var envVarTree = jsonSubstitutionUtility.createEnvTree(tl.getVariables());
+    let isSubstitutionApplied: boolean = false;
+    for(let subFile of subFiles) {
+        console.log(tl.loc(substitutionMessage, subFile));
+        var matchFiles = utility.findfiles(path.join(absolutePath, subFile));
+        if(matchFiles.length === 0) {
+            throw new Error(tl.loc(noMatchMessage, subFile));
+        }
+        for(let file of matchFiles) {
+            var fileBuffer: Buffer = fs.readFileSync(file);
+            var fileEncodeType = fileEncoding.detectFileEncoding(file, fileBuffer);
+            var fileContent: string = fileBuffer.toString(fileEncodeType[0]);
+            if(fileEncodeType[1]) {
+                fileContent = fileContent.slice(1);
+            }
+            console.log(tl.loc(substitutionMessage, file));
+            fileTransformReport.addFile(file, fileType);
+            var result = substitute(fileContent, envVarTree);
+            for(let substitution of result.substitutions) {
+                fileTransformReport.addChange(file, fileType, substitution.key, substitution.oldValue, substitution.newValue, substitution.key);
+            }
+            if(result.isSubstitutionApplied) {
+                fileTransformReport.writeTransformedFile(file, (fileEncodeType[1] ? '\uFEFF' : '') + result.content, fileEncodeType[0]);
+                isSubstitutionApplied = true;
+            }
+            else {
+                console.log(tl.loc('SkippedUpdatingFile', file));
+            }
+        }
+    }
+
+    return isSubstitutionApplied;
+}
+
+function getVariableNode(key: string, envVarTree) {
+    var keyPath = key.split('.');
+    var resultNode = jsonSubstitutionUtility.checkEnvTreePath(keyPath, 0, keyPath.length, envVarTree);
+    return resultNode && resultNode.isEnd ? resultNode : null;
+}
+
+function isContinuationLine(line: string): boolean {
+    var trailingBackslashes = line.match(/\\*$/)[0].length;
+    return trailingBackslashes % 2 == 1;
+}
+
+function escapePropertiesValue(value: string): string {
+    value = value == null ? '' : value.toString();
+    return value.replace(/\\/g, '\\\\')
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t')
+        .replace(/^\s/, (whitespace) => '\\' + whitespace);
+}
+
+function findClosingQuote(value: string): number {
+    var quote = value[0];
+    var index = 1;
+    while(index < value.length && value[index] != quote) {
+        index += (quote == '"' && value[index] == '\\') ? 2 : 1;
+    }
+    return index < value.length ? index : -1;
+}
+
+function getTrailingComment(value: string, closingQuoteIndex: number): string {
+    if(closingQuoteIndex == -1) {
+        return '';
+    }
+    var rest = value.substr(closingQuoteIndex + 1);
+    return /^\s+#/.test(rest) ? rest : '';
+}
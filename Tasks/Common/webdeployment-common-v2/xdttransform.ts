@@ -0,0 +1,623 @@
+import tl = require('azure-pipelines-task-lib/task');
+
+var ltx = require("ltx");
+var ltxdomutility = require("./ltxdomutility.js");
+
+const XdtNamespace = "http://schemas.microsoft.com/XML-Document-Transform";
+const XdtCommentToken = "XDT_COMMENT_TOKEN_";
+
+/**
+ * Applies XML Document Transform (XDT) semantics on a source XML document.
+ * Supported transforms : Insert, InsertIfMissing, InsertBefore, InsertAfter, Remove, RemoveAll, Replace, SetAttributes, RemoveAttributes
+ * Supported locators   : Match, Condition, XPath
+ */
+export class XdtTransform {
+
+    private sourceDom;
+    private transformDom;
+    private sourceProlog: string;
+    private sourceEpilog: string;
+    private sourceComments: string[] = [];
+    private xdtPrefix: string = "xdt";
+    private changes: { key: string, oldValue: string, newValue: string }[] = [];
+
+    public constructor(sourceContent: string, transformContent: string) {
+        this.sourceProlog = getProlog(sourceContent);
+        this.sourceEpilog = sourceContent.match(/\s*$/)[0];
+        sourceContent = this.tokenizeComments(sourceContent.substr(this.sourceProlog.length));
+        this.sourceDom = new ltxdomutility.LtxDomUtility(sourceContent).getXmlDom();
+        this.transformDom = new ltxdomutility.LtxDomUtility(stripComments(transformContent)).getXmlDom();
+        for(var attributeName in this.transformDom.attrs) {
+            if(attributeName.startsWith("xmlns:") && this.transformDom.attrs[attributeName] == XdtNamespace) {
+                this.xdtPrefix = attributeName.substr("xmlns:".length);
+            }
+        }
+    }
+
+    /**
+     * Applies all transforms present in the transform document on the source document.
+     *
+     * @returns true if at least one transform modified the source document
+     */
+    public apply(): boolean {
+        var documentNode = { name: null, children: [this.sourceDom], parent: null };
+        return this.applyTransformElement(this.transformDom, [documentNode], "");
+    }
+
+    /**
+     * Returns the transformed document along with the XML declaration and comments preceding the root element,
+     * and the whitespace following it.
+     */
+    public getTransformedContent(): string {
+        return this.sourceProlog + this.serialize(this.sourceDom) + this.sourceEpilog;
+    }
+
+    /**
+     * Returns the nodes and attributes modified by the applied transforms, keyed by the path of the element.
+     */
+    public getChanges(): { key: string, oldValue: string, newValue: string }[] {
+        return this.changes;
+    }
+
+    private applyTransformElement(transformElement, sourceParents: any[], parentPath: string): boolean {
+        var elementPath = parentPath + "/" + transformElement.name;
+        var transformAttribute = this.getXdtAttribute(transformElement, "Transform");
+        var locatorAttribute = this.getXdtAttribute(transformElement, "Locator");
+
+        var candidates = [];
+        for(var sourceParent of sourceParents) {
+            candidates = candidates.concat(getChildElements(sourceParent).filter((child) => child.name == transformElement.name));
+        }
+
+        var targets = locatorAttribute ? this.locate(transformElement, candidates, locatorAttribute) : candidates;
+        var isTransformApplied: boolean = false;
+        if(transformAttribute) {
+            isTransformApplied = this.applyTransform(transformElement, transformAttribute, targets, sourceParents, elementPath);
+            var transform = parseFunction(transformAttribute).name;
+            if(transform != "SetAttributes" && transform != "RemoveAttributes") {
+                return isTransformApplied;
+            }
+        }
+
+        for(var transformChild of getChildElements(transformElement)) {
+            isTransformApplied = this.applyTransformElement(transformChild, targets, elementPath) || isTransformApplied;
+        }
+
+        return isTransformApplied;
+    }
+
+    private locate(transformElement, candidates: any[], locatorAttribute: string): any[] {
+        var locator = parseFunction(locatorAttribute);
+        switch(locator.name) {
+            case "Match":
+                var attributeNames = splitArguments(locator.args);
+                return candidates.filter((candidate) => {
+                    return attributeNames.every((attributeName) => candidate.attrs[attributeName] === transformElement.attrs[attributeName]);
+                });
+            case "Condition":
+                var predicate = new XPathExpression(locator.args);
+                return candidates.filter((candidate, index) => predicate.evaluatePredicate(candidate, index + 1));
+            case "XPath":
+                return new XPathExpression(locator.args).select(this.sourceDom);
+            default:
+                throw new Error(tl.loc("XdtUnknownLocator", locatorAttribute));
+        }
+    }
+
+    private applyTransform(transformElement, transformAttribute: string, targets: any[], sourceParents: any[], elementPath: string): boolean {
+        var transform = parseFunction(transformAttribute);
+        var parents = sourceParents.filter((sourceParent) => sourceParent.name != null);
+        switch(transform.name) {
+            case "Insert":
+                if(parents.length == 0) {
+                    return this.noElementMatches(elementPath);
+                }
+                for(var parent of parents) {
+                    this.insertElement(parent, this.createElement(transformElement), parent.children.length);
+                }
+                return true;
+            case "InsertIfMissing":
+                if(targets.length > 0) {
+                    tl.debug("Skipping InsertIfMissing as element already exists: " + elementPath);
+                    return false;
+                }
+                if(parents.length == 0) {
+                    return this.noElementMatches(elementPath);
+                }
+                for(var parent of parents) {
+                    this.insertElement(parent, this.createElement(transformElement), parent.children.length);
+                }
+                return true;
+            case "InsertBefore":
+            case "InsertAfter":
+                var siblings = new XPathExpression(transform.args).select(this.sourceDom);
+                if(siblings.length == 0) {
+                    return this.noElementMatches(transform.args);
+                }
+                for(var sibling of siblings) {
+                    var index = sibling.parent.children.indexOf(sibling);
+                    this.insertElement(sibling.parent, this.createElement(transformElement), transform.name == "InsertBefore" ? index : index + 1);
+                }
+                return true;
+        }
+
+        if(targets.length == 0) {
+            return this.noElementMatches(elementPath);
+        }
+
+        switch(transform.name) {
+            case "Remove":
+                this.addChange(getElementPath(targets[0]), this.serialize(targets[0]), null);
+                removeElementLine(targets[0]);
+                break;
+            case "RemoveAll":
+                targets.forEach((target) => {
+                    this.addChange(getElementPath(target), this.serialize(target), null);
+                    removeElementLine(target);
+                });
+                break;
+            case "Replace":
+                var target = targets[0];
+                var index = target.parent.children.indexOf(target);
+                var replacement = this.createElement(transformElement);
+                removeElement(target);
+                insertChild(target.parent, replacement, index);
+                this.addChange(getElementPath(replacement), this.serialize(target), this.serialize(replacement));
+                break;
+            case "SetAttributes":
+                var attributeNames = transform.args ? splitArguments(transform.args) : Object.keys(transformElement.attrs).filter((attributeName) => !this.isXdtAttribute(attributeName));
+                for(var target of targets) {
+                    for(var attributeName of attributeNames) {
+                        if(transformElement.attrs[attributeName] !== undefined) {
+                            this.addChange(getElementPath(target) + "/@" + attributeName, target.attrs[attributeName], transformElement.attrs[attributeName]);
+                            target.attrs[attributeName] = transformElement.attrs[attributeName];
+                        }
+                    }
+                }
+                break;
+            case "RemoveAttributes":
+                var attributeNames = splitArguments(transform.args);
+                for(var target of targets) {
+                    for(var attributeName of attributeNames) {
+                        if(target.attrs[attributeName] !== undefined) {
+                            this.addChange(getElementPath(target) + "/@" + attributeName, target.attrs[attributeName], null);
+                        }
+                        delete target.attrs[attributeName];
+                    }
+                }
+                break;
+            default:
+                throw new Error(tl.loc("XdtUnknownTransform", transformAttribute));
+        }
+
+        return true;
+    }
+
+    private insertElement(parent, element, index: number) {
+        insertIndentedChild(parent, element, index);
+        this.addChange(getElementPath(element), null, this.serialize(element));
+    }
+
+    private addChange(key: string, oldValue: string, newValue: string) {
+        if(oldValue !== newValue) {
+            this.changes.push({ key: key, oldValue: oldValue, newValue: newValue });
+        }
+    }
+
+    private noElementMatches(elementPath: string): boolean {
+        tl.warning(tl.loc("XdtNoElementMatchesTransform", elementPath));
+        return false;
+    }
+
+    /**
+     * Creates a copy of the transform element without the xdt attributes, to be placed in the source document.
+     */
+    private createElement(transformElement) {
+        var element = transformElement.clone();
+        this.removeXdtAttributes(element);
+        return element;
+    }
+
+    private removeXdtAttributes(element) {
+        for(var attributeName of Object.keys(element.attrs)) {
+            if(this.isXdtAttribute(attributeName)) {
+                delete element.attrs[attributeName];
+            }
+        }
+        getChildElements(element).forEach((child) => this.removeXdtAttributes(child));
+    }
+
+    private getXdtAttribute(element, name: string): string {
+        return element.attrs[this.xdtPrefix + ":" + name];
+    }
+
+    private isXdtAttribute(attributeName: string): boolean {
+        return attributeName.startsWith(this.xdtPrefix + ":") || attributeName == "xmlns:" + this.xdtPrefix;
+    }
+
+    /**
+     * ltx does not retain comments. Comments are replaced with placeholder elements so that they are written back as is.
+     */
+    private tokenizeComments(content: string): string {
+        return content.replace(/<!--([\s\S]*?)-->/g, (comment) => {
+            this.sourceComments.push(comment);
+            return "<" + XdtCommentToken + (this.sourceComments.length - 1) + "/>";
+        });
+    }
+
+    /**
+     * Writes the node back with the whitespace of the source document as is, as ctt did when run with 'pw'.
+     */
+    private serialize(node): string {
+        if(typeof node == "string") {
+            return ltx.escapeXMLText(node);
+        }
+
+        if(node.name.startsWith(XdtCommentToken)) {
+            return this.sourceComments[parseInt(node.name.substr(XdtCommentToken.length))];
+        }
+
+        var content = "<" + node.name;
+        for(var attributeName in node.attrs) {
+            if(node.attrs[attributeName] !== undefined && node.attrs[attributeName] !== null) {
+                content += " " + attributeName + "=\"" + escapeAttributeValue(node.attrs[attributeName].toString()) + "\"";
+            }
+        }
+
+        if(node.children.length == 0) {
+            return content + " />";
+        }
+
+        content += ">";
+        for(var child of node.children) {
+            content += this.serialize(child);
+        }
+
+        return content + "</" + node.name + ">";
+    }
+}
+
+/**
+ * Evaluates the subset of XPath used by XDT locators and transforms: location paths with
+ * child (/) and descendant (//) steps, '*', '.', '..' and predicates with attribute comparisons,
+ * 'and', 'or', 'not()' and positions.
+ */
+class XPathExpression {
+
+    private tokens: string[];
+    private position: number;
+    private expression: string;
+
+    public constructor(expression: string) {
+        this.expression = expression.trim();
+        this.tokens = tokenizeXPath(this.expression);
+    }
+
+    /**
+     * Returns the elements selected by the expression. Relative paths are evaluated from the document.
+     */
+    public select(rootElement): any[] {
+        this.position = 0;
+        var documentNode = { name: null, children: [rootElement], parent: null };
+        var nodes = this.parsePath([documentNode]);
+        this.expectEnd();
+        return nodes;
+    }
+
+    public evaluatePredicate(element, index: number): boolean {
+        this.position = 0;
+        var value = this.parseOr(element, index);
+        this.expectEnd();
+        return toBoolean(value, index);
+    }
+
+    private parsePath(contextNodes: any[]): any[] {
+        var nodes = contextNodes;
+        var axis = "/";
+        if(this.peek() == "/" || this.peek() == "//") {
+            axis = this.next();
+        }
+
+        while(true) {
+            nodes = this.parseStep(nodes, axis);
+            if(this.peek() == "/" || this.peek() == "//") {
+                axis = this.next();
+            }
+            else {
+                return nodes;
+            }
+        }
+    }
+
+    private parseStep(contextNodes: any[], axis: string): any[] {
+        var nameTest = this.next();
+        if(!nameTest || !/^([\w\-:.]+|\*|\.|\.\.)$/.test(nameTest)) {
+            throw new Error(tl.loc("XdtInvalidXPathExpression", this.expression));
+        }
+
+        var nodes = [];
+        for(var contextNode of contextNodes) {
+            var stepNodes;
+            if(nameTest == ".") {
+                stepNodes = [contextNode];
+            }
+            else if(nameTest == "..") {
+                stepNodes = contextNode.parent ? [contextNode.parent] : [];
+            }
+            else {
+                stepNodes = (axis == "//" ? getDescendantElements(contextNode) : getChildElements(contextNode))
+                    .filter((element) => nameTest == "*" || element.name == nameTest);
+            }
+
+            while(this.peek() == "[") {
+                this.next();
+                var predicateStart = this.position;
+                var filteredNodes = [];
+                for(var i = 0; i < stepNodes.length; i++) {
+                    this.position = predicateStart;
+                    if(toBoolean(this.parseOr(stepNodes[i], i + 1), i + 1)) {
+                        filteredNodes.push(stepNodes[i]);
+                    }
+                }
+                this.position = predicateStart;
+                this.skipExpression();
+                this.expect("]");
+                stepNodes = filteredNodes;
+            }
+
+            stepNodes.forEach((node) => {
+                if(nodes.indexOf(node) == -1) {
+                    nodes.push(node);
+                }
+            });
+        }
+
+        return nodes;
+    }
+
+    private parseOr(element, index: number): any {
+        var value = this.parseAnd(element, index);
+        while(this.peek() == "or") {
+            this.next();
+            var right = this.parseAnd(element, index);
+            value = toBoolean(value, index) || toBoolean(right, index);
+        }
+        return value;
+    }
+
+    private parseAnd(element, index: number): any {
+        var value = this.parseEquality(element, index);
+        while(this.peek() == "and") {
+            this.next();
+            var right = this.parseEquality(element, index);
+            value = toBoolean(value, index) && toBoolean(right, index);
+        }
+        return value;
+    }
+
+    private parseEquality(element, index: number): any {
+        var left = this.parsePrimary(element, index);
+        if(this.peek() == "=" || this.peek() == "!=") {
+            var operator = this.next();
+            var right = this.parsePrimary(element, index);
+            if(left === undefined || right === undefined) {
+                return false;
+            }
+            return operator == "=" ? left.toString() == right.toString() : left.toString() != right.toString();
+        }
+        return left;
+    }
+
+    private parsePrimary(element, index: number): any {
+        var token = this.next();
+        if(token == "(") {
+            var value = this.parseOr(element, index);
+            this.expect(")");
+            return value;
+        }
+        if(token == "not" && this.peek() == "(") {
+            this.next();
+            var value = this.parseOr(element, index);
+            this.expect(")");
+            return !toBoolean(value, index);
+        }
+        if(token == "position" && this.peek() == "(") {
+            this.next();
+            this.expect(")");
+            return index;
+        }
+        if(token == "@") {
+            return element.attrs[this.next()];
+        }
+        if(token && (token[0] == "'" || token[0] == "\"")) {
+            return token.substr(1, token.length - 2);
+        }
+        if(token && /^\d+(\.\d+)?$/.test(token)) {
+            return Number(token);
+        }
+        if(token && /^[\w\-:.]+$/.test(token)) {
+            var child = getChildElements(element).filter((childElement) => childElement.name == token)[0];
+            return child ? child.getText() : undefined;
+        }
+        throw new Error(tl.loc("XdtInvalidXPathExpression", this.expression));
+    }
+
+    private skipExpression() {
+        var depth = 0;
+        while(this.position < this.tokens.length) {
+            var token = this.tokens[this.position];
+            if(token == "[" || token == "(") {
+                depth++;
+            }
+            else if(token == "]" || token == ")") {
+                if(depth == 0) {
+                    return;
+                }
+                depth--;
+            }
+            this.position++;
+        }
+    }
+
+    private peek(): string {
+        return this.tokens[this.position];
+    }
+
+    private next(): string {
+        return this.tokens[this.position++];
+    }
+
+    private expect(token: string) {
+        if(this.next() != token) {
+            throw new Error(tl.loc("XdtInvalidXPathExpression", this.expression));
+        }
+    }
+
+    private expectEnd() {
+        if(this.position != this.tokens.length) {
+            throw new Error(tl.loc("XdtInvalidXPathExpression", this.expression));
+        }
+    }
+}
+
+function tokenizeXPath(expression: string): string[] {
+    var tokens = [];
+    var tokenPattern = /^\s*(\/\/|\/|\.\.|\[|\]|\(|\)|@|!=|=|,|\*|'[^']*'|"[^"]*"|\d+(?:\.\d+)?|[A-Za-z_][\w\-:.]*|\.)/;
+    var remaining = expression.trim();
+    while(remaining.length > 0) {
+        var match = remaining.match(tokenPattern);
+        if(!match) {
+            throw new Error(tl.loc("XdtInvalidXPathExpression", expression));
+        }
+        tokens.push(match[1]);
+        remaining = remaining.substr(match[0].length).trim();
+    }
+    return tokens;
+}
+
+function toBoolean(value, index: number): boolean {
+    if(typeof value == "number") {
+        return value == index;
+    }
+    return !!value || value === "";
+}
+
+function parseFunction(value: string): { name: string, args: string } {
+    var match = value.trim().match(/^(\w+)\s*(?:\(([\s\S]*)\))?$/);
+    if(!match) {
+        return { name: value.trim(), args: null };
+    }
+    return { name: match[1], args: match[2] ? match[2].trim() : null };
+}
+
+function splitArguments(args: string): string[] {
+    return args ? args.split(",").map((arg) => arg.trim()).filter((arg) => arg.length > 0) : [];
+}
+
+function getChildElements(node): any[] {
+    return node.children ? node.children.filter((child) => typeof child != "string" && !child.name.startsWith(XdtCommentToken)) : [];
+}
+
+function getDescendantElements(node): any[] {
+    var descendants = [];
+    for(var child of getChildElements(node)) {
+        descendants.push(child);
+        descendants = descendants.concat(getDescendantElements(child));
+    }
+    return descendants;
+}
+
+/**
+ * Returns the location of the element, with the 'key' or 'name' attribute of each step when present. ex: /configuration/appSettings/add[@key='Environment']
+ */
+function getElementPath(element): string {
+    var elementPath = "";
+    for(var node = element; node && node.name != null; node = node.parent) {
+        var identifier = node.attrs && (node.attrs.key !== undefined ? "key" : (node.attrs.name !== undefined ? "name" : null));
+        elementPath = "/" + node.name + (identifier ? "[@" + identifier + "='" + node.attrs[identifier] + "']" : "") + elementPath;
+    }
+    return elementPath;
+}
+
+function insertChild(parent, child, index: number) {
+    child.parent = parent;
+    parent.children.splice(index, 0, child);
+}
+
+/**
+ * Inserts the element on its own line, indented like the existing child elements of the parent.
+ */
+function insertIndentedChild(parent, child, index: number) {
+    var children = parent.children;
+    var indentation = getChildIndentation(parent);
+    if(!indentation) {
+        insertChild(parent, child, index);
+        return;
+    }
+
+    if(index == children.length && isWhitespace(children[index - 1])) {
+        // keep the closing tag of the parent on its own line
+        index--;
+    }
+
+    if(isWhitespace(children[index - 1])) {
+        insertChild(parent, child, index);
+        children.splice(index + 1, 0, indentation);
+    }
+    else {
+        children.splice(index, 0, indentation);
+        insertChild(parent, child, index + 1);
+    }
+}
+
+function getChildIndentation(parent): string {
+    var children = parent.children;
+    for(var i = 1; i < children.length; i++) {
+        if(typeof children[i] != "string" && isWhitespace(children[i - 1])) {
+            return children[i - 1];
+        }
+    }
+    return null;
+}
+
+/**
+ * Removes the element along with the whitespace preceding it, so that no blank line is left in its place.
+ */
+function removeElementLine(element) {
+    var children = element.parent ? element.parent.children : [];
+    var index = children.indexOf(element);
+    if(index > 0 && isWhitespace(children[index - 1])) {
+        children.splice(index - 1, 1);
+    }
+    removeElement(element);
+}
+
+function isWhitespace(node): boolean {
+    return typeof node == "string" && node.trim().length == 0;
+}
+
+function removeElement(element) {
+    if(!element.parent) {
+        return;
+    }
+    var index = element.parent.children.indexOf(element);
+    if(index > -1) {
+        element.parent.children.splice(index, 1);
+    }
+}
+
+function escapeAttributeValue(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/"/g, "&quot;");
+}
+
+function stripComments(content: string): string {
+    return content.replace(/<!--[\s\S]*?-->/g, "");
+}
+
+/**
+ * Returns the XML declaration and any comments or processing instructions that precede the root element.
+ */
+function getProlog(content: string): string {
+    var prologMatch = content.match(/^(\s*(<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!--[\s\S]*?-->))*\s*/);
+    return prologMatch ? prologMatch[0] : "";
+}
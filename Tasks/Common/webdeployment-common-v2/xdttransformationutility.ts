@@ -1,13 +1,17 @@
 import tl = require('azure-pipelines-task-lib/task');
-import trm = require('azure-pipelines-task-lib/toolrunner');
 import path = require('path');
+import fs = require('fs');
+import { XdtTransform } from './xdttransform';
+
+var fileEncoding = require('./fileencoding.js');
+var fileTransformReport = require('./filetransformreport.js');
 
 export function expandWildcardPattern(folderPath: string, wildcardPattern : string) {
     var matchingFiles = tl.findMatch(folderPath, wildcardPattern);
     var filesList = {};
     for (let i = 0; i < matchingFiles.length; i++) {
-        matchingFiles[i] = matchingFiles[i].replace(/\//g, '\\');
-        filesList[matchingFiles[i].toLowerCase()] = matchingFiles[i];
+        matchingFiles[i] = path.normalize(matchingFiles[i]);
+        filesList[getFileKey(matchingFiles[i])] = matchingFiles[i];
     }
 
     return filesList;
@@ -21,26 +25,41 @@ export function expandWildcardPattern(folderPath: string, wildcardPattern : stri
 *
 */
 export function applyXdtTransformation(sourceFile: string, transformFile: string, destinationFile?: string) {
+    var sourceFileBuffer: Buffer = fs.readFileSync(sourceFile);
+    var sourceFileEncodeType = fileEncoding.detectFileEncoding(sourceFile, sourceFileBuffer);
+    var sourceContent: string = sourceFileBuffer.toString(sourceFileEncodeType[0]);
+    if(sourceFileEncodeType[1]) {
+        sourceContent = sourceContent.slice(1);
+    }
+
+    var transformFileBuffer: Buffer = fs.readFileSync(transformFile);
+    var transformFileEncodeType = fileEncoding.detectFileEncoding(transformFile, transformFileBuffer);
+    var transformContent: string = transformFileBuffer.toString(transformFileEncodeType[0]);
+    if(transformFileEncodeType[1]) {
+        transformContent = transformContent.slice(1);
+    }
 
-    var cttPath = path.join(__dirname, "..", "..", "ctt", "ctt.exe"); 
-    var cttArgsArray= [
-        "s:" + sourceFile,
-        "t:" + transformFile,
-        "d:" + (destinationFile ? destinationFile : sourceFile),
-        "pw",
-        "i",
-        "verbose"
-    ];
-    
-    tl.debug("Running command: " + cttPath + ' ' + cttArgsArray.join(' '));
-    var cttExecutionResult = tl.execSync(cttPath, cttArgsArray);
-    if(cttExecutionResult.stderr) {
+    var transformedContent: string;
+    var resultFile = destinationFile ? destinationFile : sourceFile;
+    try {
+        var xdtTransform = new XdtTransform(sourceContent, transformContent);
+        xdtTransform.apply();
+        transformedContent = xdtTransform.getTransformedContent();
+    }
+    catch(error) {
+        tl.debug("Unable to apply XDT transformation: " + error);
         throw new Error(tl.loc("XdtTransformationErrorWhileTransforming", sourceFile, transformFile));
     }
+
+    fileTransformReport.addFile(resultFile, 'xdt');
+    for(var change of xdtTransform.getChanges()) {
+        fileTransformReport.addChange(resultFile, 'xdt', change.key, change.oldValue, change.newValue);
+    }
+    fileTransformReport.writeTransformedFile(resultFile, (sourceFileEncodeType[1] ? '\uFEFF' : '') + transformedContent, sourceFileEncodeType[0]);
 }
 
 /**
-* Performs XDT transformations on *.config using ctt.exe
+* Performs XDT transformations on *.config
 *
 * @param    sourcePattern  The source wildcard pattern on which the transforms need to be applied
 * @param    transformConfigs  The array of transform config names, ex : ["Release.config", "EnvName.config"]
@@ -51,10 +70,10 @@ export function basicXdtTransformation(rootFolder, transformConfigs): boolean {
     var isTransformationApplied = false;
     Object.keys(sourceXmlFiles).forEach( function(sourceXmlFile) {
         sourceXmlFile = sourceXmlFiles[sourceXmlFile];
-        var sourceBasename = path.win32.basename(sourceXmlFile.replace(/\.config/ig,'\.config'), ".config");    
+        var sourceBasename = getBasename(sourceXmlFile, ".config");
         transformConfigs.forEach( function(transformConfig) {
-            var transformXmlFile = path.join(path.dirname(sourceXmlFile), sourceBasename + "." + transformConfig);
-            if(sourceXmlFiles[transformXmlFile.toLowerCase()]) {
+            var transformXmlFile = sourceXmlFiles[getFileKey(path.join(path.dirname(sourceXmlFile), sourceBasename + "." + transformConfig))];
+            if(transformXmlFile) {
                 tl.debug('Applying XDT Transformation : ' + transformXmlFile + ' -> ' + sourceXmlFile);
                 applyXdtTransformation(sourceXmlFile, transformXmlFile);
                 isTransformationApplied = true;
@@ -72,7 +91,7 @@ export function basicXdtTransformation(rootFolder, transformConfigs): boolean {
 
 
 /**
-* Performs XDT transformations using ctt.exe
+* Performs XDT transformations on the files matching the source and transform config patterns
 * 
 */
 export function specialXdtTransformation(rootFolder, transformConfig, sourceConfig, destinationConfig?: string): boolean {
@@ -84,11 +103,8 @@ export function specialXdtTransformation(rootFolder, transformConfig, sourceConf
         var sourceBasename = "", transformXmlFiles = {};
 
         if(sourceConfig.indexOf("*") != -1){
-            var sourceConfigSuffix = sourceConfig.substr(sourceConfig.lastIndexOf("*") + 1);
-            if(sourceConfigSuffix.indexOf("\\") != -1) {
-                sourceConfigSuffix = sourceConfigSuffix.substr(sourceConfigSuffix.lastIndexOf("\\") + 1);
-            }
-            sourceBasename = path.win32.basename(sourceXmlFile.replace(/\.config/ig,'\.config'), sourceConfigSuffix);
+            var sourceConfigSuffix = getPatternSuffix(sourceConfig);
+            sourceBasename = getBasename(sourceXmlFile, sourceConfigSuffix);
             if(JSON.stringify(sourceBasename) == JSON.stringify(sourceConfigSuffix)) {
                 sourceBasename = "";
             }
@@ -96,12 +112,8 @@ export function specialXdtTransformation(rootFolder, transformConfig, sourceConf
 
         if(transformConfig.indexOf("*") != -1){
             if(sourceBasename) {
-                var transformConfigSuffix = transformConfig.substr(transformConfig.lastIndexOf("*") + 1);
-                if(transformConfigSuffix.indexOf("\\") != -1) {
-                    transformConfigSuffix = transformConfigSuffix.substr(transformConfigSuffix.lastIndexOf("\\") + 1);
-                }
-                var transformXmlFile = path.join(path.dirname(sourceXmlFile), sourceBasename + transformConfigSuffix);
-                transformXmlFiles[transformXmlFile.toLowerCase()] = transformXmlFile;
+                var transformXmlFile = path.join(path.dirname(sourceXmlFile), sourceBasename + getPatternSuffix(transformConfig));
+                transformXmlFiles[getFileKey(transformXmlFile)] = transformXmlFile;
             }
             else { 
                 var transformXmlFiles = expandWildcardPattern(rootFolder, transformConfig);
@@ -109,22 +121,22 @@ export function specialXdtTransformation(rootFolder, transformConfig, sourceConf
         }
         else {
             transformXmlFile = path.join(rootFolder, transformConfig);
-            transformXmlFiles[transformXmlFile.toLowerCase()] = transformXmlFile;
+            transformXmlFiles[getFileKey(transformXmlFile)] = transformXmlFile;
         }
 
         var destinationXmlFile = "";
         if(destinationConfig){
             if(destinationConfig.indexOf("*") != -1){
-                var destinationConfigSuffix = destinationConfig.substr(destinationConfig.lastIndexOf("*") + 1);
-                destinationXmlFile = path.join(path.dirname(sourceXmlFile), sourceBasename + destinationConfigSuffix);
+                destinationXmlFile = path.join(path.dirname(sourceXmlFile), sourceBasename + getPatternSuffix(destinationConfig));
             }
             else {
                 destinationXmlFile = path.join(rootFolder, destinationConfig);
             }    
         }
         
-        for(var transformXmlFile in transformXmlFiles) {                
-            if(sourceXmlFiles[transformXmlFile.toLowerCase()] || tl.exist(transformXmlFile)) {
+        for(var transformXmlFileKey in transformXmlFiles) {
+            transformXmlFile = sourceXmlFiles[transformXmlFileKey] || transformXmlFiles[transformXmlFileKey];
+            if(sourceXmlFiles[transformXmlFileKey] || tl.exist(transformXmlFile)) {
                 console.log(tl.loc('ApplyingXDTtransformation' , transformXmlFile , sourceXmlFile));
                 applyXdtTransformation(sourceXmlFile, transformXmlFile, destinationXmlFile);
                 isTransformationApplied = true;
@@ -133,4 +145,36 @@ export function specialXdtTransformation(rootFolder, transformConfig, sourceConf
     }
 
     return isTransformationApplied;
-}
\ No newline at end of file
+}
+
+/**
+* Returns the file name part of a wildcard pattern after its last '*', ex : '.Release.config' for '*.Release.config'
+*
+*/
+function getPatternSuffix(pattern: string): string {
+    return path.win32.basename(pattern.substr(pattern.lastIndexOf("*") + 1));
+}
+
+/**
+* Returns the key of the file in the files lists, file names are matched case-insensitively on Windows
+*
+*/
+function getFileKey(filePath: string): string {
+    return isWindows() ? filePath.toLowerCase() : filePath;
+}
+
+/**
+* Returns the file name without the suffix, which is matched case-insensitively on Windows, ex : 'Web' for 'Web.CONFIG'
+*
+*/
+function getBasename(filePath: string, suffix: string): string {
+    var basename = path.basename(filePath);
+    if(isWindows() && basename.length > suffix.length && basename.toLowerCase().endsWith(suffix.toLowerCase())) {
+        return basename.substr(0, basename.length - suffix.length);
+    }
+    return path.basename(filePath, suffix);
+}
+
+function isWindows(): boolean {
+    return tl.osType() == 'Windows_NT';
+}
@@ -6,6 +6,7 @@ var varUtility = require ('./variableutility.js');
 var ltxdomutility = require("./ltxdomutility.js");
 var npmdomutility = require("./npmdomutility.js");
 var fileEncoding = require('./fileencoding.js');
+var fileTransformReport = require('./filetransformreport.js');
 
 function getReplacableTokenFromTags(xmlNode, variableMap) {
     var parameterSubValue = {};
@@ -77,7 +78,7 @@ function substituteValueinParameterFile(parameterFilePath, parameterSubValue) {
         tl.debug('Parameters file - Replacing value for temp_name: ' + paramFileReplacableValue);
         domContent = domContent.replace(paramFileReplacableValue, paramFileReplacableValues[paramFileReplacableValue]);
     }
-    tl.writeFile(parameterFilePath, domContent, fileEncodeType[0]);
+    fileTransformReport.writeTransformedFile(parameterFilePath, domContent, fileEncodeType[0]);
     tl.debug("Parameter file " + parameterFilePath + " updated.");
 }
 
@@ -106,6 +107,7 @@ export function substituteXmlVariables(configFile, tags, variableMap, parameterF
         return;
     }
     console.log(tl.loc('VariableSubstitutionInitiated' , configFile));
+    fileTransformReport.addFile(configFile, 'xml');
     var fileBuffer: Buffer = fs.readFileSync(configFile);
     var fileEncodeType = fileEncoding.detectFileEncoding(configFile, fileBuffer);
     var webConfigContent: string = fileBuffer.toString(fileEncodeType[0]);
@@ -137,17 +139,17 @@ export function substituteXmlVariables(configFile, tags, variableMap, parameterF
                 console.log(tl.loc('SubstitutionForXmlNode' , xmlNode.nodeName));
                 try {
                     if(xmlNode.nodeName == "configSections") {
-                        isSubstitutionApplied = updateXmlConfigNodeAttribute(xmlNode, variableMap, replacableTokenValues, npmDomUtiltiyInstance) || isSubstitutionApplied;
+                        isSubstitutionApplied = updateXmlConfigNodeAttribute(xmlNode, variableMap, replacableTokenValues, npmDomUtiltiyInstance, configFile) || isSubstitutionApplied;
                     }
                     else if(xmlNode.nodeName == "connectionStrings") {
                         if(parameterFilePath) {
                             let parameterSubValue = getReplacableTokenFromTags(xmlNode, variableMap);
                             substituteValueinParameterFile(parameterFilePath, parameterSubValue);
                         }
-                        isSubstitutionApplied = updateXmlConnectionStringsNodeAttribute(xmlNode, variableMap, replacableTokenValues) || isSubstitutionApplied;
+                        isSubstitutionApplied = updateXmlConnectionStringsNodeAttribute(xmlNode, variableMap, replacableTokenValues, configFile) || isSubstitutionApplied;
                     }
                     else {
-                        isSubstitutionApplied = updateXmlNodeAttribute(xmlNode, variableMap, replacableTokenValues) || isSubstitutionApplied;
+                        isSubstitutionApplied = updateXmlNodeAttribute(xmlNode, variableMap, replacableTokenValues, configFile) || isSubstitutionApplied;
                     }
                 } catch (error){
                     tl.error("Error occurred while processing xml node : " + xmlNode.nodeName);
@@ -164,7 +166,7 @@ export function substituteXmlVariables(configFile, tags, variableMap, parameterF
             tl.debug('Substituting original value in place of temp_name: ' + replacableTokenValue);
             domContent = domContent.split(replacableTokenValue).join(replacableTokenValues[replacableTokenValue]);
         }
-        tl.writeFile(configFile, domContent, fileEncodeType[0]);
+        fileTransformReport.writeTransformedFile(configFile, domContent, fileEncodeType[0]);
         console.log(tl.loc('ConfigFileUpdated' , configFile ));
     }
     else {
@@ -174,7 +176,7 @@ export function substituteXmlVariables(configFile, tags, variableMap, parameterF
     return isSubstitutionApplied;
 }
 
-function updateXmlConfigNodeAttribute(xmlNode, variableMap, replacableTokenValues, npmDomUtiltiyInstance): boolean {
+function updateXmlConfigNodeAttribute(xmlNode, variableMap, replacableTokenValues, npmDomUtiltiyInstance, configFile: string): boolean {
     let isSubstitutionApplied: boolean = false;
     let sections = npmDomUtiltiyInstance.getChildElementsByTagName(xmlNode, "section");
     for(let section of sections) {
@@ -184,7 +186,7 @@ function updateXmlConfigNodeAttribute(xmlNode, variableMap, replacableTokenValue
                 let customSectionNodes = npmDomUtiltiyInstance.getElementsByTagName(sectionName);
                 if( customSectionNodes.length != 0) {
                     let customNode = customSectionNodes[0];
-                    isSubstitutionApplied = updateXmlNodeAttribute(customNode, variableMap, replacableTokenValues) || isSubstitutionApplied;
+                    isSubstitutionApplied = updateXmlNodeAttribute(customNode, variableMap, replacableTokenValues, configFile) || isSubstitutionApplied;
                 }
             }
         }
@@ -192,7 +194,7 @@ function updateXmlConfigNodeAttribute(xmlNode, variableMap, replacableTokenValue
     return isSubstitutionApplied;
 }
 
-function updateXmlNodeAttribute(xmlDomNode, variableMap, replacableTokenValues): boolean {
+function updateXmlNodeAttribute(xmlDomNode, variableMap, replacableTokenValues, configFile: string): boolean {
 
     let isSubstitutionApplied: boolean = false;
     if (varUtility.isEmpty(xmlDomNode) || !varUtility.isObject(xmlDomNode) || xmlDomNode.nodeName == "#comment") {
@@ -211,8 +213,11 @@ function updateXmlNodeAttribute(xmlDomNode, variableMap, replacableTokenValues):
             if(variableMap[attributeNameValue] != undefined) {
                 let ConfigFileAppSettingsTokenName = ConfigFileAppSettingsToken + '(' + attributeNameValue + ')';
                 let isValueReplaced: boolean = false;
+                let originalValue: string = null;
+                let valuePath: string = "/@" + attributeName;
                 if (xmlDomNode.hasAttribute(attributeName)) {
                     console.log(tl.loc('UpdatingKeyWithTokenValue' , attributeNameValue , ConfigFileAppSettingsTokenName));
+                    originalValue = xmlDomNode.getAttribute(attributeName);
                     xmlDomNode.setAttribute(attributeName, ConfigFileAppSettingsTokenName);
                     isValueReplaced = true;
                 }
@@ -223,6 +228,8 @@ function updateXmlNodeAttribute(xmlDomNode, variableMap, replacableTokenValues):
                         if(varUtility.isObject(childNode) && childNode.nodeName == attributeName) {
                             if (childNode.childNodes.length === 1) {
                                 console.log(tl.loc('UpdatingKeyWithTokenValue' , attributeNameValue , ConfigFileAppSettingsTokenName));
+                                originalValue = childNode.childNodes[0].nodeValue;
+                                valuePath = "/" + attributeName;
                                 childNode.childNodes[0].nodeValue = ConfigFileAppSettingsTokenName;
                                 childNode.childNodes[0].data = ConfigFileAppSettingsTokenName;
                                 isValueReplaced = true;
@@ -232,6 +239,8 @@ function updateXmlNodeAttribute(xmlDomNode, variableMap, replacableTokenValues):
                 }
 
                 if(isValueReplaced) {
+                    let reportKey = (attributeName == attribute.nodeName) ? xmlDomNode.nodeName : xmlDomNode.nodeName + "[@" + attribute.nodeName + "='" + attributeNameValue + "']";
+                    fileTransformReport.addChange(configFile, 'xml', reportKey + valuePath, originalValue, variableMap[attributeNameValue], attributeNameValue);
                     replacableTokenValues[ConfigFileAppSettingsTokenName] =  variableMap[attributeNameValue].replace(/"/g, "'");
                     isSubstitutionApplied = true;
                 }
@@ -243,14 +252,14 @@ function updateXmlNodeAttribute(xmlDomNode, variableMap, replacableTokenValues):
         for (let childs = 0; childs < children.length; childs ++) {
             let childNode = children[childs];
             if(varUtility.isObject(childNode)) {
-                isSubstitutionApplied = updateXmlNodeAttribute(childNode, variableMap, replacableTokenValues) || isSubstitutionApplied;
+                isSubstitutionApplied = updateXmlNodeAttribute(childNode, variableMap, replacableTokenValues, configFile) || isSubstitutionApplied;
             }
         }
     }
     return isSubstitutionApplied;
 }
 
-function updateXmlConnectionStringsNodeAttribute(xmlDomNode, variableMap, replacableTokenValues): boolean {
+function updateXmlConnectionStringsNodeAttribute(xmlDomNode, variableMap, replacableTokenValues, configFile: string): boolean {
 
     let isSubstitutionApplied: boolean = false;
     const ConfigFileConnStringToken = 'CONFIG_FILE_CONN_STRING_TOKEN';
@@ -265,6 +274,7 @@ function updateXmlConnectionStringsNodeAttribute(xmlDomNode, variableMap, replac
             if (connectionStringName && variableMap[xmlDomNode.getAttribute("name")]) {
                 let ConfigFileConnStringTokenName = ConfigFileConnStringToken + '(' + connectionStringName + ')';
                 tl.debug(tl.loc('SubstitutingConnectionStringValue' , connectionStringName , ConfigFileConnStringTokenName));
+                fileTransformReport.addChange(configFile, 'xml', xmlDomNode.nodeName + "[@name='" + connectionStringName + "']/@connectionString", xmlDomNode.getAttribute("connectionString"), variableMap[connectionStringName], connectionStringName);
                 xmlDomNode.setAttribute("connectionString", ConfigFileConnStringTokenName);
                 replacableTokenValues[ConfigFileConnStringTokenName] = variableMap[connectionStringName].replace(/"/g, "'");
                 isSubstitutionApplied = true;
@@ -272,6 +282,7 @@ function updateXmlConnectionStringsNodeAttribute(xmlDomNode, variableMap, replac
             else if(variableMap["connectionString"] != undefined) {
                 let ConfigFileConnStringTokenName = ConfigFileConnStringToken + '(connectionString)';
                 tl.debug(tl.loc('SubstitutingConnectionStringValue' , connectionStringName , ConfigFileConnStringTokenName));
+                fileTransformReport.addChange(configFile, 'xml', xmlDomNode.nodeName + "[@name='" + connectionStringName + "']/@connectionString", xmlDomNode.getAttribute("connectionString"), variableMap["connectionString"], "connectionString");
                 xmlDomNode.setAttribute("connectionString", ConfigFileConnStringTokenName);
                 replacableTokenValues[ConfigFileConnStringTokenName] = variableMap["connectionString"].replace(/"/g, "'");
                 isSubstitutionApplied = true
@@ -284,7 +295,7 @@ function updateXmlConnectionStringsNodeAttribute(xmlDomNode, variableMap, replac
         for (let childs = 0; childs < children.length; childs ++) {
             let childNode = children[childs];
             if(varUtility.isObject(childNode)) {
-                isSubstitutionApplied =  updateXmlConnectionStringsNodeAttribute(childNode, variableMap, replacableTokenValues) || isSubstitutionApplied;
+                isSubstitutionApplied =  updateXmlConnectionStringsNodeAttribute(childNode, variableMap, replacableTokenValues, configFile) || isSubstitutionApplied;
             }
         }
     }
@@ -0,0 +1,294 @@
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+import fs = require('fs');
+
+var jsonSubstitutionUtility = require('./jsonvariablesubstitutionutility.js');
+var fileEncoding = require('./fileencoding.js');
+var utility = require('./utility.js');
+var fileTransformReport = require('./filetransformreport.js');
+
+export interface YamlSubstitution {
+    key: string;
+    oldValue: string;
+    newValue: string;
+}
+
+interface YamlFrame {
+    indent: number;
+    path: string[];
+    isKey: boolean;
+    nextIndex: number;
+}
+
+/**
+ * Substitutes the values of YAML keys whose dotted path matches a variable name.
+ * The content is processed line by line so that comments, ordering and formatting of the file are retained.
+ *
+ * @param    content  YAML content
+ * @param    envVarTree  Variable tree created using createEnvTree
+ *
+ * @returns  updated content, whether any value was substituted and the substituted values
+ */
+export function substituteYamlVariables(content: string, envVarTree): { content: string, isSubstitutionApplied: boolean, substitutions: YamlSubstitution[] } {
+    var lineSeparator = content.indexOf('\r\n') != -1 ? '\r\n' : '\n';
+    var lines = content.split(/\r?\n/);
+    var stack: YamlFrame[] = [{ indent: -1, path: [], isKey: true, nextIndex: 0 }];
+    var isSubstitutionApplied: boolean = false;
+    var substitutions: YamlSubstitution[] = [];
+
+    for(var lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        var line = lines[lineIndex];
+        var trimmedLine = line.trim();
+        if(trimmedLine == '' || trimmedLine.startsWith('#') || trimmedLine.startsWith('%')) {
+            continue;
+        }
+
+        if(trimmedLine == '---' || trimmedLine.startsWith('--- ') || trimmedLine == '...') {
+            stack = [{ indent: -1, path: [], isKey: true, nextIndex: 0 }];
+            continue;
+        }
+
+        var indent = line.length - trimStart(line).length;
+        var contentIndent = indent;
+        var lineContent = line.substr(indent);
+        var parent: YamlFrame;
+
+        if(lineContent == '-' || lineContent.startsWith('- ')) {
+            while(stack.length > 1 && (stack[stack.length - 1].indent > indent || (stack[stack.length - 1].indent == indent && !stack[stack.length - 1].isKey))) {
+                stack.pop();
+            }
+            parent = stack[stack.length - 1];
+            var item: YamlFrame = { indent: indent, path: parent.path.concat([(parent.nextIndex++).toString()]), isKey: false, nextIndex: 0 };
+            stack.push(item);
+            var itemContent = lineContent.substr(1);
+            contentIndent = indent + 1 + (itemContent.length - trimStart(itemContent).length);
+            lineContent = trimStart(itemContent);
+            if(lineContent == '' || lineContent.startsWith('#')) {
+                continue;
+            }
+
+            var itemKeyValue = parseKeyValue(lineContent);
+            if(!itemKeyValue) {
+                var itemValue = substituteScalar(line.substr(0, contentIndent), lineContent, item.path, envVarTree, substitutions);
+                if(itemValue != null) {
+                    lines[lineIndex] = itemValue;
+                    isSubstitutionApplied = true;
+                }
+                continue;
+            }
+        }
+        else {
+            while(stack.length > 1 && stack[stack.length - 1].indent >= indent) {
+                stack.pop();
+            }
+        }
+
+        parent = stack[stack.length - 1];
+        var keyValue = parseKeyValue(lineContent);
+        if(!keyValue) {
+            continue;
+        }
+
+        var keyPath = parent.path.concat(keyValue.key.split('.'));
+        var value = keyValue.value.trim();
+        if(value == '' || value.startsWith('#')) {
+            stack.push({ indent: contentIndent, path: keyPath, isKey: true, nextIndex: 0 });
+            continue;
+        }
+
+        var prefix = line.substr(0, line.length - keyValue.value.length) + keyValue.value.substr(0, keyValue.value.length - trimStart(keyValue.value).length);
+        if(/^[|>][0-9+\-]*(\s+#.*)?$/.test(value)) {
+            var blockEnd = lineIndex + 1;
+            while(blockEnd < lines.length && (lines[blockEnd].trim() == '' || lines[blockEnd].length - trimStart(lines[blockEnd]).length > contentIndent)) {
+                blockEnd++;
+            }
+            while(blockEnd > lineIndex + 1 && lines[blockEnd - 1].trim() == '') {
+                blockEnd--;
+            }
+
+            var variableNode = getVariableNode(keyPath, envVarTree);
+            if(variableNode) {
+                console.log(tl.loc('SubstitutingValueonKey', keyPath.join('.')));
+                var blockIndent = blockEnd > lineIndex + 1 ? lines[lineIndex + 1].length - trimStart(lines[lineIndex + 1]).length : contentIndent + 2;
+                var blockLines = (variableNode.value || '').split(/\r?\n/).map((blockLine) => blockLine ? ' '.repeat(blockIndent) + blockLine : blockLine);
+                substitutions.push({
+                    key: keyPath.join('.'),
+                    oldValue: lines.slice(lineIndex + 1, blockEnd).map((blockLine) => blockLine.substr(blockIndent)).join('\n'),
+                    newValue: variableNode.value
+                });
+                lines.splice(lineIndex + 1, blockEnd - lineIndex - 1, ...blockLines);
+                blockEnd = lineIndex + 1 + blockLines.length;
+                isSubstitutionApplied = true;
+            }
+            lineIndex = blockEnd - 1;
+            continue;
+        }
+
+        var substitutedLine = substituteScalar(prefix, value, keyPath, envVarTree, substitutions);
+        if(substitutedLine != null) {
+            lines[lineIndex] = substitutedLine;
+            isSubstitutionApplied = true;
+        }
+    }
+
+    return {
+        content: lines.join(lineSeparator),
+        isSubstitutionApplied: isSubstitutionApplied,
+        substitutions: substitutions
+    };
+}
+
+export function yamlVariableSubstitution(absolutePath, yamlSubFiles): boolean {
+    var envVarTree = jsonSubstitutionUtility.createEnvTree(tl.getVariables());
+    let isSubstitutionApplied: boolean = false;
+    for(let yamlSubFile of yamlSubFiles) {
+        console.log(tl.loc('YAMLvariableSubstitution', yamlSubFile));
+        var matchFiles = utility.findfiles(path.join(absolutePath, yamlSubFile));
+        if(matchFiles.length === 0) {
+            throw new Error(tl.loc('NOYAMLfilematchedwithspecificpattern', yamlSubFile));
+        }
+        for(let file of matchFiles) {
+            var fileBuffer: Buffer = fs.readFileSync(file);
+            var fileEncodeType = fileEncoding.detectFileEncoding(file, fileBuffer);
+            var fileContent: string = fileBuffer.toString(fileEncodeType[0]);
+            if(fileEncodeType[1]) {
+                fileContent = fileContent.slice(1);
+            }
+            console.log(tl.loc('YAMLvariableSubstitution', file));
+            fileTransformReport.addFile(file, 'yaml');
+            var result = substituteYamlVariables(fileContent, envVarTree);
+            for(let substitution of result.substitutions) {
+                fileTransformReport.addChange(file, 'yaml', substitution.key, substitution.oldValue, substitution.newValue, substitution.key);
+            }
+            if(result.isSubstitutionApplied) {
+                fileTransformReport.writeTransformedFile(file, (fileEncodeType[1] ? '\uFEFF' : '') + result.content, fileEncodeType[0]);
+                isSubstitutionApplied = true;
+            }
+            else {
+                console.log(tl.loc('SkippedUpdatingFile', file));
+            }
+        }
+    }
+
+    return isSubstitutionApplied;
+}
+
+function getVariableNode(keyPath: string[], envVarTree) {
+    var resultNode = jsonSubstitutionUtility.checkEnvTreePath(keyPath, 0, keyPath.length, envVarTree);
+    return resultNode && resultNode.isEnd ? resultNode : null;
+}
+
+/**
+ * Returns the line with the scalar value replaced by the variable value, or null when no variable matches the key path.
+ * The quoting style and trailing comment of the original value are retained.
+ */
+function substituteScalar(prefix: string, value: string, keyPath: string[], envVarTree, substitutions: YamlSubstitution[]): string {
+    var variableNode = getVariableNode(keyPath, envVarTree);
+    if(!variableNode) {
+        return null;
+    }
+
+    console.log(tl.loc('SubstitutingValueonKey', keyPath.join('.')));
+    var scalar = splitScalarAndComment(value);
+    var newValue: string = variableNode.value == null ? '' : variableNode.value.toString();
+    var formattedValue: string;
+    if(scalar.value.startsWith("'")) {
+        formattedValue = "'" + newValue.replace(/'/g, "''") + "'";
+    }
+    else if(scalar.value.startsWith('"')) {
+        formattedValue = JSON.stringify(newValue);
+    }
+    else if((scalar.value.startsWith('[') || scalar.value.startsWith('{')) && isJsonCollection(newValue)) {
+        formattedValue = JSON.stringify(JSON.parse(newValue));
+    }
+    else {
+        formattedValue = isPlainScalar(newValue) ? newValue : JSON.stringify(newValue);
+    }
+
+    substitutions.push({ key: keyPath.join('.'), oldValue: scalar.value, newValue: newValue });
+    return prefix + formattedValue + scalar.comment;
+}
+
+function parseKeyValue(content: string): { key: string, value: string } {
+    if(content.startsWith('"') || content.startsWith("'")) {
+        var quote = content[0];
+        var closingIndex = content.indexOf(quote, 1);
+        while(closingIndex != -1 && quote == "'" && content[closingIndex + 1] == "'") {
+            closingIndex = content.indexOf(quote, closingIndex + 2);
+        }
+        if(closingIndex == -1) {
+            return null;
+        }
+        var keyMatch = content.substr(closingIndex + 1).match(/^\s*:(\s+|$)/);
+        if(!keyMatch) {
+            return null;
+        }
+        var quotedKey = content.substr(0, closingIndex + 1);
+        return {
+            key: quote == '"' ? JSON.parse(quotedKey) : quotedKey.substr(1, quotedKey.length - 2).replace(/''/g, "'"),
+            value: content.substr(closingIndex + 1 + keyMatch[0].length - keyMatch[1].length)
+        };
+    }
+
+    if(/^[\[{&*!|>%@`#]/.test(content)) {
+        return null;
+    }
+
+    var match = content.match(/^(.+?)\s*:(\s+|$)/);
+    if(!match) {
+        return null;
+    }
+
+    return {
+        key: match[1],
+        value: content.substr(match[0].length - match[2].length)
+    };
+}
+
+function splitScalarAndComment(value: string): { value: string, comment: string } {
+    var valueEnd = value.length;
+    if(value.startsWith('"')) {
+        var index = 1;
+        while(index < value.length && value[index] != '"') {
+            index += value[index] == '\\' ? 2 : 1;
+        }
+        valueEnd = Math.min(index + 1, value.length);
+    }
+    else if(value.startsWith("'")) {
+        var index = 1;
+        while(index < value.length && !(value[index] == "'" && value[index + 1] != "'")) {
+            index += value[index] == "'" ? 2 : 1;
+        }
+        valueEnd = Math.min(index + 1, value.length);
+    }
+    else {
+        var commentMatch = value.match(/\s+#/);
+        valueEnd = commentMatch ? commentMatch.index : value.length;
+    }
+
+    return {
+        value: value.substr(0, valueEnd),
+        comment: value.substr(valueEnd)
+    };
+}
+
+function isPlainScalar(value: string): boolean {
+    return value.length > 0
+        && value.trim() == value
+        && !/^[\-?:,\[\]{}#&*!|>'"%@`]/.test(value)
+        && !/(: |:$| #|[\r\n])/.test(value);
+}
+
+function trimStart(value: string): string {
+    return value.replace(/^\s+/, '');
+}
+
+function isJsonCollection(value: string): boolean {
+    try {
+        var parsedValue = JSON.parse(value);
+        return parsedValue != null && typeof parsedValue == 'object';
+    }
+    catch(error) {
+        return false;
+    }
+}
@@ -1,16 +1,169 @@
 import fs = require('fs');
 import assert = require('assert');
+import os = require('os');
 import path = require('path');
+import * as ttm from 'azure-pipelines-task-lib/mock-test';
 
 describe('ContainerStructureTestV0 Suite', function () {
-    before(() => {
+    this.timeout(parseInt(process.env.TASK_TEST_TIMEOUT || '') || 20000);
+
+    const cachedRunner: string = '/cache/1.0.0/container-structure-test';
+    let junitOutputDirectory: string;
+
+    beforeEach(() => {
+        delete process.env['__tag__'];
+        delete process.env['__testMatrix__'];
+        delete process.env['__junitOutputDirectory__'];
+        delete process.env['__runnerPath__'];
+        delete process.env['__runnerVersion__'];
+        delete process.env['__failTaskOnFailedTests__'];
+        delete process.env['__cachedVersions__'];
+        junitOutputDirectory = null;
+    });
+
+    afterEach(() => {
+        if (junitOutputDirectory) {
+            for (const file of fs.readdirSync(junitOutputDirectory)) {
+                fs.unlinkSync(path.join(junitOutputDirectory, file));
+            }
+            fs.rmdirSync(junitOutputDirectory);
+        }
+    });
+
+    function runTask(): ttm.MockTestRunner {
+        const tp: string = path.join(__dirname, 'L0ContainerStructureTest.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+        return tr;
+    }
+
+    it('Tests the repository with the latest tag by default', (done: MochaDone) => {
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.invokedToolCount === 1, 'should have run the tests once');
+        assert(tr.ran(`${cachedRunner} test --image contoso/app:latest --config /config/app.yaml --json`), 'should have tested the latest image');
+        assert(tr.stdout.indexOf('published 2 tests as ContainerStructureTest_TestResults_42') !== -1, 'should have published the results with the default title');
+        done();
     });
 
-    after(() => {
+    it('Tests every image of the test matrix', (done: MochaDone) => {
+        process.env['__tag__'] = '2.0';
+        process.env['__testMatrix__'] = [
+            '# images of the release',
+            'contoso/app:1.0 = /config/app.yaml',
+            '',
+            'localhost:5000/contoso/api=/config/api.yaml'
+        ].join('\n');
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.invokedToolCount === 2, 'should have run the tests for each image');
+        assert(tr.ran(`${cachedRunner} test --image contoso/app:1.0 --config /config/app.yaml --json`), 'should have tested the image with its tag');
+        assert(tr.ran(`${cachedRunner} test --image localhost:5000/contoso/api:2.0 --config /config/api.yaml --json`), 'should have tested the image of a registry with a port with the tag input');
+        assert(tr.stdout.indexOf('published 2 tests as ContainerStructureTest_TestResults_42_contoso/app:1.0') !== -1, 'should have published the results of each image separately');
+        done();
+    });
+
+    it('Fails on an invalid test matrix entry', (done: MochaDone) => {
+        process.env['__testMatrix__'] = 'contoso/app:1.0';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.invokedToolCount === 0, 'should not have run the tests');
+        assert(tr.stdout.indexOf('loc_mock_InvalidTestMatrixEntry contoso/app:1.0') !== -1, 'should have reported the invalid entry');
+        done();
+    });
+
+    it('Fails on a test matrix without images', (done: MochaDone) => {
+        process.env['__testMatrix__'] = '# no images yet';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf('loc_mock_NoImagesToTest') !== -1, 'should have reported that there are no images');
+        done();
+    });
+
+    it('Fails on failed tests only if asked to', (done: MochaDone) => {
+        process.env['__tag__'] = 'broken';
+        let tr: ttm.MockTestRunner = runTask();
+        assert(tr.succeeded, 'task should have succeeded');
+
+        process.env['__failTaskOnFailedTests__'] = 'true';
+        tr = runTask();
+        assert(tr.failed, 'task should have failed');
+        done();
     });
 
-    it('Does a basic hello world test', function(done: MochaDone) {
-        // TODO - add real tests
+    it('Writes JUnit results for each image', (done: MochaDone) => {
+        junitOutputDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'cst-'));
+        process.env['__junitOutputDirectory__'] = junitOutputDirectory;
+        process.env['__testMatrix__'] = 'contoso/app:broken=/config/app.yaml\nlocalhost:5000/contoso/api:2.0=/config/api.yaml';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert.deepEqual(fs.readdirSync(junitOutputDirectory).sort(), ['TEST-contoso_app_broken.xml', 'TEST-localhost_5000_contoso_api_2.0.xml']);
+
+        const xml: string = fs.readFileSync(path.join(junitOutputDirectory, 'TEST-contoso_app_broken.xml'), 'utf8');
+        assert(xml.indexOf('<testsuites name="container-structure-test" tests="2" failures="1"') !== -1, 'should have written the totals');
+        assert(xml.indexOf('<testsuite name="contoso/app:broken" tests="2" failures="1" errors="0" skipped="0"') !== -1, 'should have written a test suite for the image');
+        assert(xml.indexOf('<testcase name="Command Test: node" classname="contoso/app:broken" time="1.5" />') !== -1, 'should have written the passed test');
+        assert(xml.indexOf('<testcase name="File Existence Test: &lt;app&gt;" classname="contoso/app:broken" time="0.5">') !== -1, 'should have escaped the name of the failed test');
+        assert(xml.indexOf('<failure message="File /app &quot;does not&quot; exist">File /app &quot;does not&quot; exist</failure>') !== -1, 'should have written the escaped failure');
+        done();
+    });
+
+    it('Uses the runner at the runner path', (done: MochaDone) => {
+        process.env['__runnerPath__'] = '/usr/local/bin/container-structure-test';
+        process.env['__cachedVersions__'] = '[]';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.ran('/usr/local/bin/container-structure-test test --image contoso/app:latest --config /config/app.yaml --json'), 'should have run the provided runner');
+        assert(tr.stdout.indexOf('downloaded') === -1, 'should not have downloaded a runner');
+        done();
+    });
+
+    it('Fails if the runner at the runner path does not exist', (done: MochaDone) => {
+        process.env['__runnerPath__'] = '/missing/container-structure-test';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.invokedToolCount === 0, 'should not have run the tests');
+        assert(tr.stdout.indexOf('loc_mock_RunnerNotFound /missing/container-structure-test') !== -1, 'should have reported the missing runner');
+        done();
+    });
+
+    it('Downloads and caches the latest runner', (done: MochaDone) => {
+        process.env['__cachedVersions__'] = '[]';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('downloaded https://storage.googleapis.com/container-structure-test/latest/container-structure-test-linux-amd64') !== -1, 'should have downloaded the latest runner');
+        assert(tr.stdout.indexOf('cached container-structure-test 1.0.0') !== -1, 'should have cached the latest runner as 1.0.0');
+        assert(tr.ran(`${cachedRunner} test --image contoso/app:latest --config /config/app.yaml --json`), 'should have run the cached runner');
+        done();
+    });
+
+    it('Downloads and caches the runner version', (done: MochaDone) => {
+        process.env['__runnerVersion__'] = 'v1.8.0';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('downloaded https://storage.googleapis.com/container-structure-test/v1.8.0/container-structure-test-linux-amd64') !== -1, 'should have downloaded the runner version');
+        assert(tr.stdout.indexOf('cached container-structure-test 1.8.0') !== -1, 'should have cached the runner version');
+        assert(tr.ran('/cache/1.8.0/container-structure-test test --image contoso/app:latest --config /config/app.yaml --json'), 'should have run the runner version');
+        done();
+    });
+
+    it('Uses the cached runner version', (done: MochaDone) => {
+        process.env['__runnerVersion__'] = '1.8.0';
+        process.env['__cachedVersions__'] = '["1.8.0"]';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('downloaded') === -1, 'should not have downloaded the runner');
+        assert(tr.ran('/cache/1.8.0/container-structure-test test --image contoso/app:latest --config /config/app.yaml --json'), 'should have run the cached runner version');
         done();
     });
 });
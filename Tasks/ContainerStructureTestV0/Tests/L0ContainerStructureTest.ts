@@ -0,0 +1,90 @@
+import fs = require('fs');
+import ma = require('azure-pipelines-task-lib/mock-answer');
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+const taskPath = path.join(__dirname, '..', 'containerstructuretest.js');
+const tr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+
+process.env['SYSTEM_HOSTTYPE'] = 'build';
+process.env['BUILD_BUILDID'] = '42';
+
+tr.setInput('repository', 'contoso/app');
+tr.setInput('tag', process.env['__tag__'] || '');
+tr.setInput('configFile', '/config/app.yaml');
+tr.setInput('testMatrix', process.env['__testMatrix__'] || '');
+tr.setInput('junitOutputDirectory', process.env['__junitOutputDirectory__'] || '');
+tr.setInput('runnerPath', process.env['__runnerPath__'] || '');
+tr.setInput('runnerVersion', process.env['__runnerVersion__'] || '');
+tr.setInput('failTaskOnFailedTests', process.env['__failTaskOnFailedTests__'] || 'false');
+
+const userRunnerPath: string = '/usr/local/bin/container-structure-test';
+const cachedVersions: string[] = JSON.parse(process.env['__cachedVersions__'] || '["1.0.0"]');
+
+// one failing test for the images tagged 'broken', passing tests otherwise
+function getTestOutput(image: string): string {
+    const isBroken: boolean = /:broken$/.test(image);
+    return JSON.stringify({
+        Pass: isBroken ? 1 : 2,
+        Fail: isBroken ? 1 : 0,
+        Total: 2,
+        Results: [
+            { Name: 'Command Test: node', Pass: true, Errors: null, Duration: 1500000000 },
+            { Name: 'File Existence Test: <app>', Pass: !isBroken, Errors: isBroken ? ['File /app "does not" exist'] : null, Duration: 500000000 }
+        ]
+    });
+}
+
+const exec: { [command: string]: ma.TaskLibAnswerExecResult } = {};
+const images: string[] = ['contoso/app:latest', 'contoso/app:1.0', 'contoso/app:broken', 'localhost:5000/contoso/api:latest', 'localhost:5000/contoso/api:2.0'];
+const runnerPaths: string[] = [userRunnerPath, '/cache/1.0.0/container-structure-test', '/cache/1.8.0/container-structure-test'];
+for (const runnerPath of runnerPaths) {
+    for (const image of images) {
+        for (const configFile of ['/config/app.yaml', '/config/api.yaml']) {
+            exec[`${runnerPath} test --image ${image} --config ${configFile} --json`] = { code: 0, stdout: getTestOutput(image), stderr: '' };
+        }
+    }
+}
+
+const a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
+    osType: {
+        'osType': 'Linux'
+    },
+    checkPath: {
+        [userRunnerPath]: true,
+        '/cache/1.0.0/container-structure-test': true,
+        '/cache/1.8.0/container-structure-test': true
+    },
+    exec: exec
+};
+tr.setAnswers(a);
+
+tr.registerMock('vsts-task-tool-lib/tool', {
+    findLocalTool: (toolName: string, version: string) => cachedVersions.indexOf(version) !== -1 ? `/cache/${version}` : '',
+    downloadTool: async (url: string) => {
+        console.log('downloaded ' + url);
+        return '/downloads/runner';
+    },
+    cacheFile: async (sourceFile: string, targetFile: string, toolName: string, version: string) => {
+        console.log(`cached ${toolName} ${version}`);
+        return `/cache/${version}`;
+    }
+});
+
+tr.registerMock('fs', Object.assign({}, fs, {
+    existsSync: (filePath: string) => filePath === userRunnerPath || filePath.indexOf('/cache/') === 0 || fs.existsSync(filePath),
+    chmodSync: (filePath: string, mode: string) => { }
+}));
+
+class MockTestResultPublisher {
+    publishToTcm(testSummary: any, testRunTitle: string) {
+        console.log(`published ${testSummary.Total} tests as ${testRunTitle}`);
+    }
+
+    async publishToMetaDataStore(testSummary: any, imageName: string) {
+        return { statusCode: 200, statusMessage: 'OK' };
+    }
+}
+tr.registerMock('./testresultspublisher', { TestResultPublisher: MockTestResultPublisher });
+
+tr.run();
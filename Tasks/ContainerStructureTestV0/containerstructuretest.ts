@@ -2,9 +2,16 @@ import * as tl from 'azure-pipelines-task-lib/task';
 import * as path from "path";
 import { WebResponse } from 'utility-common-v2/restutilities';
 import { ContainerRegistry } from "./containerregistry";
+import { JUnitResultWriter } from "./junitresultwriter";
 import { TestResultPublisher, TestSummary } from "./testresultspublisher";
 import { TestRunner } from "./testrunner";
 
+interface TestTarget {
+    repository: string;
+    tag: string;
+    configFile: string;
+}
+
 const telemetryArea: string = 'TestExecution';
 const telemetryFeature: string = 'ContainerStructureTestTask';
 const telemetryData: { [key: string]: any; } = <{ [key: string]: any; }>{};
@@ -25,57 +32,84 @@ async function run() {
         }
 
         const artifactId = isBuild ? parseInt(tl.getVariable("Build.BuildId")) : parseInt(tl.getVariable("Release.ReleaseId"));
-        const testFilePath = tl.getInput('configFile', true);
-        const repository = tl.getInput('repository', true);
         const testRunTitleInput = tl.getInput('testRunTitle');
         const endpointId = tl.getInput("dockerRegistryServiceConnection");
         let tagInput = tl.getInput('tag');
         const tag = tagInput ? tagInput : "latest";
         const testRunTitle = testRunTitleInput ? testRunTitleInput : `${defaultRunTitlePrefix}${artifactId}`;
         const failTaskOnFailedTests: boolean = tl.getInput('failTaskOnFailedTests').toLowerCase() == 'true' ? true : false;
+        const runnerPath = tl.filePathSupplied('runnerPath') ? tl.getPathInput('runnerPath') : null;
+        const runnerVersion = tl.getInput('runnerVersion');
+        const junitOutputDirectory = tl.getInput('junitOutputDirectory');
 
         tl.setResourcePath(path.join(__dirname, 'task.json'));
 
-        let image;
+        const testTargets = getTestTargets(tag);
+        telemetryData["ImageCount"] = testTargets.length;
+        telemetryData["UserProvidedRunner"] = !!runnerPath;
+
+        // Establishing registry connection once for all the images.
+        let containerRegistry: ContainerRegistry = null;
         if (endpointId) {
-            // Establishing registry connection and pulling the container.
-            let containerRegistry = new ContainerRegistry(endpointId);
+            containerRegistry = new ContainerRegistry(endpointId);
             tl.debug(`Successfully finished docker login`);
-            image = `${containerRegistry.getQualifiedImageName(repository, tag)}`;
-            tl.debug(`Image: ${image}`);
-            await containerRegistry.pull(repository, tag);
-            tl.debug(`Successfully finished docker pull`);
-        } else {
-            image = `${repository}:${tag}`;
-            tl.debug(`Local image: ${image}`);
         }
 
-        // Running the container structure test on the above pulled container.
-        const testRunner = new TestRunner(testFilePath, image);
-        let resultObj: TestSummary = await testRunner.Run();
-
-        // Publishing the test results to TCM.
-        // Not failing task if there are any errors while publishing.
         let testResultPublisher = new TestResultPublisher();
-        try {
-            testResultPublisher.publishToTcm(resultObj, testRunTitle);
-            telemetryData["TCMPublishStatus"] = true;
-            tl.debug("Finished publishing the test results to TCM");
-        } catch(error) {
-            telemetryData["TCMPublishError"] = error;
-        }
+        let junitResultWriter = junitOutputDirectory ? new JUnitResultWriter(junitOutputDirectory) : null;
+        let failedTestCount = 0;
+        for (const testTarget of testTargets) {
+            let image;
+            if (containerRegistry) {
+                // Pulling the container.
+                image = `${containerRegistry.getQualifiedImageName(testTarget.repository, testTarget.tag)}`;
+                tl.debug(`Image: ${image}`);
+                await containerRegistry.pull(testTarget.repository, testTarget.tag);
+                tl.debug(`Successfully finished docker pull`);
+            } else {
+                image = `${testTarget.repository}:${testTarget.tag}`;
+                tl.debug(`Local image: ${image}`);
+            }
+
+            // Running the container structure test on the above pulled container.
+            const testRunner = new TestRunner(testTarget.configFile, image, runnerPath, runnerVersion);
+            let resultObj: TestSummary = await testRunner.Run();
+
+            // Writing the JUnit results, which can be published with the Publish Test Results task.
+            if (junitResultWriter) {
+                try {
+                    junitResultWriter.write(resultObj, image);
+                } catch(error) {
+                    tl.warning(tl.loc('ErrorWritingJUnitResults', image, error));
+                }
+            }
+
+            // Publishing the test results to TCM.
+            // Not failing task if there are any errors while publishing.
+            try {
+                testResultPublisher.publishToTcm(resultObj, testTargets.length > 1 ? `${testRunTitle}_${image}` : testRunTitle);
+                telemetryData["TCMPublishStatus"] = true;
+                tl.debug("Finished publishing the test results to TCM");
+            } catch(error) {
+                telemetryData["TCMPublishError"] = error;
+            }
+
+            // Publishing the test results to Metadata Store.
+            try {
+                var response:WebResponse = await testResultPublisher.publishToMetaDataStore(resultObj, image);
+                console.log(`Publishing test data to metadata store. Status: ${response.statusCode} and Message : ${response.statusMessage}`)
+                tl.debug(`Response from publishing the test details to MetaData store: ${JSON.stringify(response)}`);
+                telemetryData["MetaDataPublishStatus"] = true;
+            } catch(error) {
+                telemetryData["MetaDataPublishError"] = error;
+            }
 
-        // Publishing the test results to Metadata Store.
-        try {
-            var response:WebResponse = await testResultPublisher.publishToMetaDataStore(resultObj, image);
-            console.log(`Publishing test data to metadata store. Status: ${response.statusCode} and Message : ${response.statusMessage}`)
-            tl.debug(`Response from publishing the test details to MetaData store: ${JSON.stringify(response)}`);
-            telemetryData["MetaDataPublishStatus"] = true;
-        } catch(error) {
-            telemetryData["MetaDataPublishError"] = error;
+            if (resultObj) {
+                failedTestCount += resultObj.Fail;
+            }
         }
 
-        if (failTaskOnFailedTests && resultObj && resultObj.Fail > 0) {
+        if (failTaskOnFailedTests && failedTestCount > 0) {
             taskResult = false;
         }
     } catch (error) {
@@ -90,6 +124,42 @@ async function run() {
     }
 }
 
+// Each line of the test matrix is an image and its config file, as repository[:tag]=configFile.
+// The tag input is used for the images without a tag.
+function getTestTargets(defaultTag: string): TestTarget[] {
+    const testMatrix = tl.getInput('testMatrix');
+    if (!testMatrix) {
+        return [{
+            repository: tl.getInput('repository', true),
+            tag: defaultTag,
+            configFile: tl.getInput('configFile', true)
+        }];
+    }
+
+    const lines = testMatrix.split(/[\r\n]+/).map(line => line.trim()).filter(line => line && line.indexOf('#') !== 0);
+    if (lines.length === 0) {
+        throw new Error(tl.loc('NoImagesToTest'));
+    }
+
+    return lines.map(line => {
+        const separatorIndex = line.indexOf('=');
+        const image = separatorIndex > 0 ? line.substring(0, separatorIndex).trim() : "";
+        const configFile = separatorIndex > 0 ? line.substring(separatorIndex + 1).trim() : "";
+        if (!image || !configFile) {
+            throw new Error(tl.loc('InvalidTestMatrixEntry', line));
+        }
+
+        const lastSlashIndex = image.lastIndexOf('/');
+        const lastColonIndex = image.lastIndexOf(':');
+        const hasTag = lastColonIndex > lastSlashIndex;
+        return {
+            repository: hasTag ? image.substring(0, lastColonIndex) : image,
+            tag: hasTag ? image.substring(lastColonIndex + 1) : defaultTag,
+            configFile: configFile
+        };
+    });
+}
+
 function publishTelemetry() {
     try {
         console.log(`##vso[telemetry.publish area=${telemetryArea};feature=${telemetryFeature}]${JSON.stringify(telemetryData)}`);
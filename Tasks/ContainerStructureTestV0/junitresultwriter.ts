@@ -0,0 +1,70 @@
+import { TestResult, TestSummary } from "./testresultspublisher";
+import * as tl from 'azure-pipelines-task-lib/task';
+import { existsSync, writeFileSync } from 'fs';
+import * as path from "path";
+
+export class JUnitResultWriter {
+    constructor(outputDirectory: string) {
+        this.outputDirectory = outputDirectory;
+    }
+
+    // Writes one test suite per image to TEST-<image>.xml, which matches the default pattern of the Publish Test Results task.
+    public write(testSummary: TestSummary, imageName: string): string {
+        if (!existsSync(this.outputDirectory)) {
+            tl.mkdirP(this.outputDirectory);
+        }
+
+        const resultFilePath = path.join(this.outputDirectory, `TEST-${imageName.replace(/[\/:@]/g, "_")}.xml`);
+        writeFileSync(resultFilePath, this.getJUnitXml(testSummary, imageName));
+        console.log(tl.loc('WroteJUnitResults', imageName, resultFilePath));
+        return resultFilePath;
+    }
+
+    private getJUnitXml(testSummary: TestSummary, imageName: string): string {
+        const results: TestResult[] = testSummary.Results || [];
+        const suiteTime = this.toSeconds(testSummary.Duration);
+        const testCases = results.map(result => this.getTestCaseXml(result, imageName));
+
+        return [
+            `<?xml version="1.0" encoding="UTF-8"?>`,
+            `<testsuites name="${this.toolName}" tests="${testSummary.Total}" failures="${testSummary.Fail}" time="${suiteTime}">`,
+            `  <testsuite name="${this.escape(imageName)}" tests="${testSummary.Total}" failures="${testSummary.Fail}" errors="0" skipped="0" time="${suiteTime}" timestamp="${new Date().toISOString()}">`
+        ].concat(testCases, [
+            `  </testsuite>`,
+            `</testsuites>`,
+            ``
+        ]).join("\n");
+    }
+
+    private getTestCaseXml(result: TestResult, imageName: string): string {
+        const time = result.Duration ? result.Duration / 1e9 : 0;
+        const testCase = `    <testcase name="${this.escape(result.Name)}" classname="${this.escape(imageName)}" time="${time}"`;
+        if (result.Pass) {
+            return testCase + ` />`;
+        }
+
+        const errors = result.Errors || [];
+        const message = errors.length > 0 ? errors[0] : "";
+        return [
+            testCase + `>`,
+            `      <failure message="${this.escape(message)}">${this.escape(errors.join("\n"))}</failure>`,
+            `    </testcase>`
+        ].join("\n");
+    }
+
+    private toSeconds(milliseconds: number): number {
+        return milliseconds ? milliseconds / 1000 : 0;
+    }
+
+    private escape(value: string): string {
+        return (value || "")
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&apos;");
+    }
+
+    private readonly outputDirectory: string;
+    private readonly toolName = "container-structure-test";
+}
@@ -19,6 +19,8 @@ export interface TestResult {
     "Name": string;
     "Pass": boolean;
     "Errors": string[] | undefined;
+    // nanoseconds, only reported by the newer runners
+    "Duration"?: number;
 }
 
 interface TestAttestation {
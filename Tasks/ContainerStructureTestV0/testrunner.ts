@@ -6,38 +6,17 @@ import * as path from "path";
 import * as toolLib from 'vsts-task-tool-lib/tool';
 
 export class TestRunner {
-    constructor(testFilePath: string, imageName: string) {
+    constructor(testFilePath: string, imageName: string, runnerPath?: string, runnerVersion?: string) {
         this.testFilePath = testFilePath;
         this.imageName = imageName;
+        this.runnerPath = runnerPath;
+        this.runnerVersion = runnerVersion ? runnerVersion.replace(/^v/, "") : this.latestVersion;
     }
 
     public async Run(): Promise<TestSummary> {
         return new Promise<TestSummary>(async (resolve, reject) => {
             try {
-                const runnerDownloadUrl = this.getContainerStructureTestRunnerDownloadPath(this.osType);
-                if (!runnerDownloadUrl) {
-                    throw new Error(`Not supported OS: ${this.osType}`);
-                }
-
-                let toolPath = toolLib.findLocalTool(this.toolName, "1.0.0");
-
-                if(!toolPath) {
-                    const downloadPath = await toolLib.downloadTool(runnerDownloadUrl);
-                    tl.debug(`Successfully downloaded : ${downloadPath}`);
-                    toolPath = await toolLib.cacheFile(downloadPath, this.toolName, this.toolName, "1.0.0");
-                    tl.debug(`Successfully Added to cache`);
-                } else {
-                    tl.debug(`Tool is retrieved from cache.`);
-                }
-
-                const runnerPath = path.join(toolPath, this.toolName);
-
-                // Checking if tool exists.
-                if (!existsSync(runnerPath)) {
-                    throw new Error(`Download or caching of tool(${runnerPath}) failed`);
-                }
-
-                chmodSync(runnerPath, "777");
+                const runnerPath = this.runnerPath ? this.getUserProvidedRunnerPath() : await this.getCachedRunnerPath();
                 var start = new Date().getTime();
                 const output: string = this.runContainerStructureTest(runnerPath, this.testFilePath, this.imageName);
                 var end = new Date().getTime();
@@ -57,12 +36,52 @@ export class TestRunner {
         });
     }
 
-    private getContainerStructureTestRunnerDownloadPath(osType: string): string {
+    private getUserProvidedRunnerPath(): string {
+        if (!existsSync(this.runnerPath)) {
+            throw new Error(tl.loc('RunnerNotFound', this.runnerPath));
+        }
+
+        tl.debug(`Using the runner: ${this.runnerPath}`);
+        return this.runnerPath;
+    }
+
+    private async getCachedRunnerPath(): Promise<string> {
+        const runnerDownloadUrl = this.getContainerStructureTestRunnerDownloadPath(this.osType, this.runnerVersion);
+        if (!runnerDownloadUrl) {
+            throw new Error(`Not supported OS: ${this.osType}`);
+        }
+
+        // The latest runner has always been cached as version 1.0.0, keep finding the runners cached by earlier runs.
+        const cacheVersion = this.runnerVersion === this.latestVersion ? "1.0.0" : this.runnerVersion;
+        let toolPath = toolLib.findLocalTool(this.toolName, cacheVersion);
+
+        if(!toolPath) {
+            const downloadPath = await toolLib.downloadTool(runnerDownloadUrl);
+            tl.debug(`Successfully downloaded : ${downloadPath}`);
+            toolPath = await toolLib.cacheFile(downloadPath, this.toolName, this.toolName, cacheVersion);
+            tl.debug(`Successfully Added to cache`);
+        } else {
+            tl.debug(`Tool is retrieved from cache.`);
+        }
+
+        const runnerPath = path.join(toolPath, this.toolName);
+
+        // Checking if tool exists.
+        if (!existsSync(runnerPath)) {
+            throw new Error(`Download or caching of tool(${runnerPath}) failed`);
+        }
+
+        chmodSync(runnerPath, "777");
+        return runnerPath;
+    }
+
+    private getContainerStructureTestRunnerDownloadPath(osType: string, version: string): string {
+        const versionPath = version === this.latestVersion ? version : `v${version}`;
         switch (osType) {
             case 'darwin':
-                return "https://storage.googleapis.com/container-structure-test/latest/container-structure-test-darwin-amd64";
+                return `https://storage.googleapis.com/container-structure-test/${versionPath}/container-structure-test-darwin-amd64`;
             case 'linux':
-                return "https://storage.googleapis.com/container-structure-test/latest/container-structure-test-linux-amd64";
+                return `https://storage.googleapis.com/container-structure-test/${versionPath}/container-structure-test-linux-amd64`;
             default:
                 return null;
         }
@@ -98,6 +117,9 @@ export class TestRunner {
 
     private readonly testFilePath: string;
     private readonly imageName: string;
+    private readonly runnerPath: string;
+    private readonly runnerVersion: string;
+    private readonly latestVersion = "latest";
     private readonly osType = tl.osType().toLowerCase();
     private readonly toolName = "container-structure-test";
 }
\ No newline at end of file
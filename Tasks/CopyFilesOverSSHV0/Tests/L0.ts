@@ -1,16 +1,259 @@
-import fs = require('fs');
 import assert = require('assert');
+import crypto = require('crypto');
 import path = require('path');
+import * as ttm from 'azure-pipelines-task-lib/mock-test';
 
 describe('CopyFilesOverSSHV0 Suite', function () {
+    this.timeout(parseInt(process.env.TASK_TEST_TIMEOUT || '') || 20000);
+
+    const releases: string = '/var/www/site/releases';
+
+    // remote files written long after the local files were last modified, in seconds like SFTP
+    const future: number = Math.floor(new Date('2100-01-01T00:00:00.000Z').getTime() / 1000);
+
     before(() => {
+        process.env['ENDPOINT_AUTH_PARAMETER_SshEndpoint_USERNAME'] = 'user';
+        process.env['ENDPOINT_AUTH_PARAMETER_SshEndpoint_PASSWORD'] = 'pass';
+    });
+
+    beforeEach(() => {
+        delete process.env['__contents__'];
+        delete process.env['__targetFolder__'];
+        delete process.env['__deploymentMode__'];
+        delete process.env['__releasesToKeep__'];
+        delete process.env['__concurrentUploads__'];
+        delete process.env['__skipIdentical__'];
+        delete process.env['__verifyChecksums__'];
+        delete process.env['__remoteFiles__'];
+        delete process.env['__failedUploads__'];
+        delete process.env['__corruptedUploads__'];
+    });
+
+    function runTask(): ttm.MockTestRunner {
+        const tp: string = path.join(__dirname, 'L0CopyFilesOverSSH.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+        return tr;
+    }
+
+    function getNewRelease(tr: ttm.MockTestRunner): string {
+        const match = /remote: mkdir \/var\/www\/site\/releases\/(\d{14})/.exec(tr.stdout);
+        assert(match, 'should have created a release folder');
+        return match[1];
+    }
+
+    it('Copies files into the target folder', (done: MochaDone) => {
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/css/site.css') !== -1, 'should have uploaded site.css');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/index.html') !== -1, 'should have uploaded index.html');
+        assert(tr.stdout.indexOf('remote: symlink') === -1, 'should not have created a release');
+        done();
+    });
+
+    it('Copies files into a new release and switches the current link to it', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'atomicRelease';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/releases/20200101000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/current': { type: 'link', target: 'releases/20200101000000' }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        const release: string = getNewRelease(tr);
+        assert(tr.stdout.indexOf(`remote: write ${releases}/${release}/css/site.css`) !== -1, 'should have uploaded site.css into the release');
+        assert(tr.stdout.indexOf(`remote: write ${releases}/${release}/index.html`) !== -1, 'should have uploaded index.html into the release');
+        assert(tr.stdout.indexOf(`remote: symlink /var/www/site/.current.tmp -> releases/${release}`) !== -1, 'should have created the new link under a temporary name');
+        assert(tr.stdout.indexOf('remote: rename /var/www/site/.current.tmp /var/www/site/current') !== -1, 'should have renamed the new link over the current one');
+        assert(tr.stdout.indexOf('remote: exec mv') === -1, 'should not have switched with mv');
+        assert(tr.stdout.indexOf('remote: remove') === -1, 'should have kept the previous release');
+        done();
+    });
+
+    it('Removes the oldest releases beyond the releases to keep', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'atomicRelease';
+        process.env['__releasesToKeep__'] = '2';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/releases/20200101000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/releases/20200102000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/releases/20200103000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/releases/notarelease/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/current': { type: 'link', target: 'releases/20200103000000' }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        const release: string = getNewRelease(tr);
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/20200101000000`) !== -1, 'should have removed the oldest release');
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/20200102000000`) !== -1, 'should have removed the second oldest release');
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/20200103000000`) === -1, 'should have kept the previous release');
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/${release}`) === -1, 'should have kept the current release');
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/notarelease`) === -1, 'should not have removed folders that are not releases');
+        done();
+    });
+
+    it('Removes the new release when a file fails to copy', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'atomicRelease';
+        process.env['__failedUploads__'] = JSON.stringify(['site.css']);
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/releases/20200101000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/current': { type: 'link', target: 'releases/20200101000000' }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        const release: string = getNewRelease(tr);
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/${release}`) !== -1, 'should have removed the incomplete release');
+        assert(tr.stdout.indexOf('remote: symlink') === -1, 'should not have switched the current link');
+        assert(tr.stdout.indexOf(`remote: remove ${releases}/20200101000000`) === -1, 'should have kept the current release');
+        done();
+    });
+
+    it('Does not create a release when no files match', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'atomicRelease';
+        process.env['__contents__'] = '*.nomatch';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.warningIssues.length === 1, 'should have warned that there is nothing to copy');
+        assert(tr.stdout.indexOf('remote: mkdir') === -1, 'should not have created a release folder');
+        assert(tr.stdout.indexOf('remote: symlink') === -1, 'should not have switched the current link');
+        done();
+    });
+
+    it('Quotes the target folder in remote commands', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'atomicRelease';
+        process.env['__targetFolder__'] = '/var/www/it\'s $HOME';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`remote: exec mkdir -p '/var/www/it'\\''s $HOME/releases'`) !== -1, 'should have quoted the releases folder');
+        assert(tr.stdout.indexOf('remote: mkdir /var/www/it\'s $HOME/releases/') !== -1, 'should have created the release folder in the target folder');
+        assert(tr.stdout.indexOf('remote: rename /var/www/it\'s $HOME/.current.tmp /var/www/it\'s $HOME/current') !== -1, 'should have switched the current link');
+        done();
     });
 
-    after(() => {
+    it('Rolls back to the release before the current one', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'rollback';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/releases/20200101000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/releases/20200102000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/releases/20200103000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/current': { type: 'link', target: 'releases/20200102000000' }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: symlink /var/www/site/.current.tmp -> releases/20200101000000') !== -1, 'should have pointed the link to the previous release');
+        assert(tr.stdout.indexOf('remote: rename /var/www/site/.current.tmp /var/www/site/current') !== -1, 'should have switched the current link');
+        assert(tr.stdout.indexOf('remote: write') === -1, 'should not have copied files');
+        assert(tr.stdout.indexOf('remote: remove') === -1, 'should not have removed releases');
+        done();
+    });
+
+    it('Uploads files concurrently over SFTP channels', (done: MochaDone) => {
+        process.env['__concurrentUploads__'] = '2';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: mkdir /var/www/site/css') !== -1, 'should have created the remote folder');
+        assert(tr.stdout.indexOf('remote: sftp put /var/www/site/css/site.css') !== -1, 'should have uploaded site.css over SFTP');
+        assert(tr.stdout.indexOf('remote: sftp put /var/www/site/index.html') !== -1, 'should have uploaded index.html over SFTP');
+        done();
+    });
+
+    it('Skips files with the same size and a newer modification time', (done: MochaDone) => {
+        process.env['__skipIdentical__'] = 'sizeAndTime';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/index.html': { type: 'file', content: '<html><body>Hello</body></html>', mtime: future },
+            '/var/www/site/css/site.css': { type: 'file', content: 'body {}', mtime: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/index.html') === -1, 'should have skipped index.html');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/css/site.css') !== -1, 'should have uploaded site.css with a different size');
+        done();
+    });
+
+    it('Uploads files with the same size but an older modification time', (done: MochaDone) => {
+        process.env['__skipIdentical__'] = 'sizeAndTime';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/index.html': { type: 'file', content: '<html><body>Hello</body></html>', mtime: 0 }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/index.html') !== -1, 'should have uploaded index.html');
+        done();
     });
 
-    it('Does a basic hello world test', function(done: MochaDone) {
-        // TODO - add real tests
+    it('Skips files with the same checksum', (done: MochaDone) => {
+        process.env['__skipIdentical__'] = 'checksum';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/index.html': { type: 'file', content: '<html><body>Hello</body></html>', mtime: 0 },
+            '/var/www/site/css/site.css': { type: 'file', content: 'body { color: white; }\n', mtime: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`remote: exec sha256sum -- '/var/www/site/css/site.css' '/var/www/site/index.html'`) !== -1, 'should have computed the remote checksums in one command');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/index.html') === -1, 'should have skipped index.html');
+        assert(tr.stdout.indexOf('remote: write /var/www/site/css/site.css') !== -1, 'should have uploaded site.css with a different checksum');
+        done();
+    });
+
+    it('Verifies the checksums of the copied files', (done: MochaDone) => {
+        process.env['__verifyChecksums__'] = 'true';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('loc_mock_VerifyingChecksums 2') !== -1, 'should have verified both files');
+        assert(tr.stdout.indexOf('loc_mock_ChecksumMismatch') === -1, 'should not have reported a mismatch');
+        done();
+    });
+
+    it('Fails when the checksum of a copied file does not match', (done: MochaDone) => {
+        process.env['__verifyChecksums__'] = 'true';
+        process.env['__corruptedUploads__'] = JSON.stringify(['site.css']);
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf('loc_mock_ChecksumMismatch /var/www/site/css/site.css') !== -1, 'should have reported the corrupted file');
+        assert(tr.stdout.indexOf('loc_mock_ChecksumMismatch /var/www/site/index.html') === -1, 'should not have reported the intact file');
+        assert(tr.stdout.indexOf('loc_mock_NumberFailed 1') !== -1, 'should have counted the corrupted file as failed');
+        done();
+    });
+
+    it('Reads the remote checksums of files with special characters in their names', (done: MochaDone) => {
+        const tp: string = path.join(__dirname, 'L0RemoteChecksums.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        const match = /^checksums: (.*)$/m.exec(tr.stdout);
+        assert(match, 'should have read the checksums: ' + tr.stdout);
+        const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+        assert.deepEqual(JSON.parse(match[1]), {
+            '/site/plain.txt': sha256('plain'),
+            '/site/back\\slash.txt': sha256('backslash'),
+            '/site/new\nline.txt': sha256('newline'),
+            '/site/it\'s.txt': sha256('quote')
+        });
+        done();
+    });
+
+    it('Fails to roll back without a previous release', (done: MochaDone) => {
+        process.env['__deploymentMode__'] = 'rollback';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/var/www/site/releases/20200101000000/index.html': { type: 'file', content: 'old' },
+            '/var/www/site/current': { type: 'link', target: 'releases/20200101000000' }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf('loc_mock_NoPreviousRelease 20200101000000') !== -1, 'should have reported that there is no previous release');
+        assert(tr.stdout.indexOf('remote: symlink') === -1, 'should not have switched the current link');
         done();
     });
 });
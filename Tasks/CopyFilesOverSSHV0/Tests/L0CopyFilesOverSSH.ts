@@ -0,0 +1,64 @@
+import fs = require('fs');
+import ma = require('azure-pipelines-task-lib/mock-answer');
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+import { RemoteFileSystem, createFakeScp2Module, createFakeSsh2Module } from './mock_ssh';
+
+const taskPath = path.join(__dirname, '..', 'copyfilesoverssh.js');
+const tr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+const sourceFolder: string = path.join(__dirname, 'Source');
+
+tr.setInput('sshEndpoint', 'SshEndpoint');
+tr.setInput('sourceFolder', sourceFolder);
+tr.setInput('contents', process.env['__contents__'] || '**');
+tr.setInput('targetFolder', process.env['__targetFolder__'] || '/var/www/site');
+tr.setInput('deploymentMode', process.env['__deploymentMode__'] || 'copyFiles');
+tr.setInput('releasesToKeep', process.env['__releasesToKeep__'] || '5');
+tr.setInput('isWindowsOnTarget', 'false');
+tr.setInput('cleanTargetFolder', 'false');
+tr.setInput('readyTimeout', '20000');
+tr.setInput('overwrite', 'true');
+tr.setInput('failOnEmptySource', 'false');
+tr.setInput('flattenFolders', 'false');
+tr.setInput('concurrentUploads', process.env['__concurrentUploads__'] || '1');
+tr.setInput('skipIdentical', process.env['__skipIdentical__'] || 'none');
+tr.setInput('verifyChecksums', process.env['__verifyChecksums__'] || 'false');
+
+const localPaths: string[] = [
+    sourceFolder,
+    path.join(sourceFolder, 'css'),
+    path.join(sourceFolder, 'css', 'site.css'),
+    path.join(sourceFolder, 'index.html')
+];
+
+const stats: any = {};
+for (const localPath of localPaths) {
+    const localStats: fs.Stats = fs.statSync(localPath);
+    stats[localPath] = {
+        isFile: localStats.isFile(),
+        isDirectory: localStats.isDirectory()
+    };
+}
+
+const a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
+    checkPath: {
+        [sourceFolder]: true
+    },
+    find: {
+        [sourceFolder]: localPaths
+    },
+    stats: stats
+};
+tr.setAnswers(a);
+
+process.env['ENDPOINT_DATA_SshEndpoint_HOST'] = 'contoso.com';
+process.env['ENDPOINT_DATA_SshEndpoint_PORT'] = '22';
+
+const remote: RemoteFileSystem = new RemoteFileSystem(
+    JSON.parse(process.env['__remoteFiles__'] || '{}'),
+    JSON.parse(process.env['__failedUploads__'] || '[]'),
+    JSON.parse(process.env['__corruptedUploads__'] || '[]'));
+tr.registerMock('ssh2', createFakeSsh2Module(remote));
+tr.registerMock('scp2', createFakeScp2Module(remote));
+
+tr.run();
@@ -0,0 +1,31 @@
+import mockery = require('mockery');
+import { RemoteFileSystem, createFakeScp2Module, createFakeSsh2Module } from './mock_ssh';
+
+const remote: RemoteFileSystem = new RemoteFileSystem({
+    '/site/plain.txt': { type: 'file', content: 'plain' },
+    '/site/back\\slash.txt': { type: 'file', content: 'backslash' },
+    '/site/new\nline.txt': { type: 'file', content: 'newline' },
+    '/site/it\'s.txt': { type: 'file', content: 'quote' }
+}, [], []);
+
+mockery.enable({ useCleanCache: true, warnOnReplace: false, warnOnUnregistered: false });
+mockery.registerMock('ssh2', createFakeSsh2Module(remote));
+mockery.registerMock('scp2', createFakeScp2Module(remote));
+
+// the helper is loaded once the fake SSH modules are registered
+const sshhelper = require('../sshhelper');
+
+async function run() {
+    const sshHelper = new sshhelper.SshHelper({ host: 'contoso.com', port: '22', username: 'user', password: 'pass' });
+    await sshHelper.setupConnection();
+    try {
+        const checksums = await sshHelper.getRemoteSha256Checksums(Object.keys(remote.entries).filter(remotePath => remote.get(remotePath).type === 'file').concat('/site/missing.txt'));
+        console.log('checksums: ' + JSON.stringify(checksums));
+    } finally {
+        sshHelper.closeConnection();
+    }
+}
+
+run().catch(err => {
+    console.log('failed: ' + err);
+});
@@ -0,0 +1,291 @@
+import crypto = require('crypto');
+import fs = require('fs');
+import path = require('path');
+import { EventEmitter } from 'events';
+
+export interface RemoteEntry {
+    type: 'file' | 'dir' | 'link';
+    content?: string;
+    target?: string;
+    mtime?: number;
+}
+
+/**
+ * In-memory remote file system shared by the fake SSH, SFTP and SCP clients, keyed by absolute path.
+ * Every change is logged, so that the tests can assert on the remote operations.
+ */
+export class RemoteFileSystem {
+    public entries: { [remotePath: string]: RemoteEntry } = { '/': { type: 'dir' } };
+
+    constructor(entries: { [remotePath: string]: RemoteEntry }, public failedUploads: string[], public corruptedUploads: string[]) {
+        for (const remotePath of Object.keys(entries)) {
+            this.entries[remotePath] = entries[remotePath];
+            this.createParents(remotePath);
+        }
+    }
+
+    public get(remotePath: string): RemoteEntry {
+        return this.entries[remotePath];
+    }
+
+    public list(dir: string): string[] {
+        return Object.keys(this.entries)
+            .filter(remotePath => remotePath !== '/' && path.posix.dirname(remotePath) === dir)
+            .sort();
+    }
+
+    public mkdir(dir: string): void {
+        console.log('remote: mkdir ' + dir);
+        this.entries[dir] = { type: 'dir' };
+    }
+
+    public remove(remotePath: string): void {
+        console.log('remote: remove ' + remotePath);
+        for (const entry of Object.keys(this.entries)) {
+            if (entry === remotePath || entry.indexOf(remotePath + '/') === 0) {
+                delete this.entries[entry];
+            }
+        }
+    }
+
+    public write(remotePath: string, content: string): void {
+        console.log('remote: write ' + remotePath);
+        this.entries[remotePath] = { type: 'file', content: content, mtime: Math.floor(Date.now() / 1000) };
+    }
+
+    public symlink(target: string, linkPath: string): void {
+        console.log(`remote: symlink ${linkPath} -> ${target}`);
+        this.entries[linkPath] = { type: 'link', target: target };
+    }
+
+    public rename(oldPath: string, newPath: string): void {
+        console.log(`remote: rename ${oldPath} ${newPath}`);
+        this.entries[newPath] = this.entries[oldPath];
+        delete this.entries[oldPath];
+    }
+
+    public createParents(remotePath: string): void {
+        for (let dir = path.posix.dirname(remotePath); dir !== '/'; dir = path.posix.dirname(dir)) {
+            this.entries[dir] = this.entries[dir] || { type: 'dir' };
+        }
+    }
+}
+
+/**
+ * Splits a command line into words the way the shell does for the quoting the task uses.
+ */
+function splitCommandLine(command: string): string[] {
+    const words: string[] = [];
+    let word: string = null;
+    let quote: string = null;
+    for (let i = 0; i < command.length; i++) {
+        const c: string = command[i];
+        if (quote) {
+            if (c === quote) {
+                quote = null;
+            } else {
+                word += c;
+            }
+        } else if (c === '\'' || c === '"') {
+            quote = c;
+            word = word || '';
+        } else if (c === '\\') {
+            word = (word || '') + command[++i];
+        } else if (c === ' ') {
+            if (word !== null) {
+                words.push(word);
+            }
+            word = null;
+        } else {
+            word = (word || '') + c;
+        }
+    }
+    if (word !== null) {
+        words.push(word);
+    }
+
+    return words;
+}
+
+function sha256(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Runs the commands the task sends over SSH against the remote file system.
+ * @returns the output and the exit code of the command
+ */
+function runRemoteCommand(remote: RemoteFileSystem, command: string): { output: string, code: number } {
+    console.log('remote: exec ' + command);
+
+    let output: string = '';
+    const words: string[] = splitCommandLine(command);
+    while (words.length > 0) {
+        const next: number = words.indexOf('&&');
+        const args: string[] = words.splice(0, next === -1 ? words.length : next + 1).filter(word => word !== '&&');
+        if (args[0] === 'mkdir') {
+            const dir: string = args[args.length - 1];
+            if (remote.get(dir)) {
+                if (args[1] !== '-p') {
+                    return { output: output, code: 1 };
+                }
+            } else {
+                remote.mkdir(dir);
+            }
+        } else if (args[0] === 'rm' && args[1] === '-rf') {
+            remote.remove(args[2]);
+        } else if (args[0] === 'sha256sum') {
+            for (const file of args.slice(2, args.indexOf('2>/dev/null'))) {
+                const entry: RemoteEntry = remote.get(file);
+                if (entry && entry.type === 'file') {
+                    // like GNU sha256sum, escape the name if it contains a backslash or newline
+                    const escapedFile: string = file.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+                    output += (escapedFile !== file ? '\\' : '') + `${sha256(entry.content)}  ${escapedFile}\n`;
+                }
+            }
+            break;
+        } else {
+            throw new Error('Unexpected remote command: ' + command);
+        }
+    }
+
+    return { output: output, code: 0 };
+}
+
+function notFound(remotePath: string): Error {
+    const err: any = new Error('No such file: ' + remotePath);
+    err.code = 2;
+    return err;
+}
+
+/**
+ * Fake of the SFTP session of ssh2 and scp2.
+ */
+function createFakeSftp(remote: RemoteFileSystem): any {
+    const sftp: any = new EventEmitter();
+    sftp.stat = (remotePath: string, callback: (err: any, attr?: any) => void) => {
+        const entry: RemoteEntry = remote.get(remotePath);
+        if (!entry) {
+            callback(notFound(remotePath));
+        } else {
+            callback(null, { size: entry.content ? Buffer.byteLength(entry.content) : 0, mtime: entry.mtime || 0 });
+        }
+    };
+    sftp.mkdir = (remotePath: string, callback: (err: any) => void) => {
+        remote.mkdir(remotePath);
+        callback(null);
+    };
+    sftp.readdir = (remotePath: string, callback: (err: any, list?: any[]) => void) => {
+        if (!remote.get(remotePath)) {
+            callback(notFound(remotePath));
+        } else {
+            callback(null, remote.list(remotePath).map(entry => ({ filename: path.posix.basename(entry) })));
+        }
+    };
+    sftp.readlink = (remotePath: string, callback: (err: any, target?: string) => void) => {
+        const entry: RemoteEntry = remote.get(remotePath);
+        if (!entry || entry.type !== 'link') {
+            callback(notFound(remotePath));
+        } else {
+            callback(null, entry.target);
+        }
+    };
+    sftp.unlink = (remotePath: string, callback: (err: any) => void) => {
+        if (!remote.get(remotePath)) {
+            callback(notFound(remotePath));
+        } else {
+            remote.remove(remotePath);
+            callback(null);
+        }
+    };
+    sftp.symlink = (target: string, linkPath: string, callback: (err: any) => void) => {
+        remote.symlink(target, linkPath);
+        callback(null);
+    };
+    sftp.ext_openssh_rename = (oldPath: string, newPath: string, callback: (err: any) => void) => {
+        remote.rename(oldPath, newPath);
+        callback(null);
+    };
+    sftp.fastPut = (localPath: string, remotePath: string, callback: (err: any) => void) => {
+        console.log('remote: sftp put ' + remotePath);
+        if (!remote.get(path.posix.dirname(remotePath))) {
+            callback(notFound(path.posix.dirname(remotePath)));
+            return;
+        }
+        upload(remote, localPath, remotePath, callback);
+    };
+    sftp.end = () => { };
+    sftp.close = () => { };
+    return sftp;
+}
+
+function upload(remote: RemoteFileSystem, localPath: string, remotePath: string, callback: (err: any) => void): void {
+    if (remote.failedUploads.indexOf(path.basename(localPath)) !== -1) {
+        callback(new Error('Permission denied'));
+        return;
+    }
+
+    const content: string = fs.readFileSync(localPath, 'utf8');
+    remote.write(remotePath, remote.corruptedUploads.indexOf(path.basename(localPath)) !== -1 ? content + 'corrupted' : content);
+    callback(null);
+}
+
+/**
+ * Fake of the ssh2 client, which runs commands and opens SFTP channels.
+ */
+export function createFakeSsh2Module(remote: RemoteFileSystem): any {
+    class Client extends EventEmitter {
+        connect(config: any): void {
+            console.log(`remote: connected to ${config.host}:${config.port} as ${config.username}`);
+            process.nextTick(() => this.emit('ready'));
+        }
+
+        exec(command: string, callback: (err: any, stream?: any) => void): void {
+            const stream: any = new EventEmitter();
+            stream.stderr = new EventEmitter();
+            callback(null, stream);
+
+            const result = runRemoteCommand(remote, command);
+            process.nextTick(() => {
+                if (result.output) {
+                    stream.emit('data', result.output);
+                }
+                stream.emit('close', result.code, null);
+            });
+        }
+
+        sftp(callback: (err: any, sftp?: any) => void): void {
+            callback(null, createFakeSftp(remote));
+        }
+
+        end(): void {
+        }
+    }
+
+    return { Client: Client };
+}
+
+/**
+ * Fake of the scp2 client, which uploads files one at a time.
+ */
+export function createFakeScp2Module(remote: RemoteFileSystem): any {
+    class Client extends EventEmitter {
+        defaults(config: any): void {
+        }
+
+        sftp(callback: (err: any, sftp?: any) => void): void {
+            callback(null, createFakeSftp(remote));
+        }
+
+        upload(localPath: string, remotePath: string, callback: (err: any) => void): void {
+            // scp2 creates the parent folders
+            remote.createParents(remotePath);
+            upload(remote, localPath, remotePath, callback);
+        }
+
+        close(): void {
+        }
+    }
+
+    return { Client: Client };
+}
@@ -1,7 +1,10 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import * as tl from 'azure-pipelines-task-lib/task';
 import * as minimatch from 'minimatch';
+import { quoteShellArgument } from 'ssh-common/ssh-common';
 import { SshHelper } from './sshhelper';
 
 // This method will find the list of matching files for the specified contents
@@ -113,6 +116,191 @@ function getCleanTargetFolderCmd(targetFolder: string): string {
     }
 }
 
+/**
+ * Gets the number of files to upload concurrently, each over its own SFTP channel.
+ * @returns {number} number of concurrent uploads, at least 1
+ */
+function getConcurrentUploads(): number {
+    const concurrentUploadsString: string = tl.getInput('concurrentUploads', false) || '1';
+    const concurrentUploads: number = parseInt(concurrentUploadsString, 10);
+    if (isNaN(concurrentUploads) || concurrentUploads < 1) {
+        throw tl.loc('InvalidConcurrentUploads', concurrentUploadsString);
+    }
+
+    return concurrentUploads;
+}
+
+/**
+ * Computes the SHA-256 checksum of a local file.
+ * @param {string} filePath path to the file
+ * @returns {string} hex encoded checksum
+ */
+function getSha256Checksum(filePath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const hash: crypto.Hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('error', reject)
+            .on('data', (data: Buffer) => hash.update(data))
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+/**
+ * Runs the action on all items, with at most the specified number of actions running at a time.
+ * The action gets the index of the worker running it, which is less than the concurrency.
+ */
+async function runConcurrently<T>(items: T[], concurrency: number, action: (item: T, worker: number) => Promise<void>): Promise<void> {
+    let nextItem: number = 0;
+    const workers: Promise<void>[] = [];
+    for (let worker = 0; worker < Math.min(concurrency, items.length); worker++) {
+        workers.push((async () => {
+            while (nextItem < items.length) {
+                await action(items[nextItem++], worker);
+            }
+        })());
+    }
+
+    await Promise.all(workers);
+}
+
+const releasesFolderName: string = 'releases';
+const currentLinkName: string = 'current';
+
+/**
+ * Gets the name of a new release folder, which is the UTC timestamp, e.g. 20200131235959.
+ * Release folder names sort in the order the releases were created.
+ * @returns {string} name of the release folder
+ */
+function getReleaseName(): string {
+    return new Date().toISOString().replace(/[^0-9]/g, '').substring(0, 14);
+}
+
+/**
+ * Gets the number of releases to keep on the remote machine.
+ * @returns {number} number of releases to keep, at least 1
+ */
+function getReleasesToKeep(): number {
+    const releasesToKeepString: string = tl.getInput('releasesToKeep', false) || '5';
+    const releasesToKeep: number = parseInt(releasesToKeepString, 10);
+    if (isNaN(releasesToKeep) || releasesToKeep < 1) {
+        throw tl.loc('InvalidReleasesToKeep', releasesToKeepString);
+    }
+
+    return releasesToKeep;
+}
+
+/**
+ * Gets the names of the release folders in the target folder, oldest first.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} targetFolder path to target folder
+ */
+async function getReleases(sshHelper: SshHelper, targetFolder: string): Promise<string[]> {
+    const releasesFolder: string = path.posix.join(targetFolder, releasesFolderName);
+    if (!await sshHelper.checkRemotePathExists(releasesFolder)) {
+        return [];
+    }
+
+    const entries: string[] = await sshHelper.listRemoteDirectory(releasesFolder);
+    return entries.filter(name => /^\d{14}$/.test(name)).sort();
+}
+
+/**
+ * Gets the name of the release the 'current' symlink in the target folder points to.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} targetFolder path to target folder
+ * @returns {string} name of the current release, null if there is none
+ */
+async function getCurrentRelease(sshHelper: SshHelper, targetFolder: string): Promise<string> {
+    const linkTarget: string = await sshHelper.readRemoteLink(path.posix.join(targetFolder, currentLinkName));
+    return linkTarget ? path.posix.basename(linkTarget) : null;
+}
+
+/**
+ * Creates the release folder in the target folder.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} releaseFolder path to the release folder
+ */
+async function createRelease(sshHelper: SshHelper, releaseFolder: string): Promise<void> {
+    console.log(tl.loc('CreatingRelease', releaseFolder));
+
+    const createCmd: string = `mkdir -p ${quoteShellArgument(path.posix.dirname(releaseFolder))} && mkdir ${quoteShellArgument(releaseFolder)}`;
+    try {
+        await sshHelper.runCommandOnRemoteMachine(createCmd, null);
+    } catch (err) {
+        throw tl.loc('CreateReleaseFailed', err);
+    }
+}
+
+/**
+ * Points the 'current' symlink in the target folder to the release. The switch is atomic, see SshHelper.replaceRemoteLink.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} targetFolder path to target folder
+ * @param {string} releaseName name of the release folder
+ */
+async function switchCurrentRelease(sshHelper: SshHelper, targetFolder: string, releaseName: string): Promise<void> {
+    console.log(tl.loc('SwitchingCurrentRelease', releaseName));
+
+    try {
+        await sshHelper.replaceRemoteLink(path.posix.join(targetFolder, currentLinkName), path.posix.join(releasesFolderName, releaseName));
+    } catch (err) {
+        throw tl.loc('SwitchCurrentReleaseFailed', err);
+    }
+}
+
+/**
+ * Removes the release folder from the target folder.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} targetFolder path to target folder
+ * @param {string} releaseName name of the release folder
+ */
+async function removeRelease(sshHelper: SshHelper, targetFolder: string, releaseName: string): Promise<void> {
+    console.log(tl.loc('RemovingRelease', releaseName));
+
+    const releaseFolder: string = path.posix.join(targetFolder, releasesFolderName, releaseName);
+    await sshHelper.runCommandOnRemoteMachine(`rm -rf ${quoteShellArgument(releaseFolder)}`, null);
+}
+
+/**
+ * Removes the oldest releases so that only the specified number of releases is kept.
+ * The current release is never removed.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} targetFolder path to target folder
+ * @param {number} releasesToKeep number of releases to keep
+ */
+async function removeOldReleases(sshHelper: SshHelper, targetFolder: string, releasesToKeep: number): Promise<void> {
+    const releases: string[] = await getReleases(sshHelper, targetFolder);
+    const currentRelease: string = await getCurrentRelease(sshHelper, targetFolder);
+
+    const oldReleases: string[] = releases
+        .slice(0, Math.max(0, releases.length - releasesToKeep))
+        .filter(releaseName => releaseName !== currentRelease);
+    for (const releaseName of oldReleases) {
+        await removeRelease(sshHelper, targetFolder, releaseName);
+    }
+}
+
+/**
+ * Points the 'current' symlink in the target folder back to the release before the current one.
+ * @param {SshHelper} sshHelper connected SSH helper
+ * @param {string} targetFolder path to target folder
+ */
+async function rollbackRelease(sshHelper: SshHelper, targetFolder: string): Promise<void> {
+    const currentRelease: string = await getCurrentRelease(sshHelper, targetFolder);
+    if (!currentRelease) {
+        throw tl.loc('NoCurrentRelease', targetFolder);
+    }
+
+    const previousReleases: string[] = (await getReleases(sshHelper, targetFolder))
+        .filter(releaseName => releaseName < currentRelease);
+    if (previousReleases.length === 0) {
+        throw tl.loc('NoPreviousRelease', currentRelease);
+    }
+
+    const previousRelease: string = previousReleases[previousReleases.length - 1];
+    console.log(tl.loc('RollingBackRelease', currentRelease, previousRelease));
+    await switchCurrentRelease(sshHelper, targetFolder, previousRelease);
+}
+
 async function run() {
     let sshHelper: SshHelper;
     try {
@@ -159,9 +347,17 @@ async function run() {
             }
         }
 
+        // copy the files into the target folder, into a new release folder, or roll back to the previous release
+        const deploymentMode: string = tl.getInput('deploymentMode', false) || 'copyFiles';
+        const isAtomicRelease: boolean = deploymentMode === 'atomicRelease';
+        const isRollback: boolean = deploymentMode === 'rollback';
+        if ((isAtomicRelease || isRollback) && tl.getBoolInput('isWindowsOnTarget', false)) {
+            throw tl.loc('ReleasesNotSupportedOnWindows');
+        }
+
         // contents is a multiline input containing glob patterns
-        const contents: string[] = tl.getDelimitedInput('contents', '\n', true);
-        const sourceFolder: string = tl.getPathInput('sourceFolder', true, true);
+        const contents: string[] = tl.getDelimitedInput('contents', '\n', !isRollback);
+        const sourceFolder: string = tl.getPathInput('sourceFolder', !isRollback, !isRollback);
         let targetFolder: string = tl.getInput('targetFolder');
 
         if (!targetFolder) {
@@ -176,8 +372,14 @@ async function run() {
         const overwrite: boolean = tl.getBoolInput('overwrite', false);
         const failOnEmptySource: boolean = tl.getBoolInput('failOnEmptySource', false);
         const flattenFolders: boolean = tl.getBoolInput('flattenFolders', false);
+        const concurrentUploads: number = getConcurrentUploads();
+        const skipIdentical: string = tl.getInput('skipIdentical', false) || 'none';
+        const verifyChecksums: boolean = tl.getBoolInput('verifyChecksums', false);
+        if ((skipIdentical === 'checksum' || verifyChecksums) && tl.getBoolInput('isWindowsOnTarget', false)) {
+            throw tl.loc('ChecksumsNotSupportedOnWindows');
+        }
 
-        if (!tl.stats(sourceFolder).isDirectory()) {
+        if (!isRollback && !tl.stats(sourceFolder).isDirectory()) {
             throw tl.loc('SourceNotFolder');
         }
 
@@ -185,7 +387,20 @@ async function run() {
         sshHelper = new SshHelper(sshConfig);
         await sshHelper.setupConnection();
 
-        if (cleanTargetFolder) {
+        if (isRollback) {
+            await rollbackRelease(sshHelper, targetFolder);
+            return;
+        }
+
+        // in atomic release mode, files are copied into a new release folder that is switched to when all files are copied
+        let copyTargetFolder: string = targetFolder;
+        let releaseName: string;
+        let releasesToKeep: number;
+        if (isAtomicRelease) {
+            releasesToKeep = getReleasesToKeep();
+            releaseName = getReleaseName();
+            copyTargetFolder = path.posix.join(targetFolder, releasesFolderName, releaseName);
+        } else if (cleanTargetFolder) {
             console.log(tl.loc('CleanTargetFolder', targetFolder));
 
             const cleanTargetFolderCmd: string = getCleanTargetFolderCmd(targetFolder);
@@ -200,16 +415,19 @@ async function run() {
         const filesToCopy: string[] = getFilesToCopy(sourceFolder, contents);
 
         // copy files to remote machine
-        if (filesToCopy) {
+        if (filesToCopy.length > 0) {
             tl.debug('Number of files to copy = ' + filesToCopy.length);
             tl.debug('filesToCopy = ' + filesToCopy);
 
-            let failureCount = 0;
-            console.log(tl.loc('CopyingFiles', filesToCopy.length));
-            for (const fileToCopy of filesToCopy) {
-                try {
-                    tl.debug('fileToCopy = ' + fileToCopy);
-
+            // the release folder is only created once there are files to copy, since every release folder counts towards the releases to keep
+            if (isAtomicRelease) {
+                await createRelease(sshHelper, copyTargetFolder);
+            }
+            let isReleaseSwitched: boolean = false;
+            try {
+                // map each file to its path on the remote machine
+                const targetPaths: { [fileToCopy: string]: string } = {};
+                for (const fileToCopy of filesToCopy) {
                     let relativePath;
                     if (flattenFolders) {
                         relativePath = path.basename(fileToCopy);
@@ -219,25 +437,90 @@ async function run() {
                             .replace(/^\//g, "");
                     }
                     tl.debug('relativePath = ' + relativePath);
-                    const targetPath = path.posix.join(targetFolder, relativePath);
+                    targetPaths[fileToCopy] = path.posix.join(copyTargetFolder, relativePath);
+                }
 
-                    console.log(tl.loc('StartedFileCopy', fileToCopy, targetPath));
-                    if (!overwrite) {
-                        const fileExists: boolean = await sshHelper.checkRemotePathExists(targetPath);
-                        if (fileExists) {
-                            throw tl.loc('FileExists', targetPath);
+                let remoteChecksums: { [targetPath: string]: string } = {};
+                if (skipIdentical === 'checksum') {
+                    remoteChecksums = await sshHelper.getRemoteSha256Checksums(filesToCopy.map(fileToCopy => targetPaths[fileToCopy]));
+                }
+
+                if (concurrentUploads > 1) {
+                    await sshHelper.setupSftpChannels(concurrentUploads);
+                }
+
+                let failureCount = 0;
+                const copiedFiles: string[] = [];
+                console.log(tl.loc('CopyingFiles', filesToCopy.length));
+                await runConcurrently(filesToCopy, concurrentUploads, async (fileToCopy: string, worker: number) => {
+                    try {
+                        tl.debug('fileToCopy = ' + fileToCopy);
+                        const targetPath: string = targetPaths[fileToCopy];
+
+                        if (skipIdentical === 'sizeAndTime') {
+                            // uploaded files get the upload time, so an identical remote file is not older than the local one
+                            const remoteAttributes = await sshHelper.getRemotePathAttributes(targetPath);
+                            const localStats: fs.Stats = fs.statSync(fileToCopy);
+                            if (remoteAttributes && remoteAttributes.size === localStats.size
+                                && remoteAttributes.mtime >= Math.floor(localStats.mtime.getTime() / 1000)) {
+                                console.log(tl.loc('SkippedIdenticalFile', fileToCopy, targetPath));
+                                return;
+                            }
+                        } else if (skipIdentical === 'checksum' && remoteChecksums[targetPath]) {
+                            if (remoteChecksums[targetPath] === await getSha256Checksum(fileToCopy)) {
+                                console.log(tl.loc('SkippedIdenticalFile', fileToCopy, targetPath));
+                                return;
+                            }
+                        }
+
+                        console.log(tl.loc('StartedFileCopy', fileToCopy, targetPath));
+                        if (!overwrite) {
+                            const fileExists: boolean = await sshHelper.checkRemotePathExists(targetPath);
+                            if (fileExists) {
+                                throw tl.loc('FileExists', targetPath);
+                            }
+                        }
+                        if (concurrentUploads > 1) {
+                            await sshHelper.uploadFileOverSftpChannel(fileToCopy, targetPath, worker);
+                        } else {
+                            // looks like scp can only handle one file at a time reliably
+                            await sshHelper.uploadFile(fileToCopy, targetPath);
+                        }
+                        copiedFiles.push(fileToCopy);
+                    } catch (err) {
+                        tl.error(tl.loc('FailedOnFile', fileToCopy, err));
+                        failureCount++;
+                    }
+                });
+                console.log(tl.loc('CopyCompleted', filesToCopy.length));
+
+                if (verifyChecksums && copiedFiles.length > 0) {
+                    console.log(tl.loc('VerifyingChecksums', copiedFiles.length));
+                    const copiedChecksums = await sshHelper.getRemoteSha256Checksums(copiedFiles.map(fileToCopy => targetPaths[fileToCopy]));
+                    for (const copiedFile of copiedFiles) {
+                        const targetPath: string = targetPaths[copiedFile];
+                        if (copiedChecksums[targetPath] !== await getSha256Checksum(copiedFile)) {
+                            tl.error(tl.loc('ChecksumMismatch', targetPath, copiedFile));
+                            failureCount++;
                         }
                     }
-                    // looks like scp can only handle one file at a time reliably
-                    await sshHelper.uploadFile(fileToCopy, targetPath);
-                } catch (err) {
-                    tl.error(tl.loc('FailedOnFile', fileToCopy, err));
-                    failureCount++;
                 }
-            }
-            console.log(tl.loc('CopyCompleted', filesToCopy.length));
-            if (failureCount) {
-                tl.setResult(tl.TaskResult.Failed, tl.loc('NumberFailed', failureCount));
+                if (failureCount) {
+                    tl.setResult(tl.TaskResult.Failed, tl.loc('NumberFailed', failureCount));
+                } else if (isAtomicRelease) {
+                    await switchCurrentRelease(sshHelper, targetFolder, releaseName);
+                    isReleaseSwitched = true;
+                    await removeOldReleases(sshHelper, targetFolder, releasesToKeep);
+                }
+            } finally {
+                if (isAtomicRelease && !isReleaseSwitched) {
+                    // the current release stays live, remove the incomplete one
+                    try {
+                        await removeRelease(sshHelper, targetFolder, releaseName);
+                    } catch (err) {
+                        tl.warning(tl.loc('RemoveReleaseFailed', releaseName, err));
+                    }
+                }
             }
         } else if (failOnEmptySource) {
             throw tl.loc('NothingToCopy');
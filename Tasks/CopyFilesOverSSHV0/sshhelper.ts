@@ -1,5 +1,8 @@
+import fs = require('fs');
+import path = require('path');
 import Q = require('q');
 import tl = require('azure-pipelines-task-lib/task');
+import { quoteShellArgument } from 'ssh-common/ssh-common';
 var Ssh2Client = require('ssh2').Client;
 var Scp2Client = require('scp2').Client;
 
@@ -7,11 +10,22 @@ export class RemoteCommandOptions {
     public failOnStdErr : boolean;
 }
 
+/**
+ * Reverts the escaping of a name in the output of sha256sum
+ * @param name
+ * @returns {string}
+ */
+function unescapeSha256sumName(name: string) : string {
+    return name.replace(/\\(.)/g, (escape, c) => c === 'n' ? '\n' : c === 'r' ? '\r' : c);
+}
+
 export class SshHelper {
     private sshConfig: any;
     private sshClient: any;
     private scpClient: any;
     private sftpClient: any;
+    private sftpChannels: any[] = [];
+    private remoteFolders: { [folder: string]: Q.Promise<void> } = {};
     
     /**
      * Constructor that takes a configuration object of format
@@ -67,10 +81,42 @@ export class SshHelper {
         }
     }
 
+    /**
+     * Opens SFTP channels over the SSH connection for concurrent uploads
+     * @param count number of channels to open
+     */
+    async setupSftpChannels(count: number) : Promise<void> {
+        if(!this.sshClient) {
+            throw tl.loc('ConnectionNotSetup');
+        }
+        while(this.sftpChannels.length < count) {
+            const defer = Q.defer<any>();
+            this.sshClient.sftp((err, sftp) => {
+                if(err) {
+                    defer.reject(tl.loc('ConnectionFailed', err));
+                } else {
+                    defer.resolve(sftp);
+                }
+            });
+            this.sftpChannels.push(await defer.promise);
+        }
+    }
+
     /**
      * Close any open client connections for SSH, SCP and SFTP
      */
     closeConnection() {
+        for (const sftpChannel of this.sftpChannels) {
+            try {
+                sftpChannel.on('error', (err) => {
+                    tl.debug('sftpChannel: Ignoring error diconnecting: ' + err);
+                });
+                sftpChannel.end();
+            } catch(err) {
+                tl.debug('Failed to close SFTP channel: ' + err);
+            }
+        }
+        this.sftpChannels = [];
         try {
             if (this.sftpClient) {
                 this.sftpClient.on('error', (err) => {
@@ -129,6 +175,157 @@ export class SshHelper {
         return defer.promise;
     }
 
+    /**
+     * Uploads a file to the remote server over one of the SFTP channels opened by setupSftpChannels
+     * @param sourceFile
+     * @param dest, folders will be created if they do not exist on remote server
+     * @param channel index of the SFTP channel to use
+     * @returns {Promise<string>}
+     */
+    uploadFileOverSftpChannel(sourceFile: string, dest: string, channel: number) : Q.Promise<string> {
+        tl.debug('Upload ' + sourceFile + ' to ' + dest + ' on remote machine over SFTP channel ' + channel + '.');
+        if(this.sftpChannels.length === 0) {
+            return Q.reject<string>(tl.loc('ConnectionNotSetup'));
+        }
+
+        const sftp = this.sftpChannels[channel % this.sftpChannels.length];
+        return this.createRemoteFolder(sftp, path.posix.dirname(dest)).then(() => {
+            var defer = Q.defer<string>();
+            const callback = (err) => {
+                if(err) {
+                    defer.reject(tl.loc('UploadFileFailed', sourceFile, dest, err));
+                } else {
+                    defer.resolve(dest);
+                }
+            };
+
+            if(this.sshConfig.useFastPut) {
+                sftp.fastPut(sourceFile, dest, callback);
+            } else {
+                const destStream = sftp.createWriteStream(dest);
+                destStream.on('error', callback).on('close', () => callback(null));
+                fs.createReadStream(sourceFile).on('error', callback).pipe(destStream);
+            }
+            return defer.promise;
+        });
+    }
+
+    /**
+     * Creates the folder and its parent folders on the remote machine if they do not exist.
+     * Each folder is created once, so concurrent uploads into the same folder do not race.
+     * @param sftp
+     * @param folder
+     * @returns {Promise<void>}
+     */
+    private createRemoteFolder(sftp: any, folder: string) : Q.Promise<void> {
+        if(!this.remoteFolders[folder]) {
+            const parentFolder: string = path.posix.dirname(folder);
+            const parentCreated: Q.Promise<void> = parentFolder === folder ? Q<void>(null) : this.createRemoteFolder(sftp, parentFolder);
+            this.remoteFolders[folder] = parentCreated.then(() => {
+                var defer = Q.defer<void>();
+                sftp.stat(folder, (err, attr) => {
+                    if(!err) {
+                        defer.resolve();
+                        return;
+                    }
+                    sftp.mkdir(folder, (err) => {
+                        if(err) {
+                            defer.reject(tl.loc('CreateRemoteFolderFailed', folder, err));
+                        } else {
+                            defer.resolve();
+                        }
+                    });
+                });
+                return defer.promise;
+            });
+        }
+        return this.remoteFolders[folder];
+    }
+
+    /**
+     * Returns the attributes (size, mtime, ...) of the path on remote machine, null if it does not exist
+     * @param path
+     * @returns {Promise<any>}
+     */
+    getRemotePathAttributes(path: string) : Q.Promise<any> {
+        var defer = Q.defer<any>();
+
+        if(!this.sftpClient) {
+            defer.reject(tl.loc('ConnectionNotSetup'));
+        }
+        this.sftpClient.stat(path, function(err, attr) {
+            if(err) {
+                //path does not exist
+                defer.resolve(null);
+            } else {
+                defer.resolve(attr);
+            }
+        })
+
+        return defer.promise;
+    }
+
+    /**
+     * Returns the SHA-256 checksums of the files on remote machine computed with sha256sum, keyed by path.
+     * Files that do not exist are left out.
+     * @param paths
+     * @returns {Promise<{ [path: string]: string }>}
+     */
+    async getRemoteSha256Checksums(paths: string[]) : Promise<{ [path: string]: string }> {
+        const checksums: { [path: string]: string } = {};
+        // keep the command line short
+        const batchSize: number = 50;
+        for (let i = 0; i < paths.length; i += batchSize) {
+            const quotedPaths: string[] = paths.slice(i, i + batchSize).map(quoteShellArgument);
+            const output: string = await this.getRemoteCommandOutput(`sha256sum -- ${quotedPaths.join(' ')} 2>/dev/null || true`);
+            for (const line of output.split('\n')) {
+                // sha256sum escapes backslashes and newlines in the name and then starts the line with a backslash
+                const match = /^(\\?)([0-9a-f]{64}) [ *](.+)$/.exec(line);
+                if (match) {
+                    const filePath: string = match[1] ? unescapeSha256sumName(match[3]) : match[3];
+                    checksums[filePath] = match[2];
+                }
+            }
+        }
+
+        return checksums;
+    }
+
+    /**
+     * Runs specified command on remote machine and returns what it writes to STDOUT, returns error for non-zero exit code
+     * @param command
+     * @returns {Promise<string>}
+     */
+    private getRemoteCommandOutput(command: string) : Q.Promise<string> {
+        var defer = Q.defer<string>();
+        var output: string = '';
+
+        if(!this.sshClient) {
+            defer.reject(tl.loc('ConnectionNotSetup'));
+        }
+        tl.debug('command = ' + command);
+
+        this.sshClient.exec(command, (err, stream) => {
+            if(err) {
+                defer.reject(tl.loc('RemoteCmdExecutionErr', command, err));
+                return;
+            }
+            stream.on('close', (code, signal) => {
+                tl.debug('code = ' + code + ', signal = ' + signal);
+                if(code && code != 0) {
+                    defer.reject(tl.loc('RemoteCmdNonZeroExitCode', command, code));
+                } else {
+                    defer.resolve(output);
+                }
+            }).on('data', (data) => {
+                output += data;
+            }).stderr.on('data', (data) => {
+                tl.debug('stderr = ' + data);
+            });
+        });
+        return defer.promise;
+    }
+
     /**
      * Returns true if the path exists on remote machine, false if it does not exist
      * @param path
@@ -153,6 +350,78 @@ export class SshHelper {
         return defer.promise;
     }
 
+    /**
+     * Returns the names of the entries in the directory on the remote machine
+     * @param path
+     * @returns {Promise<string[]>}
+     */
+    listRemoteDirectory(path: string) : Q.Promise<string[]> {
+        var defer = Q.defer<string[]>();
+
+        if(!this.sftpClient) {
+            defer.reject(tl.loc('ConnectionNotSetup'));
+        }
+        this.sftpClient.readdir(path, function(err, list) {
+            if(err) {
+                defer.reject(tl.loc('ListRemoteDirectoryFailed', path, err));
+            } else {
+                defer.resolve(list.map(entry => entry.filename));
+            }
+        })
+
+        return defer.promise;
+    }
+
+    /**
+     * Returns the target of the symbolic link on the remote machine, null if the link does not exist
+     * @param path
+     * @returns {Promise<string>}
+     */
+    readRemoteLink(path: string) : Q.Promise<string> {
+        var defer = Q.defer<string>();
+
+        if(!this.sftpClient) {
+            defer.reject(tl.loc('ConnectionNotSetup'));
+        }
+        this.sftpClient.readlink(path, function(err, target) {
+            if(err) {
+                //link does not exist
+                defer.resolve(null);
+            } else {
+                defer.resolve(target);
+            }
+        })
+
+        return defer.promise;
+    }
+
+    /**
+     * Points the symbolic link on the remote machine to the target, replacing an existing link atomically.
+     * The link is created under a temporary name and renamed over the existing one with the
+     * posix-rename@openssh.com SFTP extension, so unlike 'mv -T' it does not depend on the tools installed on the remote machine.
+     * @param linkPath
+     * @param target
+     * @returns {Promise<void>}
+     */
+    async replaceRemoteLink(linkPath: string, target: string) : Promise<void> {
+        if(!this.sshClient) {
+            throw tl.loc('ConnectionNotSetup');
+        }
+
+        const sftpDefer = Q.defer<any>();
+        this.sshClient.sftp((err, sftp) => err ? sftpDefer.reject(err) : sftpDefer.resolve(sftp));
+        const sftp = await sftpDefer.promise;
+        try {
+            const tempLinkPath: string = path.posix.join(path.posix.dirname(linkPath), `.${path.posix.basename(linkPath)}.tmp`);
+            // a link left over by an interrupted switch is replaced
+            await new Promise<void>((resolve) => sftp.unlink(tempLinkPath, () => resolve()));
+            await new Promise<void>((resolve, reject) => sftp.symlink(target, tempLinkPath, (err) => err ? reject(err) : resolve()));
+            await new Promise<void>((resolve, reject) => sftp.ext_openssh_rename(tempLinkPath, linkPath, (err) => err ? reject(err) : resolve()));
+        } finally {
+            sftp.end();
+        }
+    }
+
     /**
      * Runs specified command on remote machine, returns error for non-zero exit code
      * @param command
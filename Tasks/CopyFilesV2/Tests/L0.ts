@@ -1,7 +1,9 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
 import * as mocktest from 'azure-pipelines-task-lib/mock-test';
 import * as os from 'os';
 import * as path from 'path';
+import * as tl from 'azure-pipelines-task-lib/task';
 
 describe('CopyFiles L0 Suite', function () {
     before(() => { });
@@ -338,6 +340,124 @@ describe('CopyFiles L0 Suite', function () {
         done();
     });
 
+    it('copies only changed files in sync mode', (done: MochaDone) => {
+        this.timeout(1000);
+
+        let testPath = path.join(__dirname, 'L0syncCopiesChangedFiles.js');
+        let runner: mocktest.MockTestRunner = new mocktest.MockTestRunner(testPath);
+        runner.run();
+
+        assert(
+            runner.succeeded,
+            'should have succeeded');
+        assert(
+            !runner.stdOutContained(`copying ${path.normalize('/srcDir/someOtherDir/file1.file')} to ${path.normalize('/destDir/someOtherDir/file1.file')}`),
+            'should not have copied unchanged file1');
+        assert(
+            runner.stdOutContained(`loc_mock_SkippingUnchangedFile ${path.normalize('/srcDir/someOtherDir/file1.file')} ${path.normalize('/destDir/someOtherDir/file1.file')}`),
+            'should have skipped unchanged file1');
+        assert(
+            runner.stdOutContained(`copying ${path.normalize('/srcDir/someOtherDir/file2.file')} to ${path.normalize('/destDir/someOtherDir/file2.file')}`),
+            'should have copied changed file2');
+        assert(
+            runner.stdOutContained(`copying ${path.normalize('/srcDir/someOtherDir/file3.file')} to ${path.normalize('/destDir/someOtherDir/file3.file')}`),
+            'should have copied new file3');
+        assert(
+            runner.stdOutContained(`Calling fs.utimesSync on ${path.normalize('/destDir/someOtherDir/file2.file')}`),
+            'should have applied the source timestamp to file2');
+        assert(
+            runner.stdOutContained('loc_mock_SyncSummary 2 1 0'),
+            'should have logged the sync summary');
+        assert(
+            runner.stdOutContained(`loc_mock_ManifestWritten ${path.normalize('/manifestDir/manifest.json')}`),
+            'should have written the manifest');
+        done();
+    });
+
+    it('deletes files not in source when mirroring', (done: MochaDone) => {
+        this.timeout(1000);
+
+        let testPath = path.join(__dirname, 'L0syncMirrorDeletesExtraFiles.js');
+        let runner: mocktest.MockTestRunner = new mocktest.MockTestRunner(testPath);
+        runner.run();
+
+        assert(
+            runner.succeeded,
+            'should have succeeded');
+        assert(
+            runner.stdOutContained(`rmRF ${path.normalize('/destDir/someOtherDir/file2.file')}`),
+            'should have deleted file2');
+        assert(
+            !runner.stdOutContained(`rmRF ${path.normalize('/destDir/file1.file')}`),
+            'should not have deleted file1');
+        assert(
+            runner.stdOutContained(`rmRF ${path.normalize('/destDir/linkedDir')}`),
+            'should have deleted the symbolic link to a folder');
+        assert(
+            !runner.stdOutContained(`rmRF ${path.normalize('/destDir/manifest.json')}`),
+            'should not have deleted the manifest');
+        assert(
+            runner.stdOutContained(`loc_mock_ManifestWritten ${path.normalize('/destDir/manifest.json')}`),
+            'should have written the manifest to the resolved path');
+        assert(
+            runner.stdOutContained('loc_mock_SyncSummary 0 1 2'),
+            'should have logged the sync summary');
+        done();
+    });
+
+    it('retries copies failing with a transient error', (done: MochaDone) => {
+        this.timeout(1000);
+
+        let testPath = path.join(__dirname, 'L0retriesTransientErrors.js');
+        let runner: mocktest.MockTestRunner = new mocktest.MockTestRunner(testPath);
+        runner.run();
+
+        assert(
+            runner.succeeded,
+            'should have succeeded');
+        assert(
+            runner.stdOutContained(`loc_mock_RetryingCopy ${path.normalize('/srcDir/file1.file')}`),
+            'should have retried file1');
+        assert(
+            runner.stdOutContained(`copying ${path.normalize('/srcDir/file1.file')} to ${path.normalize('/destDir/file1.file')} with -f`),
+            'should have overwritten the partially copied file1');
+        assert(
+            runner.stdOutContained(`copying ${path.normalize('/srcDir/file2.file')} to ${path.normalize('/destDir/file2.file')}`),
+            'should have copied file2');
+        assert(
+            runner.stdOutContained('loc_mock_CopyProgress 2 2 2.00 KB 2.00 KB'),
+            'should have logged the copy progress');
+        done();
+    });
+
+    it('copies files in parallel', (done: MochaDone) => {
+        this.timeout(2000);
+
+        let testPath = path.join(__dirname, 'L0copiesInParallel.js');
+        let runner: mocktest.MockTestRunner = new mocktest.MockTestRunner(testPath);
+        runner.run();
+
+        let testDir = path.join(os.tmpdir(), 'CopyFilesL0copiesInParallel');
+        try {
+            assert(
+                runner.succeeded,
+                'should have succeeded');
+            ['file1.file', 'file2.file', 'file3.file'].forEach((file: string) => {
+                assert.equal(
+                    fs.readFileSync(path.join(testDir, 'destDir', file), 'utf8'),
+                    `content of ${file}`,
+                    `should have copied ${file}`);
+            });
+            assert(
+                runner.stdOutContained('loc_mock_CopyProgress 3 3'),
+                'should have logged the copy progress');
+        }
+        finally {
+            tl.rmRF(testDir);
+        }
+        done();
+    });
+
     if (process.platform == 'win32') {
         it('overwrites readonly', (done: MochaDone) => {
             this.timeout(1000);
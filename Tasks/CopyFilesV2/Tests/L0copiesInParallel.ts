@@ -0,0 +1,37 @@
+import fs = require('fs');
+import mockanswer = require('azure-pipelines-task-lib/mock-answer');
+import mockrun = require('azure-pipelines-task-lib/mock-run');
+import os = require('os');
+import path = require('path');
+
+// parallel copies stream the file content, so this test copies real files
+let testDir = path.join(os.tmpdir(), 'CopyFilesL0copiesInParallel');
+let srcDir = path.join(testDir, 'srcDir');
+let destDir = path.join(testDir, 'destDir');
+[testDir, srcDir, destDir].forEach((dir: string) => {
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir);
+    }
+});
+
+let files = ['file1.file', 'file2.file', 'file3.file'];
+files.forEach((file: string) => fs.writeFileSync(path.join(srcDir, file), `content of ${file}`));
+
+let taskPath = path.join(__dirname, '..', 'copyfiles.js');
+let runner: mockrun.TaskMockRunner = new mockrun.TaskMockRunner(taskPath);
+runner.setInput('Contents', '**');
+runner.setInput('SourceFolder', srcDir);
+runner.setInput('TargetFolder', destDir);
+runner.setInput('CleanTargetFolder', 'false');
+runner.setInput('Overwrite', 'true');
+runner.setInput('parallel', 'true');
+runner.setInput('parallelCount', '2');
+let answers = <mockanswer.TaskLibAnswers>{
+    checkPath: {},
+    find: {},
+};
+answers.checkPath[srcDir] = true;
+answers.find[srcDir] = [srcDir].concat(files.map((file: string) => path.join(srcDir, file)));
+runner.setAnswers(answers);
+
+runner.run();
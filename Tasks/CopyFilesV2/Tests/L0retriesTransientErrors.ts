@@ -0,0 +1,47 @@
+import mockanswer = require('azure-pipelines-task-lib/mock-answer');
+import mockrun = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+let taskPath = path.join(__dirname, '..', 'copyfiles.js');
+let runner: mockrun.TaskMockRunner = new mockrun.TaskMockRunner(taskPath);
+runner.setInput('Contents', '**');
+runner.setInput('SourceFolder', path.normalize('/srcDir'));
+runner.setInput('TargetFolder', path.normalize('/destDir'));
+runner.setInput('CleanTargetFolder', 'false');
+runner.setInput('Overwrite', 'false');
+runner.setInput('retryCount', '2');
+runner.setInput('retryDelayInMs', '0');
+let answers = <mockanswer.TaskLibAnswers>{
+    checkPath: {},
+    find: {},
+};
+answers.checkPath[path.normalize('/srcDir')] = true;
+answers.find[path.normalize('/srcDir')] = [
+    path.normalize('/srcDir'),
+    path.normalize('/srcDir/file1.file'),
+    path.normalize('/srcDir/file2.file'),
+];
+runner.setAnswers(answers);
+runner.registerMockExport('stats', (itemPath: string) => {
+    console.log('##vso[task.debug]stats ' + itemPath);
+    switch (itemPath) {
+        case path.normalize('/srcDir/file1.file'):
+        case path.normalize('/srcDir/file2.file'):
+            return { isDirectory: () => false, size: 1024 };
+        default:
+            throw { code: 'ENOENT' };
+    }
+});
+
+// the first copy of file1 fails because the file is locked
+let failedOnce = false;
+runner.registerMockExport('cp', (source: string, dest: string, options?: string) => {
+    if (source == path.normalize('/srcDir/file1.file') && !failedOnce) {
+        failedOnce = true;
+        throw new Error(`Failed cp: cp: copyFileSync: could not write to dest file (code=EBUSY): ${dest}`);
+    }
+
+    console.log(`##vso[task.debug]copying ${source} to ${dest}${options ? ' with ' + options : ''}`);
+});
+
+runner.run();
@@ -0,0 +1,54 @@
+import fs = require('fs');
+import mockanswer = require('azure-pipelines-task-lib/mock-answer');
+import mockrun = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+let taskPath = path.join(__dirname, '..', 'copyfiles.js');
+let runner: mockrun.TaskMockRunner = new mockrun.TaskMockRunner(taskPath);
+runner.setInput('Contents', '**');
+runner.setInput('SourceFolder', path.normalize('/srcDir'));
+runner.setInput('TargetFolder', path.normalize('/destDir'));
+runner.setInput('CleanTargetFolder', 'false');
+runner.setInput('Overwrite', 'false');
+runner.setInput('syncMode', 'true');
+runner.setInput('syncCompareMethod', 'timestamp');
+runner.setInput('manifestPath', path.normalize('/manifestDir/manifest.json'));
+let answers = <mockanswer.TaskLibAnswers>{
+    checkPath: {},
+    find: {},
+};
+answers.checkPath[path.normalize('/srcDir')] = true;
+answers.find[path.normalize('/srcDir')] = [
+    path.normalize('/srcDir'),
+    path.normalize('/srcDir/someOtherDir'),
+    path.normalize('/srcDir/someOtherDir/file1.file'),
+    path.normalize('/srcDir/someOtherDir/file2.file'),
+    path.normalize('/srcDir/someOtherDir/file3.file'),
+];
+runner.setAnswers(answers);
+let unchanged = new Date(2020, 0, 1);
+let changed = new Date(2020, 0, 2);
+runner.registerMockExport('stats', (itemPath: string) => {
+    console.log('##vso[task.debug]stats ' + itemPath);
+    switch (itemPath) {
+        case path.normalize('/srcDir/someOtherDir'):
+            return { isDirectory: () => true };
+        case path.normalize('/srcDir/someOtherDir/file1.file'):
+        case path.normalize('/destDir/someOtherDir/file1.file'):
+        case path.normalize('/srcDir/someOtherDir/file3.file'):
+            return { isDirectory: () => false, size: 10, mtime: unchanged, atime: unchanged };
+        case path.normalize('/srcDir/someOtherDir/file2.file'):
+            return { isDirectory: () => false, size: 20, mtime: changed, atime: changed };
+        case path.normalize('/destDir/someOtherDir/file2.file'):
+            return { isDirectory: () => false, size: 20, mtime: unchanged, atime: unchanged };
+        default:
+            throw { code: 'ENOENT' };
+    }
+});
+
+fs.utimesSync = function (targetPath, atime, mtime) {
+    console.log('Calling fs.utimesSync on', targetPath);
+}
+runner.registerMock('fs', fs);
+
+runner.run();
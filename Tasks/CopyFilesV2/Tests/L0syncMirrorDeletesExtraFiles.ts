@@ -0,0 +1,74 @@
+import fs = require('fs');
+import mockanswer = require('azure-pipelines-task-lib/mock-answer');
+import mockrun = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+let taskPath = path.join(__dirname, '..', 'copyfiles.js');
+let runner: mockrun.TaskMockRunner = new mockrun.TaskMockRunner(taskPath);
+runner.setInput('Contents', '**');
+runner.setInput('SourceFolder', path.normalize('/srcDir'));
+runner.setInput('TargetFolder', path.normalize('/destDir'));
+runner.setInput('CleanTargetFolder', 'false');
+runner.setInput('Overwrite', 'false');
+runner.setInput('syncMode', 'true');
+runner.setInput('mirror', 'true');
+runner.setInput('manifestPath', path.relative(process.cwd(), path.normalize('/destDir/manifest.json')));
+let answers = <mockanswer.TaskLibAnswers>{
+    checkPath: {},
+    find: {},
+    rmRF: {},
+};
+answers.checkPath[path.normalize('/srcDir')] = true;
+answers.find[path.normalize('/srcDir')] = [
+    path.normalize('/srcDir'),
+    path.normalize('/srcDir/file1.file'),
+];
+answers.find[path.normalize('/destDir')] = [
+    path.normalize('/destDir'),
+    path.normalize('/destDir/file1.file'),
+    path.normalize('/destDir/linkedDir'),
+    path.normalize('/destDir/manifest.json'),
+    path.normalize('/destDir/someOtherDir'),
+    path.normalize('/destDir/someOtherDir/file2.file'),
+];
+answers.rmRF[path.normalize('/destDir/linkedDir')] = { success: true };
+answers.rmRF[path.normalize('/destDir/someOtherDir/file2.file')] = { success: true };
+runner.setAnswers(answers);
+let timestamp = new Date(2020, 0, 1);
+runner.registerMockExport('stats', (itemPath: string) => {
+    console.log('##vso[task.debug]stats ' + itemPath);
+    switch (itemPath) {
+        case path.normalize('/destDir'):
+        case path.normalize('/destDir/linkedDir'):
+        case path.normalize('/destDir/someOtherDir'):
+            return { isDirectory: () => true };
+        case path.normalize('/srcDir/file1.file'):
+        case path.normalize('/destDir/file1.file'):
+        case path.normalize('/destDir/manifest.json'):
+        case path.normalize('/destDir/someOtherDir/file2.file'):
+            return { isDirectory: () => false, size: 10, mtime: timestamp, atime: timestamp };
+        default:
+            throw { code: 'ENOENT' };
+    }
+});
+
+// linkedDir is a symbolic link to a folder outside of the target folder
+(fs as any).lstatSync = (itemPath: string) => {
+    console.log('##vso[task.debug]lstat ' + itemPath);
+    switch (itemPath) {
+        case path.normalize('/destDir'):
+        case path.normalize('/destDir/someOtherDir'):
+            return { isDirectory: () => true, isSymbolicLink: () => false };
+        case path.normalize('/destDir/linkedDir'):
+            return { isDirectory: () => false, isSymbolicLink: () => true };
+        default:
+            return { isDirectory: () => false, isSymbolicLink: () => false };
+    }
+};
+
+fs.utimesSync = function (targetPath, atime, mtime) {
+    console.log('Calling fs.utimesSync on', targetPath);
+}
+runner.registerMock('fs', fs);
+
+runner.run();
@@ -1,4 +1,6 @@
+import crypto = require('crypto');
 import fs = require('fs');
+import os = require('os');
 import path = require('path');
 import tl = require('azure-pipelines-task-lib/task');
 
@@ -12,14 +14,62 @@ let cleanTargetFolder: boolean = tl.getBoolInput('CleanTargetFolder', false);
 let overWrite: boolean = tl.getBoolInput('OverWrite', false);
 let flattenFolders: boolean = tl.getBoolInput('flattenFolders', false);
 const preserveTimestamp: boolean = tl.getBoolInput('preserveTimestamp', false);
+const syncMode: boolean = tl.getBoolInput('syncMode', false);
+const syncCompareMethod: string = tl.getInput('syncCompareMethod', false) || 'timestamp';
+const mirror: boolean = syncMode && tl.getBoolInput('mirror', false);
+let manifestPath: string = tl.getInput('manifestPath', false);
+const parallelCount: number = tl.getBoolInput('parallel', false) ? getIntegerInput('parallelCount', 8, 1, 128) : 1;
+const retryCount: number = getIntegerInput('retryCount', 3, 0, 10);
+const retryDelay: number = getIntegerInput('retryDelayInMs', 1000, 0, 60000);
+
+// errors which are typically caused by another process (e.g. an anti-virus scanner) holding
+// the file, or by a temporarily unavailable network share. a copy failing with one of these is retried.
+const transientErrorCodes: string[] = ['EBUSY', 'EPERM', 'EAGAIN', 'EMFILE', 'ENFILE', 'ETIMEDOUT', 'ECONNRESET'];
+
+// interval at which the copy progress is logged
+const progressInterval: number = 10000;
+
+// modification times are compared with a tolerance, since some file systems (e.g. FAT)
+// only store timestamps with a two second resolution.
+const timestampTolerance: number = 2000;
+
+interface SyncManifest {
+    sourceFolder: string;
+    targetFolder: string;
+    compareMethod: string;
+    mirror: boolean;
+    copied: string[];
+    skipped: string[];
+    deleted: string[];
+    summary: { copied: number, skipped: number, deleted: number };
+}
+
+interface CopyOperation {
+    source: string;
+    target: string;
+    targetStats: tl.FsStats;
+    overwrite: boolean;
+    size: number;
+}
 
 // normalize the source folder path. this is important for later in order to accurately
 // determine the relative path of each found file (substring using sourceFolder.length).
 sourceFolder = path.normalize(sourceFolder);
+
+// resolve a relative manifest path against the working directory, so that it can be compared with the target files
+if (manifestPath) {
+    manifestPath = path.resolve(manifestPath);
+}
+
 let allPaths: string[] = tl.find(sourceFolder); // default find options (follow sym links)
 let sourceFolderPattern = sourceFolder.replace('[','[[]'); // directories can have [] in them, and they have special meanings as a pattern, so escape them
 let matchedPaths: string[] = tl.match(allPaths, contents, sourceFolderPattern); // default match options
-let matchedFiles: string[] = matchedPaths.filter((itemPath: string) => !tl.stats(itemPath).isDirectory()); // filter-out directories
+let matchedFileSizes: { [file: string]: number } = {};
+let matchedFiles: string[] = matchedPaths.filter((itemPath: string) => {
+    let itemStats: tl.FsStats = tl.stats(itemPath);
+    matchedFileSizes[itemPath] = itemStats.size || 0;
+    return !itemStats.isDirectory(); // filter-out directories
+});
 
 // copy the files to the target folder
 console.log(tl.loc('FoundNFiles', matchedFiles.length));
@@ -59,8 +109,24 @@ if (matchedFiles.length > 0) {
     // make sure the target folder exists
     tl.mkdirP(targetFolder);
 
+    copyMatchedFiles();
+}
+
+async function copyMatchedFiles(): Promise<void> {
     try {
         let createdFolders: { [folder: string]: boolean } = {};
+        let syncedTargets: { [targetPath: string]: boolean } = {};
+        let manifest: SyncManifest = {
+            sourceFolder: sourceFolder,
+            targetFolder: targetFolder,
+            compareMethod: syncCompareMethod,
+            mirror: mirror,
+            copied: [],
+            skipped: [],
+            deleted: [],
+            summary: null
+        };
+        let operations: CopyOperation[] = [];
         matchedFiles.forEach((file: string) => {
             let relativePath;
             if (flattenFolders) {
@@ -101,64 +167,283 @@ if (matchedFiles.length > 0) {
                 throw new Error(tl.loc('TargetIsDir', file, targetPath));
             }
 
-            if (!overWrite) {
-                if (targetStats) { // exists, skip
-                    console.log(tl.loc('FileAlreadyExistAt', file, targetPath));
-                }
-                else { // copy
-                    console.log(tl.loc('CopyingTo', file, targetPath));
-                    tl.cp(file, targetPath);
-                    if (preserveTimestamp) {
-                        try {
-                            const fileStats = tl.stats(file);
-                            fs.utimes(targetPath, fileStats.atime, fileStats.mtime, (err) => {
-                                console.warn(`Problem applying the timestamp: ${err}`);
-                            });
-                        }
-                        catch (err) {
-                            console.warn(`Problem preserving the timestamp: ${err}`)
-                        }
-                    }
+            if (syncMode) {
+                syncedTargets[getTargetKey(targetPath)] = true;
+                if (targetStats && isFileUnchanged(file, targetPath, targetStats)) {
+                    console.log(tl.loc('SkippingUnchangedFile', file, targetPath));
+                    manifest.skipped.push(targetPath);
+                    return;
                 }
             }
-            else {
-                console.log(tl.loc('CopyingTo', file, targetPath));
-                if (process.platform == 'win32' && targetStats && (targetStats.mode & 146) != 146) {
-                    // The readonly attribute can be interpreted by performing a bitwise-AND operation on
-                    // "fs.Stats.mode" and the integer 146. The integer 146 represents "-w--w--w-" or (128 + 16 + 2),
-                    // see following chart:
-                    //     R   W  X  R  W X R W X
-                    //   256 128 64 32 16 8 4 2 1
-                    //
-                    // "fs.Stats.mode" on Windows is based on whether the readonly attribute is set.
-                    // If the readonly attribute is set, then the mode is set to "r--r--r--".
-                    // If the readonly attribute is not set, then the mode is set to "rw-rw-rw-".
-                    //
-                    // Note, additional bits may also be set (e.g. if directory). Therefore, a bitwise
-                    // comparison is appropriate.
-                    //
-                    // For additional information, refer to the fs source code and ctrl+f "st_mode":
-                    //   https://github.com/nodejs/node/blob/v5.x/deps/uv/src/win/fs.c#L1064
-                    tl.debug(`removing readonly attribute on '${targetPath}'`);
-                    fs.chmodSync(targetPath, targetStats.mode | 146);
-                }
 
-                tl.cp(file, targetPath, "-f");
-                if (preserveTimestamp) {
-                    try {
-                        const fileStats: tl.FsStats = tl.stats(file);
-                        fs.utimes(targetPath, fileStats.atime, fileStats.mtime, (err) => {
-                            console.warn(`Problem applying the timestamp: ${err}`);
-                        });
-                    }
-                    catch (err) {
-                        console.warn(`Problem preserving the timestamp: ${err}`)
-                    }
-                }
+            if (!overWrite && !syncMode && targetStats) { // exists, skip
+                console.log(tl.loc('FileAlreadyExistAt', file, targetPath));
+                return;
             }
+
+            operations.push({
+                source: file,
+                target: targetPath,
+                targetStats: targetStats,
+                overwrite: overWrite || syncMode,
+                size: matchedFileSizes[file]
+            });
         });
+
+        await runCopyOperations(operations, manifest);
+
+        if (syncMode) {
+            if (mirror) {
+                deleteExtraTargetFiles(syncedTargets, manifest);
+            }
+
+            writeSyncManifest(manifest);
+        }
     }
     catch (err) {
         tl.setResult(tl.TaskResult.Failed, err);
     }
+}
+
+async function runCopyOperations(operations: CopyOperation[], manifest: SyncManifest): Promise<void> {
+    let progress = {
+        totalFiles: operations.length,
+        totalBytes: operations.reduce((total: number, operation: CopyOperation) => total + operation.size, 0),
+        copiedFiles: 0,
+        copiedBytes: 0,
+        lastReportTime: Date.now()
+    };
+    let nextOperation = 0;
+    let failed = false;
+
+    // each worker picks the next pending operation until all files are copied or a copy failed
+    let copyNext = async (): Promise<void> => {
+        while (!failed && nextOperation < operations.length) {
+            let operation = operations[nextOperation++];
+            try {
+                await copyFileWithRetry(operation);
+            }
+            catch (err) {
+                failed = true;
+                throw err;
+            }
+
+            if (syncMode) {
+                manifest.copied.push(operation.target);
+            }
+
+            progress.copiedFiles++;
+            progress.copiedBytes += operation.size;
+            if (progress.copiedFiles == progress.totalFiles || Date.now() - progress.lastReportTime >= progressInterval) {
+                console.log(tl.loc('CopyProgress', progress.copiedFiles, progress.totalFiles, formatBytes(progress.copiedBytes), formatBytes(progress.totalBytes)));
+                progress.lastReportTime = Date.now();
+            }
+        }
+    };
+
+    let workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(parallelCount, operations.length); i++) {
+        workers.push(copyNext());
+    }
+
+    await Promise.all(workers);
+}
+
+async function copyFileWithRetry(operation: CopyOperation): Promise<void> {
+    console.log(tl.loc('CopyingTo', operation.source, operation.target));
+    for (let attempt = 1; ; attempt++) {
+        try {
+            // a failed attempt may have left a partially written target behind, so retries always overwrite
+            await copyFile(operation, operation.overwrite || attempt > 1);
+            return;
+        }
+        catch (err) {
+            if (attempt > retryCount || !isTransientError(err)) {
+                throw err;
+            }
+
+            let delay = retryDelay * Math.pow(2, attempt - 1);
+            tl.warning(tl.loc('RetryingCopy', operation.source, err.message || err, delay, attempt, retryCount));
+            await sleep(delay);
+        }
+    }
+}
+
+async function copyFile(operation: CopyOperation, force: boolean): Promise<void> {
+    let file = operation.source;
+    let targetPath = operation.target;
+    let targetStats = operation.targetStats;
+    if (operation.overwrite && process.platform == 'win32' && targetStats && (targetStats.mode & 146) != 146) {
+        // The readonly attribute can be interpreted by performing a bitwise-AND operation on
+        // "fs.Stats.mode" and the integer 146. The integer 146 represents "-w--w--w-" or (128 + 16 + 2),
+        // see following chart:
+        //     R   W  X  R  W X R W X
+        //   256 128 64 32 16 8 4 2 1
+        //
+        // "fs.Stats.mode" on Windows is based on whether the readonly attribute is set.
+        // If the readonly attribute is set, then the mode is set to "r--r--r--".
+        // If the readonly attribute is not set, then the mode is set to "rw-rw-rw-".
+        //
+        // Note, additional bits may also be set (e.g. if directory). Therefore, a bitwise
+        // comparison is appropriate.
+        //
+        // For additional information, refer to the fs source code and ctrl+f "st_mode":
+        //   https://github.com/nodejs/node/blob/v5.x/deps/uv/src/win/fs.c#L1064
+        tl.debug(`removing readonly attribute on '${targetPath}'`);
+        fs.chmodSync(targetPath, targetStats.mode | 146);
+    }
+
+    if (parallelCount > 1) {
+        // tl.cp is synchronous, so parallel copies stream the file content instead
+        await streamFile(file, targetPath);
+    }
+    else if (force) {
+        tl.cp(file, targetPath, "-f");
+    }
+    else {
+        tl.cp(file, targetPath);
+    }
+
+    if (syncMode) {
+        // the target gets the source timestamp, so the next sync can detect the file as unchanged
+        const fileStats: tl.FsStats = tl.stats(file);
+        fs.utimesSync(targetPath, fileStats.atime, fileStats.mtime);
+    }
+    else if (preserveTimestamp) {
+        try {
+            const fileStats: tl.FsStats = tl.stats(file);
+            fs.utimes(targetPath, fileStats.atime, fileStats.mtime, (err) => {
+                console.warn(`Problem applying the timestamp: ${err}`);
+            });
+        }
+        catch (err) {
+            console.warn(`Problem preserving the timestamp: ${err}`)
+        }
+    }
+}
+
+function streamFile(source: string, target: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        let reader = fs.createReadStream(source);
+        let writer = fs.createWriteStream(target, { mode: fs.statSync(source).mode });
+        reader.on('error', (err) => {
+            writer.end();
+            reject(err);
+        });
+        writer.on('error', reject);
+        writer.on('close', () => resolve());
+        reader.pipe(writer);
+    });
+}
+
+function isTransientError(err: any): boolean {
+    if (err && err.code) {
+        return transientErrorCodes.indexOf(err.code) != -1;
+    }
+
+    // tl.cp reports failures as plain errors, with the error code only in the message
+    let codes: string[] = (err && err.message && err.message.match(/\bE[A-Z]+\b/g)) || [];
+    return codes.some((code: string) => transientErrorCodes.indexOf(code) != -1);
+}
+
+function sleep(milliseconds: number): Promise<void> {
+    return new Promise<void>((resolve) => setTimeout(resolve, milliseconds));
+}
+
+function formatBytes(bytes: number): string {
+    let units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit++;
+    }
+
+    return `${unit == 0 ? bytes : bytes.toFixed(2)} ${units[unit]}`;
+}
+
+function getIntegerInput(name: string, defaultValue: number, minValue: number, maxValue: number): number {
+    let inputValue: string = tl.getInput(name, false);
+    if (!inputValue) {
+        return defaultValue;
+    }
+
+    let parsedValue = Number(inputValue);
+    if (isNaN(parsedValue) || Math.floor(parsedValue) != parsedValue) {
+        tl.warning(tl.loc('UnexpectedInputValue', inputValue, name, defaultValue));
+        return defaultValue;
+    }
+
+    if (parsedValue < minValue || parsedValue > maxValue) {
+        let clampedValue = Math.min(Math.max(parsedValue, minValue), maxValue);
+        tl.warning(tl.loc('UnexpectedInputValue', inputValue, name, clampedValue));
+        return clampedValue;
+    }
+
+    return parsedValue;
+}
+
+function getTargetKey(targetPath: string): string {
+    let key = path.normalize(targetPath);
+    return process.platform == 'win32' ? key.toLowerCase() : key;
+}
+
+function isFileUnchanged(sourcePath: string, targetPath: string, targetStats: tl.FsStats): boolean {
+    const sourceStats: tl.FsStats = tl.stats(sourcePath);
+    if (sourceStats.size != targetStats.size) {
+        return false;
+    }
+
+    if (syncCompareMethod == 'hash') {
+        return computeFileHash(sourcePath) == computeFileHash(targetPath);
+    }
+
+    return Math.abs(sourceStats.mtime.getTime() - targetStats.mtime.getTime()) < timestampTolerance;
+}
+
+function computeFileHash(filePath: string): string {
+    const hash = crypto.createHash('sha256');
+    const buffer = Buffer.alloc(64 * 1024);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        let bytesRead: number;
+        while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+            hash.update(buffer.slice(0, bytesRead));
+        }
+    }
+    finally {
+        fs.closeSync(fd);
+    }
+
+    return hash.digest('hex');
+}
+
+function deleteExtraTargetFiles(syncedTargets: { [targetPath: string]: boolean }, manifest: SyncManifest): void {
+    // symbolic links are not followed, so that files outside the target folder are never deleted.
+    // a symbolic link to a folder is itself deleted when it is not in the source.
+    let targetPaths: string[] = tl.find(targetFolder, { followSymbolicLinks: false, followSpecifiedSymbolicLink: true, allowBrokenSymbolicLinks: true });
+    let manifestKey = manifestPath ? getTargetKey(manifestPath) : null;
+    targetPaths
+        .filter((itemPath: string) => !fs.lstatSync(itemPath).isDirectory())
+        .forEach((itemPath: string) => {
+            let key = getTargetKey(itemPath);
+            if (!syncedTargets[key] && key != manifestKey) {
+                console.log(tl.loc('DeletingFileNotInSource', itemPath));
+                tl.rmRF(itemPath);
+                manifest.deleted.push(itemPath);
+            }
+        });
+}
+
+function writeSyncManifest(manifest: SyncManifest): void {
+    manifest.summary = {
+        copied: manifest.copied.length,
+        skipped: manifest.skipped.length,
+        deleted: manifest.deleted.length
+    };
+    console.log(tl.loc('SyncSummary', manifest.summary.copied, manifest.summary.skipped, manifest.summary.deleted));
+
+    let manifestFile = manifestPath || path.join(tl.getVariable('Agent.TempDirectory') || os.tmpdir(), `CopyFilesManifest_${Date.now()}.json`);
+    tl.mkdirP(path.dirname(manifestFile));
+    tl.writeFile(manifestFile, JSON.stringify(manifest, null, 2));
+    console.log(tl.loc('ManifestWritten', manifestFile));
 }
\ No newline at end of file
@@ -1,16 +1,92 @@
-import fs = require('fs');
 import assert = require('assert');
 import path = require('path');
+import * as ttm from 'azure-pipelines-task-lib/mock-test';
 
 describe('DecryptFileV1 Suite', function () {
-    before(() => {
+    this.timeout(parseInt(process.env.TASK_TEST_TIMEOUT || '') || 20000);
+
+    const filesFolder: string = path.join(__dirname, 'Files');
+
+    beforeEach(() => {
+        delete process.env['__mode__'];
+        delete process.env['__pbkdf2__'];
+        delete process.env['__inFile__'];
+        delete process.env['__outFile__'];
+        delete process.env['__failWebConfig__'];
+    });
+
+    function runTask(): ttm.MockTestRunner {
+        const tp: string = path.join(__dirname, 'L0DecryptFile.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+        return tr;
+    }
+
+    it('Decrypts all files matching the pattern', (done: MochaDone) => {
+        process.env['__inFile__'] = '*.config.enc';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.invokedToolCount === 2, 'should have run openssl for each file');
+        assert(tr.ran(`/usr/bin/openssl des3 -d -in ${path.join(filesFolder, 'app.config.enc')} -out ${path.join(filesFolder, 'app.config.enc')}.out -pass env:DECRYPTFILE_PASSPHRASE`), 'should have decrypted app.config.enc');
+        assert(tr.ran(`/usr/bin/openssl des3 -d -in ${path.join(filesFolder, 'web.config.enc')} -out ${path.join(filesFolder, 'web.config.enc')}.out -pass env:DECRYPTFILE_PASSPHRASE`), 'should have decrypted web.config.enc');
+        const commandLines: string[] = tr.stdout.split('\n').filter(line => line.indexOf('[command]') === 0);
+        assert(commandLines.every(line => line.indexOf('very secret') === -1), 'should not have passed the passphrase on the command line');
+        done();
+    });
+
+    it('Uses an existing file name containing pattern characters as is', (done: MochaDone) => {
+        process.env['__inFile__'] = 'secrets[prod].json.enc';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.invokedToolCount === 1, 'should have run openssl once');
+        assert(tr.ran(`/usr/bin/openssl des3 -d -in ${path.join(filesFolder, 'secrets[prod].json.enc')} -out ${path.join(filesFolder, 'secrets[prod].json.enc')}.out -pass env:DECRYPTFILE_PASSPHRASE`), 'should have decrypted the file');
+        done();
     });
 
-    after(() => {
+    it('Encrypts with PBKDF2', (done: MochaDone) => {
+        process.env['__mode__'] = 'encrypt';
+        process.env['__pbkdf2__'] = 'true';
+        process.env['__inFile__'] = 'app.config.enc';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.ran(`/usr/bin/openssl des3 -e -in ${path.join(filesFolder, 'app.config.enc')} -out ${path.join(filesFolder, 'app.config.enc')}.enc -pass env:DECRYPTFILE_PASSPHRASE -pbkdf2 -iter 10000`), 'should have encrypted with PBKDF2');
+        done();
+    });
+
+    it('Reports every file that fails to decrypt', (done: MochaDone) => {
+        process.env['__inFile__'] = '*.config.enc';
+        process.env['__failWebConfig__'] = 'true';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.invokedToolCount === 2, 'should have decrypted the remaining files');
+        assert(tr.stdout.indexOf('loc_mock_DecryptFileFailed ' + path.join(filesFolder, 'web.config.enc')) !== -1, 'should have reported the failed file');
+        assert(tr.stdout.indexOf('loc_mock_DecryptFileFailed ' + path.join(filesFolder, 'app.config.enc')) === -1, 'should not have reported the decrypted file');
+        assert(tr.stdout.indexOf('loc_mock_FilesFailed 1 2') !== -1, 'should have reported the number of failed files');
+        done();
     });
 
-    it('Does a basic hello world test', function(done: MochaDone) {
-        // TODO - add real tests
+    it('Fails when no files match', (done: MochaDone) => {
+        process.env['__inFile__'] = '*.nomatch';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.invokedToolCount === 0, 'should not have run openssl');
+        assert(tr.stdout.indexOf('loc_mock_NoMatchingFiles *.nomatch') !== -1, 'should have reported that no files match');
+        done();
+    });
+
+    it('Fails when an output file is set for multiple files', (done: MochaDone) => {
+        process.env['__inFile__'] = '*.config.enc';
+        process.env['__outFile__'] = path.join(filesFolder, 'out.config');
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.invokedToolCount === 0, 'should not have run openssl');
+        assert(tr.stdout.indexOf('loc_mock_OutFileForMultipleFiles') !== -1, 'should have reported the output file');
         done();
     });
 });
@@ -0,0 +1,55 @@
+import ma = require('azure-pipelines-task-lib/mock-answer');
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+const taskPath = path.join(__dirname, '..', 'decrypt.js');
+const tr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+const filesFolder: string = path.join(__dirname, 'Files');
+
+tr.setInput('cwd', filesFolder);
+tr.setInput('mode', process.env['__mode__'] || 'decrypt');
+tr.setInput('cipher', 'des3');
+tr.setInput('passphrase', 'very secret');
+tr.setInput('pbkdf2', process.env['__pbkdf2__'] || 'false');
+tr.setInput('inFile', process.env['__inFile__']);
+if (process.env['__outFile__']) {
+    tr.setInput('outFile', process.env['__outFile__']);
+}
+
+const appConfig: string = path.join(filesFolder, 'app.config.enc');
+const webConfig: string = path.join(filesFolder, 'web.config.enc');
+const secrets: string = path.join(filesFolder, 'secrets[prod].json.enc');
+const passArgs: string = '-pass env:DECRYPTFILE_PASSPHRASE';
+
+const a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
+    which: {
+        'openssl': '/usr/bin/openssl'
+    },
+    checkPath: {
+        '/usr/bin/openssl': true,
+        [path.join(filesFolder, 'out.config')]: true
+    },
+    findMatch: {
+        '*.config.enc': [appConfig, webConfig],
+        '*.json.enc': [secrets],
+        '*.nomatch': []
+    },
+    exec: {
+        [`/usr/bin/openssl des3 -d -in ${appConfig} -out ${appConfig}.out ${passArgs}`]: {
+            code: 0
+        },
+        [`/usr/bin/openssl des3 -d -in ${webConfig} -out ${webConfig}.out ${passArgs}`]: {
+            code: process.env['__failWebConfig__'] ? 1 : 0,
+            stderr: process.env['__failWebConfig__'] ? 'bad decrypt' : ''
+        },
+        [`/usr/bin/openssl des3 -d -in ${secrets} -out ${secrets}.out ${passArgs}`]: {
+            code: 0
+        },
+        [`/usr/bin/openssl des3 -e -in ${appConfig} -out ${appConfig}.enc ${passArgs} -pbkdf2 -iter 10000`]: {
+            code: 0
+        }
+    }
+};
+tr.setAnswers(a);
+
+tr.run();
@@ -3,6 +3,9 @@ import path = require('path');
 import tl = require('azure-pipelines-task-lib/task');
 import trm = require('azure-pipelines-task-lib/toolrunner');
 
+// openssl reads the passphrase from this environment variable (-pass env:...), so it does not show in the process list
+const PASSPHRASE_ENV_VAR = 'DECRYPTFILE_PASSPHRASE';
+
 async function run() {
     try {
         tl.setResourcePath(path.join(__dirname, "task.json"));
@@ -11,23 +14,55 @@ async function run() {
         var cwd = tl.getInput('cwd') || tl.getVariable('System.DefaultWorkingDirectory');
         tl.cd(cwd);
 
-        var openssl: trm.ToolRunner = tl.tool(tl.which('openssl', true));
-        openssl.arg(tl.getInput('cipher', true));
+        var encrypt: boolean = tl.getInput('mode', false) === 'encrypt';
+        var cipher: string = tl.getInput('cipher', true);
+        var passphrase: string = tl.getInput('passphrase');
+        if (passphrase) {
+            tl.setSecret(passphrase);
+        }
+        var usePbkdf2: boolean = tl.getBoolInput('pbkdf2', false);
+        var iterations: number = usePbkdf2 ? getIterations() : undefined;
 
         var inFile = tl.getInput('inFile', true);
-        openssl.arg(['-d', '-in', inFile]);
-        openssl.arg('-out');
+        var inFiles: string[] = findInFiles(cwd, inFile);
+        if (inFiles.length === 0) {
+            throw new Error(tl.loc('NoMatchingFiles', inFile));
+        }
 
         var outFile = tl.getPathInput('outFile', false);
-        if(fs.existsSync(outFile) && fs.lstatSync(outFile).isDirectory()) {
-            openssl.arg(inFile + '.out');
-        } else {
-            openssl.arg(outFile);   
+        var outFileIsDefault: boolean = !outFile || (fs.existsSync(outFile) && fs.lstatSync(outFile).isDirectory());
+        if (!outFileIsDefault && inFiles.length > 1) {
+            throw new Error(tl.loc('OutFileForMultipleFiles', outFile, inFile));
         }
 
-        openssl.arg(['-pass','pass:' + tl.getInput('passphrase')]);
+        var env = Object.assign({}, process.env);
+        env[PASSPHRASE_ENV_VAR] = passphrase;
+
+        var code: number;
+        var failedCount: number = 0;
+        for (var file of inFiles) {
+            var out: string = outFileIsDefault ? file + (encrypt ? '.enc' : '.out') : outFile;
+            console.log(tl.loc(encrypt ? 'EncryptingFile' : 'DecryptingFile', file, out));
 
-        var code: number = await openssl.exec();
+            var openssl: trm.ToolRunner = tl.tool(tl.which('openssl', true));
+            openssl.arg(cipher);
+            openssl.arg([encrypt ? '-e' : '-d', '-in', file, '-out', out]);
+            openssl.arg(['-pass', 'env:' + PASSPHRASE_ENV_VAR]);
+            if (usePbkdf2) {
+                openssl.arg(['-pbkdf2', '-iter', iterations.toString()]);
+            }
+
+            try {
+                code = await openssl.exec(<trm.IExecOptions>{ env: env });
+            } catch (err) {
+                // process the remaining files, so that all failures are reported at once
+                tl.error(tl.loc(encrypt ? 'EncryptFileFailed' : 'DecryptFileFailed', file, err.message));
+                failedCount++;
+            }
+        }
+        if (failedCount > 0) {
+            throw new Error(tl.loc('FilesFailed', failedCount, inFiles.length));
+        }
         tl.setResult(tl.TaskResult.Succeeded, tl.loc('OpenSSLReturnCode', code));
     }
     catch(err) {
@@ -36,4 +71,29 @@ async function run() {
     }
 }
 
+/**
+ * Finds the files to process. A file that exists is used as is, so that its name does not need escaping if it contains characters like [ that have a meaning in patterns.
+ */
+function findInFiles(cwd: string, inFile: string): string[] {
+    var literalFile: string = path.resolve(cwd, inFile);
+    if (fs.existsSync(literalFile) && fs.statSync(literalFile).isFile()) {
+        return [literalFile];
+    }
+
+    return tl.findMatch(cwd, inFile).filter(file => fs.statSync(file).isFile());
+}
+
+/**
+ * Gets the number of PBKDF2 iterations, which has to be the same for encryption and decryption.
+ */
+function getIterations(): number {
+    var iterationsString: string = tl.getInput('iterations', false) || '10000';
+    var iterations: number = parseInt(iterationsString, 10);
+    if (isNaN(iterations) || iterations < 1) {
+        throw new Error(tl.loc('InvalidIterations', iterationsString));
+    }
+
+    return iterations;
+}
+
 run();
@@ -170,4 +170,107 @@ describe('DeleteFiles Suite', function () {
             }, tr, done);
         }
     });
+    it('Only logs the matches in preview mode', (done: MochaDone) => {
+        this.timeout(5000);
+
+        const root = path.join(testRoot, 'preview');
+        fs.mkdirSync(root);
+
+        fs.mkdirSync(path.join(root, 'A'));
+        fs.writeFileSync(path.join(root, 'A', 'test.txt'), 'test');
+        fs.writeFileSync(path.join(root, 'A2.txt'), 'test2');
+
+        let tp: string = path.join(__dirname, 'L0Preview.js');
+        let tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+
+        tr.run();
+
+        runValidations(() => {
+            assert(tr.succeeded);
+            assert(fs.existsSync(path.join(root, 'A', 'test.txt')));
+            assert(fs.existsSync(path.join(root, 'A2.txt')));
+            assert(tr.stdOutContained(`Preview: ${path.join(root, 'A')} would be deleted`));
+            assert(tr.stdOutContained(`Preview: ${path.join(root, 'A2.txt')} would be deleted`));
+            assert(tr.stdOutContained(`Preview: the source folder ${root} would be removed, as it would be empty`));
+            assert(tr.stdOutContained('Preview only: 2 files and folders would be deleted.'));
+        }, tr, done);
+    });
+
+    it('Does not report removing the source folder in preview mode when other files remain', (done: MochaDone) => {
+        this.timeout(5000);
+
+        const root = path.join(testRoot, 'previewNotEmpty');
+        fs.mkdirSync(root);
+
+        fs.writeFileSync(path.join(root, 'A2.txt'), 'test2');
+        fs.writeFileSync(path.join(root, 'B.txt'), 'test3');
+
+        let tp: string = path.join(__dirname, 'L0PreviewNotEmpty.js');
+        let tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+
+        tr.run();
+
+        runValidations(() => {
+            assert(tr.succeeded);
+            assert(fs.existsSync(path.join(root, 'A2.txt')));
+            assert(tr.stdOutContained(`Preview: ${path.join(root, 'A2.txt')} would be deleted`));
+            assert(!tr.stdOutContained('would be removed'));
+            assert(tr.stdOutContained('Preview only: 1 files and folders would be deleted.'));
+        }, tr, done);
+    });
+
+    it('Fails without deleting when the maximum number of deletions is exceeded', (done: MochaDone) => {
+        this.timeout(5000);
+
+        const root = path.join(testRoot, 'maxDeletions');
+        fs.mkdirSync(root);
+
+        fs.writeFileSync(path.join(root, 'test.txt'), 'test');
+        fs.writeFileSync(path.join(root, 'test2.txt'), 'test2');
+        fs.writeFileSync(path.join(root, 'test3.txt'), 'test3');
+
+        let tp: string = path.join(__dirname, 'L0MaxDeletions.js');
+        let tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+
+        tr.run();
+
+        runValidations(() => {
+            assert(tr.failed);
+            assert(tr.createdErrorIssue('3 files and folders would be deleted, which exceeds the maximum number of deletions of 2. Nothing was deleted.'));
+            assert(fs.existsSync(path.join(root, 'test.txt')));
+            assert(fs.existsSync(path.join(root, 'test2.txt')));
+            assert(fs.existsSync(path.join(root, 'test3.txt')));
+        }, tr, done);
+    });
+
+    it('Keeps the newest and recent matches', (done: MochaDone) => {
+        this.timeout(5000);
+
+        const root = path.join(testRoot, 'retention');
+        fs.mkdirSync(root);
+
+        const day = 24 * 60 * 60 * 1000;
+        [30, 20, 10, 5, 2].forEach((age: number) => {
+            const drop = path.join(root, 'drop_' + age);
+            fs.mkdirSync(drop);
+            fs.writeFileSync(path.join(drop, 'test.txt'), 'test');
+            const modified = new Date(Date.now() - age * day);
+            fs.utimesSync(path.join(drop, 'test.txt'), modified, modified);
+            fs.utimesSync(drop, modified, modified);
+        });
+
+        let tp: string = path.join(__dirname, 'L0Retention.js');
+        let tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+
+        tr.run();
+
+        runValidations(() => {
+            assert(tr.succeeded);
+            assert(!fs.existsSync(path.join(root, 'drop_30')));
+            assert(!fs.existsSync(path.join(root, 'drop_20')));
+            assert(!fs.existsSync(path.join(root, 'drop_10')));
+            assert(fs.existsSync(path.join(root, 'drop_5', 'test.txt')));
+            assert(fs.existsSync(path.join(root, 'drop_2', 'test.txt')));
+        }, tr, done);
+    });
 });
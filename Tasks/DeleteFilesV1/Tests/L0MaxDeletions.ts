@@ -0,0 +1,13 @@
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+let taskPath = path.join(__dirname, '..', 'deletefiles.js');
+let tmr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+
+const testRoot: string = path.join(__dirname, "test_structure", "maxDeletions");
+
+tmr.setInput('Contents', '*');
+tmr.setInput('SourceFolder', testRoot);
+tmr.setInput('MaxDeletions', "2");
+
+tmr.run(true);
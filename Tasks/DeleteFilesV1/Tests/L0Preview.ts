@@ -0,0 +1,14 @@
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+let taskPath = path.join(__dirname, '..', 'deletefiles.js');
+let tmr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+
+const testRoot: string = path.join(__dirname, "test_structure", "preview");
+
+tmr.setInput('Contents', 'A*');
+tmr.setInput('SourceFolder', testRoot);
+tmr.setInput('RemoveSourceFolder', "true");
+tmr.setInput('PreviewOnly', "true");
+
+tmr.run(true);
@@ -0,0 +1,14 @@
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+
+let taskPath = path.join(__dirname, '..', 'deletefiles.js');
+let tmr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+
+const testRoot: string = path.join(__dirname, "test_structure", "retention");
+
+tmr.setInput('Contents', 'drop_*');
+tmr.setInput('SourceFolder', testRoot);
+tmr.setInput('KeepNewest', "1");
+tmr.setInput('OlderThanDays', "7");
+
+tmr.run(true);
@@ -16,6 +16,20 @@ tl.setResourcePath(path.join(__dirname, 'task.json'));
     // not to delete the artifact share if it's a symbol store.
     let buildCleanup: boolean = tl.getBoolInput('BuildCleanup');
 
+    const previewOnly: boolean = tl.getBoolInput('PreviewOnly', false);
+    let maxDeletions: number;
+    let keepNewest: number;
+    let olderThanDays: number;
+    try {
+        maxDeletions = getWholeNumberInput('MaxDeletions');
+        keepNewest = getWholeNumberInput('KeepNewest');
+        olderThanDays = getWholeNumberInput('OlderThanDays');
+    }
+    catch (err) {
+        tl.setResult(tl.TaskResult.Failed, err.message);
+        return;
+    }
+
     // trim whitespace and root each pattern
     patterns = patterns
         .map((pattern: string) => pattern.trim())
@@ -70,6 +84,15 @@ tl.setResourcePath(path.join(__dirname, 'task.json'));
     // apply the match patterns
     let matches: string[] = tl.match(foundPaths, patterns, null, matchOptions);
 
+    if (keepNewest != null || olderThanDays != null) {
+        matches = applyRetentionRules(matches, keepNewest, olderThanDays);
+    }
+
+    if (maxDeletions != null && matches.length > maxDeletions) {
+        tl.setResult(tl.TaskResult.Failed, tl.loc('MaxDeletionsExceeded', matches.length, maxDeletions));
+        return;
+    }
+
     // sort by length (descending) so files are deleted before folders
     matches = matches.sort((a: string, b: string) => {
         if (a.length == b.length) {
@@ -79,6 +102,23 @@ tl.setResourcePath(path.join(__dirname, 'task.json'));
         return a.length > b.length ? -1 : 1;
     });
 
+    if (previewOnly) {
+        matches.forEach((itemPath: string) => console.log(tl.loc('PreviewDelete', itemPath)));
+
+        // the source folder is removed when nothing but the folder itself is left after the deletion
+        if (removeSourceFolder) {
+            let matchedPaths: { [itemPath: string]: boolean } = {};
+            matches.forEach((itemPath: string) => matchedPaths[itemPath] = true);
+            let remainingPaths: string[] = foundPaths.filter((itemPath: string) => !matchedPaths[itemPath] && !hasParentIn(itemPath, matchedPaths));
+            if (remainingPaths.length === 1) {
+                console.log(tl.loc('PreviewRemoveSourceFolder', sourceFolder));
+            }
+        }
+
+        console.log(tl.loc('PreviewSummary', matches.length));
+        return;
+    }
+
     // try to delete all files/folders, even if one errs
     let errorHappened: boolean = false;
     for (let itemPath of matches) {
@@ -111,3 +151,61 @@ tl.setResourcePath(path.join(__dirname, 'task.json'));
         tl.setResult(tl.TaskResult.Failed, tl.loc("CantDeleteFiles"));
     }
 })();
+
+/**
+ * Returns the matches which should be deleted according to the retention rules. The rules apply to the
+ * top-level matches, i.e. matches which are not inside another matched folder. Matches inside a top-level
+ * match are deleted or retained together with it.
+ *
+ * @param matches        matched files and folders
+ * @param keepNewest     number of the most recently modified top-level matches to retain, or null
+ * @param olderThanDays  only top-level matches last modified more than this number of days ago are deleted, or null
+ */
+function applyRetentionRules(matches: string[], keepNewest: number, olderThanDays: number): string[] {
+    let matchedPaths: { [itemPath: string]: boolean } = {};
+    matches.forEach((itemPath: string) => matchedPaths[itemPath] = true);
+
+    let topLevelMatches = matches
+        .filter((itemPath: string) => !hasParentIn(itemPath, matchedPaths))
+        .map((itemPath: string) => ({ itemPath: itemPath, modified: tl.stats(itemPath).mtime.getTime() }))
+        .sort((a, b) => b.modified - a.modified || (a.itemPath < b.itemPath ? -1 : 1));
+
+    let cutoff: number = olderThanDays != null ? Date.now() - olderThanDays * 24 * 60 * 60 * 1000 : null;
+    let retainedPaths: { [itemPath: string]: boolean } = {};
+    topLevelMatches.forEach((match, index: number) => {
+        if ((keepNewest != null && index < keepNewest) || (cutoff != null && match.modified > cutoff)) {
+            console.log(tl.loc('RetainingItem', match.itemPath));
+            retainedPaths[match.itemPath] = true;
+        }
+    });
+
+    return matches.filter((itemPath: string) => !retainedPaths[itemPath] && !hasParentIn(itemPath, retainedPaths));
+}
+
+function hasParentIn(itemPath: string, paths: { [itemPath: string]: boolean }): boolean {
+    let parent = path.dirname(itemPath);
+    while (parent != itemPath) {
+        if (paths[parent]) {
+            return true;
+        }
+
+        itemPath = parent;
+        parent = path.dirname(itemPath);
+    }
+
+    return false;
+}
+
+function getWholeNumberInput(name: string): number {
+    let value: string = tl.getInput(name, false);
+    if (!value || !value.trim()) {
+        return null;
+    }
+
+    let result = Number(value.trim());
+    if (!Number.isInteger(result) || result < 0) {
+        throw new Error(tl.loc('InvalidWholeNumber', name, value));
+    }
+
+    return result;
+}
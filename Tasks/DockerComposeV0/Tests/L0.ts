@@ -16,6 +16,11 @@ describe('Docker Compose Suite', function() {
         delete process.env["__composeFilePath__"];
         delete process.env["__dockerComposeCommand__"];
         delete process.env["__arguments__"];
+        delete process.env["__detached__"];
+        delete process.env["__waitForHealthyServices__"];
+        delete process.env["__captureLogs__"];
+        delete process.env["__tearDownAfterRun__"];
+        delete process.env["__healthStatus__"];
     });
     after(function () {
     });
@@ -149,6 +154,79 @@ describe('Docker Compose Suite', function() {
             done();
         });
 
+        it('Runs successfully for windows docker compose run services in the background waiting for healthy services', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Windows.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Run services";
+            process.env["__detached__"] = "true";
+            process.env["__waitForHealthyServices__"] = "true";
+            process.env["__captureLogs__"] = "true";
+            process.env["__tearDownAfterRun__"] = "true";
+            tr.run();
+
+            assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf("[command]docker-compose -f F:\\dir2\\docker-compose.yml up -d") != -1, "docker compose up should run detached");
+            assert(tr.stdout.indexOf("loc_mock_ServicesHealthy web (healthy)") != -1, "should have waited for the service with a healthcheck");
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured") == -1, "should not have captured the logs of the services left running");
+            assert(tr.stdout.indexOf("[command]docker-compose -f F:\\dir2\\docker-compose.yml down") == -1, "docker compose down should not run");
+            console.log(tr.stderr);
+            done();
+        });
+
+        it('Fails and captures logs for windows docker compose run services in the background when a service is unhealthy', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Windows.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Run services";
+            process.env["__detached__"] = "true";
+            process.env["__waitForHealthyServices__"] = "true";
+            process.env["__captureLogs__"] = "true";
+            process.env["__tearDownAfterRun__"] = "true";
+            process.env["__healthStatus__"] = "unhealthy";
+            tr.run();
+
+            assert(tr.failed, 'task should have failed');
+            assert(tr.stdout.indexOf("loc_mock_ServicesUnhealthy web (unhealthy)") != -1, "should have failed for the unhealthy service");
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured redis") != -1 && tr.stdout.indexOf("loc_mock_ServiceLogsCaptured web") != -1, "should have captured the logs of every service");
+            assert(tr.stdout.indexOf("##vso[artifact.upload containerfolder=docker-compose-logs;artifactname=docker-compose-logs;]docker_compose_logs") != -1, "should have published the service logs");
+            assert(tr.stdout.indexOf("[command]docker-compose -f F:\\dir2\\docker-compose.yml down") == -1, "docker compose down should not run");
+            console.log(tr.stderr);
+            done();
+        });
+
+        it('Captures logs and tears down for windows docker compose run services in the foreground', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Windows.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Run services";
+            process.env["__captureLogs__"] = "true";
+            process.env["__tearDownAfterRun__"] = "true";
+            tr.run();
+
+            assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf("[command]docker-compose -f F:\\dir2\\docker-compose.yml up") != -1, "docker compose up should run");
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured redis") != -1 && tr.stdout.indexOf("loc_mock_ServiceLogsCaptured web") != -1, "should have captured the logs of every service");
+            assert(tr.stdout.indexOf("##vso[artifact.upload containerfolder=docker-compose-logs;artifactname=docker-compose-logs;]docker_compose_logs") != -1, "should have published the service logs");
+            assert(tr.stdout.indexOf("[command]docker-compose -f F:\\dir2\\docker-compose.yml down") != -1, "docker compose down should run");
+            console.log(tr.stderr);
+            done();
+        });
+
+        it('Runs successfully for windows docker compose capture service logs', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Windows.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Capture service logs";
+            tr.run();
+
+            assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured redis") != -1 && tr.stdout.indexOf("loc_mock_ServiceLogsCaptured web") != -1, "should have captured the logs of every service");
+            assert(tr.stdout.indexOf("##vso[artifact.upload containerfolder=docker-compose-logs;artifactname=docker-compose-logs;]docker_compose_logs") != -1, "should have published the service logs");
+            assert(tr.stdout.indexOf("[command]docker-compose -f F:\\dir2\\docker-compose.yml down") == -1, "docker compose down should not run");
+            console.log(tr.stderr);
+            done();
+        });
+
     } else {
 
         it('Runs successfully for linux docker compose service build', (done:MochaDone) => {
@@ -279,5 +357,78 @@ describe('Docker Compose Suite', function() {
             done();
         });
 
+        it('Runs successfully for linux docker compose run services in the background waiting for healthy services', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Linux.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Run services";
+            process.env["__detached__"] = "true";
+            process.env["__waitForHealthyServices__"] = "true";
+            process.env["__captureLogs__"] = "true";
+            process.env["__tearDownAfterRun__"] = "true";
+            tr.run();
+
+            assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf("[command]docker-compose -f /tmp/tempdir/100/docker-compose.yml up -d") != -1, "docker compose up should run detached");
+            assert(tr.stdout.indexOf("loc_mock_ServicesHealthy web (healthy)") != -1, "should have waited for the service with a healthcheck");
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured") == -1, "should not have captured the logs of the services left running");
+            assert(tr.stdout.indexOf("[command]docker-compose -f /tmp/tempdir/100/docker-compose.yml down") == -1, "docker compose down should not run");
+            console.log(tr.stderr);
+            done();
+        });
+
+        it('Fails and captures logs for linux docker compose run services in the background when a service is unhealthy', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Linux.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Run services";
+            process.env["__detached__"] = "true";
+            process.env["__waitForHealthyServices__"] = "true";
+            process.env["__captureLogs__"] = "true";
+            process.env["__tearDownAfterRun__"] = "true";
+            process.env["__healthStatus__"] = "unhealthy";
+            tr.run();
+
+            assert(tr.failed, 'task should have failed');
+            assert(tr.stdout.indexOf("loc_mock_ServicesUnhealthy web (unhealthy)") != -1, "should have failed for the unhealthy service");
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured redis") != -1 && tr.stdout.indexOf("loc_mock_ServiceLogsCaptured web") != -1, "should have captured the logs of every service");
+            assert(tr.stdout.indexOf("##vso[artifact.upload containerfolder=docker-compose-logs;artifactname=docker-compose-logs;]docker_compose_logs") != -1, "should have published the service logs");
+            assert(tr.stdout.indexOf("[command]docker-compose -f /tmp/tempdir/100/docker-compose.yml down") == -1, "docker compose down should not run");
+            console.log(tr.stderr);
+            done();
+        });
+
+        it('Captures logs and tears down for linux docker compose run services in the foreground', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Linux.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Run services";
+            process.env["__captureLogs__"] = "true";
+            process.env["__tearDownAfterRun__"] = "true";
+            tr.run();
+
+            assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf("[command]docker-compose -f /tmp/tempdir/100/docker-compose.yml up") != -1, "docker compose up should run");
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured redis") != -1 && tr.stdout.indexOf("loc_mock_ServiceLogsCaptured web") != -1, "should have captured the logs of every service");
+            assert(tr.stdout.indexOf("##vso[artifact.upload containerfolder=docker-compose-logs;artifactname=docker-compose-logs;]docker_compose_logs") != -1, "should have published the service logs");
+            assert(tr.stdout.indexOf("[command]docker-compose -f /tmp/tempdir/100/docker-compose.yml down") != -1, "docker compose down should run");
+            console.log(tr.stderr);
+            done();
+        });
+
+        it('Runs successfully for linux docker compose capture service logs', (done:MochaDone) => {
+            let tp = path.join(__dirname, 'L0Linux.js');
+            let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+            process.env["__command__"] = "Capture service logs";
+            tr.run();
+
+            assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf("loc_mock_ServiceLogsCaptured redis") != -1 && tr.stdout.indexOf("loc_mock_ServiceLogsCaptured web") != -1, "should have captured the logs of every service");
+            assert(tr.stdout.indexOf("##vso[artifact.upload containerfolder=docker-compose-logs;artifactname=docker-compose-logs;]docker_compose_logs") != -1, "should have published the service logs");
+            assert(tr.stdout.indexOf("[command]docker-compose -f /tmp/tempdir/100/docker-compose.yml down") == -1, "docker compose down should not run");
+            console.log(tr.stderr);
+            done();
+        });
+
     }
 });
\ No newline at end of file
@@ -18,6 +18,12 @@ tr.setInput('dockerComposeCommand', process.env["__dockerComposeCommand__"] || n
 tr.setInput('azureSubscriptionEndpoint', 'AzureRMSpn');
 tr.setInput('azureContainerRegistry', '{"loginServer":"ajgtestacr1.azurecr.io", "id" : "/subscriptions/c00d16c7-6c1f-4c03-9be1-6934a4c49682/resourcegroups/ajgtestacr1rg/providers/Microsoft.ContainerRegistry/registries/ajgtestacr1"}');
 tr.setInput('arguments', process.env["__arguments__"] || '');
+tr.setInput('detached', process.env["__detached__"] || "false");
+tr.setInput('waitForHealthyServices', process.env["__waitForHealthyServices__"] || "false");
+tr.setInput('healthCheckTimeout', process.env["__healthCheckTimeout__"] || "300");
+tr.setInput('captureLogs', process.env["__captureLogs__"] || "false");
+tr.setInput('logsArtifactName', 'docker-compose-logs');
+tr.setInput('tearDownAfterRun', process.env["__tearDownAfterRun__"] || "false");
 
 console.log("Inputs have been set");
 
@@ -35,6 +41,12 @@ process.env["ENDPOINT_DATA_AzureRMSpn_SUBSCRIPTIONID"] =  "sId";
 process.env["ENDPOINT_DATA_AzureRMSpn_SPNOBJECTID"] =  "oId";
 process.env['AGENT_HOMEDIRECTORY'] = 'F:\\dir2\\';
 
+let healthStatus = process.env["__healthStatus__"] || "healthy";
+let inspectOutput = JSON.stringify([
+    { "Id": "c1", "Name": "/dir2_redis_1", "State": { "Running": true }, "Config": { "Labels": { "com.docker.compose.service": "redis" } } },
+    { "Id": "c2", "Name": "/dir2_web_1", "State": { "Running": true, "Health": { "Status": healthStatus } }, "Config": { "Labels": { "com.docker.compose.service": "web" } } }
+]);
+
 // provide answers for task mock
 let a: any = <any>{
     "which": {
@@ -85,6 +97,26 @@ let a: any = <any>{
         "docker-compose -f F:\\dir2\\docker-compose.yml build --pull --parallel" :{
             "code": 0,
             "stdout": "sucessfully built the service images"
+        },
+        "docker-compose -f F:\\dir2\\docker-compose.yml ps -q": {
+            "code": 0,
+            "stdout": "c1\nc2"
+        },
+        "docker inspect c1 c2": {
+            "code": 0,
+            "stdout": inspectOutput
+        },
+        "docker-compose -f F:\\dir2\\docker-compose.yml logs --no-color --timestamps redis": {
+            "code": 0,
+            "stdout": "redis_1  | Ready to accept connections"
+        },
+        "docker-compose -f F:\\dir2\\docker-compose.yml logs --no-color --timestamps web": {
+            "code": 0,
+            "stdout": "web_1  | Running on http://0.0.0.0:5000/"
+        },
+        "docker-compose -f F:\\dir2\\docker-compose.yml down": {
+            "code": 0,
+            "stdout": "successfully removed the service containers"
         }
     },
     "exist": {
@@ -110,6 +142,9 @@ tr.registerMock('./utils', {
         let outputFileName = commandName + "_" + Date.now() + ".txt";
         console.log(`Mocked test writing to: ${outputFileName}`);
         return outputFileName;
+    },
+    getServiceLogsDirectory: function (): string {
+        return "docker_compose_logs";
     }
 });
 
@@ -55,6 +55,7 @@ if (nopIfNoDockerComposeFile && !tl.exist(dockerFile)) {
                 "lock services": "./dockercomposelock",
                 "write service image digests": "./dockercomposedigests",
                 "combine configuration": "./dockercomposeconfig",
+                "capture service logs": "./dockercomposelogs",
                 "run a docker compose command": "./dockercomposecommand"
             }[action]).run(connection, (pathToResult) => {
                 resultPaths += `${pathToResult}\n`;    
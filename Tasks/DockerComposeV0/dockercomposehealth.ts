@@ -0,0 +1,103 @@
+"use strict";
+
+import * as tl from "azure-pipelines-task-lib/task";
+import DockerComposeConnection from "./dockercomposeconnection";
+
+const pollingIntervalInSeconds = 5;
+const healthyStatus = "healthy";
+const unhealthyStatus = "unhealthy";
+const exitedStatus = "exited";
+
+interface ContainerHealth {
+    service: string;
+    container: string;
+    status: string;
+}
+
+export function getHealthCheckTimeout(): number {
+    var timeout = tl.getInput("healthCheckTimeout") || "300";
+    var timeoutInSeconds = Number(timeout);
+    if (!Number.isInteger(timeoutInSeconds) || timeoutInSeconds <= 0) {
+        throw new Error(tl.loc('InvalidHealthCheckTimeout', timeout));
+    }
+
+    return timeoutInSeconds;
+}
+
+// Waits until the containers of all services with a healthcheck report healthy. Services without
+// a healthcheck are not waited for, as Docker has no way to tell when they are ready.
+export async function waitForHealthyServices(connection: DockerComposeConnection, timeoutInSeconds: number): Promise<void> {
+    console.log(tl.loc('WaitingForHealthyServices', timeoutInSeconds));
+    var deadline = Date.now() + timeoutInSeconds * 1000;
+    while (true) {
+        var containers = getContainerHealth(connection).filter(container => !!container.status);
+        if (containers.length === 0) {
+            console.log(tl.loc('NoServiceHealthChecks'));
+            return;
+        }
+
+        var failed = containers.filter(container => container.status === unhealthyStatus || container.status === exitedStatus);
+        if (failed.length > 0) {
+            throw new Error(tl.loc('ServicesUnhealthy', describeContainers(failed)));
+        }
+
+        var pending = containers.filter(container => container.status !== healthyStatus);
+        if (pending.length === 0) {
+            console.log(tl.loc('ServicesHealthy', describeContainers(containers)));
+            return;
+        }
+
+        if (Date.now() >= deadline) {
+            throw new Error(tl.loc('ServiceHealthCheckTimedOut', timeoutInSeconds, describeContainers(pending)));
+        }
+
+        tl.debug("Waiting for the containers to become healthy: " + describeContainers(pending));
+        await sleep(pollingIntervalInSeconds * 1000);
+    }
+}
+
+function getContainerHealth(connection: DockerComposeConnection): ContainerHealth[] {
+    var psCommand = connection.createComposeCommand();
+    psCommand.arg(["ps", "-q"]);
+    var psResult = psCommand.execSync(<any>{ silent: true });
+    if (psResult.code !== 0) {
+        throw new Error(psResult.stderr || psResult.error && psResult.error.message);
+    }
+
+    var containerIds = (psResult.stdout || "").split(/\r?\n/).map(id => id.trim()).filter(id => !!id);
+    if (containerIds.length === 0) {
+        return [];
+    }
+
+    var inspectCommand = connection.createCommand();
+    inspectCommand.arg("inspect");
+    inspectCommand.arg(containerIds);
+    var inspectResult = inspectCommand.execSync(<any>{ silent: true });
+    if (inspectResult.code !== 0) {
+        throw new Error(inspectResult.stderr || inspectResult.error && inspectResult.error.message);
+    }
+
+    var details: any[] = JSON.parse(inspectResult.stdout);
+    return details.map(detail => {
+        var state = detail.State || {};
+        var labels = (detail.Config && detail.Config.Labels) || {};
+        var status = state.Health ? state.Health.Status : "";
+        if (status && !state.Running) {
+            status = exitedStatus;
+        }
+
+        return {
+            service: labels["com.docker.compose.service"] || "",
+            container: (detail.Name || detail.Id || "").replace(/^\//, ""),
+            status: status
+        };
+    });
+}
+
+function describeContainers(containers: ContainerHealth[]): string {
+    return containers.map(container => `${container.service || container.container} (${container.status})`).join(", ");
+}
+
+function sleep(timeout: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, timeout));
+}
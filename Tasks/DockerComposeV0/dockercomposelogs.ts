@@ -0,0 +1,40 @@
+"use strict";
+
+import * as path from "path";
+import * as tl from "azure-pipelines-task-lib/task";
+import DockerComposeConnection from "./dockercomposeconnection";
+import * as utils from "./utils";
+
+export async function run(connection: DockerComposeConnection, outputUpdate: (data: string) => any): Promise<any> {
+    await publishServiceLogs(connection, tl.getInput("logsArtifactName") || "docker-compose-logs");
+}
+
+// Writes the logs of every service to its own file and publishes the files as a pipeline artifact.
+// Failures are only reported as warnings so that they do not hide the result of the services run.
+export async function publishServiceLogs(connection: DockerComposeConnection, artifactName: string): Promise<void> {
+    try {
+        var services = Object.keys(await connection.getImages());
+        if (services.length === 0) {
+            return;
+        }
+
+        var logsDirectory = utils.getServiceLogsDirectory();
+        services.forEach(service => {
+            var command = connection.createComposeCommand();
+            command.arg(["logs", "--no-color", "--timestamps", service]);
+            var result = command.execSync(<any>{ silent: true });
+            if (result.code !== 0) {
+                tl.warning(tl.loc('CouldNotCaptureServiceLogs', service, result.stderr || result.error && result.error.message));
+                return;
+            }
+
+            var logFilePath = path.join(logsDirectory, service + ".log");
+            utils.writeFileSync(logFilePath, result.stdout || "");
+            console.log(tl.loc('ServiceLogsCaptured', service, logFilePath));
+        });
+
+        tl.command("artifact.upload", { "containerfolder": artifactName, "artifactname": artifactName }, logsDirectory);
+    } catch (error) {
+        tl.warning(tl.loc('CouldNotPublishServiceLogs', error.message || error));
+    }
+}
@@ -2,6 +2,7 @@
 
 import * as tl from "azure-pipelines-task-lib/task";
 import DockerComposeConnection from "./dockercomposeconnection";
+import * as dockerComposeLogs from "./dockercomposelogs";
 import * as dockerCommandUtils from "docker-common-v2/dockercommandutils";
 import * as utils from "./utils";
 
@@ -55,8 +56,11 @@ export async function run(connection: DockerComposeConnection, outputUpdate: (da
         await connection.execCommandWithLogging(command)
         .then((output) => outputUpdate(utils.writeTaskOutput("run", output)));
     } finally {
-        if (!detached) {
-            
+        if (tl.getBoolInput("captureLogs")) {
+            await dockerComposeLogs.publishServiceLogs(connection, tl.getInput("logsArtifactName") || "docker-compose-logs");
+        }
+
+        if (!detached || tl.getBoolInput("tearDownAfterRun")) {
             var downCommand = connection.createComposeCommand();
             downCommand.arg("down");
 
@@ -2,10 +2,12 @@
 
 import * as tl from "azure-pipelines-task-lib/task";
 import DockerComposeConnection from "./dockercomposeconnection";
+import * as dockerComposeHealth from "./dockercomposehealth";
+import * as dockerComposeLogs from "./dockercomposelogs";
 import * as dockerCommandUtils from "docker-common-v2/dockercommandutils";
 import * as utils from "./utils";
 
-export function run(connection: DockerComposeConnection, outputUpdate: (data: string) => any): any {
+export async function run(connection: DockerComposeConnection, outputUpdate: (data: string) => any): Promise<any> {
     var command = connection.createComposeCommand();
     command.arg("up");
 
@@ -28,6 +30,37 @@ export function run(connection: DockerComposeConnection, outputUpdate: (data: st
     var commandArgs = dockerCommandUtils.getCommandArguments(arg || "");
     command.line(commandArgs || "");
 
-    return connection.execCommandWithLogging(command)
-    .then((output) => outputUpdate(utils.writeTaskOutput("up", output)))
+    var waitForHealthyServices = detached && tl.getBoolInput("waitForHealthyServices");
+    var healthCheckTimeout = waitForHealthyServices ? dockerComposeHealth.getHealthCheckTimeout() : 0;
+
+    try {
+        await connection.execCommandWithLogging(command)
+        .then((output) => outputUpdate(utils.writeTaskOutput("up", output)));
+
+        if (waitForHealthyServices) {
+            await dockerComposeHealth.waitForHealthyServices(connection, healthCheckTimeout);
+        }
+    } catch (error) {
+        // The logs of the services run in the background tell why they failed to start or become healthy
+        if (detached && tl.getBoolInput("captureLogs")) {
+            await dockerComposeLogs.publishServiceLogs(connection, tl.getInput("logsArtifactName") || "docker-compose-logs");
+        }
+        throw error;
+    } finally {
+        // Services run in the background keep running for the later steps, which capture
+        // their logs with the "Capture service logs" action and tear them down themselves.
+        if (!detached) {
+            if (tl.getBoolInput("captureLogs")) {
+                await dockerComposeLogs.publishServiceLogs(connection, tl.getInput("logsArtifactName") || "docker-compose-logs");
+            }
+
+            if (tl.getBoolInput("tearDownAfterRun")) {
+                var downCommand = connection.createComposeCommand();
+                downCommand.arg("down");
+
+                await connection.execCommandWithLogging(downCommand)
+                .then((output) => outputUpdate(utils.writeTaskOutput("down", output)));
+            }
+        }
+    }
 }
@@ -33,4 +33,14 @@ export function writeTaskOutput(commandName: string, output: string): string {
     }
     
     return taskOutputPath;
-}
\ No newline at end of file
+}
+
+export function getServiceLogsDirectory(): string {
+    let tempDirectory = tl.getVariable('agent.tempDirectory') || os.tmpdir();
+    let logsDirectory = path.join(tempDirectory, "docker_compose_logs_" + Date.now());
+    if (!fs.existsSync(logsDirectory)) {
+        fs.mkdirSync(logsDirectory);
+    }
+
+    return logsDirectory;
+}
@@ -4,6 +4,7 @@ import * as ttm from "azure-pipelines-task-lib/mock-test";
 import * as tl from "azure-pipelines-task-lib/task";
 import * as dockerCommandUtils from "docker-common-v2/dockercommandutils";
 import * as pipelineutils from "docker-common-v2/pipelineutils";
+import * as dockerFileLinter from "docker-common-v2/dockerfilelinter";
 import * as shared from "./TestShared";
 
 describe("DockerV2 Suite", function () {
@@ -28,6 +29,13 @@ describe("DockerV2 Suite", function () {
         delete process.env[shared.TestEnvVars.tags];
         delete process.env[shared.TestEnvVars.arguments];
         delete process.env[shared.TestEnvVars.addPipelineData];
+        delete process.env[shared.TestEnvVars.platforms];
+        delete process.env[shared.TestEnvVars.cacheType];
+        delete process.env[shared.TestEnvVars.cacheLocation];
+        delete process.env[shared.TestEnvVars.addOciLabels];
+        delete process.env[shared.TestEnvVars.sbomFormat];
+        delete process.env[shared.TestEnvVars.lintDockerfile];
+        delete process.env[shared.TestEnvVars.lintRules];
     });
     
     after(function () {
@@ -396,6 +404,25 @@ describe("DockerV2 Suite", function () {
         console.log(tr.stderr);
         done();
     });
+
+    it('Docker push should generate and upload an SBOM for the pushed image', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.push;
+        process.env[shared.TestEnvVars.sbomFormat] = "spdx";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 3, 'should have invoked tool three times. actual: ' + tr.invokedToolCount);
+        assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`loc_mock_SbomGenerated testuser/testrepo:11`) != -1, "syft should catalog the pushed image");
+        assert(tr.stdout.indexOf(`##vso[artifact.upload containerfolder=sbom;artifactname=sbom;]`) != -1, "the SBOM should be uploaded as an artifact");
+        assert(tr.stdout.indexOf(`testuser_testrepo_11.spdx.json`) != -1, "the SBOM file should be named after the image");
+        console.log(tr.stderr);
+        done();
+    });
     // // Docker push tests end
 
     // // Docker buildAndPush tests begin
@@ -491,8 +518,170 @@ describe("DockerV2 Suite", function () {
         console.log(tr.stderr);
         done();
     });
+
+    it('Docker build should build and load a single platform image with buildx', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.build;
+        process.env[shared.TestEnvVars.platforms] = "linux/arm64";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 1, 'should have invoked tool one time. actual: ' + tr.invokedToolCount);
+        assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`[command]docker buildx build --builder azure-pipelines-multiplatform -f ${shared.formatPath("a/w/Dockerfile")} --platform linux/arm64 ${shared.DockerCommandArgs.BuildLabels} -t testuser/testrepo:11 --load ${shared.formatPath("a/w")}`) != -1, "docker buildx build should run with expected arguments");
+        console.log(tr.stderr);
+        done();
+    });
+
+    it('Docker buildAndPush should push a multi-platform image with buildx and publish its metadata', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.platforms] = "linux/amd64, linux/arm64";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 2, 'should have invoked tool two times. actual: ' + tr.invokedToolCount);
+        assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`[command]docker buildx build --builder azure-pipelines-multiplatform -f ${shared.formatPath("a/w/Dockerfile")} --platform linux/amd64,linux/arm64 ${shared.DockerCommandArgs.BuildLabels} -t testuser/testrepo:11 --push ${shared.formatPath("a/w")}`) != -1, "docker buildx build should push the image");
+        assert(tr.stdout.indexOf(`[command]docker buildx imagetools inspect testuser/testrepo:11`) != -1, "the manifest list should be inspected for the digest");
+        assert(tr.stdout.indexOf(`[command]docker push`) == -1, "docker push should not run");
+        console.log(tr.stderr);
+        done();
+    });
+
+    it('Docker buildAndPush should import and export the buildx cache in the registry', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.platforms] = "linux/amd64,linux/arm64";
+        process.env[shared.TestEnvVars.cacheType] = "registry";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 2, 'should have invoked tool two times. actual: ' + tr.invokedToolCount);
+        assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`--cache-from type=registry,ref=testuser/testrepo:buildcache --cache-to type=registry,ref=testuser/testrepo:buildcache,mode=max --push`) != -1, "docker buildx build should use the registry cache");
+        console.log(tr.stderr);
+        done();
+    });
+
+    it('Docker build should fail for the local buildx cache without a cache location', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.build;
+        process.env[shared.TestEnvVars.platforms] = "linux/amd64,linux/arm64";
+        process.env[shared.TestEnvVars.cacheType] = "local";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 0, 'should not have invoked tool. actual: ' + tr.invokedToolCount);
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf("loc_mock_CacheLocationRequired local") != -1, "the task should fail for the missing cache location");
+        console.log(tr.stderr);
+        done();
+    });
+
+    it('Docker buildAndPush should generate an SBOM per platform for a multi-platform image', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.platforms] = "linux/amd64,linux/arm64";
+        process.env[shared.TestEnvVars.sbomFormat] = "cyclonedx";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 2, 'should have invoked tool two times. actual: ' + tr.invokedToolCount);
+        assert(tr.stderr.length == 0 || tr.errorIssues.length, 'should not have written to stderr');
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf(`loc_mock_SbomGenerated testuser/testrepo:11 linux/amd64`) != -1, "syft should catalog the amd64 image");
+        assert(tr.stdout.indexOf(`loc_mock_SbomGenerated testuser/testrepo:11 linux/arm64`) != -1, "syft should catalog the arm64 image");
+        assert(tr.stdout.indexOf(`testuser_testrepo_11_linux_arm64.cdx.json`) != -1, "the SBOM file should be named after the image and platform");
+        console.log(tr.stderr);
+        done();
+    });
     // // Docker buildAndPush tests end
 
+    // // Docker lint tests begin
+    it('Docker lint should report the findings with their location and fail on errors', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.lint;
+        process.env[shared.TestEnvVars.dockerFile] = shared.formatPath("a/w/lint/Dockerfile");
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        const dockerFile = shared.formatPath("a/w/lint/Dockerfile");
+        assert(tr.invokedToolCount == 0, 'should not have invoked tool. actual: ' + tr.invokedToolCount);
+        assert(tr.failed, 'task should have failed');
+        assert(tr.errorIssues.length == 2, 'should have one lint error and the task failure. actual: ' + tr.errorIssues.length);
+        assert(tr.warningIssues.length == 6, 'should have six lint warnings. actual: ' + tr.warningIssues.length);
+        assert(tr.stdout.indexOf(`##vso[task.issue type=warning;sourcepath=${dockerFile};linenumber=1;code=latest-tag;]`) != -1, "latest tag should be reported on line 1");
+        assert(tr.stdout.indexOf(`linenumber=2;code=apt-get-install-recommends;]`) != -1, "apt-get install recommends should be reported on line 2");
+        assert(tr.stdout.indexOf(`linenumber=2;code=apt-get-lists-not-removed;]`) != -1, "apt-get lists should be reported on line 2");
+        assert(tr.stdout.indexOf(`linenumber=5;code=unpinned-base-image;]`) != -1, "unpinned base image should be reported on line 5");
+        assert(tr.stdout.indexOf(`linenumber=5;code=missing-user;]`) != -1, "missing user should be reported on line 5");
+        assert(tr.stdout.indexOf(`linenumber=6;code=add-url;]`) != -1, "ADD with a URL should be reported on line 6");
+        assert(tr.stdout.indexOf(`##vso[task.issue type=error;sourcepath=${dockerFile};linenumber=8;code=multiple-cmd;]`) != -1, "multiple CMD should be reported as an error on line 8");
+        assert(tr.stdout.indexOf("loc_mock_LintFailed 1") != -1, "the task should fail for the lint error");
+        done();
+    });
+
+    it('Docker lint should honour the lintRules input', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.lint;
+        process.env[shared.TestEnvVars.dockerFile] = shared.formatPath("a/w/lint/Dockerfile");
+        process.env[shared.TestEnvVars.lintRules] = "multiple-cmd=warning\nmissing-user=off\nadd-url=off";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.errorIssues.length == 0, 'should not have lint errors. actual: ' + tr.errorIssues.length);
+        assert(tr.warningIssues.length == 5, 'should have five lint warnings. actual: ' + tr.warningIssues.length);
+        assert(tr.stdout.indexOf("code=missing-user") == -1, "missing user should be turned off");
+        assert(tr.stdout.indexOf("loc_mock_LintSummary 0 5") != -1, "the summary should count the findings");
+        done();
+    });
+
+    it('Docker build should lint the Dockerfile before the build when lintDockerfile is true', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.build;
+        process.env[shared.TestEnvVars.lintDockerfile] = "true";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 1, 'should have invoked tool one time. actual: ' + tr.invokedToolCount);
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.warningIssues.length == 2, 'should have two lint warnings. actual: ' + tr.warningIssues.length);
+        assert(tr.stdout.indexOf("code=unpinned-base-image") != -1, "the unpinned base image should be reported");
+        assert(tr.stdout.indexOf("loc_mock_LintSummary 0 2") < tr.stdout.indexOf("[command]docker build"), "the Dockerfile should be linted before the build");
+        done();
+    });
+
+    it('Docker build should not start the build when the Dockerfile has lint errors', (done:MochaDone) => {
+        let tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
+        process.env[shared.TestEnvVars.repository] = "testuser/testrepo";
+        process.env[shared.TestEnvVars.command] = shared.CommandTypes.build;
+        process.env[shared.TestEnvVars.lintDockerfile] = "true";
+        process.env[shared.TestEnvVars.lintRules] = "unpinned-base-image=error";
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.invokedToolCount == 0, 'should not have invoked tool. actual: ' + tr.invokedToolCount);
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf("loc_mock_LintFailed 1") != -1, "the task should fail for the lint error");
+        done();
+    });
+    // // Docker lint tests end
+
     // // Docker general command tests begin
     it('Runs successfully for docker images', (done:MochaDone) => {
         let tp = path.join(__dirname, 'TestSetup.js');
@@ -603,6 +792,67 @@ describe("DockerV2 Suite", function () {
         done();
     });
 
+    it("getDefaultLabels returns the OCI image labels when addOciImageLabels is true", (done: MochaDone) => {
+        console.log("TestCaseName: getDefaultLabels returns the OCI image labels when addOciImageLabels is true");
+        console.log("\n");
+
+        setEnvironmentVariables();
+        process.env['SYSTEM_HOSTTYPE'] = 'build';
+        process.env['BUILD_BUILDID'] = '11';
+        const labels = pipelineutils.getDefaultLabels(true, true);
+        delete process.env['BUILD_BUILDID'];
+
+        assert.equal(labels.length, 14, "The OCI image labels are returned in addition to the default labels");
+        assert(labels.indexOf("org.opencontainers.image.source=https://mock.ms/mock/") != -1, "source label should be the repository uri");
+        assert(labels.indexOf("org.opencontainers.image.revision=buildId") != -1, "revision label should be the source version");
+        assert(labels.indexOf("org.opencontainers.image.version=some string") != -1, "version label should be the build number");
+        assert(labels.indexOf("org.opencontainers.image.url=https://mock.ms/mock/some string/_build/results?buildId=11") != -1, "url label should be the pipeline run url");
+        assert(labels.filter(label => /^org\.opencontainers\.image\.created=\d{4}-\d{2}-\d{2}T/.test(label)).length == 1, "created label should be an RFC 3339 timestamp");
+        done();
+    });
+
+    it("getDefaultLabels returns the same OCI created label for all the images of the run", (done: MochaDone) => {
+        console.log("TestCaseName: getDefaultLabels returns the same OCI created label for all the images of the run");
+        console.log("\n");
+
+        setEnvironmentVariables();
+        process.env['SYSTEM_HOSTTYPE'] = 'build';
+        const getCreatedLabel = (labels: string[]) => labels.filter(label => label.indexOf("org.opencontainers.image.created=") == 0)[0];
+        const createdLabel = getCreatedLabel(pipelineutils.getDefaultLabels(true, true));
+        const start = Date.now();
+        while (Date.now() - start < 5) { }
+
+        assert(createdLabel, "created label should be returned");
+        assert.equal(getCreatedLabel(pipelineutils.getDefaultLabels(true, true)), createdLabel, "created label should not change during the run");
+        done();
+    });
+
+    it("lint handles multi-stage builds, continuation lines and the escape directive", (done: MochaDone) => {
+        console.log("TestCaseName: lint handles multi-stage builds, continuation lines and the escape directive");
+        console.log("\n");
+
+        const dockerFileContent = [
+            "# escape=`",
+            "ARG BASE=ubuntu:18.04",
+            "FROM --platform=$BUILDPLATFORM ${BASE} AS build",
+            "RUN apt-get update `",
+            "    # install the build tools",
+            "    && apt-get install -y --no-install-recommends make `",
+            "    && rm -rf /var/lib/apt/lists/*",
+            "FROM build AS test",
+            "FROM mcr.microsoft.com/dotnet/runtime@sha256:0123456789abcdef",
+            "COPY --from=build /out /app",
+            "USER root"
+        ].join("\n");
+
+        const findings = dockerFileLinter.lint(dockerFileContent, dockerFileLinter.getRuleSeverities(""));
+        assert.equal(findings.length, 1, "only the root user should be reported");
+        assert.equal(findings[0].rule, dockerFileLinter.LintRules.missingUser, "the root user should be reported by the missing-user rule");
+        assert.equal(findings[0].lineNumber, 11, "the root user should be reported on the USER line");
+        assert.throws(() => dockerFileLinter.getRuleSeverities("no-such-rule=error"), /LintRuleNotSupported/, "unknown rules should be rejected");
+        done();
+    });
+
     // it("Runs successfully for docker build selected labels when addPipelineData is false", (done: MochaDone) => {
     //     let tp = path.join(__dirname, 'TestSetup.js');
     //     process.env[shared.TestEnvVars.containerRegistry] = "dockerhubendpoint";
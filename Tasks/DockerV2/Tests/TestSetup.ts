@@ -12,6 +12,8 @@ const BuildContextPath: string = shared.formatPath("a/w");
 const BuildContextPath2: string = shared.formatPath("a/w/meta");
 const BuildContextPath3: string = shared.formatPath("a/w/context");
 const Dockerfile: string = `FROM ubuntu\nCMD ["echo","Hello World!"]`
+const DockerfilePath3: string = shared.formatPath("a/w/lint/Dockerfile");
+const Dockerfile3: string = `FROM golang:latest AS builder\nRUN apt-get update && \\\n    apt-get install -y git\n\nFROM alpine\nADD https://example.com/app.tar.gz /app\nCMD ["sh"]\nCMD ["/app/run"]`
 
 let taskPath = path.join(__dirname, '..', 'docker.js');
 let tr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
@@ -24,6 +26,14 @@ tr.setInput('buildContext', process.env[shared.TestEnvVars.buildContext] || Defa
 tr.setInput('tags', process.env[shared.TestEnvVars.tags] || "11");
 tr.setInput('arguments', process.env[shared.TestEnvVars.arguments] || "");
 tr.setInput ('addPipelineData', process.env[shared.TestEnvVars.addPipelineData] || "true");
+tr.setInput('platforms', process.env[shared.TestEnvVars.platforms] || "");
+tr.setInput('cacheType', process.env[shared.TestEnvVars.cacheType] || "none");
+tr.setInput('cacheLocation', process.env[shared.TestEnvVars.cacheLocation] || "");
+tr.setInput('addOciLabels', process.env[shared.TestEnvVars.addOciLabels] || "false");
+tr.setInput('sbomFormat', process.env[shared.TestEnvVars.sbomFormat] || "none");
+tr.setInput('sbomArtifactName', "sbom");
+tr.setInput('lintDockerfile', process.env[shared.TestEnvVars.lintDockerfile] || "false");
+tr.setInput('lintRules', process.env[shared.TestEnvVars.lintRules] || "");
 
 console.log("Inputs have been set");
 
@@ -66,10 +76,12 @@ process.env["RELEASE_RELEASEWEBURL"] = shared.SharedValues.RELEASE_RELEASEWEBURL
 // provide answers for task mock
 let a = {
     "which": {
-        "docker": "docker"
+        "docker": "docker",
+        "syft": "syft"
     },
      "checkPath": {
-        "docker": true
+        "docker": true,
+        "syft": true
     },
     "exist": {
         "docker": true
@@ -98,6 +110,7 @@ let a = {
 // Add extra answer definitions that need to be dynamically generated
 a.exist[DockerfilePath] = true;
 a.exist[DockerfilePath2] = true;
+a.exist[DockerfilePath3] = true;
 
 a.find[`${DefaultWorkingDirectory}`] = [
     `${DockerfilePath}`
@@ -223,6 +236,46 @@ a.exec[`docker history --format createdAt:{{.CreatedAt}}; layerSize:{{.Size}}; c
     "stdout": ""
 };
 
+a.exec[`docker buildx inspect azure-pipelines-multiplatform`] = {
+    "code": 0,
+    "stdout": "Name:   azure-pipelines-multiplatform\nDriver: docker-container"
+};
+
+a.exec[`docker buildx build --builder azure-pipelines-multiplatform -f ${DockerfilePath} --platform linux/arm64 ${shared.DockerCommandArgs.BuildLabels} -t testuser/testrepo:11 --load ${BuildContextPath}`] = {
+    "code": 0,
+    "stderr": "exporting to image\nnaming to docker.io/testuser/testrepo:11 done"
+};
+
+a.exec[`docker buildx build --builder azure-pipelines-multiplatform -f ${DockerfilePath} --platform linux/amd64,linux/arm64 ${shared.DockerCommandArgs.BuildLabels} -t testuser/testrepo:11 --push ${BuildContextPath}`] = {
+    "code": 0,
+    "stderr": "exporting manifest list sha256:7b0b1fd7e4a5f6c0b8d5fbd3a0b5d0e23b2e2e1ee7e1c4bd6b1e2f8e3a9d4c10 done\npushing layers done"
+};
+
+a.exec[`docker buildx build --builder azure-pipelines-multiplatform -f ${DockerfilePath} --platform linux/amd64,linux/arm64 ${shared.DockerCommandArgs.BuildLabels} -t testuser/testrepo:11 --cache-from type=registry,ref=testuser/testrepo:buildcache --cache-to type=registry,ref=testuser/testrepo:buildcache,mode=max --push ${BuildContextPath}`] = {
+    "code": 0,
+    "stderr": "exporting manifest list sha256:7b0b1fd7e4a5f6c0b8d5fbd3a0b5d0e23b2e2e1ee7e1c4bd6b1e2f8e3a9d4c10 done\nexporting cache done"
+};
+
+a.exec[`docker buildx imagetools inspect testuser/testrepo:11`] = {
+    "code": 0,
+    "stdout": "Name:      docker.io/testuser/testrepo:11\nMediaType: application/vnd.docker.distribution.manifest.list.v2+json\nDigest:    sha256:7b0b1fd7e4a5f6c0b8d5fbd3a0b5d0e23b2e2e1ee7e1c4bd6b1e2f8e3a9d4c10"
+};
+
+a.exec[`syft testuser/testrepo:11 -o spdx-json -q`] = {
+    "code": 0,
+    "stdout": "{\"spdxVersion\": \"SPDX-2.2\", \"name\": \"testuser/testrepo:11\", \"packages\": []}"
+};
+
+a.exec[`syft registry:testuser/testrepo:11 --platform linux/amd64 -o cyclonedx-json -q`] = {
+    "code": 0,
+    "stdout": "{\"bomFormat\": \"CycloneDX\", \"components\": []}"
+};
+
+a.exec[`syft registry:testuser/testrepo:11 --platform linux/arm64 -o cyclonedx-json -q`] = {
+    "code": 0,
+    "stdout": "{\"bomFormat\": \"CycloneDX\", \"components\": []}"
+};
+
 a.exec[`docker images`] = {
     "code": 0,
     "stdout": "Listed images successfully."
@@ -243,6 +296,8 @@ fsClone.readFileSync = function(filePath, options) {
         case DockerfilePath:
         case DockerfilePath2:
             return Dockerfile;
+        case DockerfilePath3:
+            return Dockerfile3;
         default:
             return fs.readFileSync(filePath, options);
     }
@@ -8,7 +8,14 @@ export let TestEnvVars = {
     buildContext: "__buildContext__",
     tags: "__tags__",
     arguments: "__arguments__",
-    addPipelineData: "__addPipelineData__"
+    addPipelineData: "__addPipelineData__",
+    platforms: "__platforms__",
+    cacheType: "__cacheType__",
+    cacheLocation: "__cacheLocation__",
+    addOciLabels: "__addOciLabels__",
+    sbomFormat: "__sbomFormat__",
+    lintDockerfile: "__lintDockerfile__",
+    lintRules: "__lintRules__"
 };
 
 export let OperatingSystems = {
@@ -25,6 +32,7 @@ export let CommandTypes = {
     buildAndPush: "buildAndPush",
     build: "build",
     push: "push",
+    lint: "lint",
     images: "images"
 };
 
@@ -23,6 +23,7 @@ let dockerCommandMap = {
     "buildandpush": "./dockerbuildandpush",
     "build": "./dockerbuild",
     "push": "./dockerpush",
+    "lint": "./dockerlint",
     "login": "./dockerlogin",
     "logout": "./dockerlogout"
 }
@@ -9,6 +9,9 @@ import * as fileUtils from "docker-common-v2/fileutils";
 import * as pipelineUtils from "docker-common-v2/pipelineutils";
 import * as utils from "./utils";
 
+const buildxBuilderName = "azure-pipelines-multiplatform";
+const registryCacheTag = "buildcache";
+
 export function run(connection: ContainerConnection, outputUpdate: (data: string) => any, isBuildAndPushCommand?: boolean): any {
     // find dockerfile path
     let dockerfilepath = tl.getInput("Dockerfile", true);
@@ -18,6 +21,12 @@ export function run(connection: ContainerConnection, outputUpdate: (data: string
         throw new Error(tl.loc('ContainerDockerFileNotFound', dockerfilepath));
     }
 
+    // lint before spending the time on the build
+    if (tl.getBoolInput("lintDockerfile")) {
+        let dockerlint = require("./dockerlint");
+        dockerlint.lintDockerFile(dockerFile);
+    }
+
     // get command arguments
     // ignore the arguments input if the command is buildAndPush, as it is ambiguous
     let commandArguments = isBuildAndPushCommand ? "" : dockerCommandUtils.getCommandArguments(tl.getInput("arguments", false));
@@ -38,8 +47,9 @@ export function run(connection: ContainerConnection, outputUpdate: (data: string
     }
 
     const addPipelineData = tl.getBoolInput("addPipelineData");
+    const addOciLabels = tl.getBoolInput("addOciLabels");
     // get label arguments
-    let labelArguments = pipelineUtils.getDefaultLabels(addPipelineData);
+    let labelArguments = pipelineUtils.getDefaultLabels(addPipelineData, addOciLabels);
 
     // get tags input
     let tagsInput = tl.getInput("tags");
@@ -64,9 +74,77 @@ export function run(connection: ContainerConnection, outputUpdate: (data: string
         tl.debug(tl.loc('NotAddingAnyTagsToBuild'));
     }
 
+    const platforms = getPlatforms();
+    if (platforms.length > 0) {
+        return buildMultiPlatformImage(connection, dockerFile, commandArguments, labelArguments, tagArguments, imageNames, tags, platforms, isBuildAndPushCommand, outputUpdate);
+    }
+
     let output = "";
     return dockerCommandUtils.build(connection, dockerFile, commandArguments, labelArguments, tagArguments, (data) => output += data).then(() => {
         let taskOutputPath = utils.writeTaskOutput("build", output);
         outputUpdate(taskOutputPath);
     });
 }
+
+export function getPlatforms(): string[] {
+    let platformsInput = tl.getInput("platforms");
+    let platforms = platformsInput ? platformsInput.split(/[\n,]+/) : [];
+    return platforms.map(platform => platform.trim()).filter(platform => !!platform);
+}
+
+function buildMultiPlatformImage(connection: ContainerConnection, dockerFile: string, commandArguments: string, labelArguments: string[], tagArguments: string[], imageNames: string[], tags: string[], platforms: string[], isBuildAndPushCommand: boolean, outputUpdate: (data: string) => any): any {
+    let push = isBuildAndPushCommand && imageNames && imageNames.length > 0;
+    if (isBuildAndPushCommand && !push) {
+        tl.debug(tl.loc('NotPushingAsNoLoginFound'));
+    }
+    else if (!push && platforms.length > 1) {
+        tl.warning(tl.loc('MultiPlatformImageNotLoaded', platforms.join(",")));
+    }
+
+    let output = "";
+    return dockerCommandUtils.createBuildxBuilder(connection, buildxBuilderName).then(() => {
+        let cacheArguments = getCacheArguments(imageNames);
+        return dockerCommandUtils.buildx(connection, buildxBuilderName, dockerFile, commandArguments, labelArguments, tagArguments, platforms, cacheArguments.cacheFrom, cacheArguments.cacheTo, push, (data) => output += data);
+    }).then(() => {
+        let taskOutputPath = utils.writeTaskOutput("build", output);
+        outputUpdate(taskOutputPath);
+        if (push) {
+            // the images are pushed by buildx, so only the image metadata is left to publish
+            let dockerpush = require("./dockerpush");
+            return dockerpush.publishMultiPlatformImages(connection, imageNames, tags, dockerFile).then(() => {
+                return dockerpush.publishSboms(imageNames, tags, platforms);
+            });
+        }
+    });
+}
+
+function getCacheArguments(imageNames: string[]): { cacheFrom: string, cacheTo: string } {
+    let cacheType = (tl.getInput("cacheType") || "none").toLowerCase();
+    let cacheLocation = tl.getInput("cacheLocation");
+    switch (cacheType) {
+        case "registry":
+            if (!cacheLocation) {
+                if (!imageNames || imageNames.length === 0) {
+                    throw new Error(tl.loc('CacheLocationRequired', cacheType));
+                }
+
+                cacheLocation = imageNames[0] + ":" + registryCacheTag;
+            }
+
+            return {
+                cacheFrom: "type=registry,ref=" + cacheLocation,
+                cacheTo: "type=registry,ref=" + cacheLocation + ",mode=max"
+            };
+        case "local":
+            if (!cacheLocation) {
+                throw new Error(tl.loc('CacheLocationRequired', cacheType));
+            }
+
+            return {
+                cacheFrom: "type=local,src=" + cacheLocation,
+                cacheTo: "type=local,dest=" + cacheLocation + ",mode=max"
+            };
+        default:
+            return { cacheFrom: null, cacheTo: null };
+    }
+}
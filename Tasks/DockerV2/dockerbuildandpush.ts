@@ -13,6 +13,13 @@ export function run(connection: ContainerConnection, outputUpdate: (data: string
     let dockerpush = require("./dockerpush");
 
     let outputPaths = "";
+    // a multi-platform image is pushed by buildx during the build
+    if (dockerbuild.getPlatforms().length > 0) {
+        return dockerbuild.run(connection, (outputPath) => outputPaths += outputPath, true).then(() => {
+            outputUpdate(outputPaths);
+        });
+    }
+
     let promise = dockerbuild.run(connection, (outputPath) => outputPaths += outputPath, true).then(() => {
         return dockerpush.run(connection, (outputPath) => outputPaths += ("\n" + outputPath), true).then(() => {
             outputUpdate(outputPaths);
@@ -0,0 +1,36 @@
+"use strict";
+
+import * as tl from "azure-pipelines-task-lib/task";
+import ContainerConnection from "docker-common-v2/containerconnection";
+import * as dockerFileLinter from "docker-common-v2/dockerfilelinter";
+import * as fileUtils from "docker-common-v2/fileutils";
+import * as utils from "./utils";
+
+import Q = require('q');
+
+export function run(connection: ContainerConnection, outputUpdate: (data: string) => any): any {
+    return Q.fcall(() => {
+        // find dockerfile path
+        let dockerfilepath = tl.getInput("Dockerfile", true);
+        let dockerFile = fileUtils.findDockerFile(dockerfilepath);
+        if (!tl.exist(dockerFile)) {
+            throw new Error(tl.loc('ContainerDockerFileNotFound', dockerfilepath));
+        }
+
+        let output = lintDockerFile(dockerFile);
+        let taskOutputPath = utils.writeTaskOutput("lint", output);
+        outputUpdate(taskOutputPath);
+    });
+}
+
+// Fails when a finding has the error severity, returns the findings one per line otherwise.
+export function lintDockerFile(dockerFile: string): string {
+    let ruleSeverities = dockerFileLinter.getRuleSeverities(tl.getInput("lintRules"));
+    let findings = dockerFileLinter.lintDockerFile(dockerFile, ruleSeverities);
+    let errorCount = findings.filter(finding => finding.severity === dockerFileLinter.LintSeverity.error).length;
+    if (errorCount > 0) {
+        throw new Error(tl.loc('LintFailed', errorCount));
+    }
+
+    return findings.map(finding => `${dockerFile}:${finding.lineNumber}: ${finding.severity}: ${finding.rule}: ${finding.message}`).join("\n");
+}
@@ -9,10 +9,13 @@ import { findDockerFile } from "docker-common-v2/fileutils";
 import { WebRequest, WebResponse, sendRequest } from 'utility-common-v2/restutilities';
 import { getBaseImageName, getResourceName, getBaseImageNameFromDockerFile } from "docker-common-v2/containerimageutils";
 import * as pipelineUtils from "docker-common-v2/pipelineutils";
+import * as sbomUtils from "docker-common-v2/sbomutils";
 
 import Q = require('q');
 
 const matchPatternForDigestAndSize = new RegExp(/sha256\:([\w]+)(\s+)size\:\s([\w]+)/);
+const matchPatternForManifestDigest = new RegExp(/Digest\:\s+sha256\:([\w]+)/);
+const matchPatternForManifestMediaType = new RegExp(/MediaType\:\s+(\S+)/);
 let publishMetadataResourceIds: string[] = [];
 
 function pushMultipleImages(connection: ContainerConnection, imageNames: string[], tags: string[], commandArguments: string, onCommandOut: (image, output) => any): any {
@@ -120,6 +123,7 @@ export function run(connection: ContainerConnection, outputUpdate: (data: string
         promise = promise.then(() => {
             let taskOutputPath = utils.writeTaskOutput("push", output);
             outputUpdate(taskOutputPath);
+            return publishSboms(imageNames, tags, []);
         });
     }
     else {
@@ -130,10 +134,58 @@ export function run(connection: ContainerConnection, outputUpdate: (data: string
     return promise;
 }
 
+export function publishMultiPlatformImages(connection: ContainerConnection, imageNames: string[], tags: string[], dockerFilePath: string): any {
+    let promise = Q.resolve(null);
+    imageNames.forEach(imageName => {
+        // all the tags point to the same manifest list
+        let image = tags && tags.length > 0 ? imageName + ":" + tags[0] : imageName;
+        let output = "";
+        promise = promise.then(() => {
+            return dockerCommandUtils.getImageManifest(connection, image, (data) => output += data);
+        }).then(() => {
+            let digest = extractDigestFromOutput(output, matchPatternForManifestDigest);
+            let mediaTypeMatch = output.match(matchPatternForManifestMediaType);
+            let mediaType = mediaTypeMatch ? mediaTypeMatch[1] : "";
+            tl.debug("outputImageName: " + image + "\n" + "manifest: " + output + "\n" + "digest:" + digest);
+            return publishImageDetails(image, tags, digest, dockerFilePath, [], "", {}, mediaType);
+        }).then((result) => {
+            tl.debug("ImageDetailsApiResponse: " + JSON.stringify(result));
+        }, (error) => {
+            tl.warning("publishToImageMetadataStore failed with error: " + error);
+        });
+    });
+
+    return promise;
+}
+
+export function publishSboms(imageNames: string[], tags: string[], platforms: string[]): any {
+    let sbomFormat = (tl.getInput("sbomFormat") || "none").toLowerCase();
+    if (sbomFormat === "none") {
+        return Q.resolve(null);
+    }
+
+    let sbomDirectory = utils.getSbomDirectory();
+    let artifactName = tl.getInput("sbomArtifactName") || "sbom";
+    let promise = Q.resolve(null);
+    imageNames.forEach(imageName => {
+        let image = tags && tags.length > 0 ? imageName + ":" + tags[0] : imageName;
+        // a multi-platform image gets an SBOM per platform
+        let imagePlatforms: string[] = platforms.length > 0 ? platforms : [null];
+        imagePlatforms.forEach(platform => {
+            promise = promise.then(() => {
+                return sbomUtils.generateSbom(image, sbomFormat, sbomDirectory, platform);
+            }).then((sbomPath: string) => {
+                console.log(tl.loc('SbomGenerated', image + (platform ? " " + platform : ""), sbomPath));
+                sbomUtils.uploadSbom(sbomPath, artifactName);
+            });
+        });
+    });
+
+    return promise;
+}
+
 async function publishToImageMetadataStore(connection: ContainerConnection, imageName: string, tags: string[], digest: string, dockerFilePath: string): Promise<any> {
     // Getting imageDetails
-    const imageUri = getResourceName(imageName, digest);
-    const baseImageName = dockerFilePath ? getBaseImageNameFromDockerFile(dockerFilePath) : "NA";
     const history = await dockerCommandUtils.getHistory(connection, imageName);
     if (!history) {
         return null;
@@ -152,6 +204,13 @@ async function publishToImageMetadataStore(connection: ContainerConnection, imag
         imageFingerPrint = dockerCommandUtils.getImageFingerPrint(imageRootfsLayers, v1Name);
     }
 
+    return publishImageDetails(imageName, tags, digest, dockerFilePath, layers, imageSize, imageFingerPrint, "");
+}
+
+function publishImageDetails(imageName: string, tags: string[], digest: string, dockerFilePath: string, layers: { [key: string]: string }[], imageSize: string, imageFingerPrint: { [key: string]: string | string[] }, mediaType: string): Promise<any> {
+    const imageUri = getResourceName(imageName, digest);
+    const baseImageName = dockerFilePath ? getBaseImageNameFromDockerFile(dockerFilePath) : "NA";
+
     // Getting pipeline variables
     const build = "build";
     const hostType = tl.getVariable("System.HostType").toLowerCase();
@@ -167,7 +226,8 @@ async function publishToImageMetadataStore(connection: ContainerConnection, imag
     const revisionId = tl.getVariable("Build.SourceVersion") || "";
 
     const addPipelineData = tl.getBoolInput("addPipelineData");
-    const labelArguments = pipelineUtils.getDefaultLabels(addPipelineData);
+    const addOciLabels = tl.getBoolInput("addOciLabels");
+    const labelArguments = pipelineUtils.getDefaultLabels(addPipelineData, addOciLabels);
     const buildOptions = dockerCommandUtils.getBuildAndPushArguments(dockerFilePath, labelArguments, tags);
 
     // Capture Repository data for Artifact traceability
@@ -185,7 +245,7 @@ async function publishToImageMetadataStore(connection: ContainerConnection, imag
             "baseImageName": baseImageName,
             "distance": layers.length,
             "imageType": "",
-            "mediaType": "",
+            "mediaType": mediaType,
             "tags": tags,
             "layerInfo": layers,
             "runId": runId,
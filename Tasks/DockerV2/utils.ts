@@ -24,4 +24,14 @@ export function writeTaskOutput(commandName: string, output: string): string {
     }
     
     return taskOutputPath;
-}
\ No newline at end of file
+}
+
+export function getSbomDirectory(): string {
+    let tempDirectory = tl.getVariable('agent.tempDirectory') || os.tmpdir();
+    let sbomDirectory = path.join(tempDirectory, "sbom");
+    if (!fs.existsSync(sbomDirectory)) {
+        fs.mkdirSync(sbomDirectory);
+    }
+
+    return sbomDirectory;
+}
@@ -1,16 +1,80 @@
-import fs = require('fs');
-import assert = require('assert');
-import path = require('path');
+import * as path from 'path';
+import * as assert from 'assert';
+import * as ttm from 'azure-pipelines-task-lib/mock-test';
 
 describe('FileTransformV2 Suite', function () {
-    before(() => {
+
+    this.timeout(60000);
+
+    it('Runs successfully with YAML variable substitution', (done: MochaDone) => {
+        let tp = path.join(__dirname, "..", "node_modules", "webdeployment-common-v2", "Tests", 'L1YamlVarSub.js');
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.stdout.search('YAML - simple string change validated') > 0, 'YAML - simple string change validation error');
+        assert(tr.stdout.search('YAML - system variable elimination validated') > 0, 'YAML - system variable elimination validation error');
+        assert(tr.stdout.search('YAML - quoting validated') > 0, 'YAML - quoting validation error');
+        assert(tr.stdout.search('YAML - dotted key validated') > 0, 'YAML - dotted key validation error');
+        assert(tr.stdout.search('YAML - sequence validated') > 0, 'YAML - sequence validation error');
+        assert(tr.stdout.search('YAML - flow collection validated') > 0, 'YAML - flow collection validation error');
+        assert(tr.stdout.search('YAML - block scalar validated') > 0, 'YAML - block scalar validation error');
+        assert(tr.stdout.search('YAML - comments retained validated') > 0, 'YAML - comments retained validation error');
+        done();
     });
 
-    after(() => {
+    it('Runs successfully with properties and .env variable substitution', (done: MochaDone) => {
+        let tp = path.join(__dirname, "..", "node_modules", "webdeployment-common-v2", "Tests", 'L1PropertiesVarSub.js');
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.stdout.search('Properties - simple string change validated') > 0, 'Properties - simple string change validation error');
+        assert(tr.stdout.search('Properties - system variable elimination validated') > 0, 'Properties - system variable elimination validation error');
+        assert(tr.stdout.search('Properties - continuation and escaping validated') > 0, 'Properties - continuation and escaping validation error');
+        assert(tr.stdout.search('Properties - comments and line endings retained validated') > 0, 'Properties - comments and line endings validation error');
+        assert(tr.stdout.search('Env - simple string change validated') > 0, 'Env - simple string change validation error');
+        assert(tr.stdout.search('Env - quoting and export prefix validated') > 0, 'Env - quoting and export prefix validation error');
+        done();
     });
 
-    it('Does a basic hello world test', function(done: MochaDone) {
-        // TODO - add real tests
+    it('Runs successfully with transformation report', (done: MochaDone) => {
+        let tp = path.join(__dirname, "..", "node_modules", "webdeployment-common-v2", "Tests", 'L1FileTransformReport.js');
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.stdout.search('Report - JSON changes validated') > 0, 'Report - JSON changes validation error');
+        assert(tr.stdout.search('Report - secret values masked validated') > 0, 'Report - secret values masking validation error');
+        assert(tr.stdout.search('Report - unified diff validated') > 0, 'Report - unified diff validation error');
+        assert(tr.stdout.search('Report - files without substitution validated') > 0, 'Report - files without substitution validation error');
+        assert(tr.stdout.search('Report - diff hunks validated') > 0, 'Report - diff hunks validation error');
+        assert(tr.stdout.search('Report - large diff validated') > 0, 'Report - large diff validation error');
+        assert(tr.stdout.search('Report - embedded secret values masked validated') > 0, 'Report - embedded secret values masking validation error');
+        done();
+    });
+
+    it('Runs successfully with JSON Patch transformation', (done: MochaDone) => {
+        let tp = path.join(__dirname, "..", "node_modules", "webdeployment-common-v2", "Tests", 'L1JsonPatch.js');
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.stdout.search('JSON Patch - replace and remove validated') > 0, 'JSON Patch - replace and remove validation error');
+        assert(tr.stdout.search('JSON Patch - add validated') > 0, 'JSON Patch - add validation error');
+        assert(tr.stdout.search('JSON Patch - copy and move validated') > 0, 'JSON Patch - copy and move validation error');
+        assert(tr.stdout.search('JSON Patch - test operation validated') > 0, 'JSON Patch - test operation validation error');
+        assert(tr.stdout.search('JSONPath - filter validated') > 0, 'JSONPath - filter validation error');
+        assert(tr.stdout.search('JSONPath - slice validated') > 0, 'JSONPath - slice validation error');
+        assert(tr.stdout.search('JSONPath - recursive descent validated') > 0, 'JSONPath - recursive descent validation error');
+        assert(tr.stdout.search('JSON Patch - prototype members rejected validated') > 0, 'JSON Patch - prototype members validation error');
+        done();
+    });
+
+    it('Runs successfully with XDT transformation of mixed-case file names', (done: MochaDone) => {
+        let tp = path.join(__dirname, "..", "node_modules", "webdeployment-common-v2", "Tests", 'L1XdtTransformCase.js');
+        let tr : ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+
+        assert(tr.stdout.search('XDT - mixed-case file names matched on Windows validated') > 0, 'XDT - mixed-case file names on Windows validation error');
+        assert(tr.stdout.search('XDT - mixed-case wildcard file names matched on Windows validated') > 0, 'XDT - mixed-case wildcard file names on Windows validation error');
+        assert(tr.stdout.search('XDT - mixed-case file names not matched on Linux validated') > 0, 'XDT - mixed-case file names on Linux validation error');
         done();
     });
 });
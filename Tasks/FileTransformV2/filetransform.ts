@@ -14,19 +14,48 @@ async function main() {
     let xmlTransformationRules = tl.getDelimitedInput('xmlTransformationRules', '\n', false);
     let xmlTargetFiles = tl.getDelimitedInput('xmlTargetFiles', '\n', false);
     let jsonTargetFiles = tl.getDelimitedInput('jsonTargetFiles', '\n', false);
+    let jsonPatchRules = tl.getDelimitedInput('jsonPatchRules', '\n', false);
+    let yamlTargetFiles = tl.getDelimitedInput('yamlTargetFiles', '\n', false);
+    let propertiesTargetFiles = tl.getDelimitedInput('propertiesTargetFiles', '\n', false);
+    let envTargetFiles = tl.getDelimitedInput('envTargetFiles', '\n', false);
+    let previewOnly = tl.getBoolInput('previewOnly', false);
+    let publishReport = previewOnly || tl.getBoolInput('publishTransformationReport', false);
+    let failOnNoSubstitution = tl.getBoolInput('failOnNoSubstitution', false);
     if(xmlTransformationRules.length == 0) {
         xmlTransformation = false;
     }
 
-    if ( xmlTransformation || xmlTargetFiles.length != 0 || jsonTargetFiles.length != 0) {
+    if ( xmlTransformation || jsonPatchRules.length != 0 || xmlTargetFiles.length != 0 || jsonTargetFiles.length != 0 || yamlTargetFiles.length != 0 || propertiesTargetFiles.length != 0 || envTargetFiles.length != 0) {
         let isFolderBasedDeployment: boolean = tl.stats(packagePath).isDirectory();
-        if(!isFolderBasedDeployment) {
-            var folderPath = await deployUtility.generateTemporaryFolderForDeployment(isFolderBasedDeployment, packagePath, webPackage.getPackageType());
-            fileTransformationsUtility.enhancedFileTransformations(isFolderBasedDeployment, xmlTransformation, folderPath, xmlTransformationRules, xmlTargetFiles, jsonTargetFiles);
+        let applyFileTransformations = (folderPath: string) => {
+            if(publishReport || failOnNoSubstitution) {
+                fileTransformationsUtility.fileTransformationsWithReport(folderPath, publishReport, previewOnly, failOnNoSubstitution, () => {
+                    fileTransformationsUtility.enhancedFileTransformations(isFolderBasedDeployment, xmlTransformation, folderPath, xmlTransformationRules, xmlTargetFiles, jsonTargetFiles, yamlTargetFiles, propertiesTargetFiles, envTargetFiles, jsonPatchRules);
+                });
+            }
+            else {
+                fileTransformationsUtility.enhancedFileTransformations(isFolderBasedDeployment, xmlTransformation, folderPath, xmlTransformationRules, xmlTargetFiles, jsonTargetFiles, yamlTargetFiles, propertiesTargetFiles, envTargetFiles, jsonPatchRules);
+            }
+        };
+
+        if(previewOnly) {
+            // Transformations are applied on a temporary copy, so that the package or folder is left untouched
+            let folderPath = await deployUtility.generateTemporaryFolderForDeployment(isFolderBasedDeployment, packagePath, webPackage.getPackageType());
+            try {
+                applyFileTransformations(folderPath);
+            }
+            finally {
+                tl.rmRF(folderPath);
+            }
+            console.log(tl.loc('PreviewModeChangesNotApplied'));
+        }
+        else if(!isFolderBasedDeployment) {
+            let folderPath = await deployUtility.generateTemporaryFolderForDeployment(isFolderBasedDeployment, packagePath, webPackage.getPackageType());
+            applyFileTransformations(folderPath);
             await zipUtility.archiveFolder(folderPath, path.dirname(packagePath), path.basename(packagePath));
         }
         else {
-            fileTransformationsUtility.enhancedFileTransformations(isFolderBasedDeployment, xmlTransformation, packagePath, xmlTransformationRules, xmlTargetFiles, jsonTargetFiles);
+            applyFileTransformations(packagePath);
         }
     }
     else {
@@ -1,16 +1,208 @@
 import fs = require('fs');
 import assert = require('assert');
 import path = require('path');
+import * as ttm from 'azure-pipelines-task-lib/mock-test';
+import { fakeHostKeyFingerprint } from './mock_ftp';
 
 describe('FtpUploadV2 Suite', function () {
-    before(() => {
+    this.timeout(parseInt(process.env.TASK_TEST_TIMEOUT || '') || 20000);
+
+    // remote files written long after the local files were last modified
+    const future: string = '2100-01-01T00:00:00.000Z';
+
+    beforeEach(() => {
+        delete process.env['__remotePath__'];
+        delete process.env['__clean__'];
+        delete process.env['__syncMode__'];
+        delete process.env['__deleteExtraFiles__'];
+        delete process.env['__resumeUploads__'];
+        delete process.env['__remoteFiles__'];
+        delete process.env['__remoteFeatures__'];
+        delete process.env['__serverUrl__'];
+        delete process.env['__hostKey__'];
+        delete process.env['__privateKeyFile__'];
+        delete process.env['__credsType__'];
+    });
+
+    function runTask(): ttm.MockTestRunner {
+        const tp: string = path.join(__dirname, 'L0FtpUpload.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        tr.run();
+        return tr;
+    }
+
+    it('Uploads all files', (done: MochaDone) => {
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: mkdir /site/css') !== -1, 'should have created the remote directory');
+        assert(tr.stdout.indexOf('remote: write /site/css/site.css size 23') !== -1, 'should have uploaded site.css');
+        assert(tr.stdout.indexOf('remote: write /site/index.html size 32') !== -1, 'should have uploaded index.html');
+        done();
+    });
+
+    it('Syncs to a remote directory that does not exist yet', (done: MochaDone) => {
+        process.env['__syncMode__'] = 'true';
+        process.env['__clean__'] = 'true';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: remove /site') !== -1, 'should have cleaned the remote directory');
+        assert(tr.stdout.indexOf('remote: write /site/css/site.css size 23') !== -1, 'should have uploaded site.css');
+        assert(tr.stdout.indexOf('remote: write /site/index.html size 32') !== -1, 'should have uploaded index.html');
+        done();
+    });
+
+    it('Skips unchanged files and removes extra remote files in sync mode', (done: MochaDone) => {
+        process.env['__syncMode__'] = 'true';
+        process.env['__deleteExtraFiles__'] = 'true';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/site/index.html': { type: 'file', size: 32, modified: future },
+            '/site/css/site.css': { type: 'file', size: 10, modified: future },
+            '/site/old.txt': { type: 'file', size: 5, modified: future },
+            '/site/olddir/old.js': { type: 'file', size: 5, modified: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: write /site/index.html') === -1, 'should not have uploaded the unchanged index.html');
+        assert(tr.stdout.indexOf('skipped unchanged: ' + path.join(__dirname, 'SyncSource', 'index.html')) !== -1, 'should have reported index.html as skipped');
+        assert(tr.stdout.indexOf('remote: write /site/css/site.css size 23') !== -1, 'should have uploaded the changed site.css');
+        assert(tr.stdout.indexOf('remote: remove /site/old.txt') !== -1, 'should have removed the extra file');
+        assert(tr.stdout.indexOf('remote: remove /site/olddir') !== -1, 'should have removed the extra directory');
+        assert(tr.stdout.indexOf('remote: remove /site/olddir/old.js') === -1, 'should not have removed the contents of a removed directory');
+        assert(tr.stdout.indexOf('remote: remove /site/css') === -1, 'should have kept the directory present locally');
+        done();
+    });
+
+    it('Keeps extra remote files in sync mode unless asked to remove them', (done: MochaDone) => {
+        process.env['__syncMode__'] = 'true';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/site/old.txt': { type: 'file', size: 5, modified: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: remove') === -1, 'should not have removed remote files');
+        done();
+    });
+
+    it('Resumes partial uploads in sync mode', (done: MochaDone) => {
+        process.env['__syncMode__'] = 'true';
+        process.env['__resumeUploads__'] = 'true';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/site/index.html': { type: 'file', size: 12, modified: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: send REST 12') !== -1, 'should have restarted the transfer at the remote size');
+        assert(tr.stdout.indexOf('remote: write /site/index.html size 32 at 12') !== -1, 'should have appended the rest of index.html');
+        done();
+    });
+
+    it('Compares files by size only without MDTM in sync mode', (done: MochaDone) => {
+        process.env['__syncMode__'] = 'true';
+        process.env['__resumeUploads__'] = 'true';
+        process.env['__remoteFeatures__'] = '[]';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/site/index.html': { type: 'file', size: 32, modified: '2000-01-01T00:00:00.000Z' },
+            '/site/css/site.css': { type: 'file', size: 10, modified: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: write /site/index.html') === -1, 'should have skipped index.html with the same size');
+        assert(tr.stdout.indexOf('remote: send REST') === -1, 'should not have resumed without REST');
+        assert(tr.stdout.indexOf('remote: write /site/css/site.css size 23') !== -1, 'should have uploaded site.css');
+        done();
     });
 
-    after(() => {
+    it('Uploads all files over SFTP after verifying the host key', (done: MochaDone) => {
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com';
+        process.env['__hostKey__'] = fakeHostKeyFingerprint;
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: connected to sftp.contoso.com:22 as user') !== -1, 'should have connected over SSH on the default port');
+        assert(tr.stdout.indexOf('remote: mkdir /site/css') !== -1, 'should have created the remote directory');
+        assert(tr.stdout.indexOf('remote: write /site/css/site.css size 23') !== -1, 'should have uploaded site.css');
+        assert(tr.stdout.indexOf('remote: write /site/index.html size 32') !== -1, 'should have uploaded index.html');
+        assert(tr.warningIssues.length === 0, 'should not have warned about the host key');
+        done();
     });
 
-    it('Does a basic hello world test', function(done: MochaDone) {
-        // TODO - add real tests
+    it('Accepts a host key fingerprint without prefix over SFTP', (done: MochaDone) => {
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com:2222';
+        process.env['__hostKey__'] = fakeHostKeyFingerprint.replace('SHA256:', '') + '=';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: connected to sftp.contoso.com:2222 as user') !== -1, 'should have connected on the specified port');
+        done();
+    });
+
+    it('Authenticates with a private key over SFTP', (done: MochaDone) => {
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com';
+        process.env['__hostKey__'] = fakeHostKeyFingerprint;
+        process.env['__privateKeyFile__'] = path.join(__dirname, 'fake_key');
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: connected to sftp.contoso.com:22 as user with private key and passphrase pass') !== -1, 'should have connected with the private key');
+        done();
+    });
+
+    it('Authenticates with a private key and the service connection over SFTP', (done: MochaDone) => {
+        process.env['__credsType__'] = 'serviceEndpoint';
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com';
+        process.env['__hostKey__'] = fakeHostKeyFingerprint;
+        process.env['__privateKeyFile__'] = path.join(__dirname, 'fake_key');
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: connected to sftp.contoso.com:22 as endpointuser with private key and passphrase endpointpass') !== -1, 'should have connected with the private key and the passphrase of the service connection');
+        done();
+    });
+
+    it('Fails over SFTP when the host key does not match', (done: MochaDone) => {
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com';
+        process.env['__hostKey__'] = 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf(`loc_mock_SftpHostKeyMismatch ${fakeHostKeyFingerprint} SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8`) !== -1, 'should have reported the host key mismatch');
+        assert(tr.stdout.indexOf('remote: write') === -1, 'should not have uploaded files');
+        done();
+    });
+
+    it('Warns over SFTP when the host key is not verified', (done: MochaDone) => {
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com';
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.warningIssues.length === 1, 'should have warned about the host key');
+        assert(tr.stdout.indexOf('loc_mock_SftpHostKeyNotVerified ' + fakeHostKeyFingerprint) !== -1, 'should have reported the fingerprint to set');
+        done();
+    });
+
+    it('Skips unchanged files and removes extra remote files in sync mode over SFTP', (done: MochaDone) => {
+        process.env['__serverUrl__'] = 'sftp://sftp.contoso.com';
+        process.env['__hostKey__'] = fakeHostKeyFingerprint;
+        process.env['__syncMode__'] = 'true';
+        process.env['__deleteExtraFiles__'] = 'true';
+        process.env['__remoteFiles__'] = JSON.stringify({
+            '/site/index.html': { type: 'file', size: 32, modified: future },
+            '/site/css/site.css': { type: 'file', size: 10, modified: future },
+            '/site/olddir/old.js': { type: 'file', size: 5, modified: future }
+        });
+        const tr: ttm.MockTestRunner = runTask();
+
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('remote: write /site/index.html') === -1, 'should not have uploaded the unchanged index.html');
+        assert(tr.stdout.indexOf('remote: write /site/css/site.css size 23') !== -1, 'should have uploaded the changed site.css');
+        assert(tr.stdout.indexOf('remote: remove /site/olddir/old.js') !== -1, 'should have removed the contents of the extra directory');
+        assert(tr.stdout.indexOf('remote: remove /site/olddir') !== -1, 'should have removed the extra directory');
         done();
     });
 });
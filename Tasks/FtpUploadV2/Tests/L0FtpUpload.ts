@@ -0,0 +1,70 @@
+import fs = require('fs');
+import ma = require('azure-pipelines-task-lib/mock-answer');
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import path = require('path');
+import { RemoteFileSystem, createFakeFtpModule, createFakeSsh2Module } from './mock_ftp';
+
+const taskPath = path.join(__dirname, '..', 'ftpuploadtask.js');
+const tr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+const rootFolder: string = path.join(__dirname, 'SyncSource');
+
+tr.setInput('credsType', process.env['__credsType__'] || 'inputs');
+tr.setInput('serverEndpoint', 'FtpEndpoint');
+tr.setInput('serverUrl', process.env['__serverUrl__'] || 'ftp://ftp.contoso.com');
+tr.setInput('username', 'user');
+tr.setInput('password', 'pass');
+tr.setInput('rootFolder', rootFolder);
+tr.setInput('filePatterns', '**');
+tr.setInput('remotePath', process.env['__remotePath__'] || '/site');
+tr.setInput('clean', process.env['__clean__'] || 'false');
+tr.setInput('cleanContents', 'false');
+tr.setInput('preservePaths', 'true');
+tr.setInput('trustSSL', 'false');
+tr.setInput('syncMode', process.env['__syncMode__'] || 'false');
+tr.setInput('deleteExtraFiles', process.env['__deleteExtraFiles__'] || 'false');
+tr.setInput('resumeUploads', process.env['__resumeUploads__'] || 'false');
+tr.setInput('hostKey', process.env['__hostKey__'] || '');
+tr.setInput('privateKeyFile', process.env['__privateKeyFile__'] || '');
+
+const localPaths: string[] = [
+    rootFolder,
+    path.join(rootFolder, 'css'),
+    path.join(rootFolder, 'css', 'site.css'),
+    path.join(rootFolder, 'index.html')
+];
+
+const stats: any = {};
+for (const localPath of localPaths) {
+    const localStats: fs.Stats = fs.statSync(localPath);
+    stats[localPath] = {
+        isFile: localStats.isFile(),
+        isDirectory: localStats.isDirectory(),
+        size: localStats.size,
+        mtime: localStats.mtime
+    };
+}
+
+const a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
+    checkPath: {
+        [path.join(__dirname, 'fake_key')]: true
+    },
+    find: {
+        [rootFolder]: localPaths
+    },
+    stats: stats
+};
+tr.setAnswers(a);
+
+process.env['ENDPOINT_URL_FtpEndpoint'] = process.env['__serverUrl__'] || 'ftp://ftp.contoso.com';
+process.env['ENDPOINT_AUTH_FtpEndpoint'] = JSON.stringify({ scheme: 'UsernamePassword', parameters: { username: 'endpointuser', password: 'endpointpass' } });
+
+// the mock task lib does not provide the platform
+tr.registerMockExport('Platform', { Windows: 0, MacOS: 1, Linux: 2 });
+tr.registerMockExport('getPlatform', () => 2);
+
+const remote: RemoteFileSystem = new RemoteFileSystem(JSON.parse(process.env['__remoteFiles__'] || '{}'));
+const features: string[] = JSON.parse(process.env['__remoteFeatures__'] || '["MDTM", "REST"]');
+tr.registerMock('basic-ftp', createFakeFtpModule(remote, features));
+tr.registerMock('ssh2', createFakeSsh2Module(remote));
+
+tr.run();
@@ -0,0 +1,310 @@
+import crypto = require('crypto');
+import path = require('path');
+import { Readable, Writable } from 'stream';
+
+const ftp = require('basic-ftp');
+
+export interface RemoteEntry {
+    type: 'file' | 'dir';
+    size?: number;
+    modified?: string;
+}
+
+/**
+ * In-memory remote file system shared by the fake FTP and SFTP clients, keyed by absolute path.
+ * Every change is logged, so that the tests can assert on the remote operations.
+ */
+export class RemoteFileSystem {
+    public entries: { [remotePath: string]: RemoteEntry } = { '/': { type: 'dir' } };
+
+    constructor(entries: { [remotePath: string]: RemoteEntry }) {
+        for (const remotePath of Object.keys(entries)) {
+            this.entries[remotePath] = entries[remotePath];
+            for (let dir = path.posix.dirname(remotePath); dir !== '/'; dir = path.posix.dirname(dir)) {
+                this.entries[dir] = this.entries[dir] || { type: 'dir' };
+            }
+        }
+    }
+
+    public get(remotePath: string): RemoteEntry {
+        return this.entries[remotePath];
+    }
+
+    public list(dir: string): string[] {
+        return Object.keys(this.entries)
+            .filter(remotePath => remotePath !== '/' && path.posix.dirname(remotePath) === dir)
+            .sort();
+    }
+
+    public mkdir(dir: string): void {
+        console.log('remote: mkdir ' + dir);
+        this.entries[dir] = { type: 'dir' };
+    }
+
+    public remove(remotePath: string): void {
+        console.log('remote: remove ' + remotePath);
+        for (const entry of Object.keys(this.entries)) {
+            if (entry === remotePath || entry.indexOf(remotePath + '/') === 0) {
+                delete this.entries[entry];
+            }
+        }
+    }
+
+    public write(remotePath: string, size: number, offset: number): void {
+        console.log(`remote: write ${remotePath} size ${size}` + (offset > 0 ? ` at ${offset}` : ''));
+        this.entries[remotePath] = { type: 'file', size: size, modified: new Date().toISOString() };
+    }
+}
+
+function notFound(remotePath: string): Error {
+    const err: any = new Error('550 ' + remotePath + ': No such file or directory');
+    err.code = 550;
+    return err;
+}
+
+function readAll(source: Readable): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+        let size: number = 0;
+        source.on('data', (chunk: Buffer) => size += chunk.length);
+        source.once('error', reject);
+        source.once('end', () => resolve(size));
+    });
+}
+
+/**
+ * Fake of the basic-ftp client with its working directory semantics.
+ */
+export function createFakeFtpModule(remote: RemoteFileSystem, features: string[]): any {
+    class Client {
+        public ftp: any = {};
+        public prepareTransfer: (client: any) => Promise<any> = async () => ({});
+        private workingDir: string = '/';
+
+        async access(options: any): Promise<any> {
+            console.log(`remote: connected to ${options.host}:${options.port} as ${options.user}`);
+            return { message: '220 fake FTP server ready' };
+        }
+
+        async send(command: string): Promise<any> {
+            console.log('remote: send ' + command);
+            return { code: 200, message: '200 OK' };
+        }
+
+        async features(): Promise<Map<string, string>> {
+            return new Map(features.map((feature): [string, string] => [feature, '']));
+        }
+
+        async pwd(): Promise<string> {
+            return this.workingDir;
+        }
+
+        async cd(remotePath: string): Promise<any> {
+            const dir: string = this.resolve(remotePath);
+            const entry: RemoteEntry = remote.get(dir);
+            if (!entry || entry.type !== 'dir') {
+                throw notFound(dir);
+            }
+
+            this.workingDir = dir;
+            return { code: 250 };
+        }
+
+        async ensureDir(remoteDirPath: string): Promise<void> {
+            const dir: string = this.resolve(remoteDirPath);
+            let currentDir: string = '/';
+            for (const name of dir.split('/').filter(name => !!name)) {
+                currentDir = path.posix.join(currentDir, name);
+                if (!remote.get(currentDir)) {
+                    remote.mkdir(currentDir);
+                }
+            }
+
+            this.workingDir = dir;
+        }
+
+        async removeDir(remoteDirPath: string): Promise<void> {
+            const dir: string = this.resolve(remoteDirPath);
+            if (!remote.get(dir)) {
+                throw notFound(dir);
+            }
+
+            remote.remove(dir);
+            this.workingDir = path.posix.dirname(dir);
+        }
+
+        async clearWorkingDir(): Promise<void> {
+            for (const entry of remote.list(this.workingDir)) {
+                remote.remove(entry);
+            }
+        }
+
+        async list(): Promise<any[]> {
+            return remote.list(this.workingDir).map(remotePath => {
+                const entry: RemoteEntry = remote.get(remotePath);
+                const fileInfo = new ftp.FileInfo(path.posix.basename(remotePath));
+                fileInfo.type = entry.type === 'dir' ? ftp.FileType.Directory : ftp.FileType.File;
+                fileInfo.size = entry.size || 0;
+                return fileInfo;
+            });
+        }
+
+        async lastMod(remotePath: string): Promise<Date> {
+            const entry: RemoteEntry = remote.get(this.resolve(remotePath));
+            if (!entry) {
+                throw notFound(remotePath);
+            }
+
+            return new Date(entry.modified || 0);
+        }
+
+        async remove(remotePath: string): Promise<any> {
+            const file: string = this.resolve(remotePath);
+            if (!remote.get(file)) {
+                throw notFound(file);
+            }
+
+            remote.remove(file);
+            return { code: 250 };
+        }
+
+        async upload(source: Readable, remotePath: string): Promise<any> {
+            // a resumed upload sends REST while preparing the transfer
+            let offset: number = 0;
+            const send = this.send;
+            this.send = async (command: string) => {
+                if (command.indexOf('REST ') === 0) {
+                    offset = parseInt(command.substring(5));
+                }
+                return send.call(this, command);
+            };
+            try {
+                await this.prepareTransfer(this);
+            } finally {
+                this.send = send;
+            }
+
+            const size: number = await readAll(source);
+            remote.write(this.resolve(remotePath), offset + size, offset);
+            return { code: 226 };
+        }
+
+        trackProgress(handler: any): void {
+        }
+
+        close(): void {
+        }
+
+        private resolve(remotePath: string): string {
+            return path.posix.resolve(this.workingDir, remotePath);
+        }
+    }
+
+    return {
+        Client: Client,
+        FileInfo: ftp.FileInfo,
+        FileType: ftp.FileType
+    };
+}
+
+/**
+ * SHA256 fingerprint of the host key presented by the fake SFTP server.
+ */
+export const fakeHostKeyFingerprint: string = 'SHA256:' + crypto.createHash('sha256').update('fake host key').digest('base64').replace(/=+$/, '');
+
+function createFakeStats(entry: RemoteEntry): any {
+    return {
+        size: entry.size || 0,
+        mtime: Math.floor(new Date(entry.modified || 0).getTime() / 1000),
+        isDirectory: () => entry.type === 'dir',
+        isFile: () => entry.type === 'file',
+        isSymbolicLink: () => false
+    };
+}
+
+/**
+ * Fake of the ssh2 client with its SFTP session, which verifies the host key like the real client.
+ */
+export function createFakeSsh2Module(remote: RemoteFileSystem): any {
+    function call(callback: (err?: any, result?: any) => void, action: () => any): void {
+        let result: any;
+        try {
+            result = action();
+        } catch (err) {
+            process.nextTick(() => callback(err));
+            return;
+        }
+        process.nextTick(() => callback(undefined, result));
+    }
+
+    function getEntry(remotePath: string): RemoteEntry {
+        const entry: RemoteEntry = remote.get(remotePath);
+        if (!entry) {
+            throw notFound(remotePath);
+        }
+
+        return entry;
+    }
+
+    const sftp: any = {
+        realpath: (remotePath: string, callback: any) => call(callback, () => '/'),
+        stat: (remotePath: string, callback: any) => call(callback, () => createFakeStats(getEntry(remotePath))),
+        mkdir: (remotePath: string, callback: any) => call(callback, () => remote.mkdir(remotePath)),
+        rmdir: (remotePath: string, callback: any) => call(callback, () => remote.remove(getEntry(remotePath) && remotePath)),
+        unlink: (remotePath: string, callback: any) => call(callback, () => remote.remove(getEntry(remotePath) && remotePath)),
+        readdir: (remotePath: string, callback: any) => call(callback, () => {
+            getEntry(remotePath);
+            return remote.list(remotePath).map(entry => ({
+                filename: path.posix.basename(entry),
+                attrs: createFakeStats(remote.get(entry))
+            }));
+        }),
+        createWriteStream: (remotePath: string, options: { flags: string, start: number }) => {
+            let size: number = 0;
+            return new Writable({
+                write: (chunk: Buffer, encoding: string, callback: () => void) => {
+                    size += chunk.length;
+                    callback();
+                },
+                final: (callback: () => void) => {
+                    remote.write(remotePath, options.start + size, options.start);
+                    callback();
+                }
+            });
+        },
+        end: () => { }
+    };
+
+    class Client {
+        private listeners: { [event: string]: (arg?: any) => void } = {};
+
+        once(event: string, listener: (arg?: any) => void): Client {
+            this.listeners[event] = listener;
+            return this;
+        }
+
+        on(event: string, listener: (arg?: any) => void): Client {
+            return this.once(event, listener);
+        }
+
+        connect(config: any): void {
+            console.log(`remote: connected to ${config.host}:${config.port} as ${config.username}` + (config.privateKey ? ' with private key' + (config.passphrase ? ' and passphrase ' + config.passphrase : '') : ''));
+            const hostKeyHash: string = crypto.createHash(config.hostHash).update('fake host key').digest('hex');
+            process.nextTick(() => {
+                if (config.hostVerifier && !config.hostVerifier(hostKeyHash)) {
+                    this.listeners['error'](new Error('Host denied (verification failed)'));
+                } else {
+                    this.listeners['ready']();
+                }
+            });
+        }
+
+        sftp(callback: (err: any, sftp: any) => void): void {
+            process.nextTick(() => callback(undefined, sftp));
+        }
+
+        end(): void {
+        }
+    }
+
+    return { Client: Client };
+}
@@ -5,6 +5,7 @@ import * as os from "os";
 import * as path from "path";
 import * as url from "url";
 import { MatchOptions } from "azure-pipelines-task-lib/task";
+import { RemoteClient, SftpClient } from "./sftpclient";
 
 interface FtpOptions {
     // url
@@ -13,6 +14,8 @@ interface FtpOptions {
     // credentials
     username: string;
     password: string;
+    privateKey?: string;
+    hostKey?: string;
 
     // other standard options
     rootFolder: string;
@@ -26,11 +29,24 @@ interface FtpOptions {
     trustSSL: boolean;
     enableUtf8: boolean;
     customCmds: string[];
+
+    // sync options
+    syncMode: boolean;
+    deleteExtraFiles: boolean;
+    resumeUploads: boolean;
+}
+
+interface RemoteFeatures {
+    mdtm: boolean;
+    rest: boolean;
 }
 
 class ProgressTracker {
     progressFilesUploaded: number = 0;
     progressDirectoriesProcessed: number = 0;
+    progressFilesSkipped: number = 0;
+    progressFilesResumed: number = 0;
+    progressFilesDeleted: number = 0;
 
     constructor(private ftpOptions: FtpOptions, private fileCount: number) {
         this.ftpOptions = ftpOptions;
@@ -49,12 +65,32 @@ class ProgressTracker {
         this.printProgress("successfully uploaded: " + file + " to: " + remoteFile);
     }
 
+    fileResumed(file: string, remoteFile: string): void {
+        this.progressFilesUploaded++;
+        this.progressFilesResumed++;
+        this.printProgress("successfully resumed upload: " + file + " to: " + remoteFile);
+    }
+
+    fileSkipped(file: string, remoteFile: string): void {
+        this.progressFilesSkipped++;
+        this.printProgress("skipped unchanged: " + file + " at: " + remoteFile);
+    }
+
+    remoteFileDeleted(remoteFile: string): void {
+        this.progressFilesDeleted++;
+        this.printProgress("removed remote file or directory not present locally: " + remoteFile);
+    }
+
+    getProcessedCount(): number {
+        return this.progressFilesUploaded + this.progressFilesSkipped + this.progressDirectoriesProcessed;
+    }
+
     printProgress(message: string): void {
-        const total: number =
-            this.progressFilesUploaded + this.progressDirectoriesProcessed;
+        const total: number = this.getProcessedCount();
         const remaining: number = this.fileCount - total;
         console.log(
             "files uploaded: " + this.progressFilesUploaded +
+            (this.ftpOptions.syncMode ? ", files skipped: " + this.progressFilesSkipped : "") +
             ", directories processed: " + this.progressDirectoriesProcessed +
             ", total: " + total +
             ", remaining: " + remaining +
@@ -63,18 +99,25 @@ class ProgressTracker {
     }
 
     getSuccessStatusMessage(): string {
-        return (
+        let message: string =
             os.EOL + "host: " + this.ftpOptions.serverEndpointUrl.host +
             os.EOL + "path: " + this.ftpOptions.remotePath +
             os.EOL + "files uploaded: " + this.progressFilesUploaded +
-            os.EOL + "directories processed: " + this.progressDirectoriesProcessed
-        );
+            os.EOL + "directories processed: " + this.progressDirectoriesProcessed;
+
+        if (this.ftpOptions.syncMode) {
+            message +=
+                os.EOL + "files skipped: " + this.progressFilesSkipped +
+                os.EOL + "files resumed: " + this.progressFilesResumed +
+                os.EOL + "remote files & directories removed: " + this.progressFilesDeleted;
+        }
+
+        return message;
     }
 
     getFailureStatusMessage(): string {
-        const total: number =
-            this.progressFilesUploaded + this.progressDirectoriesProcessed;
-            const remaining: number = this.fileCount - total;
+        const total: number = this.getProcessedCount();
+        const remaining: number = this.fileCount - total;
         return (
             this.getSuccessStatusMessage() + os.EOL + "unprocessed files & directories: " + remaining
         );
@@ -163,6 +206,12 @@ function getFtpOptions(): FtpOptions {
     let serverEndpointUrl: url.UrlWithStringQuery;
     let username: string;
     let password: string;
+    let privateKey: string | undefined;
+
+    // with key-based authentication (SFTP only), the password is the passphrase of the private key
+    if (tl.filePathSupplied("privateKeyFile")) {
+        privateKey = fs.readFileSync(tl.getPathInput("privateKeyFile", true, true), "utf8");
+    }
 
     if (tl.getInput("credsType") === "serviceEndpoint") {
         // server endpoint
@@ -181,13 +230,15 @@ function getFtpOptions(): FtpOptions {
         // user entered credentials directly
         serverEndpointUrl = url.parse(tl.getInput("serverUrl", true));
         username = tl.getInput("username", true);
-        password = tl.getInput("password", true);
+        password = tl.getInput("password", !privateKey);
     }
 
     return {
         serverEndpointUrl: serverEndpointUrl,
         username: username,
         password: password,
+        privateKey: privateKey,
+        hostKey: tl.getInput("hostKey", false),
 
         // other standard options
         rootFolder: tl.getPathInput("rootFolder", true),
@@ -200,10 +251,120 @@ function getFtpOptions(): FtpOptions {
         preservePaths: tl.getBoolInput("preservePaths", true),
         trustSSL: tl.getBoolInput("trustSSL", true),
         enableUtf8: tl.getBoolInput("enableUtf8", false),
-        customCmds: tl.getDelimitedInput("customCmds", "\n", false)
+        customCmds: tl.getDelimitedInput("customCmds", "\n", false),
+
+        // sync options
+        syncMode: tl.getBoolInput("syncMode", false),
+        deleteExtraFiles: tl.getBoolInput("deleteExtraFiles", false),
+        resumeUploads: tl.getBoolInput("resumeUploads", false)
     };
 }
 
+/**
+ * Returns the path of the file relative to the remote directory, always with forward slashes.
+ */
+function getRelativeRemotePath(ftpOptions: FtpOptions, file: string): string {
+    const relativePath: string = ftpOptions.preservePaths
+        ? file.substring(ftpOptions.rootFolder.length)
+        : path.basename(file);
+
+    return relativePath.replace(/\\/gi, "/").replace(/^\/+/, "");
+}
+
+/**
+ * Lists the files and directories under the remote directory, keyed by their path relative to it.
+ * Subdirectories are only listed when recursive is set. A remote directory that does not exist yet has no files.
+ * The working directory is restored afterwards, as the remote paths of the upload are relative to it.
+ */
+async function listRemoteFiles(ftpClient: RemoteClient, remotePath: string, recursive: boolean): Promise<Map<string, ftp.FileInfo>> {
+    const remoteFiles: Map<string, ftp.FileInfo> = new Map();
+    const workingDir: string = await ftpClient.pwd();
+    try {
+        try {
+            await ftpClient.cd(remotePath);
+        } catch (err) {
+            if (!isNotFoundError(err)) {
+                throw err;
+            }
+
+            tl.debug("remote directory does not exist yet: " + remotePath);
+            return remoteFiles;
+        }
+
+        // subdirectories are entered by their absolute path
+        const remoteRoot: string = await ftpClient.pwd();
+        const listDirectory = async (relativeDir: string) => {
+            await ftpClient.cd(path.posix.join(remoteRoot, relativeDir));
+            const entries: ftp.FileInfo[] = await ftpClient.list();
+            for (const entry of entries) {
+                if (entry.name === "." || entry.name === ".." || entry.isSymbolicLink) {
+                    continue;
+                }
+
+                const relativePath: string = relativeDir ? relativeDir + "/" + entry.name : entry.name;
+                remoteFiles.set(relativePath, entry);
+                if (entry.isDirectory && recursive) {
+                    await listDirectory(relativePath);
+                }
+            }
+        };
+
+        await listDirectory("");
+        return remoteFiles;
+    } finally {
+        await ftpClient.cd(workingDir);
+    }
+}
+
+/**
+ * FTP servers answer 550 for a missing file or directory, SFTP servers the status NO_SUCH_FILE (2).
+ */
+function isNotFoundError(err: any): boolean {
+    return !!err && (err.code === 550 || err.code === 2);
+}
+
+async function getRemoteFeatures(ftpClient: RemoteClient): Promise<RemoteFeatures> {
+    const features: Map<string, string> = await ftpClient.features();
+    return {
+        mdtm: features.has("MDTM"),
+        rest: features.has("REST")
+    };
+}
+
+/**
+ * Uploads the file starting at the given offset, appending to the partially uploaded remote file.
+ */
+async function resumeUpload(remoteClient: RemoteClient, file: string, remoteFile: string, offset: number): Promise<void> {
+    if (remoteClient instanceof SftpClient) {
+        await remoteClient.upload(fs.createReadStream(file, { start: offset }), remoteFile, offset);
+        return;
+    }
+
+    const ftpClient = remoteClient as ftp.Client;
+    const prepareTransfer: ftp.TransferStrategy = ftpClient.prepareTransfer;
+    const prepareResumedTransfer: ftp.TransferStrategy = async (client: ftp.Client) => {
+        const response = await prepareTransfer(client);
+        // REST has to be sent right before STOR, after the data connection is prepared
+        await client.send("REST " + offset);
+        return response;
+    };
+
+    ftpClient.prepareTransfer = prepareResumedTransfer;
+    try {
+        await ftpClient.upload(fs.createReadStream(file, { start: offset }), remoteFile);
+    } finally {
+        // the transfer strategy may have been replaced by the detected one during the upload
+        if (ftpClient.prepareTransfer === prepareResumedTransfer) {
+            ftpClient.prepareTransfer = prepareTransfer;
+        }
+    }
+}
+
+function isSftp(options: FtpOptions): boolean {
+    const protocol = options.serverEndpointUrl.protocol;
+    return protocol != undefined && protocol.toLowerCase() === "sftp:";
+}
+
 function getAccessOption(options: FtpOptions): ftp.AccessOptions {
     const protocol = options.serverEndpointUrl.protocol;
     const secure: boolean = protocol != undefined ? protocol.toLowerCase() === "ftps:" : false;
@@ -211,7 +372,7 @@ function getAccessOption(options: FtpOptions): ftp.AccessOptions {
 
     const hostName: string = options.serverEndpointUrl.hostname!;
     const portStr: string = options.serverEndpointUrl.port!;
-    let port: number = 21;
+    let port: number = isSftp(options) ? 22 : 21;
     if (portStr) {
         // port not explicitly specified, use default
         port = parseInt(portStr);
@@ -229,7 +390,37 @@ function getAccessOption(options: FtpOptions): ftp.AccessOptions {
     };
 }
 
-async function getFtpClient(options: FtpOptions): Promise<ftp.Client> {
+async function getSftpClient(options: FtpOptions): Promise<SftpClient> {
+    const sftpClient = new SftpClient();
+    const accessOptions = getAccessOption(options);
+    await sftpClient.access({
+        host: accessOptions.host!,
+        port: accessOptions.port!,
+        username: options.username,
+        password: options.password,
+        privateKey: options.privateKey,
+        hostKey: options.hostKey
+    });
+    console.log(tl.loc("FTPConnected", "sftp://" + accessOptions.host));
+
+    sftpClient.trackProgress(info => {
+        console.log(
+            `File: ${info.name} Type: ${info.type} Transferred: ${info.bytes}`
+        );
+    });
+
+    if (options.customCmds.length > 0) {
+        tl.warning(tl.loc("SftpCustomCmdsIgnored"));
+    }
+
+    return sftpClient;
+}
+
+async function getFtpClient(options: FtpOptions): Promise<RemoteClient> {
+    if (isSftp(options)) {
+        return getSftpClient(options);
+    }
+
     const ftpClient = new ftp.Client();
     ftpClient.ftp.log = tl.debug;
     const accessOptions = getAccessOption(options);
@@ -277,7 +468,7 @@ async function run() {
         return;
     }
    
-    let ftpClient: ftp.Client;
+    let ftpClient: RemoteClient;
     try {
         ftpClient = await getFtpClient(ftpOptions);
     } catch (err) {
@@ -331,11 +522,33 @@ async function run() {
             }, tries);
         }
 
+        // in sync mode, list the remote files to compare them with the local ones
+        let remoteFiles: Map<string, ftp.FileInfo> = new Map();
+        let remoteFeatures: RemoteFeatures = { mdtm: false, rest: false };
+        if (ftpOptions.syncMode) {
+            console.log(tl.loc("SyncListRemoteFiles", ftpOptions.remotePath));
+            await retryWithNewClient(async () => {
+                remoteFiles = await listRemoteFiles(ftpClient, ftpOptions.remotePath, ftpOptions.preservePaths);
+                remoteFeatures = await getRemoteFeatures(ftpClient);
+            }, tries);
+            tl.debug("remote files & directories found: " + remoteFiles.size);
+
+            if (!remoteFeatures.mdtm) {
+                tl.warning(tl.loc("SyncNoMdtm"));
+            }
+            if (ftpOptions.resumeUploads && !remoteFeatures.rest) {
+                tl.warning(tl.loc("SyncNoRest"));
+            }
+        }
+
         // remotely, ensure we are in remote path
         await retryWithNewClient(async () => {
             await ftpClient.ensureDir(ftpOptions.remotePath);
         }, tries);
 
+        // relative paths of all uploaded and skipped files & directories, used to find remote files to remove
+        const localPaths: Set<string> = new Set();
+
         for (const file of files) {
             tl.debug("file: " + file);
             let remoteFile: string = ftpOptions.preservePaths
@@ -348,6 +561,12 @@ async function run() {
             remoteFile = remoteFile.replace(/\\/gi, "/"); // always use forward slashes
             tl.debug("remoteFile: " + remoteFile);
 
+            const relativePath: string = getRelativeRemotePath(ftpOptions, file);
+            for (let localPath = relativePath; localPath && localPath !== "."; localPath = path.posix.dirname(localPath)) {
+                localPaths.add(localPath);
+            }
+            const remoteFileInfo: ftp.FileInfo | undefined = remoteFiles.get(relativePath);
+
             let stats = tl.stats(file);
             if (stats.isDirectory()) {
                 await retryWithNewClient(async () => {
@@ -355,11 +574,73 @@ async function run() {
                 }, tries);
                 tracker.directoryProcessed(remoteFile);
             } else if (stats.isFile()) {
-                // upload files
-                await retryWithNewClient(async () => {
-                    await ftpClient.upload(fs.createReadStream(file), remoteFile);
-                }, tries);
-                tracker.fileUploaded(file, remoteFile);
+                let resumeOffset: number = 0;
+                if (remoteFileInfo && remoteFileInfo.isFile) {
+                    // a remote file written after the local file was last modified is up to date if the sizes match,
+                    // or a partial upload if it is smaller. MDTM has a precision of seconds.
+                    // without MDTM, files are compared by size only.
+                    let remoteIsNewer: boolean = !remoteFeatures.mdtm;
+                    if (remoteFeatures.mdtm && remoteFileInfo.size <= stats.size) {
+                        let remoteModified: Date = new Date(0);
+                        await retryWithNewClient(async () => {
+                            remoteModified = await ftpClient.lastMod(remoteFile);
+                        }, tries);
+                        remoteIsNewer = remoteModified.getTime() >= Math.floor(stats.mtime.getTime() / 1000) * 1000;
+                    }
+
+                    if (remoteIsNewer && remoteFileInfo.size === stats.size) {
+                        tracker.fileSkipped(file, remoteFile);
+                        continue;
+                    }
+
+                    if (remoteIsNewer && remoteFeatures.mdtm && ftpOptions.resumeUploads && remoteFeatures.rest && remoteFileInfo.size < stats.size) {
+                        resumeOffset = remoteFileInfo.size;
+                    }
+                }
+
+                if (resumeOffset > 0) {
+                    console.log(tl.loc("ResumeUpload", file, resumeOffset));
+                    await retryWithNewClient(async () => {
+                        await resumeUpload(ftpClient, file, remoteFile, resumeOffset);
+                    }, tries);
+                    tracker.fileResumed(file, remoteFile);
+                } else {
+                    // upload files
+                    await retryWithNewClient(async () => {
+                        await ftpClient.upload(fs.createReadStream(file), remoteFile);
+                    }, tries);
+                    tracker.fileUploaded(file, remoteFile);
+                }
+            }
+        }
+
+        if (ftpOptions.syncMode && ftpOptions.deleteExtraFiles) {
+            // remote entries are listed parent first, so removed directories are skipped when reaching their contents
+            let removedDirectories: string[] = [];
+            for (const [relativePath, remoteFileInfo] of remoteFiles) {
+                if (localPaths.has(relativePath) || removedDirectories.some(dir => relativePath.startsWith(dir + "/"))) {
+                    continue;
+                }
+
+                // without preserved paths only files are uploaded to the remote directory, so its subdirectories are kept
+                if (remoteFileInfo.isDirectory && !ftpOptions.preservePaths) {
+                    continue;
+                }
+
+                const remoteFile: string = path.posix.join(ftpOptions.remotePath, relativePath);
+                if (remoteFileInfo.isDirectory) {
+                    console.log(tl.loc("SyncDeleteRemoteDir", remoteFile));
+                    await retryWithNewClient(async () => {
+                        await ftpClient.removeDir(remoteFile);
+                    }, tries);
+                    removedDirectories.push(relativePath);
+                } else {
+                    console.log(tl.loc("SyncDeleteRemoteFile", remoteFile));
+                    await retryWithNewClient(async () => {
+                        await ftpClient.remove(remoteFile);
+                    }, tries);
+                }
+                tracker.remoteFileDeleted(remoteFile);
             }
         }
 
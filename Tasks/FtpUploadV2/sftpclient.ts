@@ -0,0 +1,331 @@
+import * as tl from "azure-pipelines-task-lib/task";
+import * as ftp from "basic-ftp";
+import * as path from "path";
+import { Readable, Writable } from "stream";
+
+const ssh2 = require("ssh2");
+
+export interface SftpAccessOptions {
+    host: string;
+    port: number;
+    username: string;
+    password: string;
+    privateKey?: string;
+    // SHA256 fingerprint of the host key in the format printed by OpenSSH, e.g. SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8
+    hostKey?: string;
+}
+
+/**
+ * The parts of the ssh2 SSH client used by the SFTP client.
+ */
+interface SshClient {
+    once(event: "ready", listener: () => void): this;
+    once(event: "error", listener: (err: Error) => void): this;
+    on(event: "error", listener: (err: Error) => void): this;
+    connect(config: object): void;
+    sftp(callback: (err: Error | undefined, sftp: SftpSession) => void): void;
+    end(): void;
+}
+
+interface SftpStats {
+    size: number;
+    mtime: number;
+    isDirectory(): boolean;
+    isFile(): boolean;
+    isSymbolicLink(): boolean;
+}
+
+interface SftpDirEntry {
+    filename: string;
+    attrs: SftpStats;
+}
+
+type SftpCallback<T> = (err: Error | undefined, result?: T) => void;
+
+/**
+ * The parts of the ssh2 SFTP session used by the SFTP client.
+ */
+interface SftpSession {
+    realpath(remotePath: string, callback: SftpCallback<string>): void;
+    stat(remotePath: string, callback: SftpCallback<SftpStats>): void;
+    mkdir(remotePath: string, callback: SftpCallback<void>): void;
+    rmdir(remotePath: string, callback: SftpCallback<void>): void;
+    readdir(remotePath: string, callback: SftpCallback<SftpDirEntry[]>): void;
+    unlink(remotePath: string, callback: SftpCallback<void>): void;
+    createWriteStream(remotePath: string, options: { flags: string, start: number }): Writable;
+    end(): void;
+}
+
+/**
+ * Remote file operations needed by the upload, implemented by both the basic-ftp client and the SFTP client.
+ */
+export interface RemoteClient {
+    cd(remotePath: string): Promise<any>;
+    pwd(): Promise<string>;
+    ensureDir(remoteDirPath: string): Promise<void>;
+    removeDir(remoteDirPath: string): Promise<void>;
+    clearWorkingDir(): Promise<void>;
+    list(): Promise<ftp.FileInfo[]>;
+    lastMod(remotePath: string): Promise<Date>;
+    remove(remotePath: string): Promise<any>;
+    upload(source: Readable, remotePath: string): Promise<any>;
+    features(): Promise<Map<string, string>>;
+    trackProgress(handler: (info: { name: string, type: string, bytes: number }) => void): void;
+    close(): void;
+}
+
+/**
+ * SFTP client with the same working directory semantics as the basic-ftp client:
+ * relative paths are resolved against the working directory, which ensureDir and cd change.
+ */
+export class SftpClient implements RemoteClient {
+    private sshClient: SshClient | null;
+    private sftp: SftpSession | null;
+    private workingDir: string = "/";
+    private progressHandler?: (info: { name: string, type: string, bytes: number }) => void;
+
+    access(options: SftpAccessOptions): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const sshClient: SshClient = new ssh2.Client();
+            let hostKeyError: Error | undefined;
+            this.sshClient = sshClient;
+            sshClient.once("ready", () => {
+                sshClient.sftp((err: Error | undefined, sftp: SftpSession) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    this.sftp = sftp;
+                    sftp.realpath(".", (err: Error | undefined, homeDir?: string) => {
+                        if (err) {
+                            reject(err);
+                        } else {
+                            this.workingDir = homeDir!;
+                            resolve();
+                        }
+                    });
+                });
+            }).once("error", (err: Error) => {
+                // the connection fails with a generic error when the host key is rejected
+                reject(hostKeyError || err);
+            }).connect({
+                host: options.host,
+                port: options.port,
+                username: options.username,
+                password: options.privateKey ? undefined : options.password,
+                privateKey: options.privateKey,
+                passphrase: options.privateKey ? options.password : undefined,
+                hostHash: "sha256",
+                hostVerifier: (hostKeyHash: string): boolean => {
+                    const fingerprint: string = getFingerprint(hostKeyHash);
+                    if (!options.hostKey) {
+                        tl.warning(tl.loc("SftpHostKeyNotVerified", fingerprint));
+                        return true;
+                    }
+
+                    if (normalizeFingerprint(options.hostKey) !== fingerprint) {
+                        hostKeyError = new Error(tl.loc("SftpHostKeyMismatch", fingerprint, options.hostKey));
+                        return false;
+                    }
+
+                    return true;
+                }
+            });
+        });
+    }
+
+    async cd(remotePath: string): Promise<void> {
+        const dir: string = this.resolve(remotePath);
+        const stats: SftpStats = await this.call<SftpStats>((sftp, callback) => sftp.stat(dir, callback));
+        if (!stats.isDirectory()) {
+            throw new Error(tl.loc("SftpNotADirectory", dir));
+        }
+
+        this.workingDir = dir;
+    }
+
+    async pwd(): Promise<string> {
+        return this.workingDir;
+    }
+
+    async ensureDir(remoteDirPath: string): Promise<void> {
+        const dir: string = this.resolve(remoteDirPath);
+        let currentDir: string = "/";
+        for (const name of dir.split("/").filter(name => !!name)) {
+            currentDir = path.posix.join(currentDir, name);
+            try {
+                await this.call<SftpStats>((sftp, callback) => sftp.stat(currentDir, callback));
+            } catch (err) {
+                await this.call<void>((sftp, callback) => sftp.mkdir(currentDir, callback));
+            }
+        }
+
+        this.workingDir = dir;
+    }
+
+    async removeDir(remoteDirPath: string): Promise<void> {
+        const dir: string = this.resolve(remoteDirPath);
+        await this.removeContents(dir);
+        await this.call<void>((sftp, callback) => sftp.rmdir(dir, callback));
+        this.workingDir = path.posix.dirname(dir);
+    }
+
+    async clearWorkingDir(): Promise<void> {
+        await this.removeContents(this.workingDir);
+    }
+
+    async list(): Promise<ftp.FileInfo[]> {
+        const workingDir: string = this.workingDir;
+        const entries: SftpDirEntry[] = await this.call<SftpDirEntry[]>((sftp, callback) => sftp.readdir(workingDir, callback));
+        return entries
+            .filter(entry => entry.filename !== "." && entry.filename !== "..")
+            .map(entry => {
+                const fileInfo = new ftp.FileInfo(entry.filename);
+                fileInfo.size = entry.attrs.size;
+                fileInfo.date = new Date(entry.attrs.mtime * 1000).toISOString();
+                if (entry.attrs.isDirectory()) {
+                    fileInfo.type = ftp.FileType.Directory;
+                } else if (entry.attrs.isSymbolicLink()) {
+                    fileInfo.type = ftp.FileType.SymbolicLink;
+                } else if (entry.attrs.isFile()) {
+                    fileInfo.type = ftp.FileType.File;
+                }
+                return fileInfo;
+            });
+    }
+
+    async lastMod(remotePath: string): Promise<Date> {
+        const remoteFile: string = this.resolve(remotePath);
+        const stats: SftpStats = await this.call<SftpStats>((sftp, callback) => sftp.stat(remoteFile, callback));
+        return new Date(stats.mtime * 1000);
+    }
+
+    async remove(remotePath: string): Promise<void> {
+        const remoteFile: string = this.resolve(remotePath);
+        await this.call<void>((sftp, callback) => sftp.unlink(remoteFile, callback));
+    }
+
+    /**
+     * Uploads the data to the remote file. If startAt is set, the data is written at that offset of the existing file.
+     */
+    upload(source: Readable, remotePath: string, startAt: number = 0): Promise<void> {
+        if (!this.sftp) {
+            return Promise.reject(new Error(tl.loc("SftpNotConnected")));
+        }
+
+        const remoteFile: string = this.resolve(remotePath);
+        const sftp: SftpSession = this.sftp;
+        return new Promise<void>((resolve, reject) => {
+            let bytes: number = startAt;
+            const destination: Writable = sftp.createWriteStream(remoteFile, {
+                flags: startAt > 0 ? "r+" : "w",
+                start: startAt
+            });
+
+            this.reportProgress(remoteFile, bytes);
+            source.on("data", (chunk: Buffer) => {
+                bytes += chunk.length;
+            });
+            source.once("error", reject);
+            destination.once("error", reject);
+            destination.once("close", () => {
+                this.reportProgress(remoteFile, bytes);
+                resolve();
+            });
+            source.pipe(destination);
+        });
+    }
+
+    /**
+     * SFTP always provides modification times and writing at an offset, reported as the equivalent FTP features.
+     */
+    async features(): Promise<Map<string, string>> {
+        return new Map([["MDTM", ""], ["REST", "STREAM"]]);
+    }
+
+    trackProgress(handler: (info: { name: string, type: string, bytes: number }) => void): void {
+        this.progressHandler = handler;
+    }
+
+    close(): void {
+        try {
+            if (this.sftp) {
+                this.sftp.end();
+                this.sftp = null;
+            }
+        } catch (err) {
+            tl.debug("Failed to close SFTP session: " + err);
+        }
+
+        try {
+            if (this.sshClient) {
+                this.sshClient.on("error", (err: Error) => {
+                    tl.debug("sshClient: Ignoring error disconnecting: " + err);
+                });
+                this.sshClient.end();
+                this.sshClient = null;
+            }
+        } catch (err) {
+            tl.debug("Failed to close SSH client: " + err);
+        }
+    }
+
+    private async removeContents(dir: string): Promise<void> {
+        const entries: SftpDirEntry[] = await this.call<SftpDirEntry[]>((sftp, callback) => sftp.readdir(dir, callback));
+        for (const entry of entries) {
+            if (entry.filename === "." || entry.filename === "..") {
+                continue;
+            }
+
+            const entryPath: string = path.posix.join(dir, entry.filename);
+            if (entry.attrs.isDirectory()) {
+                await this.removeContents(entryPath);
+                await this.call<void>((sftp, callback) => sftp.rmdir(entryPath, callback));
+            } else {
+                await this.call<void>((sftp, callback) => sftp.unlink(entryPath, callback));
+            }
+        }
+    }
+
+    private reportProgress(name: string, bytes: number): void {
+        if (this.progressHandler) {
+            this.progressHandler({ name: name, type: "upload", bytes: bytes });
+        }
+    }
+
+    private resolve(remotePath: string): string {
+        return path.posix.resolve(this.workingDir, remotePath.replace(/\\/gi, "/"));
+    }
+
+    private call<T>(action: (sftp: SftpSession, callback: SftpCallback<T>) => void): Promise<T> {
+        if (!this.sftp) {
+            return Promise.reject(new Error(tl.loc("SftpNotConnected")));
+        }
+
+        const sftp: SftpSession = this.sftp;
+        return new Promise<T>((resolve, reject) => {
+            action(sftp, (err: Error | undefined, result?: T) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(result);
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Formats the hex encoded SHA256 hash of a host key the way OpenSSH prints fingerprints.
+ */
+function getFingerprint(hostKeyHash: string): string {
+    return "SHA256:" + Buffer.from(hostKeyHash, "hex").toString("base64").replace(/=+$/, "");
+}
+
+/**
+ * Normalizes a fingerprint copied from ssh-keygen or ssh-keyscan output, which may lack the prefix or keep the base64 padding.
+ */
+function normalizeFingerprint(fingerprint: string): string {
+    return "SHA256:" + fingerprint.trim().replace(/^SHA256:/i, "").replace(/=+$/, "");
+}
@@ -10,6 +10,8 @@ export class ChangeLogL0Tests {
         await this.validateGetChangeLog4();
         await this.validateGetChangeLog5();
         await this.validateGetChangeLog6();
+        await this.validateGetChangeLog7();
+        await this.validateGetNextVersionTag();
     }
 
     public static async validateGetChangeLog1() {
@@ -52,8 +54,33 @@ export class ChangeLogL0Tests {
         }
     }
 
+    public static async validateGetChangeLog7(){
+        let changes = await new ChangeLog().getChangeLog("endpoint", "owner/conventional", "target", 250, ChangeLogStartCommit.lastFullRelease, "conventionalCommits", null, null, true);
+
+        if (changes === this.expectedConventionalCommitsChanges) {
+            console.log(TestString.conventionalCommitsChangeLog);
+        }
+    }
+
+    public static async validateGetNextVersionTag(){
+        let changeLog = new ChangeLog();
+        let minorVersionTag = await changeLog.getNextVersionTag("endpoint", "owner/repo", [
+            { type: "feat", scope: "", description: "add array support", isBreakingChange: false },
+            { type: "fix", scope: "", description: "handle empty input", isBreakingChange: false }
+        ]);
+        let patchVersionTag = await changeLog.getNextVersionTag("endpoint", "owner/repo", [
+            { type: "fix", scope: "", description: "handle empty input", isBreakingChange: false },
+            { type: "", scope: "", description: "Update readme", isBreakingChange: false }
+        ]);
+
+        if (minorVersionTag === "v1.3.0" && patchVersionTag === "v1.2.4") {
+            console.log(TestString.getNextVersionTagKeyword);
+        }
+    }
+
     public static readonly expectedCommitBasedChanges = "\n\n## loc_mock_ChangeLogTitle:\n\n* xyz Fixing issue #56. [ #9 ]\n* abc Fixing issue #2 #3. [ #4, #5 ]\n\nThis list of changes was [auto generated](MOCK_RELEASE_URL).";
     public static readonly expectedAllIssuesChanges = "\n\n## loc_mock_ChangeLogTitle:\n\n* #1: Incorrect color contrast in control panel\n* #2: Text alignment confusing in panel\n* #3: Fixed previous minor bugs\n\nThis list of changes was [auto generated](MOCK_RELEASE_URL).";
+    public static readonly expectedConventionalCommitsChanges = "\n\n## loc_mock_ChangeLogTitle:\n\n\n### loc_mock_BreakingChangesCategory:\n\n\n* c5 rename the output option\n* c4 drop support for node 4\n\n### loc_mock_FeaturesCategory:\n\n\n* c1 **parser:** add array support [ #7 ]\n\n### loc_mock_BugFixesCategory:\n\n\n* c2 handle empty input\n\n### loc_mock_PerformanceImprovementsCategory:\n\n\n* c3 cache compiled patterns\n\n### loc_mock_DefaultCategory:\n\n\n<details><summary><b>loc_mock_SeeMoreText</b></summary>\n\n* c6 Update readme\n\nThis list of changes was [auto generated](MOCK_RELEASE_URL).</details>";
     public static readonly expectedIssueBasedChanges = "\n\n## loc_mock_ChangeLogTitle:\n\n\n### Closed UX Issues/PRs:\n\n\n* #1: Incorrect color contrast in control panel\n\n### Open Bugs:\n\n\n* #2: Text alignment confusing in panel\n* #3: Fixed previous minor bugs\n\nThis list of changes was [auto generated](MOCK_RELEASE_URL).";
     
 }
@@ -56,11 +56,29 @@ export class ChangeLogTests {
                                     "tag_name": "v1.2",
                                     "prerelease": false,
                                     "draft": false
+                                },
+                                {
+                                    "tag_name": "v1.2.3",
+                                    "prerelease": false,
+                                    "draft": false
                                 }
                             ]
                         }
                     },
-                    getCommitsList: function() {
+                    getCommitsList: function(githubEndpointToken: string, repositoryName: string) {
+                        if (repositoryName === "owner/conventional") {
+                            return {
+                                statusCode: 200,
+                                body: { "commits": [
+                                    {"sha": "c1", "commit": { "message": "feat(parser): add array support\n\nCloses #7" } },
+                                    {"sha": "c2", "commit": { "message": "fix: handle empty input" } },
+                                    {"sha": "c3", "commit": { "message": "perf: cache compiled patterns" } },
+                                    {"sha": "c4", "commit": { "message": "refactor!: drop support for node 4" } },
+                                    {"sha": "c5", "commit": { "message": "feat: rename the output option\n\nBREAKING CHANGE: the option is now called target." } },
+                                    {"sha": "c6", "commit": { "message": "Update readme" } }
+                                ] }
+                            };
+                        }
                         return {
                             statusCode: 200,
                             body: { "commits": [ 
@@ -114,6 +114,9 @@ describe('GitHubReleaseTaskTests Suite', function() {
         assert(tr.stdout.search(TestString.allIssuesChangeLog) >= 0, 'should have printed: ' + TestString.allIssuesChangeLog);
         assert(tr.stdout.search(TestString.issueBasedChangeLog) >= 0, 'should have printed: ' + TestString.issueBasedChangeLog);
         assert(tr.stdout.search(TestString.noCategoryChangeLog) >= 0, 'should have printed: ' + TestString.noCategoryChangeLog);
+        assert(tr.stdout.search(TestString.conventionalCommitsChangeLog) >= 0, 'should have printed: ' + TestString.conventionalCommitsChangeLog);
+        assert(tr.stdout.search(TestString.getNextVersionTagKeyword) >= 0, 'should have printed: ' + TestString.getNextVersionTagKeyword);
+        assert(tr.stdout.indexOf("##vso[task.setvariable variable=nextVersionTag;issecret=false;]v2.0.0") >= 0, 'should have set nextVersionTag to v2.0.0');
         assert(tr.stdout.search("Tag Name: v1.2") >=0, 'should have printed: TagName: v1.2');
         assert(tr.stdout.search("Tag Name: pre_rel") >=0, 'should have printed: TagName: pre_rel');
         assert(tr.stdout.search("Tag Name: tagName") >=0, 'should have printed: TagName: tagName');
@@ -26,4 +26,6 @@ export class TestString {
     public static readonly allIssuesChangeLog: string = "getChangeLog should generate All Issues ChangeLog";
     public static readonly issueBasedChangeLog: string = "getChangeLog should generate Issue Based ChangeLog";
     public static readonly noCategoryChangeLog: string = "ChangeLog generated should be a flatlist of issues.";
+    public static readonly conventionalCommitsChangeLog: string = "getChangeLog should generate Conventional Commits ChangeLog";
+    public static readonly getNextVersionTagKeyword: string = "getNextVersionTag method should work properly";
 }
\ No newline at end of file
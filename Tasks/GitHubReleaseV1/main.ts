@@ -118,10 +118,11 @@ class Main {
                 }
             }
 
+            const computeNextVersion: boolean = changeLogType === ChangeLogType.conventionalCommits && tl.getBoolInput(Inputs.computeNextVersion);
             const changeLogCompareToReleaseTag = tl.getInput(Inputs.changeLogCompareToReleaseTag) || undefined;
             // Generate the change log 
             // Get change log for top 250 commits only
-            changeLog = await new ChangeLog().getChangeLog(githubEndpointToken, repositoryName, target, 250, ChangeLogStartCommit[changeLogCompareToRelease], changeLogType, changeLogCompareToReleaseTag, changeLogLabels);
+            changeLog = await new ChangeLog().getChangeLog(githubEndpointToken, repositoryName, target, 250, ChangeLogStartCommit[changeLogCompareToRelease], changeLogType, changeLogCompareToReleaseTag, changeLogLabels, computeNextVersion);
         }
         // Append change log to release note
         const releaseNote: string = Utility.getReleaseNote(releaseNotesSource, releaseNotesFile, releaseNoteInput, changeLog) || undefined;
@@ -1,6 +1,7 @@
 import tl = require("azure-pipelines-task-lib/task");
 import util = require("util");
-import { Utility, GitHubAttributes, IRepositoryIssueId, Delimiters, AzureDevOpsVariables, ChangeLogStartCommit, GitHubIssueState, ChangeLogType } from "./Utility";
+import * as semver from "semver";
+import { Utility, GitHubAttributes, IRepositoryIssueId, IConventionalCommit, Delimiters, AzureDevOpsVariables, ChangeLogStartCommit, GitHubIssueState, ChangeLogType } from "./Utility";
 import { Release } from "./Release";
 import { Helper } from "./Helper";
 
@@ -16,8 +17,9 @@ export class ChangeLog {
      * @param changeLogType
      * @param changeLogCompareToReleaseTag
      * @param changeLogLabels
+     * @param computeNextVersion
      */
-    public async getChangeLog(githubEndpointToken: string, repositoryName: string, target: string, top: number, compareWithRelease: ChangeLogStartCommit, changeLogType: string, changeLogCompareToReleaseTag?: string, changeLogLabels?: any[]): Promise<string> {
+    public async getChangeLog(githubEndpointToken: string, repositoryName: string, target: string, top: number, compareWithRelease: ChangeLogStartCommit, changeLogType: string, changeLogCompareToReleaseTag?: string, changeLogLabels?: any[], computeNextVersion?: boolean): Promise<string> {
         console.log(tl.loc("ComputingChangeLog"));
 
         let release = new Release();
@@ -65,6 +67,17 @@ export class ChangeLog {
                 if (changeLogType === ChangeLogType.commitBased) {
                     return this._getCommitBasedChangeLog(commitIdToRepoIssueIdsDictionary, commitIdToMessageDictionary, repositoryName);
                 }
+                else if (changeLogType === ChangeLogType.conventionalCommits) {
+                    let commitIdToConventionalCommitDictionary: { [key: string]: IConventionalCommit } = this._getCommitIdToConventionalCommitDictionary(commitIdToMessageDictionary);
+                    tl.debug("commitIdToConventionalCommitDictionary: " + JSON.stringify(commitIdToConventionalCommitDictionary));
+
+                    if (computeNextVersion) {
+                        let nextVersionTag: string = await this.getNextVersionTag(githubEndpointToken, repositoryName, Object.keys(commitIdToConventionalCommitDictionary).map(commitId => commitIdToConventionalCommitDictionary[commitId]));
+                        tl.setVariable(this._nextVersionTagVariable, nextVersionTag);
+                    }
+
+                    return this._getConventionalCommitsChangeLog(commitIdToConventionalCommitDictionary, commitIdToRepoIssueIdsDictionary, repositoryName);
+                }
                 else {
                     let issues = new Set([]);
                     Object.keys(commitIdToRepoIssueIdsDictionary).forEach((commitId: string) => {
@@ -241,6 +254,102 @@ export class ChangeLog {
         console.log(tl.loc("ComputingChangeLogSuccess"));
         return changeLog;
     }
+    /**
+     * Generate ChangeLog grouped by the Conventional Commits type of each commit.
+     * Commits which do not follow Conventional Commits are listed under the default group.
+     * @param commitIdToConventionalCommitDictionary 
+     * @param commitIdToRepoIssueIdsDictionary 
+     * @param repositoryName 
+     */
+    private _getConventionalCommitsChangeLog(commitIdToConventionalCommitDictionary: { [key: string]: IConventionalCommit }, commitIdToRepoIssueIdsDictionary: { [key: string]: Set<string> }, repositoryName: string): string {
+        let topXChangeLog: string = ""; // where 'X' is the this._changeLogVisibleLimit.
+        let seeMoreChangeLog: string = "";
+        let index = 0;
+
+        let groupedCommitsDictionary: { [key: string]: string[] } = {};
+        groupedCommitsDictionary[this._breakingChangesGroup] = [];
+        Object.keys(this._conventionalCommitTypeToGroupDictionary).forEach((type: string) => {
+            groupedCommitsDictionary[this._conventionalCommitTypeToGroupDictionary[type]] = [];
+        });
+        groupedCommitsDictionary[this._defaultGroup] = [];
+
+        Object.keys(commitIdToConventionalCommitDictionary).forEach((commitId: string) => {
+            let conventionalCommit: IConventionalCommit = commitIdToConventionalCommitDictionary[commitId];
+            let group: string = this._defaultGroup;
+            if (conventionalCommit.isBreakingChange) {
+                group = this._breakingChangesGroup;
+            }
+            else if (!!this._conventionalCommitTypeToGroupDictionary[conventionalCommit.type]) {
+                group = this._conventionalCommitTypeToGroupDictionary[conventionalCommit.type];
+            }
+
+            // Scope is shown in bold before the description e.g. * commitId **scope:** description
+            let message: string = conventionalCommit.scope ? util.format(this._scopeFormat, conventionalCommit.scope, conventionalCommit.description) : conventionalCommit.description;
+            groupedCommitsDictionary[group].push(this._getChangeLogPerCommit(commitId, message, commitIdToRepoIssueIdsDictionary[commitId], repositoryName));
+        });
+        tl.debug("Group wise commits : " + JSON.stringify(groupedCommitsDictionary));
+
+        Object.keys(groupedCommitsDictionary).forEach((group: string) => {
+            if (groupedCommitsDictionary[group].length === 0) return;
+            let changeLogGroupTitle = util.format(this._groupTitleFormat, group);
+            if (index >= this._changeLogVisibleLimit) {
+                seeMoreChangeLog = seeMoreChangeLog + changeLogGroupTitle + Delimiters.newLine;
+            }
+            else {
+                topXChangeLog = topXChangeLog + changeLogGroupTitle + Delimiters.newLine;
+                index++;
+            }
+            groupedCommitsDictionary[group].forEach((changeLogPerCommit: string) => {
+                if (index >= this._changeLogVisibleLimit) {
+                    seeMoreChangeLog = seeMoreChangeLog + changeLogPerCommit + Delimiters.newLine;
+                }
+                else {
+                    topXChangeLog = topXChangeLog + changeLogPerCommit + Delimiters.newLine;
+                    index++;
+                }
+            });
+        });
+
+        let changeLog: string = this._generateChangeLog(topXChangeLog, seeMoreChangeLog);
+        console.log(tl.loc("ComputingChangeLogSuccess"));
+        return changeLog;
+    }
+
+    /**
+     * Returns the next semantic version tag based on the last non-draft, non-prerelease release with a semantic version tag.
+     * Breaking changes bump the major version, features bump the minor version and all other changes bump the patch version.
+     * The prefix 'v' of the last release tag is preserved.
+     * @param githubEndpointToken 
+     * @param repositoryName 
+     * @param conventionalCommits 
+     */
+    public async getNextVersionTag(githubEndpointToken: string, repositoryName: string, conventionalCommits: IConventionalCommit[]): Promise<string> {
+        console.log(tl.loc("FetchLastSemanticVersionRelease"));
+        let lastReleaseTag: string = await this.getLastReleaseTag(githubEndpointToken, repositoryName, release => !release[GitHubAttributes.draft] && !release[GitHubAttributes.preRelease] && !!semver.valid(release[GitHubAttributes.tagName]));
+
+        let nextVersionTag: string;
+        if (!lastReleaseTag) {
+            console.log(tl.loc("NoSemanticVersionRelease"));
+            nextVersionTag = this._initialVersion;
+        }
+        else {
+            let releaseType: string = "patch";
+            if (conventionalCommits.some(conventionalCommit => conventionalCommit.isBreakingChange)) {
+                releaseType = "major";
+            }
+            else if (conventionalCommits.some(conventionalCommit => conventionalCommit.type === this._featureType)) {
+                releaseType = "minor";
+            }
+
+            tl.debug("last release tag: " + lastReleaseTag + "; release type: " + releaseType);
+            let prefix: string = lastReleaseTag.startsWith(this._versionPrefix) ? this._versionPrefix : "";
+            nextVersionTag = prefix + semver.inc(lastReleaseTag, releaseType);
+        }
+
+        console.log(tl.loc("NextVersionTag", nextVersionTag, lastReleaseTag || ""));
+        return nextVersionTag;
+    }
+
     /**
      * Returns the start commit needed to compute ChangeLog.
      * @param githubEndpointToken 
@@ -439,6 +548,42 @@ export class ChangeLog {
         return commitIdToMessageDictionary;
     }
 
+    /**
+     * Returns a dictionary of { commitId to parsed Conventional Commits message }.
+     * @param commitIdToMessageDictionary 
+     */
+    private _getCommitIdToConventionalCommitDictionary(commitIdToMessageDictionary: { [key: string]: string }): { [key: string]: IConventionalCommit } {
+        let commitIdToConventionalCommitDictionary: { [key: string]: IConventionalCommit } = {};
+
+        Object.keys(commitIdToMessageDictionary).forEach((commitId: string) => {
+            commitIdToConventionalCommitDictionary[commitId] = this._parseConventionalCommit(commitIdToMessageDictionary[commitId]);
+        });
+
+        return commitIdToConventionalCommitDictionary;
+    }
+
+    /**
+     * Parses a commit message of the format: type(scope)!: description, followed by an optional body and footers.
+     * A '!' after the type/scope or a 'BREAKING CHANGE:' footer marks a breaking change.
+     * Messages which do not follow the format are returned with an empty type and the first line as description.
+     * @param message 
+     */
+    private _parseConventionalCommit(message: string): IConventionalCommit {
+        let firstLine: string = Utility.getFirstLine(message);
+        let match = this._conventionalCommitHeaderRegex.exec(firstLine);
+
+        if (!match) {
+            return { type: "", scope: "", description: firstLine, isBreakingChange: false };
+        }
+
+        return {
+            type: match[1].toLowerCase(),
+            scope: match[2] || "",
+            description: match[4],
+            isBreakingChange: !!match[3] || this._breakingChangeFooterRegex.test(message)
+        };
+    }
+
     /**
      * Returns a dictionary of { commitId to repoIssueIds }.
      * @param commitIdToMessageDictionary 
@@ -692,6 +837,19 @@ export class ChangeLog {
     private readonly _seeMoreText: string = tl.loc("SeeMoreText");
     private readonly _noStateSpecified: string = "none";
     private readonly _defaultGroup: string = tl.loc("DefaultCategory");
+    private readonly _breakingChangesGroup: string = tl.loc("BreakingChangesCategory");
+    private readonly _conventionalCommitTypeToGroupDictionary: { [key: string]: string } = {
+        "feat": tl.loc("FeaturesCategory"),
+        "fix": tl.loc("BugFixesCategory"),
+        "perf": tl.loc("PerformanceImprovementsCategory")
+    };
+    private readonly _featureType: string = "feat";
+    private readonly _conventionalCommitHeaderRegex = new RegExp("^([a-zA-Z]+)(?:\\(([^()]+)\\))?(!)?: *(.+)$");
+    private readonly _breakingChangeFooterRegex = new RegExp("^BREAKING[ -]CHANGE: ", "m");
+    private readonly _scopeFormat: string = "**%s:** %s";
+    private readonly _initialVersion: string = "1.0.0";
+    private readonly _versionPrefix: string = "v";
+    private readonly _nextVersionTagVariable: string = "nextVersionTag";
     private readonly _changeLogVisibleLimit: number = 10;
     private readonly _changeLogTitleFormat: string = "\n\n## %s:\n\n";
     private readonly _groupTitleFormat: string = "\n### %s:\n\n";
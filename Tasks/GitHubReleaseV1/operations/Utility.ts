@@ -233,7 +233,8 @@ export class Utility {
 
     public static validateChangeLogType(changeLogType: string) {
         if (changeLogType.toUpperCase() !== ChangeLogType.issueBased.toUpperCase() 
-        && changeLogType.toUpperCase() !== ChangeLogType.commitBased.toUpperCase() ) {
+        && changeLogType.toUpperCase() !== ChangeLogType.commitBased.toUpperCase()
+        && changeLogType.toUpperCase() !== ChangeLogType.conventionalCommits.toUpperCase()) {
         throw new Error(tl.loc("InvalidChangeLogTypeAttribute", changeLogType));
     }
     }
@@ -292,6 +293,7 @@ export enum ChangeLogStartCommit{
 export class ChangeLogType{
     public static readonly issueBased = "issueBased";
     public static readonly commitBased = "commitBased";
+    public static readonly conventionalCommits = "conventionalCommits";
 }
 class ReleaseNotesSelectionMode {
     public static readonly inline = "inline";
@@ -350,6 +352,13 @@ export interface IRepositoryIssueId {
     issueId: string;
 }
 
+export interface IConventionalCommit {
+    type: string;
+    scope: string;
+    description: string;
+    isBreakingChange: boolean;
+}
+
 export class Delimiters {
     public static readonly newLine: string = "\n";
     public static readonly hash: string = "#";
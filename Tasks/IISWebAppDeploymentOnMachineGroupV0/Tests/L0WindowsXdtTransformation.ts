@@ -16,8 +16,7 @@ process.env['SYSTEM_DEBUG'] = false;
 let a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
     "which": {
         "cmd": "cmd",
-        "msdeploy": "msdeploy",
-        "DefaultWorkingDirectory/ctt/ctt.exe": "DefaultWorkingDirectory/ctt/ctt.exe"
+        "msdeploy": "msdeploy"
     },
     "stats": {
     	"webAppPkg.zip": {
@@ -31,14 +30,9 @@ let a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
         "cmd": true,
         "webAppPkg.zip": true,
         "webAppPkg": true,
-        "msdeploy": true,
-        "DefaultWorkingDirectory/ctt/ctt.exe": true
+        "msdeploy": true
     },
     "exec": {
-        "DefaultWorkingDirectory/ctt/ctt.exe s:C:\\tempFolder\\web.config t:C:\\tempFolder\\web.Release.config d:C:\\tempFolder\\web.config pw i verbose": {
-            "code": 0,
-            "stdout": "ctt execution successful"
-        },
         "msdeploy -verb:sync -source:package=\'DefaultWorkingDirectory\\temp_web_package.zip\' -dest:auto -setParam:name=\'IIS Web Application Name\',value=\'mytestwebsite\' -enableRule:DoNotDeleteRule": {
             "code": 0,
             "stdout": "Executed Successfully"
@@ -147,6 +141,15 @@ tr.registerMock('fs', {
     },
     ReadStream: fs.ReadStream,
     WriteStream: fs.WriteStream,
+    readFileSync: function (filePath) {
+        if(filePath == "C:\\tempFolder\\web.Release.config") {
+            return new Buffer("<configuration xmlns:xdt=\"http://schemas.microsoft.com/XML-Document-Transform\"><system.web><compilation xdt:Transform=\"RemoveAttributes(debug)\" /></system.web></configuration>");
+        }
+        return new Buffer("<configuration><system.web><compilation debug=\"true\" /></system.web></configuration>");
+    },
+    writeFileSync: function (filePath, content) {
+        console.log("Updated file " + filePath);
+    },
     openSync: function (fd, options) {
         return true;
     },
@@ -164,10 +167,11 @@ tr.registerMock('path', {
             return path.win32.basename(filePath, extension);
         }
     },
+    basename: function(filePath, extension) {
+        return path.win32.basename(filePath, extension);
+    },
+    normalize: path.win32.normalize,
     join: function() {
-        if(arguments[arguments.length -1] === 'ctt.exe') {
-            return 'DefaultWorkingDirectory/ctt/ctt.exe';
-        }
         var args = [];
         for(var i=0; i < arguments.length; i += 1) {
             args.push(arguments[i]);
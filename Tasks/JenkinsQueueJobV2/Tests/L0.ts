@@ -6,7 +6,11 @@ import path = require('path');
 import os = require('os');
 import process = require('process');
 import fs = require('fs');
+import http = require('http');
 import {JobState, checkStateTransitions} from '../states';
+import {collectJobResults, convertToJUnit} from '../jobresults';
+import {JobQueue} from '../jobqueue';
+import {stopJob, cancelQueueItem} from '../util';
 
 import * as ttm from 'azure-pipelines-task-lib/mock-test';
 
@@ -158,6 +162,24 @@ describe('JenkinsQueueJob L0 Suite', function () {
         }
     });
 
+    it('run JenkinsQueueJob with invalid job timeout', (done) => {
+        const tp: string = path.join(__dirname, 'L0InvalidJobTimeout.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+
+        try {
+            tr.run();
+
+            assert(tr.stdout.indexOf('loc_mock_InvalidJobTimeout ten') !== -1, 'should have reported the invalid timeout');
+            assert(tr.failed, 'task should have failed');
+            done();
+        } catch (err) {
+            console.log(tr.stdout);
+            console.log(tr.stderr);
+            console.log(err);
+            done(err);
+        }
+    });
+
     it('[Job state] Run the longest test scenario of the state transitions', (done) => {
         let currentState: JobState = JobState.New;
 
@@ -201,4 +223,240 @@ describe('JenkinsQueueJob L0 Suite', function () {
             done(error);
         }
     });
+
+    it('[Test results] Convert an aggregated Jenkins test report to JUnit', (done) => {
+        const report: any = {
+            childReports: [{
+                result: {
+                    suites: [{
+                        name: 'Suite<1>',
+                        duration: 2,
+                        cases: [
+                            { className: 'Suite1', name: 'passes', duration: 1, status: 'FIXED' },
+                            { className: 'Suite1', name: 'fails', duration: 1, status: 'REGRESSION', errorDetails: 'expected "a" & got \u001b[31mb', errorStackTrace: 'stack' }
+                        ]
+                    }]
+                }
+            }]
+        };
+
+        const xml: string = convertToJUnit(report, 'demo #5');
+
+        assert(xml.indexOf('<testsuites name="demo #5">') !== -1, 'should have named the test suites after the job');
+        assert(xml.indexOf('<testsuite name="Suite&lt;1&gt;" tests="2" failures="1" skipped="0" time="2">') !== -1, 'should have counted the failures of the child report');
+        assert(xml.indexOf('<failure message="expected &quot;a&quot; &amp; got [31mb">stack</failure>') !== -1, 'should have escaped the failure message');
+        done();
+    });
+
+    describe('[Job results] Collect the results of a finished job', function () {
+        const report: any = {
+            suites: [{
+                name: 'Suite1',
+                duration: 1,
+                cases: [{ className: 'Suite1', name: 'passes', duration: 1, status: 'PASSED' }]
+            }]
+        };
+        const responses: { [url: string]: { statusCode: number, body: string } } = {
+            '/job/demo/5/testReport/api/json': { statusCode: 200, body: JSON.stringify(report) },
+            '/job/demo/5/api/json?tree=artifacts[relativePath]': { statusCode: 200, body: JSON.stringify({ artifacts: [
+                { relativePath: 'out/app.zip' }, { relativePath: 'out/missing.txt' }, { relativePath: 'logs/build.log' }
+            ] }) },
+            '/job/demo/5/artifact/out/app.zip': { statusCode: 200, body: 'app content' },
+            '/job/demo/5/artifact/out/missing.txt': { statusCode: 404, body: '<html>Not found</html>' },
+            '/job/demo/5/artifact/logs/build.log': { statusCode: 200, body: 'log content' },
+            '/job/other/7/testReport/api/json': { statusCode: 404, body: '<html>Not found</html>' },
+            '/job/other/7/api/json?tree=artifacts[relativePath]': { statusCode: 200, body: JSON.stringify({ artifacts: [] }) },
+            '/job/login/9/testReport/api/json': { statusCode: 200, body: '<html>Sign in</html>' },
+            '/job/login/9/api/json?tree=artifacts[relativePath]': { statusCode: 200, body: '<html>Sign in</html>' }
+        };
+        let server: http.Server;
+        let serverUrl: string;
+        let resultsDirectory: string;
+
+        before((done) => {
+            server = http.createServer((request, response) => {
+                const answer = responses[decodeURIComponent(request.url)] || { statusCode: 500, body: 'unexpected request' };
+                response.writeHead(answer.statusCode);
+                response.end(answer.body);
+            });
+            server.listen(0, '127.0.0.1', () => {
+                serverUrl = `http://127.0.0.1:${server.address().port}`;
+                done();
+            });
+        });
+
+        beforeEach(() => {
+            resultsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'jenkinsResults'));
+        });
+
+        after((done) => {
+            server.close(done);
+        });
+
+        function getTaskOptions(): any {
+            return {
+                jobName: 'demo',
+                username: 'uname',
+                password: 'pword',
+                strictSSL: false,
+                saveResultsTo: resultsDirectory,
+                publishTestResults: true,
+                testRunTitle: '',
+                downloadArtifacts: true,
+                artifactsPattern: ['out/**']
+            };
+        }
+
+        it('writes the JUnit report and downloads the matching artifacts', (done) => {
+            const job: any = { Name: 'demo', ExecutableNumber: 5, ExecutableUrl: serverUrl + '/job/demo/5' };
+
+            collectJobResults([job], getTaskOptions()).then(() => {
+                const resultFile: string = path.join(resultsDirectory, 'demo', 'TEST-jenkins-5.xml');
+                assert(fs.existsSync(resultFile), 'should have written the JUnit report');
+                assert(fs.readFileSync(resultFile).toString().indexOf('<testsuite name="Suite1" tests="1" failures="0" skipped="0" time="1">') !== -1, 'should have converted the test report');
+
+                const artifactsDirectory: string = path.join(resultsDirectory, 'demo', 'artifacts');
+                assert.equal(fs.readFileSync(path.join(artifactsDirectory, 'out', 'app.zip')).toString(), 'app content');
+                assert(!fs.existsSync(path.join(artifactsDirectory, 'out', 'missing.txt')), 'should not have saved the error page of a failed download');
+                assert(!fs.existsSync(path.join(artifactsDirectory, 'logs')), 'should not have downloaded artifacts that do not match the patterns');
+                done();
+            }).fail(done);
+        });
+
+        it('skips jobs without test reports and artifacts', (done) => {
+            const job: any = { Name: 'other', ExecutableNumber: 7, ExecutableUrl: serverUrl + '/job/other/7' };
+
+            collectJobResults([job], getTaskOptions()).then(() => {
+                assert(!fs.existsSync(path.join(resultsDirectory, 'other')), 'should not have written any results');
+                done();
+            }).fail(done);
+        });
+
+        it('warns when Jenkins does not answer with JSON', (done) => {
+            const job: any = { Name: 'login', ExecutableNumber: 9, ExecutableUrl: serverUrl + '/job/login/9' };
+
+            collectJobResults([job], getTaskOptions()).then(() => {
+                assert(!fs.existsSync(path.join(resultsDirectory, 'login')), 'should not have written any results');
+                done();
+            }).fail(done);
+        });
+    });
+
+    describe('[Job timeout] Stop the Jenkins job when the task times out or is canceled', function () {
+        const responses: { [url: string]: { statusCode: number, body: string } } = {
+            '/job/demo/5/stop': { statusCode: 302, body: '' },
+            '/job/child/7/stop': { statusCode: 403, body: '<html>Forbidden</html>' },
+            '/queue/cancelItem?id=12': { statusCode: 302, body: '' }
+        };
+        let requests: { method: string, url: string, crumb: string }[];
+        let server: http.Server;
+        let serverUrl: string;
+
+        before((done) => {
+            server = http.createServer((request, response) => {
+                requests.push({ method: request.method, url: decodeURIComponent(request.url), crumb: <string>request.headers['jenkins-crumb'] });
+                const answer = responses[decodeURIComponent(request.url)] || { statusCode: 500, body: 'unexpected request' };
+                response.writeHead(answer.statusCode);
+                response.end(answer.body);
+            });
+            server.listen(0, '127.0.0.1', () => {
+                serverUrl = `http://127.0.0.1:${server.address().port}`;
+                done();
+            });
+        });
+
+        beforeEach(() => {
+            requests = [];
+        });
+
+        after((done) => {
+            server.close(done);
+        });
+
+        function getTaskOptions(): any {
+            return {
+                serverEndpointUrl: serverUrl,
+                username: 'uname',
+                password: 'pword',
+                strictSSL: false,
+                NO_CRUMB: 'NO_CRUMB',
+                crumb: 'Jenkins-Crumb:crumb1'
+            };
+        }
+
+        function getJob(state: JobState, executableUrl: string, children: any[]): any {
+            return { State: state, ExecutableUrl: executableUrl, Children: children };
+        }
+
+        it('posts to the stop URL of the build with the crumb header', (done) => {
+            stopJob(getJob(JobState.Streaming, serverUrl + '/job/demo/5/', []), getTaskOptions()).then(() => {
+                assert.deepEqual(requests, [{ method: 'POST', url: '/job/demo/5/stop', crumb: 'crumb1' }]);
+                done();
+            }).fail(done);
+        });
+
+        it('cancels the queue item with the ID from the queue URI', (done) => {
+            cancelQueueItem(serverUrl + '/queue/item/12/api/json', getTaskOptions()).then(() => {
+                assert.deepEqual(requests, [{ method: 'POST', url: '/queue/cancelItem?id=12', crumb: 'crumb1' }]);
+                done();
+            }).fail(done);
+        });
+
+        it('rejects a queue URI without a queue item ID', (done) => {
+            cancelQueueItem(serverUrl + '/job/demo/api/json', getTaskOptions()).then(() => {
+                done(new Error('should have rejected the queue URI'));
+            }).fail((err) => {
+                assert(String(err).indexOf('JenkinsQueueItemIdNotFound') !== -1, 'should have reported the missing queue item ID');
+                assert.equal(requests.length, 0, 'should not have sent any request');
+                done();
+            }).fail(done);
+        });
+
+        it('stops the running root job and its running child jobs', (done) => {
+            const jobQueue: JobQueue = new JobQueue(getTaskOptions());
+            jobQueue.RootJob = getJob(JobState.Streaming, serverUrl + '/job/demo/5/', [
+                getJob(JobState.Done, serverUrl + '/job/child/6/', []),
+                getJob(JobState.Finishing, serverUrl + '/job/child/7/', [
+                    getJob(JobState.New, undefined, [])
+                ])
+            ]);
+
+            jobQueue.Cancel().then(() => {
+                // the failed stop request of child 7 is only a warning
+                assert.deepEqual(requests.map(r => r.method + ' ' + r.url).sort(), ['POST /job/child/7/stop', 'POST /job/demo/5/stop']);
+                done();
+            }).fail(done);
+        });
+
+        it('cancels the queue item when the root job has not started', (done) => {
+            const jobQueue: JobQueue = new JobQueue(getTaskOptions());
+            jobQueue.QueueUri = serverUrl + '/queue/item/12/api/json';
+
+            jobQueue.Cancel().then(() => {
+                assert.deepEqual(requests.map(r => r.method + ' ' + r.url), ['POST /queue/cancelItem?id=12']);
+                done();
+            }).fail(done);
+        });
+
+        it('cancels the queue item and fails the task when the job times out', (done) => {
+            const tp: string = path.join(__dirname, 'L0JobTimeout.js');
+            const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+
+            try {
+                tr.run();
+
+                assert(tr.stdout.indexOf('loc_mock_JenkinsJobQueued') !== -1, 'should have queued the job');
+                assert(tr.stdout.indexOf('loc_mock_CancelingJenkinsQueueItem') !== -1, 'should have canceled the queue item');
+                assert(tr.stdout.indexOf('server: POST /queue/cancelItem?id=12') !== -1, 'should have posted the cancel request');
+                assert(tr.stdout.indexOf('loc_mock_JenkinsJobTimedOut 0.01') !== -1, 'should have reported the timeout');
+                assert(tr.failed, 'task should have failed');
+                done();
+            } catch (err) {
+                console.log(tr.stdout);
+                console.log(tr.stderr);
+                console.log(err);
+                done(err);
+            }
+        });
+    });
 });
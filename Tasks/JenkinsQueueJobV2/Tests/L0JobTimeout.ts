@@ -0,0 +1,53 @@
+import ma = require('azure-pipelines-task-lib/mock-answer');
+import tmrm = require('azure-pipelines-task-lib/mock-run');
+import http = require('http');
+import path = require('path');
+
+const taskPath = path.join(__dirname, '..', 'jenkinsqueuejobtask.js');
+const tr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
+
+tr.setInput('serverEndpoint', 'ID1');
+tr.setInput('jobName', 'SomeJobName');
+tr.setInput('captureConsole', 'true');
+tr.setInput('capturePipeline', 'true');
+tr.setInput('parameterizedJob', 'false');
+// 600 milliseconds, the job stays in the queue until then
+tr.setInput('jobTimeout', '0.01');
+
+// provide answers for task mock
+const a: ma.TaskLibAnswers = <ma.TaskLibAnswers>{
+    'osType': {
+        'osType': 'Linux'
+    }
+};
+tr.setAnswers(a);
+
+process.env['BUILD_STAGINGDIRECTORY'] = path.join(__dirname, 'L0JobTimeout');
+
+// Jenkins server that queues the job without ever starting a build for it
+const server: http.Server = http.createServer((request, response) => {
+    console.log(`server: ${request.method} ${decodeURIComponent(request.url)}`);
+    const serverUrl: string = process.env['ENDPOINT_URL_ID1'];
+    if (request.url.startsWith('/crumbIssuer/')) {
+        response.writeHead(200);
+        response.end('Jenkins-Crumb:crumb1');
+    } else if (request.url.startsWith('/team-build/build/SomeJobName')) {
+        response.writeHead(201);
+        response.end(JSON.stringify({ created: serverUrl + '/queue/item/12/' }));
+    } else if (request.url === '/queue/item/12/api/json') {
+        response.writeHead(200);
+        response.end(JSON.stringify({ id: 12, why: 'Waiting for next available executor' }));
+    } else if (request.url === '/queue/cancelItem?id=12') {
+        response.writeHead(302, { Location: serverUrl + '/queue/' });
+        response.end();
+    } else {
+        response.writeHead(500);
+        response.end('unexpected request');
+    }
+});
+// the task polls the queue as long as it runs, so the server must not keep the process alive on its own
+server.unref();
+server.listen(0, '127.0.0.1', () => {
+    process.env['ENDPOINT_URL_ID1'] = `http://127.0.0.1:${server.address().port}`;
+    tr.run();
+});
@@ -29,6 +29,8 @@ export class TaskOptions {
     capturePipeline: boolean;
 
     pollIntervalMillis: number;
+    // 0 means the task waits for the Jenkins job without a time limit
+    jobTimeoutMinutes: number;
 
     parameterizedJob: boolean;
     // jobParameters are only possible if parameterizedJob is enabled
@@ -41,6 +43,12 @@ export class TaskOptions {
     teamBuildPluginAvailable: boolean;
     saveResultsTo: string;
 
+    // test results and artifacts are only possible if captureConsole mode is enabled
+    publishTestResults: boolean;
+    testRunTitle: string;
+    downloadArtifacts: boolean;
+    artifactsPattern: string[];
+
     strictSSL: boolean;
 
     NO_CRUMB: string;
@@ -69,6 +77,12 @@ export class TaskOptions {
 
         this.pollIntervalMillis = 5000; // five seconds is what the Jenkins Web UI uses
 
+        const jobTimeout: string = tl.getInput('jobTimeout', false) || '0';
+        this.jobTimeoutMinutes = Number(jobTimeout);
+        if (isNaN(this.jobTimeoutMinutes) || this.jobTimeoutMinutes < 0) {
+            throw new Error(tl.loc('InvalidJobTimeout', jobTimeout));
+        }
+
         this.parameterizedJob = tl.getBoolInput('parameterizedJob', true);
         // jobParameters are only possible if parameterizedJob is enabled
         this.jobParameters = this.parameterizedJob ? tl.getDelimitedInput('jobParameters', '\n', false) : [];
@@ -91,6 +105,15 @@ export class TaskOptions {
         }
         this.saveResultsTo = path.join(resultsDirectory, 'jenkinsResults');
 
+        // test results and artifacts are only possible if captureConsole mode is enabled
+        this.publishTestResults = this.captureConsole ? tl.getBoolInput('publishTestResults', false) : false;
+        this.testRunTitle = tl.getInput('testRunTitle', false);
+        this.downloadArtifacts = this.captureConsole ? tl.getBoolInput('downloadArtifacts', false) : false;
+        this.artifactsPattern = this.downloadArtifacts ? tl.getDelimitedInput('artifactsPattern', '\n', false) : [];
+        if (this.artifactsPattern.length === 0) {
+            this.artifactsPattern = ['**'];
+        }
+
         this.strictSSL = ('true' !== tl.getEndpointDataParameter(this.serverEndpoint, 'acceptUntrustedCerts', true));
         tl.debug('strictSSL=' + this.strictSSL);
 
@@ -103,12 +126,15 @@ export class TaskOptions {
 }
 
 async function doWork() {
+    let jobQueue: JobQueue = null;
     try {
         tl.setResourcePath(path.join( __dirname, 'task.json'));
 
         const taskOptions: TaskOptions = new TaskOptions();
-        const jobQueue: JobQueue = new JobQueue(taskOptions);
+        jobQueue = new JobQueue(taskOptions);
+        stopJobOnTimeoutOrCancel(jobQueue, taskOptions);
         const queueUri = await util.pollSubmitJob(taskOptions);
+        jobQueue.QueueUri = queueUri;
         console.log(tl.loc('JenkinsJobQueued'));
         const rootJob = await util.pollCreateRootJob(queueUri, jobQueue, taskOptions);
         //start the job queue
@@ -116,6 +142,9 @@ async function doWork() {
         //store the job name in the output variable
         tl.setVariable('JENKINS_JOB_ID', rootJob.ExecutableNumber.toString());
     } catch (e) {
+        if (jobQueue) {
+            jobQueue.ClearTimeout();
+        }
         let message: string;
         if (e instanceof util.HttpError) {
             message = e.message;
@@ -132,4 +161,28 @@ async function doWork() {
     }
 }
 
+/**
+ * Stops the Jenkins job when the timeout expires or the agent cancels the task,
+ * otherwise the Jenkins build keeps running and holds its executors.
+ */
+function stopJobOnTimeoutOrCancel(jobQueue: JobQueue, taskOptions: TaskOptions): void {
+    let canceling: boolean = false;
+    const cancel = (message: string) => {
+        if (canceling) {
+            return;
+        }
+        canceling = true;
+        jobQueue.Cancel().then(() => {
+            tl.setResult(tl.TaskResult.Failed, message);
+            process.exit(1);
+        });
+    };
+
+    if (taskOptions.jobTimeoutMinutes > 0) {
+        jobQueue.SetTimeout(taskOptions.jobTimeoutMinutes * 60 * 1000, () => cancel(tl.loc('JenkinsJobTimedOut', taskOptions.jobTimeoutMinutes)));
+    }
+    process.on('SIGINT', () => cancel(tl.loc('JenkinsJobCanceled', 'SIGINT')));
+    process.on('SIGTERM', () => cancel(tl.loc('JenkinsJobCanceled', 'SIGTERM')));
+}
+
 doWork();
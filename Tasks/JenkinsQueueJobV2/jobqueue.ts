@@ -5,8 +5,10 @@ import tl = require('azure-pipelines-task-lib/task');
 import fs = require('fs');
 import path = require('path');
 import shell = require('shelljs');
+import Q = require('q');
 
 import { Job } from './job';
+import { collectJobResults } from './jobresults';
 import { JobSearch } from './jobsearch';
 import { TaskOptions } from './jenkinsqueuejobtask';
 import { JobState } from './states';
@@ -17,6 +19,7 @@ export class JobQueue {
     public TaskOptions: TaskOptions;
 
     public RootJob: Job;
+    public QueueUri: string;
     private allJobs: Job[] = [];
     private searches: JobSearch[] = [];
 
@@ -26,6 +29,7 @@ export class JobQueue {
 
     private intervalId: NodeJS.Timer;
     private intervalMillis: number = 100;
+    private timeoutId: NodeJS.Timer;
 
     public Start(): void {
         tl.debug('jobQueue.start()');
@@ -55,11 +59,72 @@ export class JobQueue {
         }, this.intervalMillis);
     }
 
+    /**
+     * Calls onTimeout when the jobs are still running after the timeout. The timer is cleared once the
+     * queue stops, so that collecting the results of finished jobs cannot time out.
+     */
+    public SetTimeout(timeoutMillis: number, onTimeout: () => void): void {
+        this.timeoutId = setTimeout(onTimeout, timeoutMillis);
+        // unref so the timer does not keep the task running once the job has completed
+        this.timeoutId.unref();
+    }
+
+    public ClearTimeout(): void {
+        if (this.timeoutId) {
+            clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+    }
+
     private stop(complete: boolean): void {
         tl.debug('jobQueue.stop()');
         clearInterval(this.intervalId);
+        this.ClearTimeout();
         this.FlushJobConsolesSafely();
-        this.writeFinalMarkdown(complete);
+        collectJobResults(this.findFinishedJobs(), this.TaskOptions).then(() => {
+            this.writeFinalMarkdown(complete);
+        }).done();
+    }
+
+    /**
+     * Stops the Jenkins builds this task is still waiting for, including pipelined child jobs, or cancels the
+     * queue item if the root job has not started yet. Failures are only reported as warnings so that every job
+     * gets its stop request.
+     */
+    public Cancel(): Q.Promise<any> {
+        tl.debug('jobQueue.cancel()');
+        clearInterval(this.intervalId);
+        this.ClearTimeout();
+
+        const requests: Q.Promise<void>[] = [];
+        if (this.RootJob) {
+            for (const job of this.findJobsToStop(this.RootJob)) {
+                console.log(tl.loc('StoppingJenkinsJob', job.ExecutableUrl));
+                requests.push(util.stopJob(job, this.TaskOptions).fail((err) => {
+                    tl.warning(tl.loc('StopJenkinsJobFailed', job.ExecutableUrl, err.message || err));
+                }));
+            }
+        } else if (this.QueueUri) {
+            console.log(tl.loc('CancelingJenkinsQueueItem', this.QueueUri));
+            requests.push(util.cancelQueueItem(this.QueueUri, this.TaskOptions).fail((err) => {
+                tl.warning(tl.loc('CancelJenkinsQueueItemFailed', this.QueueUri, err.message || err));
+            }));
+        }
+
+        return Q.all(requests);
+    }
+
+    private findJobsToStop(job: Job): Job[] {
+        let jobs: Job[] = [];
+        // jobs still locating their build have not started one that could be stopped
+        const running: boolean = job.State === JobState.New || job.State === JobState.Streaming || job.State === JobState.Finishing;
+        if (running && job.ExecutableUrl) {
+            jobs.push(job);
+        }
+        for (const child of job.Children) {
+            jobs = jobs.concat(this.findJobsToStop(child));
+        }
+        return jobs;
     }
 
     private hasFailedJobs(): boolean {
@@ -74,6 +139,17 @@ export class JobQueue {
         return false;
     }
 
+    private findFinishedJobs(): Job[] {
+        const finished: Job[] = [];
+        for (const i in this.allJobs) {
+            const job: Job = this.allJobs[i];
+            if (job.State === JobState.Done) {
+                finished.push(job);
+            }
+        }
+        return finished;
+    }
+
     private findRunningJobs(): Job[] {
         const running: Job[] = [];
         for (const i in this.allJobs) {
@@ -0,0 +1,232 @@
+// Copyright (c) Microsoft. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+
+import tl = require('azure-pipelines-task-lib/task');
+import fs = require('fs');
+import path = require('path');
+import Q = require('q');
+import request = require('request');
+
+import { Job } from './job';
+import { TaskOptions } from './jenkinsqueuejobtask';
+
+import * as Util from './util';
+
+/**
+ * Publishes the Jenkins test reports and downloads the Jenkins artifacts of the finished jobs.
+ * Failures are only reported as warnings, they never change the result of the task.
+ */
+export function collectJobResults(jobs: Job[], taskOptions: TaskOptions): Q.Promise<void> {
+    let result: Q.Promise<any> = Q.resolve(null);
+    if (taskOptions.publishTestResults) {
+        result = result.then(() => publishTestResults(jobs, taskOptions));
+    }
+    if (taskOptions.downloadArtifacts) {
+        for (const job of jobs) {
+            result = result.then(() => downloadArtifacts(job, taskOptions));
+        }
+    }
+    return result.fail((err) => {
+        tl.warning(tl.loc('CollectJobResultsFailed', err.message || err));
+    });
+}
+
+function publishTestResults(jobs: Job[], taskOptions: TaskOptions): Q.Promise<void> {
+    const resultFiles: string[] = [];
+    let result: Q.Promise<any> = Q.resolve(null);
+    for (const job of jobs) {
+        result = result.then(() => getTestReport(job, taskOptions)).then((report: any) => {
+            if (!report) {
+                tl.debug('no test report for: ' + job.ExecutableUrl);
+                return;
+            }
+
+            const resultFile: string = path.join(taskOptions.saveResultsTo, job.Name, `TEST-jenkins-${job.ExecutableNumber}.xml`);
+            tl.mkdirP(path.dirname(resultFile));
+            fs.writeFileSync(resultFile, convertToJUnit(report, `${job.Name} #${job.ExecutableNumber}`));
+            resultFiles.push(resultFile);
+        }).fail((err) => {
+            tl.warning(tl.loc('TestReportFailed', job.ExecutableUrl, err.message || err));
+        });
+    }
+
+    return result.then(() => {
+        if (resultFiles.length === 0) {
+            console.log(tl.loc('NoTestReports'));
+            return;
+        }
+
+        console.log(tl.loc('PublishingTestResults', resultFiles.length));
+        const runTitle: string = taskOptions.testRunTitle || `${taskOptions.jobName} #${jobs[0].ExecutableNumber}`;
+        new tl.TestPublisher('JUnit').publish(resultFiles.join(','), 'false', '', '', runTitle, 'true');
+    });
+}
+
+/**
+ * Gets the parsed test report of the job, or null if Jenkins did not record any tests for it.
+ */
+function getTestReport(job: Job, taskOptions: TaskOptions): Q.Promise<any> {
+    const defer: Q.Deferred<any> = Q.defer<any>();
+    const testReportUrl: string = Util.addUrlSegment(job.ExecutableUrl, 'testReport/api/json');
+    tl.debug('getTestReport(): ' + testReportUrl);
+
+    request.get({ url: testReportUrl, strictSSL: taskOptions.strictSSL }, function requestCallback(err, httpResponse, body) {
+        if (err) {
+            defer.reject(err);
+        } else if (httpResponse.statusCode === 404) {
+            defer.resolve(null);
+        } else if (httpResponse.statusCode !== 200) {
+            defer.reject(new Util.HttpError(httpResponse, 'Test report request failed.'));
+        } else {
+            try {
+                defer.resolve(JSON.parse(body));
+            } catch (err) {
+                defer.reject(tl.loc('InvalidJenkinsResponse', testReportUrl, err.message));
+            }
+        }
+    }).auth(taskOptions.username, taskOptions.password, true);
+
+    return defer.promise;
+}
+
+/**
+ * Converts a Jenkins test report to JUnit XML. Reports of matrix and pipeline jobs that aggregate
+ * child reports are flattened into one list of test suites.
+ */
+export function convertToJUnit(report: any, reportName: string): string {
+    let suites: any[] = report.suites || [];
+    for (const childReport of report.childReports || []) {
+        suites = suites.concat((childReport.result && childReport.result.suites) || []);
+    }
+
+    let xml: string = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += `<testsuites name="${escapeXml(reportName)}">\n`;
+    for (const suite of suites) {
+        const cases: any[] = suite.cases || [];
+        const failures: number = cases.filter((testCase) => isFailed(testCase)).length;
+        const skipped: number = cases.filter((testCase) => testCase.skipped || testCase.status === 'SKIPPED').length;
+        xml += `  <testsuite name="${escapeXml(suite.name)}" tests="${cases.length}" failures="${failures}" skipped="${skipped}" time="${suite.duration || 0}"`;
+        xml += suite.timestamp ? ` timestamp="${escapeXml(suite.timestamp)}">\n` : '>\n';
+        for (const testCase of cases) {
+            xml += `    <testcase classname="${escapeXml(testCase.className)}" name="${escapeXml(testCase.name)}" time="${testCase.duration || 0}">\n`;
+            if (isFailed(testCase)) {
+                xml += `      <failure message="${escapeXml(testCase.errorDetails)}">${escapeXml(testCase.errorStackTrace)}</failure>\n`;
+            } else if (testCase.skipped || testCase.status === 'SKIPPED') {
+                xml += `      <skipped message="${escapeXml(testCase.skippedMessage)}" />\n`;
+            }
+            if (testCase.stdout) {
+                xml += `      <system-out>${escapeXml(testCase.stdout)}</system-out>\n`;
+            }
+            if (testCase.stderr) {
+                xml += `      <system-err>${escapeXml(testCase.stderr)}</system-err>\n`;
+            }
+            xml += '    </testcase>\n';
+        }
+        xml += '  </testsuite>\n';
+    }
+    xml += '</testsuites>\n';
+    return xml;
+}
+
+function isFailed(testCase: any): boolean {
+    // REGRESSION is a failure that passed in the previous build, FIXED is a pass that failed in it
+    return testCase.status === 'FAILED' || testCase.status === 'REGRESSION';
+}
+
+function escapeXml(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // characters that are not allowed in XML 1.0, e.g. terminal escape codes in the console output
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function downloadArtifacts(job: Job, taskOptions: TaskOptions): Q.Promise<void> {
+    return getArtifactPaths(job, taskOptions).then((artifactPaths: string[]) => {
+        const matchingPaths: string[] = tl.match(artifactPaths, taskOptions.artifactsPattern, null, { matchBase: true });
+        if (matchingPaths.length === 0) {
+            console.log(tl.loc('NoMatchingArtifacts', job.ExecutableUrl));
+            return;
+        }
+
+        const destinationFolder: string = path.join(taskOptions.saveResultsTo, job.Name, 'artifacts');
+        console.log(tl.loc('DownloadingArtifacts', matchingPaths.length, job.ExecutableUrl, destinationFolder));
+        let result: Q.Promise<any> = Q.resolve(null);
+        for (const artifactPath of matchingPaths) {
+            result = result.then(() => downloadArtifact(job, artifactPath, destinationFolder, taskOptions).fail((err) => {
+                tl.warning(tl.loc('DownloadArtifactFailed', artifactPath, job.ExecutableUrl, err.message || err));
+            }));
+        }
+        return result;
+    }).fail((err) => {
+        tl.warning(tl.loc('DownloadArtifactsFailed', job.ExecutableUrl, err.message || err));
+    });
+}
+
+function getArtifactPaths(job: Job, taskOptions: TaskOptions): Q.Promise<string[]> {
+    const defer: Q.Deferred<string[]> = Q.defer<string[]>();
+    const artifactsUrl: string = Util.addUrlSegment(job.ExecutableUrl, 'api/json?tree=artifacts[relativePath]');
+    tl.debug('getArtifactPaths(): ' + artifactsUrl);
+
+    request.get({ url: artifactsUrl, strictSSL: taskOptions.strictSSL }, function requestCallback(err, httpResponse, body) {
+        if (err) {
+            defer.reject(err);
+        } else if (httpResponse.statusCode !== 200) {
+            defer.reject(new Util.HttpError(httpResponse, 'Artifacts request failed.'));
+        } else {
+            let artifacts: any[];
+            try {
+                artifacts = JSON.parse(body).artifacts || [];
+            } catch (err) {
+                defer.reject(tl.loc('InvalidJenkinsResponse', artifactsUrl, err.message));
+                return;
+            }
+            defer.resolve(artifacts.map((artifact) => artifact.relativePath));
+        }
+    }).auth(taskOptions.username, taskOptions.password, true);
+
+    return defer.promise;
+}
+
+/**
+ * Downloads the artifact to the destination folder. The file is only created once Jenkins
+ * answered with the artifact, so that error pages are not saved in its place.
+ */
+function downloadArtifact(job: Job, artifactPath: string, destinationFolder: string, taskOptions: TaskOptions): Q.Promise<void> {
+    const defer: Q.Deferred<void> = Q.defer<void>();
+    const artifactUrl: string = Util.addUrlSegment(job.ExecutableUrl, 'artifact/' + artifactPath.split('/').map(encodeURIComponent).join('/'));
+    const fileName: string = path.join(destinationFolder, artifactPath);
+    tl.debug(`downloadArtifact(): ${artifactUrl} to ${fileName}`);
+
+    const artifactRequest: request.Request = request.get({ url: artifactUrl, strictSSL: taskOptions.strictSSL })
+        .auth(taskOptions.username, taskOptions.password, true);
+    artifactRequest
+        .on('error', (err) => {
+            defer.reject(err);
+        })
+        .on('response', (response) => {
+            if (response.statusCode !== 200) {
+                artifactRequest.abort();
+                defer.reject(new Util.HttpError(response, `Downloading ${artifactPath} failed.`));
+                return;
+            }
+
+            tl.mkdirP(path.dirname(fileName));
+            artifactRequest.pipe(fs.createWriteStream(fileName))
+                .on('error', (err) => {
+                    defer.reject(err);
+                })
+                .on('finish', () => {
+                    defer.resolve(null);
+                });
+        });
+
+    return defer.promise;
+}
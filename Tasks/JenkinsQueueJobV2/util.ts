@@ -207,18 +207,7 @@ function submitJob(taskOptions: TaskOptions): Q.Promise<string> {
     const defer: Q.Deferred<string> = Q.defer<string>();
     tl.debug('submitJob(): ' + JSON.stringify(taskOptions));
 
-    function addCrumb(json: any): any {
-        if (taskOptions.crumb && taskOptions.crumb != taskOptions.NO_CRUMB) {
-            json.headers = {};
-            const splitIndex: number = taskOptions.crumb.indexOf(':');
-            const crumbName: string = taskOptions.crumb.substr(0, splitIndex);
-            const crumbValue: string = taskOptions.crumb.slice(splitIndex + 1);
-            json.headers[crumbName] = crumbValue;
-        }
-        return json;
-    }
-
-    const teamBuildPostData: any = addCrumb(
+    const teamBuildPostData: any = addCrumb(taskOptions,
         {
             url: taskOptions.teamJobQueueUrl,
             form: {
@@ -247,7 +236,7 @@ function submitJob(taskOptions: TaskOptions): Q.Promise<string> {
             taskOptions.teamBuildPluginAvailable = false;
 
             tl.debug('httpResponse: ' + JSON.stringify(httpResponse));
-            const jobQueuePostData: any = addCrumb(taskOptions.parameterizedJob ?
+            const jobQueuePostData: any = addCrumb(taskOptions, taskOptions.parameterizedJob ?
                 {
                     url: taskOptions.jobQueueUrl,
                     formData: parseJobParameters(taskOptions.jobParameters),
@@ -289,6 +278,55 @@ function submitJob(taskOptions: TaskOptions): Q.Promise<string> {
     return defer.promise;
 }
 
+export function addCrumb(taskOptions: TaskOptions, json: any): any {
+    if (taskOptions.crumb && taskOptions.crumb != taskOptions.NO_CRUMB) {
+        json.headers = {};
+        const splitIndex: number = taskOptions.crumb.indexOf(':');
+        const crumbName: string = taskOptions.crumb.substr(0, splitIndex);
+        const crumbValue: string = taskOptions.crumb.slice(splitIndex + 1);
+        json.headers[crumbName] = crumbValue;
+    }
+    return json;
+}
+
+/**
+ * Stops a running Jenkins build. Jenkins answers with a redirect to the build page, so any status below 400 means success.
+ */
+export function stopJob(job: Job, taskOptions: TaskOptions): Q.Promise<void> {
+    const stopUrl: string = addUrlSegment(job.ExecutableUrl, 'stop');
+    return postStopRequest(stopUrl, taskOptions, 'Stopping the Jenkins job failed.');
+}
+
+/**
+ * Cancels a Jenkins queue item that has not started a build yet.
+ */
+export function cancelQueueItem(queueUri: string, taskOptions: TaskOptions): Q.Promise<void> {
+    const match: RegExpMatchArray = queueUri.match(/\/queue\/item\/(\d+)/);
+    if (!match) {
+        return Q.reject<void>(tl.loc('JenkinsQueueItemIdNotFound', queueUri));
+    }
+
+    const cancelUrl: string = addUrlSegment(taskOptions.serverEndpointUrl, '/queue/cancelItem?id=' + match[1]);
+    return postStopRequest(cancelUrl, taskOptions, 'Canceling the Jenkins queue item failed.');
+}
+
+function postStopRequest(stopUrl: string, taskOptions: TaskOptions, failureMessage: string): Q.Promise<void> {
+    const defer: Q.Deferred<void> = Q.defer<void>();
+    tl.debug('postStopRequest(): ' + stopUrl);
+
+    request.post(addCrumb(taskOptions, { url: stopUrl, strictSSL: taskOptions.strictSSL }), function (err, httpResponse, body) {
+        if (err) {
+            defer.reject(err);
+        } else if (httpResponse.statusCode >= 400) {
+            defer.reject(new HttpError(httpResponse, failureMessage));
+        } else {
+            defer.resolve(null);
+        }
+    }).auth(taskOptions.username, taskOptions.password, true);
+
+    return defer.promise;
+}
+
 function getCrumb(taskOptions: TaskOptions): Q.Promise<string> {
     const defer: Q.Deferred<string> = Q.defer<string>();
     const crumbRequestUrl: string = addUrlSegment(taskOptions.serverEndpointUrl, '/crumbIssuer/api/xml?xpath=concat(//crumbRequestField,%22:%22,//crumb)');
@@ -6,6 +6,7 @@ import * as tl from 'azure-pipelines-task-lib';
 import * as shared from './TestShared';
 import * as utils from '../src/utils/utilities';
 import { updateImagePullSecrets, updateImageDetails } from '../src/utils/KubernetesObjectUtility';
+import { validateManifests } from '../src/utils/ManifestValidator';
 import * as yaml from 'js-yaml';
 import { IExecSyncResult } from 'azure-pipelines-task-lib/toolrunner';
 
@@ -26,12 +27,16 @@ describe('Kubernetes Manifests Suite', function () {
         delete process.env[shared.TestEnvVars.isStableDeploymentPresent];
         delete process.env[shared.TestEnvVars.isCanaryDeploymentPresent];
         delete process.env[shared.TestEnvVars.isBaselineDeploymentPresent];
+        delete process.env[shared.TestEnvVars.isGreenDeploymentPresent];
         delete process.env[shared.TestEnvVars.arguments];
         delete process.env[shared.TestEnvVars.namespace];
         delete process.env[shared.TestEnvVars.dockerComposeFile];
         delete process.env[shared.TestEnvVars.releaseName];
         delete process.env[shared.TestEnvVars.baselineAndCanaryReplicas];
         delete process.env[shared.TestEnvVars.trafficSplitMethod];
+        delete process.env[shared.TestEnvVars.routeMethod];
+        delete process.env[shared.TestEnvVars.kubernetesVersion];
+        delete process.env[shared.TestEnvVars.policyViolationSeverity];
         delete process.env[shared.TestEnvVars.containers];
         delete process.env.RemoveNamespaceFromEndpoint;
     });
@@ -168,6 +173,77 @@ describe('Kubernetes Manifests Suite', function () {
         done();
     });
 
+    it('Run successfully for deploy with blue-green strategy', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.deploy;
+        process.env[shared.TestEnvVars.strategy] = shared.Strategy.blueGreen;
+        process.env[shared.TestEnvVars.routeMethod] = shared.RouteMethod.service;
+        process.env[shared.TestEnvVars.isStableDeploymentPresent] = 'false';
+        tr.run();
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('nginx-deployment-green created') != -1, 'Green deployment is created');
+        assert(tr.stdout.indexOf('deployment "nginx-deployment-green" successfully rolled out') != -1, 'Green deployment is successfully rolled out');
+        assert(tr.stdout.indexOf('nginx-deployment-green annotated') != -1, 'Green deployment is annotated');
+        done();
+    });
+
+    it('Run should fail for deploy with blue-green strategy when stable workload is not labeled', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.deploy;
+        process.env[shared.TestEnvVars.strategy] = shared.Strategy.blueGreen;
+        process.env[shared.TestEnvVars.routeMethod] = shared.RouteMethod.service;
+        process.env[shared.TestEnvVars.isStableDeploymentPresent] = 'true';
+        tr.run();
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf('loc_mock_BlueGreenStableSelectorNotExist nginx-deployment') != -1, 'Unlabeled stable deployment is not replaced');
+        done();
+    });
+
+    it('Run successfuly for promote with blue-green strategy', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.promote;
+        process.env[shared.TestEnvVars.strategy] = shared.Strategy.blueGreen;
+        process.env[shared.TestEnvVars.routeMethod] = shared.RouteMethod.service;
+        process.env[shared.TestEnvVars.isGreenDeploymentPresent] = 'true';
+        tr.run();
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('deployment.extensions/nginx-deployment annotated') != -1, 'Stable deployment is updated');
+        assert(tr.stdout.indexOf('"nginx-deployment-green" deleted') != -1, 'Green deployment deleted');
+        assert(tr.stdout.indexOf('"nginx-service-green" deleted') != -1, 'Green service deleted');
+        done();
+    });
+
+    it('Run should fail for promote with blue-green strategy when green workload does not exist', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.promote;
+        process.env[shared.TestEnvVars.strategy] = shared.Strategy.blueGreen;
+        process.env[shared.TestEnvVars.routeMethod] = shared.RouteMethod.service;
+        process.env[shared.TestEnvVars.isGreenDeploymentPresent] = 'false';
+        tr.run();
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf('loc_mock_GreenDeploymentNotFound nginx-deployment-green') != -1, 'Traffic is not routed to a missing green deployment');
+        done();
+    });
+
+    it('Run successfuly for reject with blue-green strategy', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.reject;
+        process.env[shared.TestEnvVars.strategy] = shared.Strategy.blueGreen;
+        process.env[shared.TestEnvVars.routeMethod] = shared.RouteMethod.service;
+        process.env[shared.TestEnvVars.isGreenDeploymentPresent] = 'true';
+        tr.run();
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('deployment.apps/nginx-deployment created.') != -1, 'Traffic is routed to the stable deployment');
+        assert(tr.stdout.indexOf('"nginx-deployment-green" deleted') != -1, 'Green deployment deleted');
+        assert(tr.stdout.indexOf('"nginx-service-green" deleted') != -1, 'Green service deleted');
+        done();
+    });
+
     it('Run successfuly for delete with arguments', (done: MochaDone) => {
         const tp = path.join(__dirname, 'TestSetup.js');
         process.env[shared.TestEnvVars.arguments] = 'deployment nginx-deployment'
@@ -408,6 +484,70 @@ describe('Kubernetes Manifests Suite', function () {
         done();
     });
 
+    it('Run should succeed for validate with valid manifests', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.manifests] = path.join(__dirname, 'manifests', 'validation-valid.yaml');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.validate;
+        process.env[shared.TestEnvVars.kubernetesVersion] = '1.18';
+        tr.run();
+        process.env[shared.TestEnvVars.manifests] = shared.ManifestFilesPath;
+        assert(tr.succeeded, 'task should have succeeded');
+        assert(tr.stdout.indexOf('loc_mock_ManifestValidationSummary 0 0') != -1, 'No findings are reported');
+        done();
+    });
+
+    it('Run should fail for validate with invalid manifests', (done: MochaDone) => {
+        const tp = path.join(__dirname, 'TestSetup.js');
+        process.env[shared.TestEnvVars.manifests] = path.join(__dirname, 'manifests', 'validation-errors.yaml');
+        const tr: ttm.MockTestRunner = new ttm.MockTestRunner(tp);
+        process.env[shared.TestEnvVars.action] = shared.Actions.validate;
+        process.env[shared.TestEnvVars.kubernetesVersion] = '1.18';
+        process.env[shared.TestEnvVars.policyViolationSeverity] = 'error';
+        tr.run();
+        process.env[shared.TestEnvVars.manifests] = shared.ManifestFilesPath;
+        assert(tr.failed, 'task should have failed');
+        assert(tr.stdout.indexOf('loc_mock_ManifestValidationSummary 5 1') != -1, 'Policy violations are reported as errors');
+        assert(tr.stdout.indexOf('loc_mock_ManifestValidationFailed 5') != -1, 'Validation fails with the number of errors');
+        done();
+    });
+
+    it('Check manifest validation against the schemas and policies', (done: MochaDone) => {
+        const testFile = path.join(__dirname, 'manifests', 'validation-errors.yaml');
+        const findings = validateManifests([testFile], '1.18', false);
+        const messages = findings.map(finding => `${finding.resource} ${finding.isError ? 'error' : 'warning'} ${finding.message}`);
+        assert(messages.indexOf('Deployment/legacy-deployment error ApiVersionRemoved extensions/v1beta1 Deployment 1.16 apps/v1') != -1, 'Removed apiVersion is an error');
+        assert(messages.indexOf('Deployment/nginx-deployment error SchemaInvalidType spec.replicas integer string') != -1, 'Field type is validated');
+        assert(messages.indexOf('Deployment/nginx-deployment warning SchemaUnknownField spec.updateStrategy') != -1, 'Unknown field is a warning');
+        assert(messages.indexOf('Deployment/nginx-deployment warning PolicyLatestImageTag nginx nginx') != -1, 'Image without tag is flagged');
+        assert(messages.indexOf('Deployment/nginx-deployment warning PolicyResourceLimitsNotSet nginx cpu, memory') != -1, 'Missing resource limits are flagged');
+        assert(messages.indexOf('Deployment/nginx-deployment warning PolicyPrivilegedContainer nginx') != -1, 'Privileged container is flagged');
+        assert(findings.length === 6, 'Only the expected findings are reported');
+
+        const olderFindings = validateManifests([testFile], '1.15', false);
+        assert(olderFindings.some(finding => !finding.isError && finding.message === 'ApiVersionDeprecated extensions/v1beta1 Deployment 1.9 apps/v1'), 'Deprecated apiVersion is a warning before its removal');
+        done();
+    });
+
+    it('Check manifest validation against the Kubernetes version', (done: MochaDone) => {
+        const testFile = path.join(__dirname, 'manifests', 'validation-versions.yaml');
+        const getMessages = (kubernetesVersion: string) => validateManifests([testFile], kubernetesVersion, false)
+            .map(finding => `${finding.resource} ${finding.isError ? 'error' : 'warning'} ${finding.message}`);
+
+        const messages = getMessages('1.18');
+        assert(messages.indexOf('Pod/web warning SchemaFieldNotAvailable spec.setHostnameAsFQDN 1.18') != -1, 'Field introduced in a later version is a warning');
+        assert(messages.indexOf('Pod/web error SchemaInvalidType spec.volumes[0].configMap.defaultMode integer string') != -1, 'Volume fields are validated');
+        assert(messages.indexOf('CronJob/cleanup error ApiVersionNotServed batch/v1 CronJob 1.18 1.21') != -1, 'batch/v1 CronJob is not served before 1.21');
+        assert(messages.length === 3, 'Only the expected findings are reported');
+
+        const newerMessages = getMessages('1.21');
+        assert(newerMessages.indexOf('Service/web warning SchemaFieldNotAvailable spec.ipFamily 1.21') != -1, 'Removed field is a warning');
+        assert(newerMessages.indexOf('CronJob/cleanup-beta warning ApiVersionDeprecated batch/v1beta1 CronJob 1.21 batch/v1') != -1, 'batch/v1beta1 CronJob is deprecated in 1.21');
+        assert(newerMessages.indexOf('Pod/web error SchemaInvalidType spec.volumes[0].configMap.defaultMode integer string') != -1, 'Volume fields are validated');
+        assert(newerMessages.length === 3, 'Only the expected findings are reported');
+        done();
+    });
+
     it('Check if error validations', (done: MochaDone) => {
         try {
             const execResults = [{
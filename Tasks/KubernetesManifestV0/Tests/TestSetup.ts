@@ -46,6 +46,9 @@ tr.setInput('dockerComposeFile', process.env[shared.TestEnvVars.dockerComposeFil
 tr.setInput('kustomizationPath', process.env[shared.TestEnvVars.kustomizationPath] || '');
 tr.setInput('baselineAndCanaryReplicas', process.env[shared.TestEnvVars.baselineAndCanaryReplicas] || '0');
 tr.setInput('trafficSplitMethod', process.env[shared.TestEnvVars.trafficSplitMethod]);
+tr.setInput('routeMethod', process.env[shared.TestEnvVars.routeMethod]);
+tr.setInput('kubernetesVersion', process.env[shared.TestEnvVars.kubernetesVersion] || '');
+tr.setInput('policyViolationSeverity', process.env[shared.TestEnvVars.policyViolationSeverity] || '');
 
 process.env.SYSTEM_DEFAULTWORKINGDIRECTORY = testnamespaceWorkingDirectory;
 process.env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI = teamFoundationCollectionUri;
@@ -192,6 +195,26 @@ if (process.env[shared.TestEnvVars.isBaselineDeploymentPresent] && JSON.parse(pr
     };
 }
 
+if (process.env[shared.TestEnvVars.isGreenDeploymentPresent] && JSON.parse(process.env[shared.TestEnvVars.isGreenDeploymentPresent])) {
+    a.exec[`${kubectlPath} get Deployment/nginx-deployment-green -o json --namespace testnamespace`] = {
+        'code': 0,
+        'stdout': '{\r\n  "apiVersion": "apps/v1",\r\n  "kind": "Deployment",\r\n  "metadata": {\r\n    "labels": {\r\n      "app": "nginx",\r\n      "azure-pipelines/version": "green"\r\n    },\r\n    "name": "nginx-deployment-green",\r\n    "namespace": "testnamespace"\r\n  }\r\n}'
+    };
+    a.exec[`${kubectlPath} get Service/nginx-service-green -o json --namespace testnamespace`] = {
+        'code': 0,
+        'stdout': '{\r\n  "apiVersion": "v1",\r\n  "kind": "Service",\r\n  "metadata": {\r\n    "labels": {\r\n      "app": "nginx",\r\n      "azure-pipelines/version": "green"\r\n    },\r\n    "name": "nginx-service-green",\r\n    "namespace": "testnamespace"\r\n  }\r\n}'
+    };
+} else {
+    a.exec[`${kubectlPath} get Deployment/nginx-deployment-green -o json --namespace testnamespace`] = {
+        'code': 1,
+        'stderr': 'Error from server (NotFound): deployments.extensions "nginx-deployment-green" not found'
+    };
+    a.exec[`${kubectlPath} get Service/nginx-service-green -o json --namespace testnamespace`] = {
+        'code': 1,
+        'stderr': 'Error from server (NotFound): services "nginx-service-green" not found'
+    };
+}
+
 a.exec[`${kubectlPath} apply -f ${process.env[shared.TestEnvVars.manifests]} --namespace testnamespace`] = {
     'code': 0,
     'stdout': 'deployment.apps/nginx-deployment created.'
@@ -202,6 +225,11 @@ a.exec[`${kubectlPath} apply -f ${shared.CanaryManifestFilesPath},${shared.Basel
     'stdout': 'deployment.apps/nginx-deployment-canary created. deployment.extensions/nginx-deployment-baseline created '
 };
 
+a.exec[`${kubectlPath} apply -f ${shared.GreenManifestFilesPath} --namespace testnamespace`] = {
+    'code': 0,
+    'stdout': 'deployment.apps/nginx-deployment-green created. service/nginx-service-green created'
+};
+
 a.exec[`${kubectlPath} rollout status Deployment/nginx-deployment --namespace testnamespace`] = {
     'code': 0,
     'stdout': 'deployment "nginx-deployment" successfully rolled out'
@@ -232,6 +260,11 @@ a.exec[`${kubectlPath} get pods -o json --namespace testnamespace`] = {
     'stdout': '{\r\n  "apiVersion": "v1",\r\n  "kind": "List",\r\n  "metadata": {\r\n    "resourceVersion": "",\r\n    "selfLink": ""\r\n  },\r\n  "items": [\r\n    {\r\n      "apiVersion": "v1",\r\n      "kind": "Pod",\r\n      "metadata": {\r\n        "creationTimestamp": "2019-03-22T13:10:38Z",\r\n        "generateName": "nginx-deployment-5c689d88bb-",\r\n        "labels": {\r\n          "app": "nginx",\r\n          "pod-template-hash": "5c689d88bb"\r\n        },\r\n        "name": "nginx-deployment-5c689d88bb-btlgf",\r\n        "namespace": "default",\r\n        "ownerReferences": [\r\n          {\r\n            "apiVersion": "apps\/v1",\r\n            "blockOwnerDeletion": true,\r\n            "controller": true,\r\n            "kind": "ReplicaSet",\r\n            "name": "nginx-deployment-5c689d88bb",\r\n            "uid": "e2e6b9b8-4ca3-11e9-bdff-2a073485f16f"\r\n          }\r\n        ],\r\n        "resourceVersion": "49418",\r\n        "selfLink": "\/api\/v1\/namespaces\/default\/pods\/nginx-deployment-5c689d88bb-btlgf",\r\n        "uid": "e2f4690c-4ca3-11e9-bdff-2a073485f16f"\r\n      },\r\n      "spec": {\r\n        "containers": [\r\n          {\r\n            "env": [\r\n              {\r\n                "name": "KUBERNETES_PORT_443_TCP_ADDR",\r\n                "value": "desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_PORT",\r\n                "value": "tcp:\/\/desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io:443"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_PORT_443_TCP",\r\n                "value": "tcp:\/\/desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io:443"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_SERVICE_HOST",\r\n                "value": "desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io"\r\n              }\r\n            ],\r\n            "image": "nginx:1.7.9",\r\n            "imagePullPolicy": "IfNotPresent",\r\n            "name": "nginx",\r\n            "ports": [\r\n              {\r\n                "containerPort": 80,\r\n                "protocol": "TCP"\r\n              }\r\n            ],\r\n            "resources": {},\r\n            "terminationMessagePath": "\/dev\/termination-log",\r\n            "terminationMessagePolicy": "File",\r\n            "volumeMounts": [\r\n              {\r\n                "mountPath": "\/var\/run\/secrets\/kubernetes.io\/serviceaccount",\r\n                "name": "default-token-rcrjf",\r\n                "readOnly": true\r\n              }\r\n            ]\r\n          }\r\n        ],\r\n        "dnsPolicy": "ClusterFirst",\r\n        "nodeName": "aks-agentpool-14980324-0",\r\n        "priority": 0,\r\n        "restartPolicy": "Always",\r\n        "schedulerName": "default-scheduler",\r\n        "securityContext": {},\r\n        "serviceAccount": "default",\r\n        "serviceAccountName": "default",\r\n        "terminationGracePeriodSeconds": 30,\r\n        "tolerations": [\r\n          {\r\n            "effect": "NoExecute",\r\n            "key": "node.kubernetes.io\/not-ready",\r\n            "operator": "Exists",\r\n            "tolerationSeconds": 300\r\n          },\r\n          {\r\n            "effect": "NoExecute",\r\n            "key": "node.kubernetes.io\/unreachable",\r\n            "operator": "Exists",\r\n            "tolerationSeconds": 300\r\n          }\r\n        ],\r\n        "volumes": [\r\n          {\r\n            "name": "default-token-rcrjf",\r\n            "secret": {\r\n              "defaultMode": 420,\r\n              "secretName": "default-token-rcrjf"\r\n            }\r\n          }\r\n        ]\r\n      },\r\n      "status": {\r\n        "conditions": [\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:38Z",\r\n            "status": "True",\r\n            "type": "Initialized"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:54Z",\r\n            "status": "True",\r\n            "type": "Ready"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:54Z",\r\n            "status": "True",\r\n            "type": "ContainersReady"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:38Z",\r\n            "status": "True",\r\n            "type": "PodScheduled"\r\n          }\r\n        ],\r\n        "containerStatuses": [\r\n          {\r\n            "containerID": "docker:\/\/5e87acbad211218f3b1e383f2a83bc300095a032e87540c201e8e413b0518eeb",\r\n            "image": "nginx:1.7.9",\r\n            "imageID": "docker-pullable:\/\/nginx@sha256:e3456c851a152494c3e4ff5fcc26f240206abac0c9d794affb40e0714846c451",\r\n            "lastState": {},\r\n            "name": "nginx",\r\n            "ready": true,\r\n            "restartCount": 0,\r\n            "state": {\r\n              "running": {\r\n                "startedAt": "2019-03-22T13:10:53Z"\r\n              }\r\n            }\r\n          }\r\n        ],\r\n        "hostIP": "10.240.0.4",\r\n        "phase": "Running",\r\n        "podIP": "10.240.0.15",\r\n        "qosClass": "BestEffort",\r\n        "startTime": "2019-03-22T13:10:38Z"\r\n      }\r\n    },\r\n    {\r\n      "apiVersion": "v1",\r\n      "kind": "Pod",\r\n      "metadata": {\r\n        "creationTimestamp": "2019-03-22T13:10:38Z",\r\n        "generateName": "nginx-deployment-5c689d88bb-",\r\n        "labels": {\r\n          "app": "nginx",\r\n          "pod-template-hash": "5c689d88bb"\r\n        },\r\n        "name": "nginx-deployment-5c689d88bb-gnwrt",\r\n        "namespace": "default",\r\n        "ownerReferences": [\r\n          {\r\n            "apiVersion": "apps\/v1",\r\n            "blockOwnerDeletion": true,\r\n            "controller": true,\r\n            "kind": "ReplicaSet",\r\n            "name": "nginx-deployment-5c689d88bb",\r\n            "uid": "e2e6b9b8-4ca3-11e9-bdff-2a073485f16f"\r\n          }\r\n        ],\r\n        "resourceVersion": "125932",\r\n        "selfLink": "\/api\/v1\/namespaces\/default\/pods\/nginx-deployment-5c689d88bb-gnwrt",\r\n        "uid": "e2ece835-4ca3-11e9-bdff-2a073485f16f"\r\n      },\r\n      "spec": {\r\n        "containers": [\r\n          {\r\n            "env": [\r\n              {\r\n                "name": "KUBERNETES_PORT_443_TCP_ADDR",\r\n                "value": "desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_PORT",\r\n                "value": "tcp:\/\/desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io:443"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_PORT_443_TCP",\r\n                "value": "tcp:\/\/desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io:443"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_SERVICE_HOST",\r\n                "value": "desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io"\r\n              }\r\n            ],\r\n            "image": "nginx:1.7.9",\r\n            "imagePullPolicy": "IfNotPresent",\r\n            "name": "nginx",\r\n            "ports": [\r\n              {\r\n                "containerPort": 80,\r\n                "protocol": "TCP"\r\n              }\r\n            ],\r\n            "resources": {},\r\n            "terminationMessagePath": "\/dev\/termination-log",\r\n            "terminationMessagePolicy": "File",\r\n            "volumeMounts": [\r\n              {\r\n                "mountPath": "\/var\/run\/secrets\/kubernetes.io\/serviceaccount",\r\n                "name": "default-token-rcrjf",\r\n                "readOnly": true\r\n              }\r\n            ]\r\n          }\r\n        ],\r\n        "dnsPolicy": "ClusterFirst",\r\n        "nodeName": "aks-agentpool-14980324-1",\r\n        "priority": 0,\r\n        "restartPolicy": "Always",\r\n        "schedulerName": "default-scheduler",\r\n        "securityContext": {},\r\n        "serviceAccount": "default",\r\n        "serviceAccountName": "default",\r\n        "terminationGracePeriodSeconds": 30,\r\n        "tolerations": [\r\n          {\r\n            "effect": "NoExecute",\r\n            "key": "node.kubernetes.io\/not-ready",\r\n            "operator": "Exists",\r\n            "tolerationSeconds": 300\r\n          },\r\n          {\r\n            "effect": "NoExecute",\r\n            "key": "node.kubernetes.io\/unreachable",\r\n            "operator": "Exists",\r\n            "tolerationSeconds": 300\r\n          }\r\n        ],\r\n        "volumes": [\r\n          {\r\n            "name": "default-token-rcrjf",\r\n            "secret": {\r\n              "defaultMode": 420,\r\n              "secretName": "default-token-rcrjf"\r\n            }\r\n          }\r\n        ]\r\n      },\r\n      "status": {\r\n        "conditions": [\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:38Z",\r\n            "status": "True",\r\n            "type": "Initialized"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:54Z",\r\n            "status": "True",\r\n            "type": "Ready"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:54Z",\r\n            "status": "True",\r\n            "type": "ContainersReady"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:38Z",\r\n            "status": "True",\r\n            "type": "PodScheduled"\r\n          }\r\n        ],\r\n        "containerStatuses": [\r\n          {\r\n            "containerID": "docker:\/\/a2bf617633e412760806e06e02dc5f81b5dad6f4f5ce8fe17955cdf72013ba04",\r\n            "image": "nginx:1.7.9",\r\n            "imageID": "docker-pullable:\/\/nginx@sha256:e3456c851a152494c3e4ff5fcc26f240206abac0c9d794affb40e0714846c451",\r\n            "lastState": {},\r\n            "name": "nginx",\r\n            "ready": true,\r\n            "restartCount": 0,\r\n            "state": {\r\n              "running": {\r\n                "startedAt": "2019-03-22T13:10:53Z"\r\n              }\r\n            }\r\n          }\r\n        ],\r\n        "hostIP": "10.240.0.35",\r\n        "phase": "Running",\r\n        "podIP": "10.240.0.43",\r\n        "qosClass": "BestEffort",\r\n        "startTime": "2019-03-22T13:10:38Z"\r\n      }\r\n    },\r\n    {\r\n      "apiVersion": "v1",\r\n      "kind": "Pod",\r\n      "metadata": {\r\n        "creationTimestamp": "2019-03-22T13:10:38Z",\r\n        "generateName": "nginx-deployment-5c689d88bb-",\r\n        "labels": {\r\n          "app": "nginx",\r\n          "pod-template-hash": "5c689d88bb"\r\n        },\r\n        "name": "nginx-deployment-5c689d88bb-qmh97",\r\n        "namespace": "default",\r\n        "ownerReferences": [\r\n          {\r\n            "apiVersion": "apps\/v1",\r\n            "blockOwnerDeletion": true,\r\n            "controller": true,\r\n            "kind": "ReplicaSet",\r\n            "name": "nginx-deployment-5c689d88bb",\r\n            "uid": "e2e6b9b8-4ca3-11e9-bdff-2a073485f16f"\r\n          }\r\n        ],\r\n        "resourceVersion": "49429",\r\n        "selfLink": "\/api\/v1\/namespaces\/default\/pods\/nginx-deployment-5c689d88bb-qmh97",\r\n        "uid": "e2f4630d-4ca3-11e9-bdff-2a073485f16f"\r\n      },\r\n      "spec": {\r\n        "containers": [\r\n          {\r\n            "env": [\r\n              {\r\n                "name": "KUBERNETES_PORT_443_TCP_ADDR",\r\n                "value": "desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_PORT",\r\n                "value": "tcp:\/\/desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io:443"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_PORT_443_TCP",\r\n                "value": "tcp:\/\/desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io:443"\r\n              },\r\n              {\r\n                "name": "KUBERNETES_SERVICE_HOST",\r\n                "value": "desattir-virtual-dns-9381c228.hcp.eastus.azmk8s.io"\r\n              }\r\n            ],\r\n            "image": "nginx:1.7.9",\r\n            "imagePullPolicy": "IfNotPresent",\r\n            "name": "nginx",\r\n            "ports": [\r\n              {\r\n                "containerPort": 80,\r\n                "protocol": "TCP"\r\n              }\r\n            ],\r\n            "resources": {},\r\n            "terminationMessagePath": "\/dev\/termination-log",\r\n            "terminationMessagePolicy": "File",\r\n            "volumeMounts": [\r\n              {\r\n                "mountPath": "\/var\/run\/secrets\/kubernetes.io\/serviceaccount",\r\n                "name": "default-token-rcrjf",\r\n                "readOnly": true\r\n              }\r\n            ]\r\n          }\r\n        ],\r\n        "dnsPolicy": "ClusterFirst",\r\n        "nodeName": "aks-agentpool-14980324-2",\r\n        "priority": 0,\r\n        "restartPolicy": "Always",\r\n        "schedulerName": "default-scheduler",\r\n        "securityContext": {},\r\n        "serviceAccount": "default",\r\n        "serviceAccountName": "default",\r\n        "terminationGracePeriodSeconds": 30,\r\n        "tolerations": [\r\n          {\r\n            "effect": "NoExecute",\r\n            "key": "node.kubernetes.io\/not-ready",\r\n            "operator": "Exists",\r\n            "tolerationSeconds": 300\r\n          },\r\n          {\r\n            "effect": "NoExecute",\r\n            "key": "node.kubernetes.io\/unreachable",\r\n            "operator": "Exists",\r\n            "tolerationSeconds": 300\r\n          }\r\n        ],\r\n        "volumes": [\r\n          {\r\n            "name": "default-token-rcrjf",\r\n            "secret": {\r\n              "defaultMode": 420,\r\n              "secretName": "default-token-rcrjf"\r\n            }\r\n          }\r\n        ]\r\n      },\r\n      "status": {\r\n        "conditions": [\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:38Z",\r\n            "status": "True",\r\n            "type": "Initialized"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:55Z",\r\n            "status": "True",\r\n            "type": "Ready"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:55Z",\r\n            "status": "True",\r\n            "type": "ContainersReady"\r\n          },\r\n          {\r\n            "lastProbeTime": null,\r\n            "lastTransitionTime": "2019-03-22T13:10:38Z",\r\n            "status": "True",\r\n            "type": "PodScheduled"\r\n          }\r\n        ],\r\n        "containerStatuses": [\r\n          {\r\n            "containerID": "docker:\/\/3509c82a27b63f7fdb93746a74cb91862126c2cb66bae307904b2a89dcdf7152",\r\n            "image": "nginx:1.7.9",\r\n            "imageID": "docker-pullable:\/\/nginx@sha256:e3456c851a152494c3e4ff5fcc26f240206abac0c9d794affb40e0714846c451",\r\n            "lastState": {},\r\n            "name": "nginx",\r\n            "ready": true,\r\n            "restartCount": 0,\r\n            "state": {\r\n              "running": {\r\n                "startedAt": "2019-03-22T13:10:54Z"\r\n              }\r\n            }\r\n          }\r\n        ],\r\n        "hostIP": "10.240.0.66",\r\n        "phase": "Running",\r\n        "podIP": "10.240.0.79",\r\n        "qosClass": "BestEffort",\r\n        "startTime": "2019-03-22T13:10:38Z"\r\n      }\r\n    }\r\n  ]\r\n}'
 };
 
+a.exec[`${kubectlPath} rollout status Deployment/nginx-deployment-green --namespace testnamespace`] = {
+    'code': 0,
+    'stdout': 'deployment "nginx-deployment-green" successfully rolled out'
+};
+
 a.exec[`${kubectlPath} describe deployment nginx-deployment --namespace testnamespace`] = {
     'code': 0,
     'stdout': 'Name: nginx-deployment'
@@ -247,6 +280,11 @@ a.exec[`${kubectlPath} describe deployment nginx-deployment-baseline --namespace
     'stdout': 'Name: nginx-deployment-baseline'
 };
 
+a.exec[`${kubectlPath} describe deployment nginx-deployment-green --namespace testnamespace`] = {
+    'code': 0,
+    'stdout': 'Name: nginx-deployment-green'
+};
+
 a.exec[`${kubectlPath} delete Deployment nginx-deployment-canary nginx-deployment-baseline --namespace testnamespace`] = {
     'code': 0,
     'stdout': ' "nginx-deployment-canary" deleted. "nginx-deployment-baseline" deleted'
@@ -262,6 +300,16 @@ a.exec[`${kubectlPath} delete Deployment nginx-deployment-baseline --namespace t
     'stdout': ' "nginx-deployment-baseline" deleted'
 };
 
+a.exec[`${kubectlPath} delete Deployment nginx-deployment-green --namespace testnamespace`] = {
+    'code': 0,
+    'stdout': ' "nginx-deployment-green" deleted'
+};
+
+a.exec[`${kubectlPath} delete Service nginx-service-green --namespace testnamespace`] = {
+    'code': 0,
+    'stdout': ' "nginx-service-green" deleted'
+};
+
 a.exec[`${kubectlPath} delete secret secret --namespace testnamespace`] = {
     code: 0,
     stdout: 'deleted secret'
@@ -298,6 +346,11 @@ const pipelineAnnotations: string = [
 ].join(' ');
 const annotateCanaryCmd = `${kubectlPath} annotate -f ${shared.CanaryManifestFilesPath},${shared.BaselineManifestFilesPath} ` + pipelineAnnotations + ` --overwrite --namespace testnamespace`;
 
+a.exec[`${kubectlPath} annotate -f ${shared.GreenManifestFilesPath} ` + pipelineAnnotations + ` --overwrite --namespace testnamespace`] = {
+    'code': 0,
+    'stdout': 'deployment.apps/nginx-deployment-green annotated'
+};
+
 a.exec[annotateCanaryCmd] = {
     'code': 0,
     'stdout': 'deployment.apps/nginx-deployment-canary annotated. deployment.apps/nginx-deployment-baseline annotated'
@@ -360,6 +413,8 @@ tr.registerMock('../utils/FileHelper', {
                     newFilePaths.push(shared.CanaryManifestFilesPath);
                 } else if (inputObject.metadata.name.indexOf('baseline') !== -1) {
                     newFilePaths.push(shared.BaselineManifestFilesPath);
+                } else if (inputObject.metadata.name.indexOf('green') !== -1 && newFilePaths.indexOf(shared.GreenManifestFilesPath) === -1) {
+                    newFilePaths.push(shared.GreenManifestFilesPath);
                 }
             }
         });
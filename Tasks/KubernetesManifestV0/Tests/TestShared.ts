@@ -36,8 +36,12 @@ export let TestEnvVars = {
     isStableDeploymentPresent: "__isStableDeploymentPresent__",
     isCanaryDeploymentPresent: "__isCanaryDeploymentPresent__",
     isBaselineDeploymentPresent: "__isBaselineDeploymentPresent__",
+    isGreenDeploymentPresent: "__isGreenDeploymentPresent__",
     baselineAndCanaryReplicas: "__baselineAndCanaryReplicas__",
-    trafficSplitMethod: "__trafficSplitMethod__"
+    trafficSplitMethod: "__trafficSplitMethod__",
+    routeMethod: "__routeMethod__",
+    kubernetesVersion: "__kubernetesVersion__",
+    policyViolationSeverity: "__policyViolationSeverity__"
 };
 
 export let OperatingSystems = {
@@ -59,11 +63,13 @@ export let Actions = {
     scale: "scale",
     delete: "delete",
     reject: "reject",
-    promote: "promote"
+    promote: "promote",
+    validate: "validate"
 };
 
 export let Strategy = {
     canary: "canary",
+    blueGreen: "blueGreen",
     none: "none"
 };
 
@@ -72,9 +78,16 @@ export let TrafficSplitMethod = {
     smi: "smi"
 };
 
+export let RouteMethod = {
+    service: "service",
+    ingress: "ingress",
+    smi: "smi"
+};
+
 export const ManifestFilesPath = path.join(__dirname, 'manifests', 'deployment.yaml');
 export const CanaryManifestFilesPath = path.join(__dirname, 'manifests', 'deployment-canary.yaml');
 export const BaselineManifestFilesPath = path.join(__dirname, 'manifests', 'deployment-baseline.yaml');
+export const GreenManifestFilesPath = path.join(__dirname, 'manifests', 'deployment-green.yaml');
 export const DeleteCmdArguments  = "deployment nginx-deployment";
 
 /**
@@ -4,6 +4,7 @@ import * as tl from 'azure-pipelines-task-lib/task';
 import * as deploymentHelper from '../utils/DeploymentHelper';
 import * as canaryDeploymentHelper from '../utils/CanaryDeploymentHelper';
 import * as SMICanaryDeploymentHelper from '../utils/SMICanaryDeploymentHelper';
+import * as blueGreenDeploymentHelper from '../utils/BlueGreenDeploymentHelper';
 import * as utils from '../utils/utilities';
 import * as TaskInputParameters from '../models/TaskInputParameters';
 
@@ -13,8 +14,13 @@ export async function promote(ignoreSslErrors?: boolean) {
     TaskInputParameters.validateTimeoutForRolloutStatus();
     const kubectl = new Kubectl(await utils.getKubectl(), TaskInputParameters.namespace, ignoreSslErrors);
 
+    if (blueGreenDeploymentHelper.isBlueGreenDeploymentStrategy()) {
+        await promoteBlueGreen(kubectl);
+        return;
+    }
+
     if (!canaryDeploymentHelper.isCanaryDeploymentStrategy()) {
-        tl.debug('Strategy is not canary deployment. Invalid request.');
+        tl.debug('Strategy is not canary or blue-green deployment. Invalid request.');
         throw (tl.loc('InvalidPromotetActionDeploymentStrategy'));
     }
 
@@ -42,4 +48,24 @@ export async function promote(ignoreSslErrors?: boolean) {
     } catch (ex) {
         tl.warning('Exception occurred while deleting canary and baseline workloads. Exception: ' + ex);
     }
-}
\ No newline at end of file
+}
+
+async function promoteBlueGreen(kubectl: Kubectl) {
+    // The traffic is routed to the green workloads while the stable workloads are updated,
+    // then it is routed back to the stable workloads and the idle green workloads are deleted
+    tl.debug('Routing traffic to green deployment');
+    blueGreenDeploymentHelper.routeTrafficToGreenDeployment(kubectl, TaskInputParameters.manifests);
+
+    tl.debug('Deploying input manifests with blue-green strategy');
+    await deploymentHelper.deploy(kubectl, TaskInputParameters.manifests, 'None');
+
+    tl.debug('Routing traffic to stable deployment');
+    blueGreenDeploymentHelper.routeTrafficToStableDeployment(kubectl, TaskInputParameters.manifests);
+
+    tl.debug('Deployment strategy selected is blue-green. Deleting green workloads.');
+    try {
+        blueGreenDeploymentHelper.deleteGreenDeployment(kubectl, TaskInputParameters.manifests);
+    } catch (ex) {
+        tl.warning('Exception occurred while deleting green workloads. Exception: ' + ex);
+    }
+}
@@ -2,6 +2,7 @@
 import * as tl from 'azure-pipelines-task-lib/task';
 import * as canaryDeploymentHelper from '../utils/CanaryDeploymentHelper';
 import * as SMICanaryDeploymentHelper from '../utils/SMICanaryDeploymentHelper';
+import * as blueGreenDeploymentHelper from '../utils/BlueGreenDeploymentHelper';
 import { Kubectl } from 'kubernetes-common-v2/kubectl-object-model';
 import * as utils from '../utils/utilities';
 import * as TaskInputParameters from '../models/TaskInputParameters';
@@ -9,8 +10,17 @@ import * as TaskInputParameters from '../models/TaskInputParameters';
 export async function reject(ignoreSslErrors?: boolean) {
     const kubectl = new Kubectl(await utils.getKubectl(), TaskInputParameters.namespace, ignoreSslErrors);
 
+    if (blueGreenDeploymentHelper.isBlueGreenDeploymentStrategy()) {
+        tl.debug('Reject deployment with blue-green strategy');
+        blueGreenDeploymentHelper.routeTrafficToStableDeployment(kubectl, TaskInputParameters.manifests);
+
+        tl.debug('Deployment strategy selected is blue-green. Deleting green workloads.');
+        blueGreenDeploymentHelper.deleteGreenDeployment(kubectl, TaskInputParameters.manifests);
+        return;
+    }
+
     if (!canaryDeploymentHelper.isCanaryDeploymentStrategy()) {
-        tl.debug('Strategy is not canary deployment. Invalid request.');
+        tl.debug('Strategy is not canary or blue-green deployment. Invalid request.');
         throw (tl.loc('InvalidRejectActionDeploymentStrategy'));
     }
 
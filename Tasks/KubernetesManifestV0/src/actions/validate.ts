@@ -0,0 +1,16 @@
+'use strict';
+
+import * as tl from 'azure-pipelines-task-lib/task';
+
+import * as utils from '../utils/utilities';
+import * as TaskInputParameters from '../models/TaskInputParameters';
+import { validateManifestFiles } from '../utils/ManifestValidator';
+
+export async function validate() {
+    const manifestFiles: string[] = utils.getManifestFiles(TaskInputParameters.manifests);
+    if (manifestFiles == null || manifestFiles.length === 0) {
+        throw (tl.loc('ManifestFileNotFound', TaskInputParameters.manifests));
+    }
+
+    validateManifestFiles(manifestFiles, TaskInputParameters.kubernetesVersion, TaskInputParameters.policyViolationSeverity);
+}
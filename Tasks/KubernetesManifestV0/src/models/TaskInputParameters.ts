@@ -10,6 +10,7 @@ export const manifests = tl.getDelimitedInput('manifests', '\n');
 export const canaryPercentage: string = tl.getInput('percentage');
 export const deploymentStrategy: string = tl.getInput('strategy', false);
 export const trafficSplitMethod: string = tl.getInput('trafficSplitMethod', false);
+export const routeMethod: string = tl.getInput('routeMethod', false);
 export const baselineAndCanaryReplicas: string = tl.getInput('baselineAndCanaryReplicas', true);
 export const args: string = tl.getInput('arguments', false);
 export const secretArguments: string = tl.getInput('secretArguments', false) || '';
@@ -17,6 +18,9 @@ export const secretType: string = tl.getInput('secretType', false);
 export const secretName: string = tl.getInput('secretName', false);
 export const dockerRegistryEndpoint: string = tl.getInput('dockerRegistryEndpoint', false);
 export const rolloutStatusTimeout: string = tl.getInput('rolloutStatusTimeout', false);
+export const validateManifests: boolean = tl.getBoolInput('validateManifests', false);
+export const kubernetesVersion: string = tl.getInput('kubernetesVersion', false);
+export const policyViolationSeverity: string = tl.getInput('policyViolationSeverity', false);
 
 if (!namespace) {
     const kubConnection = tl.getInput('kubernetesServiceConnection', false);
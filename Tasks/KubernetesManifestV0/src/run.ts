@@ -11,6 +11,7 @@ import { deleteResources } from './actions/delete';
 import { promote } from './actions/promote';
 import { reject } from './actions/reject';
 import { createSecret } from './actions/createSecret';
+import { validate } from './actions/validate';
 
 tl.setResourcePath(path.join(__dirname, '..', 'task.json'));
 tl.setResourcePath(path.join(__dirname, '..', 'node_modules/kubernetes-common-v2/module.json'));
@@ -20,6 +21,9 @@ function run(): Promise<void> {
     if (action === 'bake') {
         return bake();
     }
+    if (action === 'validate') {
+        return validate();
+    }
     const connection = utils.getConnection();
     let action_func = null;
     switch (action) {
@@ -45,7 +49,7 @@ function run(): Promise<void> {
             action_func = createSecret;
             break;
         default:
-            tl.setResult(tl.TaskResult.Failed, 'Not a supported action, choose from "bake", "deploy", "patch", "scale", "delete", "promote", "reject"');
+            tl.setResult(tl.TaskResult.Failed, 'Not a supported action, choose from "bake", "deploy", "patch", "scale", "delete", "promote", "reject", "validate"');
             process.exit(1);
     }
     connection.open();
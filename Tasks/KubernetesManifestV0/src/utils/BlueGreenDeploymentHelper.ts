@@ -0,0 +1,310 @@
+'use strict';
+
+import { Kubectl } from 'kubernetes-common-v2/kubectl-object-model';
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as util from 'util';
+
+import * as TaskInputParameters from '../models/TaskInputParameters';
+import * as fileHelper from '../utils/FileHelper';
+import * as helper from '../utils/KubernetesObjectUtility';
+import * as utils from '../utils/utilities';
+import * as canaryDeploymentHelper from '../utils/CanaryDeploymentHelper';
+import { DiscoveryAndLoadBalancerResource } from 'kubernetes-common-v2/kubernetesconstants';
+import { StringComparer, isEqual } from './StringComparison';
+
+export const BLUE_GREEN_DEPLOYMENT_STRATEGY = 'BLUEGREEN';
+export const GREEN_LABEL_VALUE = 'green';
+const GREEN_SUFFIX = '-green';
+export const SERVICE_ROUTE_METHOD = 'SERVICE';
+export const INGRESS_ROUTE_METHOD = 'INGRESS';
+export const SMI_ROUTE_METHOD = 'SMI';
+const TRAFFIC_SPLIT_OBJECT_NAME_SUFFIX = '-azure-pipelines-bluegreen';
+const TRAFFIC_SPLIT_OBJECT = 'TrafficSplit';
+var trafficSplitAPIVersion = null;
+
+export function isBlueGreenDeploymentStrategy() {
+    const deploymentStrategy = TaskInputParameters.deploymentStrategy;
+    return deploymentStrategy && deploymentStrategy.toUpperCase() === BLUE_GREEN_DEPLOYMENT_STRATEGY;
+}
+
+export function getRouteMethod(): string {
+    const routeMethod = TaskInputParameters.routeMethod;
+    return routeMethod ? routeMethod.toUpperCase() : SERVICE_ROUTE_METHOD;
+}
+
+export function getGreenResourceName(name: string) {
+    return name + GREEN_SUFFIX;
+}
+
+/**
+ * Deploys a green copy of the workloads next to the stable ones. Traffic keeps going to the stable
+ * workloads, the green ones are reachable through the green services until they are promoted.
+ */
+export function deployBlueGreen(kubectl: Kubectl, filePaths: string[]) {
+    const newObjectsList = [];
+    const trafficObjectsList = [];
+    const routeMethod = getRouteMethod();
+
+    filePaths.forEach((filePath: string) => {
+        const fileContents = fs.readFileSync(filePath);
+        yaml.safeLoadAll(fileContents, function (inputObject) {
+            const name = inputObject.metadata.name;
+            const kind = inputObject.kind;
+            if (helper.isDeploymentEntity(kind)) {
+                tl.debug('Querying stable object');
+                const stableObject = canaryDeploymentHelper.fetchResource(kubectl, kind, name);
+                if (stableObject && !canaryDeploymentHelper.isResourceMarkedAsStable(stableObject)) {
+                    throw (tl.loc('BlueGreenStableSelectorNotExist', name));
+                }
+
+                const newGreenObject = getNewGreenResource(inputObject);
+                tl.debug('New green object is: ' + JSON.stringify(newGreenObject));
+                newObjectsList.push(newGreenObject);
+            } else if (helper.isServiceEntity(kind)) {
+                const newGreenServiceObject = getNewGreenResource(inputObject);
+                tl.debug('New green service object is: ' + JSON.stringify(newGreenServiceObject));
+                newObjectsList.push(newGreenServiceObject);
+
+                if (routeMethod === SMI_ROUTE_METHOD) {
+                    // the service itself is the root service of the traffic split between the stable and green services
+                    newObjectsList.push(inputObject);
+                    newObjectsList.push(canaryDeploymentHelper.getStableResource(inputObject));
+                    tl.debug('Creating the traffic object for service: ' + name);
+                    trafficObjectsList.push(createTrafficSplitManifestFile(kubectl, name, 1000, 0));
+                } else {
+                    // the service must only select the stable pods, not the green ones
+                    newObjectsList.push(canaryDeploymentHelper.markResourceAsStable(inputObject));
+                }
+            } else {
+                // Updating other entities as it is. Ingresses keep routing to the stable services.
+                newObjectsList.push(inputObject);
+            }
+        });
+    });
+
+    const manifestFiles = fileHelper.writeObjectsToFile(newObjectsList);
+    manifestFiles.push(...trafficObjectsList);
+    const result = kubectl.apply(manifestFiles);
+    return { 'result': result, 'newFilePaths': manifestFiles };
+}
+
+/**
+ * Gets the manifests that update the stable workloads on promote. Services and ingresses are left out
+ * when the route method switches them, so traffic stays on the green workloads until the stable ones are rolled out.
+ */
+export function getStableManifests(filePaths: string[]): string[] {
+    const newObjectsList = [];
+    const routeMethod = getRouteMethod();
+
+    filePaths.forEach((filePath: string) => {
+        const fileContents = fs.readFileSync(filePath);
+        yaml.safeLoadAll(fileContents, function (inputObject) {
+            const kind = inputObject.kind;
+            if (helper.isDeploymentEntity(kind)) {
+                newObjectsList.push(canaryDeploymentHelper.markResourceAsStable(inputObject));
+            } else if (helper.isServiceEntity(kind) && routeMethod !== SMI_ROUTE_METHOD) {
+                tl.debug('Service is routed separately: ' + inputObject.metadata.name);
+            } else if (isIngressEntity(kind) && routeMethod === INGRESS_ROUTE_METHOD) {
+                tl.debug('Ingress is routed separately: ' + inputObject.metadata.name);
+            } else {
+                newObjectsList.push(inputObject);
+            }
+        });
+    });
+
+    return fileHelper.writeObjectsToFile(newObjectsList);
+}
+
+export function routeTrafficToGreenDeployment(kubectl: Kubectl, manifestFilePaths: string[]) {
+    routeTraffic(kubectl, manifestFilePaths, GREEN_LABEL_VALUE);
+}
+
+export function routeTrafficToStableDeployment(kubectl: Kubectl, manifestFilePaths: string[]) {
+    routeTraffic(kubectl, manifestFilePaths, canaryDeploymentHelper.STABLE_LABEL_VALUE);
+}
+
+export function deleteGreenDeployment(kubectl: Kubectl, manifestFilePaths: string[]) {
+
+    // get manifest files
+    const inputManifestFiles: string[] = utils.getManifestFiles(manifestFilePaths);
+
+    if (inputManifestFiles == null || inputManifestFiles.length == 0) {
+        throw (tl.loc('ManifestFileNotFound'));
+    }
+
+    const kindNameMap = {};
+    inputManifestFiles.forEach((filePath: string) => {
+        const fileContents = fs.readFileSync(filePath);
+        yaml.safeLoadAll(fileContents, function (inputObject) {
+            const kind = inputObject.kind;
+            if (helper.isDeploymentEntity(kind) || helper.isServiceEntity(kind)) {
+                const greenObjectName = getGreenResourceName(inputObject.metadata.name);
+                const result = kubectl.getResource(kind, greenObjectName);
+                if (result != null && !result.stderr) {
+                    kindNameMap[kind] = kindNameMap[kind] || new Set<string>();
+                    kindNameMap[kind].add(greenObjectName);
+                }
+            }
+        });
+    });
+
+    const kindList = Object.keys(kindNameMap);
+    if (kindList.length === 0) {
+        tl.debug('BlueGreenDeploymentHelper : No green objects found');
+    }
+    kindList.forEach(kind => {
+        const argsPrefix = utils.createKubectlArgs(kind, kindNameMap[kind]);
+        const args = utils.getDeleteCmdArgs(argsPrefix, TaskInputParameters.args);
+        tl.debug('Delete cmd args : ' + args);
+
+        if (!!args && args.length > 0) {
+            // run kubectl delete cmd
+            const result = kubectl.delete(args);
+            utils.checkForErrors([result]);
+        }
+    });
+}
+
+function getNewGreenResource(inputObject: any): object {
+    const newObject = JSON.parse(JSON.stringify(inputObject));
+
+    // Updating name
+    newObject.metadata.name = getGreenResourceName(inputObject.metadata.name);
+
+    // Adding labels and annotations.
+    canaryDeploymentHelper.addCanaryLabelsAndAnnotations(newObject, GREEN_LABEL_VALUE);
+
+    return newObject;
+}
+
+function isIngressEntity(kind: string): boolean {
+    return isEqual(kind, DiscoveryAndLoadBalancerResource.ingress, StringComparer.OrdinalIgnoreCase);
+}
+
+function routeTraffic(kubectl: Kubectl, manifestFilePaths: string[], version: string) {
+    // get manifest files
+    const inputManifestFiles: string[] = utils.getManifestFiles(manifestFilePaths);
+
+    if (inputManifestFiles == null || inputManifestFiles.length == 0) {
+        return;
+    }
+
+    const inputObjects = [];
+    inputManifestFiles.forEach((filePath: string) => {
+        const fileContents = fs.readFileSync(filePath);
+        yaml.safeLoadAll(fileContents, function (inputObject) {
+            if (inputObject && inputObject.kind) {
+                inputObjects.push(inputObject);
+            }
+        });
+    });
+
+    if (version === GREEN_LABEL_VALUE) {
+        // never route the traffic to workloads that were not deployed
+        inputObjects.filter(inputObject => helper.isDeploymentEntity(inputObject.kind)).forEach(inputObject => {
+            const greenObjectName = getGreenResourceName(inputObject.metadata.name);
+            if (!canaryDeploymentHelper.fetchResource(kubectl, inputObject.kind, greenObjectName)) {
+                throw (tl.loc('GreenDeploymentNotFound', greenObjectName));
+            }
+        });
+    }
+
+    const routeMethod = getRouteMethod();
+    const serviceNames: string[] = inputObjects.filter(inputObject => helper.isServiceEntity(inputObject.kind)).map(inputObject => inputObject.metadata.name);
+    const newObjectsList = [];
+    const trafficSplitManifests = [];
+    inputObjects.forEach(inputObject => {
+        if (routeMethod === SERVICE_ROUTE_METHOD && helper.isServiceEntity(inputObject.kind)) {
+            const newServiceObject = JSON.parse(JSON.stringify(inputObject));
+            canaryDeploymentHelper.addCanaryLabelsAndAnnotations(newServiceObject, version);
+            newObjectsList.push(newServiceObject);
+        } else if (routeMethod === INGRESS_ROUTE_METHOD && isIngressEntity(inputObject.kind)) {
+            newObjectsList.push(version === GREEN_LABEL_VALUE ? getGreenIngress(inputObject, serviceNames) : inputObject);
+        } else if (routeMethod === SMI_ROUTE_METHOD && helper.isServiceEntity(inputObject.kind)) {
+            const greenWeight = version === GREEN_LABEL_VALUE ? 1000 : 0;
+            trafficSplitManifests.push(createTrafficSplitManifestFile(kubectl, inputObject.metadata.name, 1000 - greenWeight, greenWeight));
+        }
+    });
+
+    if (newObjectsList.length === 0 && trafficSplitManifests.length === 0) {
+        return;
+    }
+
+    const manifestFiles = newObjectsList.length > 0 ? fileHelper.writeObjectsToFile(newObjectsList) : [];
+    manifestFiles.push(...trafficSplitManifests);
+    tl.debug('Routing traffic to ' + version + ' deployment');
+    const result = kubectl.apply(manifestFiles);
+    utils.checkForErrors([result]);
+}
+
+/**
+ * Gets a copy of the ingress whose backends use the green copies of the services in the manifests.
+ * Supports both the serviceName backends of extensions/v1beta1 and networking.k8s.io/v1beta1 and the service backends of networking.k8s.io/v1.
+ */
+function getGreenIngress(inputObject: any, serviceNames: string[]): object {
+    const newObject = JSON.parse(JSON.stringify(inputObject));
+    const updateBackend = (backend: any) => {
+        if (!backend) {
+            return;
+        }
+
+        if (backend.serviceName && serviceNames.indexOf(backend.serviceName) !== -1) {
+            backend.serviceName = getGreenResourceName(backend.serviceName);
+        }
+
+        if (backend.service && backend.service.name && serviceNames.indexOf(backend.service.name) !== -1) {
+            backend.service.name = getGreenResourceName(backend.service.name);
+        }
+    };
+
+    const spec = newObject.spec || {};
+    updateBackend(spec.backend);
+    updateBackend(spec.defaultBackend);
+    (spec.rules || []).forEach(rule => {
+        if (rule.http && rule.http.paths) {
+            rule.http.paths.forEach(ingressPath => updateBackend(ingressPath.backend));
+        }
+    });
+
+    return newObject;
+}
+
+function createTrafficSplitManifestFile(kubectl: Kubectl, serviceName: string, stableWeight: number, greenWeight: number): string {
+    const smiObjectString = getTrafficSplitObject(kubectl, serviceName, stableWeight, greenWeight);
+    const manifestFile = fileHelper.writeManifestToFile(smiObjectString, TRAFFIC_SPLIT_OBJECT, serviceName);
+    if (!manifestFile) {
+        throw new Error(tl.loc('UnableToCreateTrafficSplitManifestFile', 'Could not create manifest file for TrafficSplit object'));
+    }
+
+    return manifestFile;
+}
+
+function getTrafficSplitObject(kubectl: Kubectl, name: string, stableWeight: number, greenWeight: number): string {
+    if (!trafficSplitAPIVersion)
+        trafficSplitAPIVersion = utils.getTrafficSplitAPIVersion(kubectl);
+    const trafficSplitObjectJson = `{
+        "apiVersion": "${trafficSplitAPIVersion}",
+        "kind": "TrafficSplit",
+        "metadata": {
+            "name": "%s"
+        },
+        "spec": {
+            "backends": [
+                {
+                    "service": "%s",
+                    "weight": "%sm"
+                },
+                {
+                    "service": "%s",
+                    "weight": "%sm"
+                }
+            ],
+            "service": "%s"
+        }
+    }`;
+
+    const trafficSplitObject = util.format(trafficSplitObjectJson, name + TRAFFIC_SPLIT_OBJECT_NAME_SUFFIX, canaryDeploymentHelper.getStableResourceName(name), stableWeight, getGreenResourceName(name), greenWeight, name);
+    return trafficSplitObject;
+}
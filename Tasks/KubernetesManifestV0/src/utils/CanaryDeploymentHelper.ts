@@ -169,7 +169,7 @@ function isSpecContainsReplicas(kind: string) {
         !helper.isServiceEntity(kind)
 }
 
-function addCanaryLabelsAndAnnotations(inputObject: any, type: string) {
+export function addCanaryLabelsAndAnnotations(inputObject: any, type: string) {
     const newLabels = new Map<string, string>();
     newLabels[CANARY_VERSION_LABEL] = type;
 
@@ -20,6 +20,8 @@ import { getDeploymentMetadata, getPublishDeploymentRequestUrl, isDeploymentEnti
 import { WebRequest, sendRequest } from 'utility-common-v2/restutilities';
 import { deployPodCanary } from './PodCanaryDeploymentHelper';
 import { deploySMICanary } from './SMICanaryDeploymentHelper';
+import { validateManifestFiles } from './ManifestValidator';
+import { BLUE_GREEN_DEPLOYMENT_STRATEGY, deployBlueGreen, getStableManifests, isBlueGreenDeploymentStrategy } from './BlueGreenDeploymentHelper';
 
 export async function deploy(kubectl: Kubectl, manifestFilePaths: string[], deploymentStrategy: string) {
 
@@ -29,8 +31,13 @@ export async function deploy(kubectl: Kubectl, manifestFilePaths: string[], depl
     // imagePullSecrets addition & artifact substitution
     inputManifestFiles = updateResourceObjects(inputManifestFiles, TaskInputParameters.imagePullSecrets, TaskInputParameters.containers);
 
+    // offline validation of the manifests that are going to be applied
+    if (TaskInputParameters.validateManifests) {
+        validateManifestFiles(inputManifestFiles, TaskInputParameters.kubernetesVersion, TaskInputParameters.policyViolationSeverity);
+    }
+
     // deployment
-    const deployedManifestFiles = deployManifests(inputManifestFiles, kubectl, isCanaryDeploymentStrategy(deploymentStrategy));
+    const deployedManifestFiles = deployManifests(inputManifestFiles, kubectl, deploymentStrategy);
 
     // check manifest stability
     const resourceTypes: Resource[] = KubernetesObjectUtility.getResources(deployedManifestFiles, models.deploymentTypes.concat([KubernetesConstants.DiscoveryAndLoadBalancerResource.service]));
@@ -52,8 +59,8 @@ export async function deploy(kubectl: Kubectl, manifestFilePaths: string[], depl
 
     annotateResources(deployedManifestFiles, kubectl, resourceTypes, allPods);
 
-    // Capture and push deployment metadata only if deployment strategy is not specified (because for Canary/SMI we do not replace actual deployment objects)
-    if (!isCanaryDeploymentStrategy(deploymentStrategy)) {
+    // Capture and push deployment metadata only if deployment strategy is not specified (because for Canary/SMI/Blue-green we do not replace actual deployment objects)
+    if (!isCanaryDeploymentStrategy(deploymentStrategy) && !isBlueGreenStrategy(deploymentStrategy)) {
         try {
             const clusterInfo = kubectl.getClusterInfo().stdout;
             captureAndPushDeploymentMetadata(inputManifestFiles, allPods, deploymentStrategy, clusterInfo, manifestFilePaths);
@@ -73,9 +80,9 @@ function getManifestFiles(manifestFilePaths: string[]): string[] {
     return files;
 }
 
-function deployManifests(files: string[], kubectl: Kubectl, isCanaryDeploymentStrategy: boolean): string[] {
+function deployManifests(files: string[], kubectl: Kubectl, deploymentStrategy: string): string[] {
     let result;
-    if (isCanaryDeploymentStrategy) {
+    if (isCanaryDeploymentStrategy(deploymentStrategy)) {
         let canaryDeploymentOutput: any;
         if (canaryDeploymentHelper.isSMICanaryStrategy()) {
             canaryDeploymentOutput = deploySMICanary(kubectl, files);
@@ -84,8 +91,16 @@ function deployManifests(files: string[], kubectl: Kubectl, isCanaryDeploymentSt
         }
         result = canaryDeploymentOutput.result;
         files = canaryDeploymentOutput.newFilePaths;
+    } else if (isBlueGreenStrategy(deploymentStrategy)) {
+        const blueGreenDeploymentOutput = deployBlueGreen(kubectl, files);
+        result = blueGreenDeploymentOutput.result;
+        files = blueGreenDeploymentOutput.newFilePaths;
     } else {
-        if (canaryDeploymentHelper.isSMICanaryStrategy()) {
+        if (isBlueGreenDeploymentStrategy()) {
+            // promote of a blue-green deployment, the stable workloads are updated while the traffic goes to the green ones
+            files = getStableManifests(files);
+            result = kubectl.apply(files);
+        } else if (canaryDeploymentHelper.isSMICanaryStrategy()) {
             const updatedManifests = appendStableVersionLabelToResource(files, kubectl);
             result = kubectl.apply(updatedManifests);
         } else {
@@ -215,3 +230,7 @@ async function pushDeploymentDataToEvidenceStore(requestBody: string, requestUrl
 function isCanaryDeploymentStrategy(deploymentStrategy: string): boolean {
     return deploymentStrategy != null && deploymentStrategy.toUpperCase() === canaryDeploymentHelper.CANARY_DEPLOYMENT_STRATEGY.toUpperCase();
 }
+
+function isBlueGreenStrategy(deploymentStrategy: string): boolean {
+    return deploymentStrategy != null && deploymentStrategy.toUpperCase() === BLUE_GREEN_DEPLOYMENT_STRATEGY;
+}
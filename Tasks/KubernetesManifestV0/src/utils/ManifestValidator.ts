@@ -0,0 +1,296 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as yaml from 'js-yaml';
+
+import * as helper from './KubernetesObjectUtility';
+import { KubernetesWorkload } from 'kubernetes-common-v2/kubernetesconstants';
+import { StringComparer, isEqual } from './StringComparison';
+
+export const DEFAULT_KUBERNETES_VERSION = '1.18';
+export const POLICY_VIOLATION_SEVERITY_ERROR = 'ERROR';
+
+export interface ValidationFinding {
+    filePath: string;
+    resource: string;
+    message: string;
+    isError: boolean;
+}
+
+interface ApiResource {
+    apiVersion: string;
+    kind: string;
+    definition?: string;
+    introduced?: string;
+    deprecated?: string;
+    removed?: string;
+    replacement?: string;
+}
+
+const schemasDirectory = path.join(__dirname, '..', '..', 'schemas');
+let definitions: any = null;
+let apiResources: ApiResource[] = null;
+let supportedVersions: string[] = null;
+
+/**
+ * Validates the manifests, reports the findings and fails the task if any of them is an error.
+ */
+export function validateManifestFiles(filePaths: string[], kubernetesVersion: string, policyViolationSeverity: string) {
+    kubernetesVersion = kubernetesVersion || DEFAULT_KUBERNETES_VERSION;
+    const policyViolationsAsErrors = !!policyViolationSeverity && policyViolationSeverity.toUpperCase() === POLICY_VIOLATION_SEVERITY_ERROR;
+
+    console.log(tl.loc('ValidatingManifests', filePaths.length, kubernetesVersion));
+    const findings = validateManifests(filePaths, kubernetesVersion, policyViolationsAsErrors);
+    const errorCount = reportFindings(findings);
+    if (errorCount > 0) {
+        throw new Error(tl.loc('ManifestValidationFailed', errorCount));
+    }
+}
+
+/**
+ * Checks the manifests offline against the bundled schemas of the Kubernetes version and the built-in policy rules.
+ * Objects whose apiVersion and kind have no bundled schema, e.g. custom resources, are only checked against the policy rules.
+ */
+export function validateManifests(filePaths: string[], kubernetesVersion: string, policyViolationsAsErrors: boolean): ValidationFinding[] {
+    loadSchemas();
+    if (supportedVersions.indexOf(kubernetesVersion) === -1) {
+        throw new Error(tl.loc('UnsupportedKubernetesVersion', kubernetesVersion, supportedVersions.join(', ')));
+    }
+
+    const findings: ValidationFinding[] = [];
+    filePaths.forEach((filePath: string) => {
+        const fileContents = fs.readFileSync(filePath).toString();
+        try {
+            yaml.safeLoadAll(fileContents, function (inputObject: any) {
+                if (inputObject) {
+                    validateObject(inputObject, filePath, kubernetesVersion, policyViolationsAsErrors, findings);
+                }
+            });
+        } catch (ex) {
+            findings.push({ filePath: filePath, resource: '', message: tl.loc('InvalidManifestYaml', ex.message || ex), isError: true });
+        }
+    });
+
+    return findings;
+}
+
+/**
+ * Logs the findings as warnings and errors and returns the number of errors.
+ */
+export function reportFindings(findings: ValidationFinding[]): number {
+    let errorCount = 0;
+    findings.forEach((finding: ValidationFinding) => {
+        const message = tl.loc('ManifestValidationFinding', finding.filePath, finding.resource, finding.message);
+        if (finding.isError) {
+            errorCount++;
+            tl.error(message);
+        } else {
+            tl.warning(message);
+        }
+    });
+
+    console.log(tl.loc('ManifestValidationSummary', errorCount, findings.length - errorCount));
+    return errorCount;
+}
+
+function loadSchemas() {
+    if (definitions) {
+        return;
+    }
+
+    definitions = JSON.parse(fs.readFileSync(path.join(schemasDirectory, 'definitions.json')).toString()).definitions;
+    const apiVersions = JSON.parse(fs.readFileSync(path.join(schemasDirectory, 'apiversions.json')).toString());
+    apiResources = apiVersions.resources;
+    supportedVersions = apiVersions.versions;
+}
+
+function validateObject(inputObject: any, filePath: string, kubernetesVersion: string, policyViolationsAsErrors: boolean, findings: ValidationFinding[]) {
+    const metadata = inputObject.metadata || {};
+    const resource = `${inputObject.kind}/${metadata.name || metadata.generateName || ''}`;
+    const addFinding = (message: string, isError: boolean) => {
+        findings.push({ filePath: filePath, resource: resource, message: message, isError: isError });
+    };
+
+    if (!inputObject.apiVersion || !inputObject.kind) {
+        addFinding(tl.loc('ManifestMissingApiVersionOrKind'), true);
+        return;
+    }
+
+    if (!metadata.name && !metadata.generateName) {
+        addFinding(tl.loc('ManifestMissingName'), true);
+    }
+
+    const apiResource = apiResources.filter(r => r.apiVersion === inputObject.apiVersion && r.kind === inputObject.kind)[0];
+    if (!apiResource) {
+        tl.debug(`No bundled schema for ${inputObject.apiVersion} ${inputObject.kind}, skipping the schema validation.`);
+    } else if (apiResource.introduced && compareVersions(kubernetesVersion, apiResource.introduced) < 0) {
+        addFinding(tl.loc('ApiVersionNotServed', inputObject.apiVersion, inputObject.kind, kubernetesVersion, apiResource.introduced), true);
+    } else if (apiResource.removed && compareVersions(kubernetesVersion, apiResource.removed) >= 0) {
+        addFinding(tl.loc('ApiVersionRemoved', inputObject.apiVersion, inputObject.kind, apiResource.removed, apiResource.replacement), true);
+    } else {
+        if (apiResource.deprecated && compareVersions(kubernetesVersion, apiResource.deprecated) >= 0) {
+            addFinding(tl.loc('ApiVersionDeprecated', inputObject.apiVersion, inputObject.kind, apiResource.deprecated, apiResource.replacement), false);
+        }
+
+        if (apiResource.definition) {
+            validateValue(inputObject, { $ref: '#/definitions/' + apiResource.definition }, '', kubernetesVersion, addFinding);
+        }
+    }
+
+    const podSpec = helper.isWorkloadEntity(inputObject.kind) ? getPodSpec(inputObject) : null;
+    if (podSpec) {
+        const containers: any[] = [].concat(podSpec.containers || [], podSpec.initContainers || []);
+        containers.filter(container => !!container).forEach(container => {
+            checkContainerPolicies(container, policyViolationsAsErrors, addFinding);
+        });
+    }
+}
+
+/**
+ * Validates the value against the schema. Type and required field violations are errors, while unknown fields
+ * and fields not available in the Kubernetes version are warnings, as the API server drops them.
+ */
+function validateValue(value: any, schema: any, fieldPath: string, kubernetesVersion: string, addFinding: (message: string, isError: boolean) => void) {
+    // null fields are dropped by the API server, like creationTimestamp: null in generated manifests
+    if (value === null || value === undefined) {
+        return;
+    }
+
+    if (schema.$ref) {
+        schema = definitions[schema.$ref.replace('#/definitions/', '')];
+    }
+
+    if (schema.format === 'int-or-string') {
+        if (typeof value !== 'string' && !Number.isInteger(value)) {
+            addFinding(tl.loc('SchemaInvalidType', fieldPath, 'integer or string', getTypeName(value)), true);
+        }
+        return;
+    }
+
+    if (schema.format === 'quantity') {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            addFinding(tl.loc('SchemaInvalidType', fieldPath, 'quantity', getTypeName(value)), true);
+        }
+        return;
+    }
+
+    switch (schema.type) {
+        case 'object':
+            if (getTypeName(value) !== 'object') {
+                addFinding(tl.loc('SchemaInvalidType', fieldPath, 'object', getTypeName(value)), true);
+                return;
+            }
+
+            (schema.required || []).forEach((requiredField: string) => {
+                if (value[requiredField] === null || value[requiredField] === undefined) {
+                    addFinding(tl.loc('SchemaMissingRequiredField', joinFieldPath(fieldPath, requiredField)), true);
+                }
+            });
+
+            Object.keys(value).forEach(key => {
+                const property = schema.properties && schema.properties[key];
+                if (property && isAvailable(property, kubernetesVersion)) {
+                    validateValue(value[key], property, joinFieldPath(fieldPath, key), kubernetesVersion, addFinding);
+                } else if (property) {
+                    addFinding(tl.loc('SchemaFieldNotAvailable', joinFieldPath(fieldPath, key), kubernetesVersion), false);
+                } else if (schema.additionalProperties) {
+                    validateValue(value[key], schema.additionalProperties, joinFieldPath(fieldPath, key), kubernetesVersion, addFinding);
+                } else if (schema.properties) {
+                    addFinding(tl.loc('SchemaUnknownField', joinFieldPath(fieldPath, key)), false);
+                }
+            });
+            break;
+        case 'array':
+            if (!Array.isArray(value)) {
+                addFinding(tl.loc('SchemaInvalidType', fieldPath, 'array', getTypeName(value)), true);
+                return;
+            }
+
+            value.forEach((item, index) => validateValue(item, schema.items, `${fieldPath}[${index}]`, kubernetesVersion, addFinding));
+            break;
+        case 'string':
+            // YAML parses unquoted timestamps to dates
+            if (typeof value !== 'string' && !(value instanceof Date)) {
+                addFinding(tl.loc('SchemaInvalidType', fieldPath, 'string', getTypeName(value)), true);
+            }
+            break;
+        case 'integer':
+            if (!Number.isInteger(value)) {
+                addFinding(tl.loc('SchemaInvalidType', fieldPath, 'integer', getTypeName(value)), true);
+            }
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                addFinding(tl.loc('SchemaInvalidType', fieldPath, 'boolean', getTypeName(value)), true);
+            }
+            break;
+    }
+}
+
+function checkContainerPolicies(container: any, policyViolationsAsErrors: boolean, addFinding: (message: string, isError: boolean) => void) {
+    const image: string = container.image || '';
+    if (image && image.indexOf('@') === -1) {
+        const lastSlashIndex = image.lastIndexOf('/');
+        const lastColonIndex = image.lastIndexOf(':');
+        const tag = lastColonIndex > lastSlashIndex ? image.substring(lastColonIndex + 1) : '';
+        if (!tag || tag === 'latest') {
+            addFinding(tl.loc('PolicyLatestImageTag', container.name, image), policyViolationsAsErrors);
+        }
+    }
+
+    const limits = (container.resources && container.resources.limits) || {};
+    const missingLimits = ['cpu', 'memory'].filter(limit => limits[limit] === null || limits[limit] === undefined);
+    if (missingLimits.length > 0) {
+        addFinding(tl.loc('PolicyResourceLimitsNotSet', container.name, missingLimits.join(', ')), policyViolationsAsErrors);
+    }
+
+    if (container.securityContext && container.securityContext.privileged === true) {
+        addFinding(tl.loc('PolicyPrivilegedContainer', container.name), policyViolationsAsErrors);
+    }
+}
+
+function getPodSpec(inputObject: any): any {
+    const spec = inputObject.spec;
+    if (!spec) {
+        return null;
+    }
+
+    if (isEqual(inputObject.kind, KubernetesWorkload.pod, StringComparer.OrdinalIgnoreCase)) {
+        return spec;
+    }
+
+    if (isEqual(inputObject.kind, KubernetesWorkload.cronjob, StringComparer.OrdinalIgnoreCase)) {
+        return spec.jobTemplate && spec.jobTemplate.spec && spec.jobTemplate.spec.template ? spec.jobTemplate.spec.template.spec : null;
+    }
+
+    return spec.template ? spec.template.spec : null;
+}
+
+function isAvailable(schema: any, kubernetesVersion: string): boolean {
+    return (!schema.introduced || compareVersions(kubernetesVersion, schema.introduced) >= 0)
+        && (!schema.removed || compareVersions(kubernetesVersion, schema.removed) < 0);
+}
+
+function compareVersions(version: string, otherVersion: string): number {
+    const parts = version.split('.').map(Number);
+    const otherParts = otherVersion.split('.').map(Number);
+    return parts[0] !== otherParts[0] ? parts[0] - otherParts[0] : parts[1] - otherParts[1];
+}
+
+function joinFieldPath(fieldPath: string, field: string): string {
+    return fieldPath ? `${fieldPath}.${field}` : field;
+}
+
+function getTypeName(value: any): string {
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+
+    if (Number.isInteger(value)) {
+        return 'integer';
+    }
+
+    return typeof value;
+}
@@ -195,4 +195,114 @@ describe('SshV0 Suite', function() {
             assert(tr.stdout.indexOf('Input required: readyTimeout') >= 0, 'wrong error message: "' + tr.stdout + '"');
         }, tr, done);
     });
-});
\ No newline at end of file
+
+    it('Fails for environment variable that cannot be exported', (done) => {
+        process.env['commands'] = 'ls -l';
+        process.env['sshEndpoint'] = 'IDValidKey';
+        process.env['runOptions'] = 'commands';
+        process.env['readyTimeout'] = '20000';
+        process.env['environmentVariables'] = 'Build.BuildId\nmy-variable';
+
+        let tp = path.join(__dirname, 'L0SshRunner.js');
+        var tr = new tmrm.MockTestRunner(tp);
+
+        tr.run();
+        delete process.env['environmentVariables'];
+
+        runValidations(() => {
+            assert(tr.invokedToolCount == 0, 'should not have run any tools');
+            assert(tr.failed, 'task should have failed');
+            assert(tr.stdout.indexOf('loc_mock_InvalidEnvironmentVariableName my-variable') >= 0, 'wrong error message: "' + tr.stdout + '"');
+            assert(tr.stdout.indexOf('loc_mock_SettingUpSshConnection') < 0, 'should not have connected');
+        }, tr, done);
+    });
+
+    it('Exports environment variables from a file on the remote machine', (done) => {
+        process.env['commands'] = 'ls -l';
+        process.env['sshEndpoint'] = 'IDValidKey';
+        process.env['runOptions'] = 'commands';
+        process.env['readyTimeout'] = '20000';
+        process.env['environmentVariables'] = 'Build.BuildId\nMy.Secret';
+        process.env['remoteFiles'] = '{}';
+        process.env['BUILD_BUILDID'] = '42';
+        process.env['SECRET_MY_SECRET'] = 'it\'s secret';
+
+        let tp = path.join(__dirname, 'L0SshRunner.js');
+        var tr = new tmrm.MockTestRunner(tp);
+
+        tr.run();
+        delete process.env['environmentVariables'];
+        delete process.env['remoteFiles'];
+        delete process.env['BUILD_BUILDID'];
+        delete process.env['SECRET_MY_SECRET'];
+
+        runValidations(() => {
+            const remoteCommands: string[] = tr.stdout.split('\n').filter(line => line.indexOf('remote: exec ') === 0);
+            const environmentFile: string = /remote: write (\S+) mode 600: export BUILD_BUILDID='42' MY_SECRET='it'\\''s secret'/.exec(tr.stdout)[1];
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf('loc_mock_ExportingEnvironmentVariables BUILD_BUILDID, MY_SECRET') >= 0, 'should have exported the variables');
+            assert(tr.stdout.indexOf('##vso[task.setsecret]it\'s secret') >= 0, 'should have masked the secret value');
+            assert(remoteCommands.indexOf(`remote: exec . "${environmentFile}"; ls -l`) >= 0, 'should have sourced the environment file before the command');
+            assert(remoteCommands.every(line => line.indexOf('secret') < 0), 'should not have passed the values on the command line');
+            assert(tr.stdout.indexOf('remote: remove ' + environmentFile) >= 0, 'should have deleted the environment file');
+        }, tr, done);
+    });
+
+    it('Downloads result files matching the patterns', (done) => {
+        process.env['commands'] = 'ls -l';
+        process.env['sshEndpoint'] = 'IDValidKey';
+        process.env['runOptions'] = 'commands';
+        process.env['readyTimeout'] = '20000';
+        process.env['resultFiles'] = 'logs/*.log\nmy results/**/TEST-*.xml\n$(touch x)';
+        process.env['remoteFiles'] = JSON.stringify({
+            'logs/*.log': ['logs/build.log'],
+            'my results/**/TEST-*.xml': ['my results/unit/TEST-1.xml', '/tmp/TEST-2.xml']
+        });
+
+        let tp = path.join(__dirname, 'L0SshRunner.js');
+        var tr = new tmrm.MockTestRunner(tp);
+
+        tr.run();
+        delete process.env['resultFiles'];
+        delete process.env['remoteFiles'];
+
+        runValidations(() => {
+            const resultsFolder: string = path.join(__dirname, 'results');
+            assert(tr.succeeded, 'task should have succeeded');
+            assert(tr.stdout.indexOf(`bash 'logs/*.log' 'my results/**/TEST-*.xml' '$(touch x)'`) >= 0, 'should have quoted the patterns');
+            assert(tr.stdout.indexOf('remote: find my results/**/TEST-*.xml') >= 0, 'should have passed the patterns as single words');
+            assert(tr.stdout.indexOf('remote: find $(touch x)') >= 0, 'should not have run the pattern as a command');
+            assert(tr.stdout.indexOf(`loc_mock_DownloadingResultFiles 3 ${resultsFolder}`) >= 0, 'should have downloaded the result files');
+            assert(tr.stdout.indexOf(`remote: download logs/build.log to ${path.join(resultsFolder, 'logs', 'build.log')}`) >= 0, 'should have downloaded logs/build.log');
+            assert(tr.stdout.indexOf(`remote: download my results/unit/TEST-1.xml to ${path.join(resultsFolder, 'my results', 'unit', 'TEST-1.xml')}`) >= 0, 'should have kept the remote path');
+            assert(tr.stdout.indexOf(`remote: download /tmp/TEST-2.xml to ${path.join(resultsFolder, 'tmp', 'TEST-2.xml')}`) >= 0, 'should have kept the absolute path below the results folder');
+        }, tr, done);
+    });
+
+    it('Fails when a result file cannot be downloaded', (done) => {
+        process.env['commands'] = 'ls -l';
+        process.env['sshEndpoint'] = 'IDValidKey';
+        process.env['runOptions'] = 'commands';
+        process.env['readyTimeout'] = '20000';
+        process.env['environmentVariables'] = 'Build.BuildId';
+        process.env['resultFiles'] = 'logs/*.log';
+        process.env['remoteFiles'] = JSON.stringify({ 'logs/*.log': ['logs/build.log'] });
+        process.env['failedDownloads'] = JSON.stringify(['logs/build.log']);
+
+        let tp = path.join(__dirname, 'L0SshRunner.js');
+        var tr = new tmrm.MockTestRunner(tp);
+
+        tr.run();
+        delete process.env['environmentVariables'];
+        delete process.env['resultFiles'];
+        delete process.env['remoteFiles'];
+        delete process.env['failedDownloads'];
+
+        runValidations(() => {
+            assert(tr.failed, 'task should have failed');
+            assert(tr.stdout.indexOf('loc_mock_VariableNotFound Build.BuildId') >= 0, 'should have warned about the missing variable');
+            assert(tr.stdout.indexOf('remote: write') < 0, 'should not have written an environment file');
+            assert(tr.stdout.indexOf('loc_mock_DownloadResultFilesFailed loc_mock_RemoteDownloadFailed logs/build.log Error: Permission denied') >= 0, 'wrong error message: "' + tr.stdout + '"');
+        }, tr, done);
+    });
+});
@@ -1,6 +1,7 @@
 import ma = require('azure-pipelines-task-lib/mock-answer');
 import tmrm = require('azure-pipelines-task-lib/mock-run');
 import path = require('path');
+import { createFakeSsh2Module } from './mock_ssh';
 
 let taskPath = path.join(__dirname, '..', 'ssh.js');
 let tmr: tmrm.TaskMockRunner = new tmrm.TaskMockRunner(taskPath);
@@ -17,6 +18,18 @@ if (process.env['runOptions']) {
 if (process.env['readyTimeout']) {
     tmr.setInput('readyTimeout', process.env['readyTimeout']);
 }
+if (process.env['environmentVariables']) {
+    tmr.setInput('environmentVariables', process.env['environmentVariables']);
+}
+if (process.env['resultFiles']) {
+    tmr.setInput('resultFiles', process.env['resultFiles']);
+    tmr.setInput('resultsFolder', path.join(__dirname, 'results'));
+}
+if (process.env['remoteFiles']) {
+    tmr.registerMock('ssh2', createFakeSsh2Module(
+        JSON.parse(process.env['remoteFiles']),
+        JSON.parse(process.env['failedDownloads'] || '[]')));
+}
 
 const tl = require('azure-pipelines-task-lib/mock-task');
 const tlClone = Object.assign({}, tl);
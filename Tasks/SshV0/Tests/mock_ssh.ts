@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Splits a command line into words the way the shell does for the quoting the task uses.
+ */
+function splitCommandLine(command: string): string[] {
+    const words: string[] = [];
+    let word: string = null;
+    let quote: string = null;
+    for (let i = 0; i < command.length; i++) {
+        const c: string = command[i];
+        if (quote) {
+            if (c === quote) {
+                quote = null;
+            } else {
+                word += c;
+            }
+        } else if (c === '\'' || c === '"') {
+            quote = c;
+            word = word || '';
+        } else if (c === '\\') {
+            word = (word || '') + command[++i];
+        } else if (c === ' ') {
+            if (word !== null) {
+                words.push(word);
+            }
+            word = null;
+        } else {
+            word = (word || '') + c;
+        }
+    }
+    if (word !== null) {
+        words.push(word);
+    }
+
+    return words;
+}
+
+/**
+ * Fake of the ssh2 client, which logs the commands and the SFTP operations, so that the tests can assert on them.
+ * @param remoteFiles files on the remote machine found by each result files pattern
+ * @param failedDownloads files on the remote machine that fail to download
+ */
+export function createFakeSsh2Module(remoteFiles: { [pattern: string]: string[] }, failedDownloads: string[]): any {
+    const writtenFiles: { [remotePath: string]: string } = {};
+
+    function runRemoteCommand(command: string): { output: string, code: number } {
+        console.log('remote: exec ' + command);
+
+        const source: RegExpMatchArray = command.match(/^\. "([^"]+)"; /);
+        if (source) {
+            if (writtenFiles[source[1]] === undefined) {
+                return { output: '', code: 1 };
+            }
+            console.log(`remote: sourced ${source[1]}`);
+            command = command.substring(source[0].length);
+        }
+
+        const words: string[] = splitCommandLine(command);
+        if (words[0] === 'bash' && words.indexOf('-c') > -1) {
+            const patterns: string[] = words.slice(words.indexOf('-c') + 3);
+            patterns.forEach(pattern => console.log('remote: find ' + pattern));
+            const files: string[] = patterns
+                .map(pattern => remoteFiles[pattern] || [])
+                .reduce((a, b) => a.concat(b), []);
+            return { output: files.map(file => file + '\n').join(''), code: 0 };
+        }
+        if (words[0] === 'rm' && words[1] === '-f') {
+            console.log('remote: remove ' + words[2]);
+            delete writtenFiles[words[2]];
+        }
+
+        return { output: '', code: 0 };
+    }
+
+    function createFakeSftp(): any {
+        return {
+            writeFile: (remotePath: string, content: string, options: { mode: number }, callback: (err: any) => void) => {
+                console.log(`remote: write ${remotePath} mode ${options.mode.toString(8)}: ${content}`);
+                writtenFiles[remotePath] = content;
+                process.nextTick(() => callback(null));
+            },
+            fastGet: (remotePath: string, localPath: string, callback: (err: any) => void) => {
+                console.log(`remote: download ${remotePath} to ${localPath}`);
+                process.nextTick(() => callback(failedDownloads.indexOf(remotePath) > -1 ? new Error('Permission denied') : null));
+            },
+            end: () => { }
+        };
+    }
+
+    class Client extends EventEmitter {
+        connect(config: any): void {
+            console.log(`remote: connected to ${config.host}:${config.port} as ${config.username}`);
+            process.nextTick(() => this.emit('ready'));
+        }
+
+        exec(command: string, options: any, callback?: (err: any, stream?: any) => void): void {
+            callback = callback || options;
+            const stream: any = new EventEmitter();
+            stream.stderr = new EventEmitter();
+            callback(null, stream);
+
+            const result = runRemoteCommand(command);
+            process.nextTick(() => {
+                if (result.output) {
+                    stream.emit('data', result.output);
+                }
+                stream.emit('close', result.code, null);
+            });
+        }
+
+        sftp(callback: (err: any, sftp?: any) => void): void {
+            callback(null, createFakeSftp());
+        }
+
+        end(): void {
+        }
+    }
+
+    return { Client: Client };
+}
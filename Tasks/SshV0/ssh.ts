@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as tl from 'azure-pipelines-task-lib/task';
 import * as fs from 'fs';
 import * as sshHelper from './ssh2helpers';
+import { quoteShellArgument } from 'ssh-common/ssh-common';
 import { v4 as generateRandomUUID } from 'uuid';
 import { ConnectConfig } from 'ssh2';
 
@@ -16,6 +17,9 @@ const DEFAULT_SSH_PORT: number = 22;
 async function run() {
     let sshClientConnection: any;
     let cleanUpScriptCmd: string;
+    let remoteEnvironmentFile: string;
+    let resultFiles: string[] = [];
+    let resultsFolder: string;
     const remoteCmdOptions: sshHelper.RemoteCommandOptions = new sshHelper.RemoteCommandOptions();
 
     try {
@@ -90,6 +94,11 @@ async function run() {
         const failOnStdErr: boolean = tl.getBoolInput('failOnStdErr');
         remoteCmdOptions.failOnStdErr = failOnStdErr;
 
+        //read the pipeline variables to export on the remote machine and the result files to download
+        const environmentExports: string = getEnvironmentExports(tl.getDelimitedInput('environmentVariables', '\n', false));
+        resultFiles = tl.getDelimitedInput('resultFiles', '\n', false).map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
+        resultsFolder = tl.getPathInput('resultsFolder', false) || tl.getVariable('System.DefaultWorkingDirectory');
+
         //setup the SSH connection
         console.log(tl.loc('SettingUpSshConnection', sshConfig.username, sshConfig.host, sshConfig.port));
         try {
@@ -101,13 +110,27 @@ async function run() {
         if (sshClientConnection) {
             //SSH connection successful
             console.log(tl.loc('SshConnectionSuccessful'));
+
+            //copy the exports to a file on the remote machine, so that the values are not on the command lines
+            let sourceEnvironmentCmd: string = '';
+            if (environmentExports) {
+                tl.debug('Copying environment variables to remote machine.');
+                try {
+                    remoteEnvironmentFile = await sshHelper.writeFileOnRemoteMachine(
+                        `./.sshenv_${generateRandomUUID()}`, environmentExports, sshClientConnection);
+                } catch (err) {
+                    throw tl.loc('RemoteEnvironmentFileCopyFailed', err);
+                }
+                sourceEnvironmentCmd = `. "${remoteEnvironmentFile}"; `;
+            }
+
             if (runOptions === 'commands') {
                 //run commands specified by the user
                 for (const command of commands) {
                     tl.debug(`Running command ${command} on remote machine.`);
                     console.log(command);
                     const returnCode: string = await sshHelper.runCommandOnRemoteMachine(
-                        command, sshClientConnection, remoteCmdOptions);
+                        sourceEnvironmentCmd + command, sshClientConnection, remoteCmdOptions);
                     tl.debug(`Command ${command} completed with return code = ${returnCode}`);
                 }
             } else {
@@ -168,13 +191,29 @@ async function run() {
 
                 console.log(runScriptCmd);
                 await sshHelper.runCommandOnRemoteMachine(
-                    runScriptCmd, sshClientConnection, remoteCmdOptions, password, interactiveSession);
+                    sourceEnvironmentCmd + runScriptCmd, sshClientConnection, remoteCmdOptions, password, interactiveSession);
             }
         }
 
     } catch (err) {
         tl.setResult(tl.TaskResult.Failed, err);
     } finally {
+        //clean up environment variables file if needed
+        if (remoteEnvironmentFile) {
+            try {
+                tl.debug('Deleting the environment variables file copied to the remote machine.');
+                await sshHelper.runCommandOnRemoteMachine(
+                    `rm -f "${remoteEnvironmentFile}"`, sshClientConnection, remoteCmdOptions);
+            } catch (err) {
+                tl.warning(tl.loc('RemoteEnvironmentFileCleanUpFailed', err));
+            }
+        }
+
+        //download the result files, also when the commands failed
+        if (sshClientConnection && resultFiles.length > 0) {
+            await downloadResultFiles(resultFiles, resultsFolder, sshClientConnection);
+        }
+
         //clean up script file if needed
         if (cleanUpScriptCmd) {
             try {
@@ -194,6 +233,69 @@ async function run() {
     }
 }
 
+/**
+ * Downloads the files on the remote machine matching the patterns, fails the task if a download fails
+ * @param {string[]} patterns - glob patterns of the result files on the remote machine
+ * @param {string} resultsFolder - local folder to download the files to
+ * @param {any} sshClientConnection - connected SSH client
+ */
+async function downloadResultFiles(patterns: string[], resultsFolder: string, sshClientConnection: any): Promise<void> {
+    try {
+        const remoteFiles: string[] = await sshHelper.findRemoteFiles(patterns, sshClientConnection);
+        if (remoteFiles.length === 0) {
+            tl.warning(tl.loc('NoResultFilesFound'));
+            return;
+        }
+
+        console.log(tl.loc('DownloadingResultFiles', remoteFiles.length, resultsFolder));
+        const localFiles: string[] = await sshHelper.downloadFilesFromRemoteMachine(remoteFiles, resultsFolder, sshClientConnection);
+        localFiles.forEach(localFile => console.log(localFile));
+    } catch (err) {
+        tl.setResult(tl.TaskResult.Failed, tl.loc('DownloadResultFilesFailed', err));
+    }
+}
+
+/**
+ * Gets the shell command exporting the pipeline variables as environment variables, to source before the remote commands.
+ * Variable names are converted like the agent does for its environment, e.g. Build.BuildId becomes BUILD_BUILDID.
+ * Values of secret variables are masked in the logs.
+ * @param {string[]} variableNames - names of the pipeline variables
+ * @returns {string} export command, or empty string if there is nothing to export
+ */
+function getEnvironmentExports(variableNames: string[]): string {
+    const secretNames: string[] = tl.getVariables()
+        .filter(variable => variable.secret)
+        .map(variable => variable.name.replace(/\./g, '_').toUpperCase());
+    const assignments: string[] = [];
+    const exportedNames: string[] = [];
+
+    for (const variableName of variableNames.map(name => name.trim()).filter(name => name.length > 0)) {
+        const environmentName: string = variableName.replace(/\./g, '_').toUpperCase();
+        if (!/^[A-Z_][A-Z0-9_]*$/.test(environmentName)) {
+            throw tl.loc('InvalidEnvironmentVariableName', variableName);
+        }
+
+        const value: string = tl.getVariable(variableName);
+        if (value === undefined) {
+            tl.warning(tl.loc('VariableNotFound', variableName));
+            continue;
+        }
+        if (secretNames.indexOf(environmentName) > -1) {
+            tl.setSecret(value);
+        }
+
+        assignments.push(`${environmentName}=${quoteShellArgument(value)}`);
+        exportedNames.push(environmentName);
+    }
+
+    if (assignments.length === 0) {
+        return '';
+    }
+
+    console.log(tl.loc('ExportingEnvironmentVariables', exportedNames.join(', ')));
+    return `export ${assignments.join(' ')}\n`;
+}
+
 function tryDeleteFile(filePath: string): void {
     if (fs.existsSync(filePath)) {
         try {
@@ -1,7 +1,9 @@
 import * as tl from 'azure-pipelines-task-lib/task';
+import * as path from 'path';
 import * as Q from 'q';
 import * as scp2 from 'scp2';
 import * as ssh2 from 'ssh2';
+import { quoteShellArgument } from 'ssh-common/ssh-common';
 
 export class RemoteCommandOptions {
     public failOnStdErr: boolean;
@@ -174,6 +176,132 @@ export function runCommandOnRemoteMachine(
     return defer.promise;
 }
 
+/**
+ * Runs command on remote machine and returns what it writes to STDOUT
+ * @param command
+ * @param sshClient
+ * @returns {Promise<string>}
+ */
+export function getRemoteCommandOutput(command: string, sshClient: ssh2.Client): Q.Promise<string> {
+    const defer = Q.defer<string>();
+    let output: string = '';
+
+    tl.debug('command = ' + command);
+    sshClient.exec(command, (err, stream) => {
+        if (err) {
+            defer.reject(tl.loc('RemoteCmdExecutionErr', err));
+            return;
+        }
+        stream.on('close', (code, signal) => {
+            tl.debug('code = ' + code + ', signal = ' + signal);
+            if (code && code !== 0) {
+                defer.reject(tl.loc('RemoteCmdNonZeroExitCode', command, code));
+            } else {
+                defer.resolve(output);
+            }
+        }).on('data', (data) => {
+            output += data.toString('utf8');
+        }).stderr.on('data', (data) => {
+            tl.debug('stderr = ' + data);
+        });
+    });
+    return defer.promise;
+}
+
+/**
+ * Opens an SFTP session on the SSH connection
+ * @param sshClient
+ * @returns {Promise<any>}
+ */
+function openSftpSession(sshClient: ssh2.Client): Q.Promise<any> {
+    const defer = Q.defer<any>();
+    sshClient.sftp((err, sftp) => {
+        if (err) {
+            defer.reject(err);
+        } else {
+            defer.resolve(sftp);
+        }
+    });
+    return defer.promise;
+}
+
+/**
+ * Writes the content to a file on remote machine over SFTP, the file is readable only by the user
+ * @param remoteFile path of the file on remote machine, relative to user's $HOME directory
+ * @param content
+ * @param sshClient
+ * @returns {Promise<string>} path of the file
+ */
+export async function writeFileOnRemoteMachine(remoteFile: string, content: string, sshClient: ssh2.Client): Promise<string> {
+    const sftp = await openSftpSession(sshClient);
+    try {
+        const defer = Q.defer<string>();
+        sftp.writeFile(remoteFile, content, { mode: 0o600 }, (err) => {
+            if (err) {
+                defer.reject(err);
+            } else {
+                tl.debug('Wrote file on remote machine at: ' + remoteFile);
+                defer.resolve(remoteFile);
+            }
+        });
+        return await defer.promise;
+    } finally {
+        sftp.end();
+    }
+}
+
+/**
+ * Finds the files on remote machine matching the patterns, which bash expands relative to user's $HOME directory
+ * @param patterns bash glob patterns, '**' matches any number of folders
+ * @param sshClient
+ * @returns {Promise<string[]>} paths of the matching files
+ */
+export async function findRemoteFiles(patterns: string[], sshClient: ssh2.Client): Promise<string[]> {
+    // the patterns are passed as arguments and expanded without word splitting, so that they are never run as commands
+    const script: string = `IFS=; for p in "$@"; do for f in \${p/#\\~/$HOME}; do [ -f "$f" ] && printf '%s\\n' "$f"; done; done; true`;
+    const command: string = `bash -O globstar -O nullglob -O dotglob -c ${quoteShellArgument(script)} bash ${patterns.map(quoteShellArgument).join(' ')}`;
+    const output: string = await getRemoteCommandOutput(command, sshClient);
+
+    return output.split('\n').filter(file => file.length > 0);
+}
+
+/**
+ * Downloads files from remote machine over SFTP
+ * @param remoteFiles paths of the files on remote machine
+ * @param localFolder folder to download to, the paths of the files are kept below it
+ * @param sshClient
+ * @returns {Promise<string[]>} paths of the downloaded files
+ */
+export async function downloadFilesFromRemoteMachine(remoteFiles: string[], localFolder: string, sshClient: ssh2.Client): Promise<string[]> {
+    const sftp = await openSftpSession(sshClient);
+
+    const localFiles: string[] = [];
+    try {
+        for (const remoteFile of remoteFiles) {
+            // keep files with absolute paths or paths outside of $HOME below the local folder
+            const relativePath: string = path.posix.normalize(remoteFile).replace(/^(\.\.\/|\/)+/, '');
+            const localFile: string = path.join(localFolder, relativePath);
+            tl.debug(`Downloading ${remoteFile} to ${localFile}.`);
+            tl.mkdirP(path.dirname(localFile));
+
+            const defer = Q.defer<void>();
+            sftp.fastGet(remoteFile, localFile, (err) => {
+                if (err) {
+                    defer.reject(tl.loc('RemoteDownloadFailed', remoteFile, err));
+                } else {
+                    defer.resolve();
+                }
+            });
+            await defer.promise;
+            localFiles.push(localFile);
+        }
+    } finally {
+        sftp.end();
+    }
+
+    return localFiles;
+}
+
 /**
  * Interface for working with scp2 package API
  *